@@ -0,0 +1,22 @@
+-- Transactional outbox: domain events are written in the same transaction
+-- as the aggregate that raised them and delivered afterwards by the relay
+CREATE TABLE "outbox" (
+  "id" character varying NOT NULL,
+  "eventName" character varying NOT NULL,
+  "aggregateId" character varying NOT NULL,
+  "aggregateType" character varying NOT NULL,
+  "payload" jsonb NOT NULL,
+  "correlationId" character varying,
+  "status" character varying NOT NULL DEFAULT 'pending',
+  "attempts" integer NOT NULL DEFAULT 0,
+  "lastError" text,
+  "availableAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  "deliveredAt" TIMESTAMP WITH TIME ZONE,
+  "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_outbox_id" PRIMARY KEY ("id"),
+  CONSTRAINT "CHK_outbox_status" CHECK ("status" IN ('pending', 'delivered', 'failed'))
+);
+
+-- Partial index used by the relay to pick up due messages
+CREATE INDEX "IDX_outbox_pending" ON "outbox" ("availableAt", "createdAt") WHERE "status" = 'pending';
+CREATE INDEX "IDX_outbox_aggregate" ON "outbox" ("aggregateId", "createdAt");
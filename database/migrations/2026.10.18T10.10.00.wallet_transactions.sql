@@ -0,0 +1,36 @@
+-- Append-only ledger of wallet balance changes.
+-- A wallet balance always equals the sum of its ledger entries.
+CREATE TABLE "wallet_transactions" (
+  "id" character varying NOT NULL,
+  "walletId" character varying NOT NULL,
+  "type" character varying NOT NULL,
+  "amount" integer NOT NULL,
+  "balanceAfter" integer NOT NULL,
+  "reference" character varying,
+  "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_wallet_transactions_id" PRIMARY KEY ("id"),
+  CONSTRAINT "FK_wallet_transactions_wallet" FOREIGN KEY ("walletId") REFERENCES "wallets"("id"),
+  CONSTRAINT "CHK_wallet_transactions_type" CHECK ("type" IN ('credit', 'debit')),
+  CONSTRAINT "CHK_wallet_transactions_amount" CHECK ("amount" > 0),
+  CONSTRAINT "CHK_wallet_transactions_balance" CHECK ("balanceAfter" >= 0)
+);
+
+CREATE INDEX "IDX_wallet_transactions_wallet" ON "wallet_transactions" ("walletId", "createdAt" DESC);
+CREATE INDEX "IDX_wallet_transactions_reference" ON "wallet_transactions" ("reference") WHERE "reference" IS NOT NULL;
+
+-- Ledger entries are immutable
+CREATE FUNCTION "wallet_transactions_append_only"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'wallet_transactions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "TRG_wallet_transactions_append_only"
+BEFORE UPDATE OR DELETE ON "wallet_transactions"
+FOR EACH ROW EXECUTE FUNCTION "wallet_transactions_append_only"();
+
+-- Opening entries for existing balances so they match the ledger
+INSERT INTO "wallet_transactions" ("id", "walletId", "type", "amount", "balanceAfter", "reference")
+SELECT gen_random_uuid()::text, "id", 'credit', "balance", "balance", 'opening-balance'
+FROM "wallets"
+WHERE "balance" > 0;
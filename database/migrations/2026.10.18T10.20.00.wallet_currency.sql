@@ -0,0 +1,11 @@
+-- Money is stored in minor units of an ISO-4217 currency
+ALTER TABLE "wallets"
+ALTER COLUMN "balance" TYPE bigint,
+ADD COLUMN "currency" character(3) NOT NULL DEFAULT 'USD';
+
+ALTER TABLE "wallet_transactions"
+ALTER COLUMN "amount" TYPE bigint,
+ALTER COLUMN "balanceAfter" TYPE bigint,
+ADD COLUMN "currency" character(3) NOT NULL DEFAULT 'USD';
+
+CREATE INDEX IF NOT EXISTS "IDX_wallets_currency" ON "wallets" ("currency");
@@ -0,0 +1,6 @@
+-- Version of an aggregate used for optimistic concurrency control
+ALTER TABLE "users"
+ADD COLUMN "version" integer NOT NULL DEFAULT 1 CHECK ("version" > 0);
+
+ALTER TABLE "wallets"
+ADD COLUMN "version" integer NOT NULL DEFAULT 1 CHECK ("version" > 0);
@@ -0,0 +1,7 @@
+-- Email verification tokens are stored hashed and expire like password reset tokens
+ALTER TABLE "users"
+ADD COLUMN "emailVerificationTokenExpiresAt" TIMESTAMP WITH TIME ZONE;
+
+-- Tokens issued before this migration were stored in plain text, invalidate them
+UPDATE "users" SET "emailVerificationToken" = NULL
+WHERE "emailVerificationToken" IS NOT NULL;
@@ -0,0 +1,11 @@
+-- Hashes of previous passwords, checked when a user changes their password
+CREATE TABLE "password_history" (
+  "id" character varying NOT NULL,
+  "userId" character varying NOT NULL,
+  "passwordHash" character varying NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp(),
+  CONSTRAINT "PK_password_history_id" PRIMARY KEY ("id"),
+  CONSTRAINT "FK_password_history_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX "IDX_password_history_user" ON "password_history" ("userId", "createdAt" DESC);
@@ -0,0 +1,8 @@
+-- Index for keyset pagination of users, newest first.
+-- idx_users_created_at_desc was declared on "created_at"/"deleted_at",
+-- which do not exist on "users", so it is recreated on the real columns.
+-- "id" makes the order total, rows created at the same time stay in order.
+DROP INDEX IF EXISTS idx_users_created_at_desc;
+
+CREATE INDEX idx_users_created_at_desc
+ON "users" ("createdAt" DESC, "id" DESC);
@@ -0,0 +1,13 @@
+-- Users are soft deleted and anonymized after a retention period
+ALTER TABLE "users"
+ADD COLUMN "deletedAt" TIMESTAMP WITH TIME ZONE,
+ADD COLUMN "anonymizedAt" TIMESTAMP WITH TIME ZONE;
+
+-- Deleted users waiting for anonymization
+CREATE INDEX idx_users_deleted_at
+ON "users" ("deletedAt")
+WHERE "deletedAt" IS NOT NULL AND "anonymizedAt" IS NULL;
+
+-- Wallets of deleted users are closed
+ALTER TABLE "wallets"
+ADD COLUMN "closedAt" TIMESTAMP WITH TIME ZONE;
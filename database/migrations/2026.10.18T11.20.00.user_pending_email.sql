@@ -0,0 +1,3 @@
+-- New email of a user waiting for verification
+ALTER TABLE "users"
+ADD COLUMN "pendingEmail" character varying;
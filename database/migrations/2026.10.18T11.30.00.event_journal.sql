@@ -0,0 +1,18 @@
+-- Event journal: every executed command and every recorded domain event
+-- with the command or event that caused it, so the chain started by a
+-- request can be reconstructed from its correlation id
+CREATE TABLE "event_journal" (
+  "id" character varying NOT NULL,
+  "kind" character varying NOT NULL,
+  "name" character varying NOT NULL,
+  "correlationId" character varying NOT NULL,
+  "causationId" character varying,
+  "aggregateId" character varying,
+  "userId" character varying,
+  "occurredAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_event_journal_id" PRIMARY KEY ("id"),
+  CONSTRAINT "CHK_event_journal_kind" CHECK ("kind" IN ('command', 'event'))
+);
+
+CREATE INDEX "IDX_event_journal_correlation" ON "event_journal" ("correlationId", "occurredAt");
@@ -0,0 +1,28 @@
+-- Event store: streams of domain events of event-sourced aggregates.
+-- A stream version is the position of an event in its stream, the primary key
+-- makes concurrent appends of the same version fail
+CREATE TABLE "event_store" (
+  "streamId" character varying NOT NULL,
+  "version" integer NOT NULL,
+  "aggregateType" character varying NOT NULL,
+  "eventId" character varying NOT NULL,
+  "eventName" character varying NOT NULL,
+  "payload" jsonb NOT NULL,
+  "occurredAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_event_store_stream_version" PRIMARY KEY ("streamId", "version"),
+  CONSTRAINT "UQ_event_store_eventId" UNIQUE ("eventId"),
+  CONSTRAINT "CHK_event_store_version" CHECK ("version" > 0)
+);
+
+CREATE INDEX "IDX_event_store_aggregate_type" ON "event_store" ("aggregateType", "eventName");
+
+-- Latest snapshot of a stream, events up to "version" are not replayed
+CREATE TABLE "event_store_snapshots" (
+  "streamId" character varying NOT NULL,
+  "aggregateType" character varying NOT NULL,
+  "version" integer NOT NULL,
+  "state" jsonb NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_event_store_snapshots_streamId" PRIMARY KEY ("streamId")
+);
@@ -0,0 +1,82 @@
+-- Read models maintained by projectors from domain events (see ProjectionRunner).
+-- "user_statistics" and "wallet_summary" were materialized views refreshed by
+-- hand, they become plain views over the tables of their projections.
+CREATE TABLE "projection_checkpoints" (
+  "name" character varying NOT NULL,
+  "lastEventId" character varying,
+  "lastEventName" character varying,
+  "eventsProcessed" bigint NOT NULL DEFAULT 0,
+  "rebuiltAt" TIMESTAMP WITH TIME ZONE,
+  "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_projection_checkpoints_name" PRIMARY KEY ("name")
+);
+
+CREATE TABLE "user_statistics_projection" (
+  "userId" character varying NOT NULL,
+  "country" character varying NOT NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+  "deletedAt" TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT "PK_user_statistics_projection_userId" PRIMARY KEY ("userId")
+);
+
+CREATE INDEX "IDX_user_statistics_projection_country" ON "user_statistics_projection" ("country") WHERE "deletedAt" IS NULL;
+
+CREATE TABLE "wallet_summary_projection" (
+  "walletId" character varying NOT NULL,
+  "currency" character(3) NOT NULL,
+  "balance" bigint NOT NULL DEFAULT 0,
+  CONSTRAINT "PK_wallet_summary_projection_walletId" PRIMARY KEY ("walletId")
+);
+
+CREATE INDEX "IDX_wallet_summary_projection_currency" ON "wallet_summary_projection" ("currency");
+
+-- Users and wallets created before the outbox existed have no events,
+-- they are copied once so the projections start from the current state
+INSERT INTO "user_statistics_projection" ("userId", "country", "createdAt", "deletedAt")
+SELECT "id", "country", "createdAt", "deletedAt" FROM "users";
+
+INSERT INTO "wallet_summary_projection" ("walletId", "currency", "balance")
+SELECT "id", "currency", "balance" FROM "wallets";
+
+CREATE OR REPLACE FUNCTION perform_maintenance()
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  ANALYZE users;
+  ANALYZE wallets;
+
+  RAISE NOTICE 'Database maintenance completed at %', NOW();
+END;
+$$;
+
+DROP FUNCTION IF EXISTS refresh_user_statistics();
+DROP FUNCTION IF EXISTS refresh_wallet_summary();
+DROP MATERIALIZED VIEW IF EXISTS user_statistics;
+DROP MATERIALIZED VIEW IF EXISTS wallet_summary;
+
+CREATE VIEW user_statistics AS
+SELECT
+  "country",
+  COUNT(*) AS user_count,
+  COUNT(CASE WHEN "createdAt" > CURRENT_DATE - INTERVAL '30 days' THEN 1 END) AS recent_users,
+  MIN("createdAt") AS first_user_date,
+  MAX("createdAt") AS latest_user_date
+FROM "user_statistics_projection"
+WHERE "deletedAt" IS NULL
+GROUP BY "country";
+
+CREATE VIEW wallet_summary AS
+SELECT
+  "currency",
+  COUNT(*) AS wallet_count,
+  SUM("balance") AS total_balance,
+  AVG("balance") AS average_balance,
+  MIN("balance") AS min_balance,
+  MAX("balance") AS max_balance,
+  COUNT(CASE WHEN "balance" > 0 THEN 1 END) AS funded_wallets
+FROM "wallet_summary_projection"
+GROUP BY "currency";
+
+GRANT SELECT ON user_statistics TO PUBLIC;
+GRANT SELECT ON wallet_summary TO PUBLIC;
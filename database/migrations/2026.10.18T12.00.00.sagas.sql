@@ -0,0 +1,23 @@
+-- State of long running workflows spanning several aggregates (see SagaManager).
+-- "step" is the index of the current step, or of the step being compensated.
+CREATE TABLE "sagas" (
+  "id" character varying NOT NULL,
+  "type" character varying NOT NULL,
+  "key" character varying NOT NULL,
+  "status" character varying NOT NULL,
+  "step" integer NOT NULL,
+  "state" jsonb NOT NULL,
+  "correlationId" character varying NOT NULL,
+  "attempts" integer NOT NULL DEFAULT 0,
+  "lastError" text,
+  "deadlineAt" TIMESTAMP WITH TIME ZONE,
+  "nextAttemptAt" TIMESTAMP WITH TIME ZONE,
+  "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT "PK_sagas_id" PRIMARY KEY ("id"),
+  CONSTRAINT "UQ_sagas_type_key" UNIQUE ("type", "key"),
+  CONSTRAINT "CHK_sagas_status" CHECK ("status" IN ('running', 'compensating', 'completed', 'compensated', 'failed'))
+);
+
+-- Partial index used by the manager to pick up sagas to resume
+CREATE INDEX "IDX_sagas_due" ON "sagas" ("nextAttemptAt") WHERE "status" IN ('running', 'compensating');
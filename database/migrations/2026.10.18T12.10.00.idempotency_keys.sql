@@ -0,0 +1,32 @@
+-- Results of requests sent with an idempotency key (see IdempotencyInterceptor).
+-- "fingerprint" is a hash of the payload and of the caller, a key reused
+-- with another payload is rejected. A key being processed expires quickly,
+-- so a crashed request does not block retries.
+CREATE TABLE "idempotency_keys" (
+  "scope" character varying NOT NULL,
+  "key" character varying NOT NULL,
+  "fingerprint" character(64) NOT NULL,
+  "status" character varying NOT NULL,
+  "response" jsonb,
+  "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  "completedAt" TIMESTAMP WITH TIME ZONE,
+  "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+  CONSTRAINT "PK_idempotency_keys_scope_key" PRIMARY KEY ("scope", "key"),
+  CONSTRAINT "CHK_idempotency_keys_status" CHECK ("status" IN ('processing', 'completed'))
+);
+
+CREATE INDEX "IDX_idempotency_keys_expiresAt" ON "idempotency_keys" ("expiresAt");
+
+CREATE OR REPLACE FUNCTION perform_maintenance()
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM "idempotency_keys" WHERE "expiresAt" <= now();
+
+  ANALYZE users;
+  ANALYZE wallets;
+
+  RAISE NOTICE 'Database maintenance completed at %', NOW();
+END;
+$$;
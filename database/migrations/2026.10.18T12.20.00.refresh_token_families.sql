@@ -0,0 +1,9 @@
+-- Refresh tokens rotated from the same login share a family,
+-- revoked as a whole when one of its rotated tokens is reused.
+-- Existing tokens start a family of their own
+ALTER TABLE "refresh_tokens"
+ADD COLUMN "familyId" character varying;
+UPDATE "refresh_tokens" SET "familyId" = "id";
+ALTER TABLE "refresh_tokens"
+ALTER COLUMN "familyId" SET NOT NULL;
+CREATE INDEX "IDX_refresh_tokens_familyId" ON "refresh_tokens" ("familyId");
@@ -0,0 +1,5 @@
+-- Address an email verification token was sent to, a pending email
+-- is only verified by a token sent to it. Tokens issued before this
+-- migration still verify the account, but no longer change its email
+ALTER TABLE "users"
+ADD COLUMN "emailVerificationTokenSentTo" character varying;
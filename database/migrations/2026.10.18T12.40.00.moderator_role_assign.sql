@@ -0,0 +1,5 @@
+-- Changing the role of a user requires the role:assign permission,
+-- moderators may promote guests (see UserCanChangeRoleSpecification)
+INSERT INTO "role_permissions" ("roleId", "permissionId")
+VALUES ('role-moderator-001', 'perm-role-005')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,5 @@
+-- An operation with a reference is recorded once per wallet,
+-- so retried saga steps cannot debit or credit a wallet twice
+CREATE UNIQUE INDEX "UQ_wallet_transactions_reference"
+ON "wallet_transactions" ("walletId", "reference", "type")
+WHERE "reference" IS NOT NULL;
@@ -0,0 +1,2 @@
+DROP TABLE "wallet_transactions";
+DROP FUNCTION "wallet_transactions_append_only"();
\ No newline at end of file
@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS "IDX_wallets_currency";
+ALTER TABLE "wallet_transactions" DROP COLUMN "currency", ALTER COLUMN "amount" TYPE integer, ALTER COLUMN "balanceAfter" TYPE integer;
+ALTER TABLE "wallets" DROP COLUMN "currency", ALTER COLUMN "balance" TYPE integer;
\ No newline at end of file
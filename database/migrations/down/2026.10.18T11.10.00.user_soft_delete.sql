@@ -0,0 +1,3 @@
+ALTER TABLE "wallets" DROP COLUMN "closedAt";
+DROP INDEX IF EXISTS idx_users_deleted_at;
+ALTER TABLE "users" DROP COLUMN "anonymizedAt", DROP COLUMN "deletedAt";
@@ -0,0 +1 @@
+DROP TABLE "event_journal"
\ No newline at end of file
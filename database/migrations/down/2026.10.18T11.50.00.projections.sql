@@ -0,0 +1,69 @@
+DROP VIEW IF EXISTS user_statistics;
+DROP VIEW IF EXISTS wallet_summary;
+
+CREATE MATERIALIZED VIEW user_statistics AS
+SELECT
+  country,
+  COUNT(*) as user_count,
+  COUNT(CASE WHEN created_at > CURRENT_DATE - INTERVAL '30 days' THEN 1 END) as recent_users,
+  MIN(created_at) as first_user_date,
+  MAX(created_at) as latest_user_date
+FROM users
+WHERE deleted_at IS NULL
+GROUP BY country;
+
+CREATE UNIQUE INDEX idx_user_statistics_country ON user_statistics (country);
+
+CREATE OR REPLACE FUNCTION refresh_user_statistics()
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY user_statistics;
+END;
+$$;
+
+CREATE MATERIALIZED VIEW wallet_summary AS
+SELECT
+  currency,
+  COUNT(*) as wallet_count,
+  SUM(balance) as total_balance,
+  AVG(balance) as average_balance,
+  MIN(balance) as min_balance,
+  MAX(balance) as max_balance,
+  COUNT(CASE WHEN balance > 0 THEN 1 END) as funded_wallets
+FROM wallets
+GROUP BY currency;
+
+CREATE UNIQUE INDEX idx_wallet_summary_currency ON wallet_summary (currency);
+
+CREATE OR REPLACE FUNCTION refresh_wallet_summary()
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY wallet_summary;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION perform_maintenance()
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM refresh_user_statistics();
+  PERFORM refresh_wallet_summary();
+
+  ANALYZE users;
+  ANALYZE wallets;
+
+  RAISE NOTICE 'Database maintenance completed at %', NOW();
+END;
+$$;
+
+GRANT SELECT ON user_statistics TO PUBLIC;
+GRANT SELECT ON wallet_summary TO PUBLIC;
+
+DROP TABLE "wallet_summary_projection";
+DROP TABLE "user_statistics_projection";
+DROP TABLE "projection_checkpoints";
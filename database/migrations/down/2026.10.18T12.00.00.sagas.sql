@@ -0,0 +1 @@
+DROP TABLE "sagas"
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE OR REPLACE FUNCTION perform_maintenance()
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  ANALYZE users;
+  ANALYZE wallets;
+
+  RAISE NOTICE 'Database maintenance completed at %', NOW();
+END;
+$$;
+
+DROP TABLE "idempotency_keys";
@@ -0,0 +1,2 @@
+DROP INDEX "IDX_refresh_tokens_familyId";
+ALTER TABLE "refresh_tokens" DROP COLUMN "familyId";
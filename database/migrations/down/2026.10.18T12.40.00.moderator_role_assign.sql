@@ -0,0 +1,2 @@
+DELETE FROM "role_permissions"
+WHERE "roleId" = 'role-moderator-001' AND "permissionId" = 'perm-role-005';
@@ -0,0 +1 @@
+DROP INDEX "UQ_wallet_transactions_reference";
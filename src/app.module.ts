@@ -3,7 +3,7 @@ import { CqrsModule } from '@nestjs/cqrs';
 import { EventEmitterModule } from '@nestjs/event-emitter';
 import { UserModule } from '@modules/user/user.module';
 import { WalletModule } from '@modules/wallet/wallet.module';
-import { RequestContextModule } from 'nestjs-request-context';
+import { AuthModule } from '@modules/auth/auth.module';
 import { APP_INTERCEPTOR } from '@nestjs/core';
 import { ContextInterceptor } from './libs/application/context/ContextInterceptor';
 import { ExceptionInterceptor } from '@libs/application/interceptors/exception.interceptor';
@@ -12,6 +12,12 @@ import { DatabaseModule } from '@libs/database';
 import { GraphQLModule } from '@nestjs/graphql';
 import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo';
 import { SecurityModule } from '@libs/security/security.module';
+import { OutboxModule } from '@libs/db/outbox';
+import { JournalModule } from '@libs/db/journal';
+import { ProjectionModule } from '@libs/db/projections';
+import { SagaModule } from '@libs/db/sagas';
+import { IdempotencyModule } from '@libs/db/idempotency';
+import { MailerModule } from '@libs/mailer';
 
 const interceptors = [
   {
@@ -28,7 +34,6 @@ const interceptors = [
   imports: [
     // Core modules
     EventEmitterModule.forRoot(),
-    RequestContextModule,
 
     // Security module - loaded first for global security
     SecurityModule,
@@ -36,6 +41,24 @@ const interceptors = [
     // Enhanced database module
     DatabaseModule.forRoot(getDatabaseConfig()),
 
+    // Delivers domain events stored in the outbox
+    OutboxModule.forRoot(),
+
+    // Links commands and domain events to what caused them
+    JournalModule,
+
+    // Read models maintained from domain events
+    ProjectionModule,
+
+    // Workflows spanning several aggregates
+    SagaModule.forRoot(),
+
+    // Responses replayed for requests sent again with an idempotency key
+    IdempotencyModule.forRoot(),
+
+    // Outgoing emails (written to files locally)
+    MailerModule.forRoot(),
+
     CqrsModule,
     GraphQLModule.forRoot<ApolloDriverConfig>({
       driver: ApolloDriver,
@@ -62,6 +85,7 @@ const interceptors = [
     // Business modules
     UserModule,
     WalletModule,
+    AuthModule,
   ],
   controllers: [],
   providers: [...interceptors],
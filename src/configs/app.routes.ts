@@ -6,6 +6,7 @@
 // Root
 const usersRoot = 'users';
 const walletsRoot = 'wallets';
+const adminRoot = 'admin';
 
 // Api Versions
 const v1 = 'v1';
@@ -14,10 +15,31 @@ export const routesV1 = {
   version: v1,
   user: {
     root: usersRoot,
+    cursor: `/${usersRoot}/cursor`,
+    me: `/${usersRoot}/me`,
+    /** Registered after the static /users/* routes, it would match them too */
+    findById: `/${usersRoot}/:id`,
     delete: `/${usersRoot}/:id`,
+    restore: `/${usersRoot}/:id/restore`,
+    address: `/${usersRoot}/:id/address`,
+    email: `/${usersRoot}/:id/email`,
+    role: `/${usersRoot}/:id/role`,
   },
   wallet: {
     root: walletsRoot,
     delete: `/${walletsRoot}/:id`,
+    deposit: `/${walletsRoot}/:id/deposit`,
+    withdraw: `/${walletsRoot}/:id/withdraw`,
+    transfer: `/${walletsRoot}/:id/transfer`,
+    transactions: `/${walletsRoot}/:id/transactions`,
+  },
+  admin: {
+    eventLineage: `/${adminRoot}/events/:correlationId`,
+    roles: `/${adminRoot}/roles`,
+    role: `/${adminRoot}/roles/:id`,
+    rolePermission: `/${adminRoot}/roles/:id/permissions/:permissionId`,
+    userRole: `/${adminRoot}/users/:userId/roles/:roleId`,
+    permissions: `/${adminRoot}/permissions`,
+    permission: `/${adminRoot}/permissions/:id`,
   },
 };
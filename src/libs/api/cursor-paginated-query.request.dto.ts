@@ -0,0 +1,42 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CursorPaginatedQueryRequestDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  @ApiProperty({
+    example: 10,
+    description: 'Specifies a limit of returned records',
+    required: false,
+  })
+  readonly limit?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  @ApiProperty({
+    description: 'Returns the page following this cursor (nextCursor)',
+    required: false,
+  })
+  readonly after?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  @ApiProperty({
+    description: 'Returns the page preceding this cursor (prevCursor)',
+    required: false,
+  })
+  readonly before?: string;
+}
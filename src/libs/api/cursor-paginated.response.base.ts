@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CursorPaginated } from '../ddd';
+
+export abstract class CursorPaginatedResponseDto<T> extends CursorPaginated<T> {
+  @ApiProperty({
+    example: 10,
+    description: 'Number of items per page',
+  })
+  readonly limit: number;
+
+  @ApiProperty({
+    example:
+      'eyJjcmVhdGVkQXQiOiIyMDIwLTExLTI0VDE3OjQzOjE1Ljk3MFoiLCJpZCI6IjEifQ',
+    description: 'Cursor of the next page, null on the last page',
+    nullable: true,
+    type: String,
+  })
+  readonly nextCursor: string | null;
+
+  @ApiProperty({
+    example: null,
+    description: 'Cursor of the previous page, null on the first page',
+    nullable: true,
+    type: String,
+  })
+  readonly prevCursor: string | null;
+
+  @ApiProperty({ isArray: true })
+  abstract readonly data: readonly T[];
+}
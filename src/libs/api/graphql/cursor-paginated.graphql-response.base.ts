@@ -0,0 +1,58 @@
+import { Field, ObjectType } from '@nestjs/graphql';
+import { Type } from '@nestjs/common';
+
+@ObjectType('PageInfo')
+export class PageInfoGraphqlResponse {
+  @Field()
+  hasNextPage: boolean;
+
+  @Field()
+  hasPreviousPage: boolean;
+
+  @Field(() => String, { nullable: true })
+  startCursor: string | null;
+
+  @Field(() => String, { nullable: true })
+  endCursor: string | null;
+}
+
+export interface IEdgeType<T> {
+  cursor: string;
+  node: T;
+}
+
+export interface IConnectionType<T> {
+  edges: IEdgeType<T>[];
+  pageInfo: PageInfoGraphqlResponse;
+}
+
+/**
+ * Relay style connection for cursor paginated results
+ */
+export function CursorPaginatedGraphqlResponse<T>(
+  classRef: Type<T>,
+): Type<IConnectionType<T>> {
+  @ObjectType(`${classRef.name}Edge`)
+  class EdgeType implements IEdgeType<T> {
+    @Field()
+    cursor: string;
+
+    @Field(() => classRef)
+    node: T;
+  }
+
+  @ObjectType({ isAbstract: true })
+  abstract class ConnectionType implements IConnectionType<T> {
+    constructor(props: IConnectionType<T>) {
+      this.edges = props.edges;
+      this.pageInfo = props.pageInfo;
+    }
+
+    @Field(() => [EdgeType])
+    edges: IEdgeType<T>[];
+
+    @Field(() => PageInfoGraphqlResponse)
+    pageInfo: PageInfoGraphqlResponse;
+  }
+  return ConnectionType as Type<IConnectionType<T>>;
+}
@@ -0,0 +1,19 @@
+import { Field, InputType } from '@nestjs/graphql';
+import { FilterConditionInput } from '../../query-language';
+
+/**
+ * Condition of the query language, e.g.
+ * `{ field: "email", operator: "contains", value: "doe" }`.
+ * Values of the `in` operator are comma separated.
+ */
+@InputType('FilterCondition')
+export class FilterConditionGraphqlInput implements FilterConditionInput {
+  @Field()
+  field: string;
+
+  @Field({ nullable: true, defaultValue: 'eq' })
+  operator?: string;
+
+  @Field()
+  value: string;
+}
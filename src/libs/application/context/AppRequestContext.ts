@@ -1,44 +1,106 @@
-import { RequestContext } from 'nestjs-request-context';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
 import { DatabaseTransactionConnection } from 'slonik';
 
 /**
- * Setting some isolated context for each request.
+ * Setting some isolated context for each request, message,
+ * CLI command, delivered event or scheduled job.
  */
-
-export class AppRequestContext extends RequestContext {
+export interface AppRequestContext {
+  /** Correlation id, shared by everything that happens because of one request */
   requestId: string;
+  /** Subject of the authenticated principal, if any */
+  userId?: string;
+  /** Id of the command or event that caused the current work */
+  causationId?: string;
   transactionConnection?: DatabaseTransactionConnection; // For global transactions
 }
 
+const storage = new AsyncLocalStorage<AppRequestContext>();
+
 export class RequestContextService {
+  /**
+   * Context of the current entry point. Code that runs outside of any
+   * (e.g. while the application boots) gets a detached context with a
+   * new request id, changes made to it are not kept.
+   */
   static getContext(): AppRequestContext {
-    const ctx: AppRequestContext = RequestContext.currentContext.req;
-    return ctx;
+    return storage.getStore() ?? { requestId: randomUUID() };
+  }
+
+  static hasContext(): boolean {
+    return storage.getStore() !== undefined;
+  }
+
+  /**
+   * Runs a callback inside a new isolated context. Every entry point
+   * (HTTP, GraphQL and RPC through ContextInterceptor, CLI commands,
+   * the outbox relay and schedulers) starts one. Unless given, the
+   * request id is generated and the user is not known.
+   */
+  static runInContext<T>(
+    context: Partial<AppRequestContext>,
+    callback: () => T,
+  ): T {
+    return storage.run(
+      { ...context, requestId: context.requestId ?? randomUUID() },
+      callback,
+    );
+  }
+
+  /**
+   * Runs a callback in a copy of the current context, whatever it
+   * does is caused by the given command or event
+   */
+  static runWithCausation<T>(causationId: string, callback: () => T): T {
+    return storage.run({ ...this.getContext(), causationId }, callback);
   }
 
   static setRequestId(id: string): void {
-    const ctx = this.getContext();
-    ctx.requestId = id;
+    this.getActiveContext().requestId = id;
   }
 
   static getRequestId(): string {
     return this.getContext().requestId;
   }
 
+  static setUserId(userId?: string): void {
+    this.getActiveContext().userId = userId;
+  }
+
+  static getUserId(): string | undefined {
+    return storage.getStore()?.userId;
+  }
+
+  static getCausationId(): string | undefined {
+    return storage.getStore()?.causationId;
+  }
+
   static getTransactionConnection(): DatabaseTransactionConnection | undefined {
-    const ctx = this.getContext();
-    return ctx.transactionConnection;
+    return storage.getStore()?.transactionConnection;
   }
 
   static setTransactionConnection(
     transactionConnection?: DatabaseTransactionConnection,
   ): void {
-    const ctx = this.getContext();
-    ctx.transactionConnection = transactionConnection;
+    this.getActiveContext().transactionConnection = transactionConnection;
   }
 
   static cleanTransactionConnection(): void {
-    const ctx = this.getContext();
-    ctx.transactionConnection = undefined;
+    const ctx = storage.getStore();
+    if (ctx) {
+      ctx.transactionConnection = undefined;
+    }
+  }
+
+  /** Changes outside of a context would be lost silently */
+  private static getActiveContext(): AppRequestContext {
+    const ctx = storage.getStore();
+    if (!ctx) {
+      throw new Error(
+        'No request context, use RequestContextService.runInContext()',
+      );
+    }
+    return ctx;
   }
 }
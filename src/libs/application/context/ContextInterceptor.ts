@@ -4,27 +4,79 @@ import {
   ExecutionContext,
   CallHandler,
 } from '@nestjs/common';
-import { Observable, tap } from 'rxjs';
-import { nanoid } from 'nanoid';
-import { RequestContextService } from './AppRequestContext';
+import { GqlContextType, GqlExecutionContext } from '@nestjs/graphql';
+import { Observable } from 'rxjs';
+import { AppRequestContext, RequestContextService } from './AppRequestContext';
+
+/**
+ * Principal of a message, set by the guard that verified its token.
+ * Messages are deserialized from JSON, so senders can't set it
+ * like they can set `user`.
+ */
+export const MESSAGE_PRINCIPAL = Symbol('messagePrincipal');
+
+type ContextCarrier = {
+  body?: { requestId?: string };
+  headers?: Record<string, string | string[] | undefined>;
+  /** Authenticated principal, set by the JWT strategy */
+  user?: { sub?: string };
+  requestId?: string;
+  [MESSAGE_PRINCIPAL]?: { sub?: string } | null;
+};
 
 @Injectable()
 export class ContextInterceptor implements NestInterceptor {
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
-    const request = context.switchToHttp().getRequest();
+    const ctx = this.createContext(context);
 
     /**
-     * Setting an ID in the global context for each request.
-     * This ID can be used as correlation id shown in logs
+     * Everything the handler does, including subscribers of the
+     * returned observable, runs inside the context of this request
      */
-    const requestId = request?.body?.requestId ?? nanoid(6);
+    return new Observable((subscriber) =>
+      RequestContextService.runInContext(ctx, () =>
+        next.handle().subscribe(subscriber),
+      ),
+    );
+  }
 
-    RequestContextService.setRequestId(requestId);
+  /**
+   * Setting an ID in the global context for each request.
+   * This ID can be used as correlation id shown in logs.
+   * A new one is generated if the caller did not send any.
+   * Guards run before interceptors, so the principal is already known.
+   */
+  private createContext(context: ExecutionContext): Partial<AppRequestContext> {
+    const carrier = this.getCarrier(context);
+    const header = carrier?.headers?.['x-request-id'];
 
-    return next.handle().pipe(
-      tap(() => {
-        // Perform cleaning if needed
-      }),
-    );
+    return {
+      requestId:
+        carrier?.body?.requestId ??
+        carrier?.requestId ??
+        (typeof header === 'string' ? header : undefined),
+      userId: carrier?.user?.sub,
+    };
+  }
+
+  private getCarrier(context: ExecutionContext): ContextCarrier | undefined {
+    switch (context.getType<GqlContextType>()) {
+      case 'graphql':
+        return GqlExecutionContext.create(context).getContext().req;
+      case 'rpc': {
+        // Other services pass their correlation id in the message
+        const message: ContextCarrier | undefined = context
+          .switchToRpc()
+          .getData();
+        return (
+          message && {
+            ...message,
+            user: message[MESSAGE_PRINCIPAL] ?? undefined,
+          }
+        );
+      }
+      default:
+        return context.switchToHttp().getRequest();
+    }
   }
 }
@@ -1,13 +1,20 @@
 import {
   BadRequestException,
   CallHandler,
+  ConflictException as ConflictHttpException,
   ExecutionContext,
   Logger,
   NestInterceptor,
+  UnprocessableEntityException,
 } from '@nestjs/common';
 import { Observable, throwError } from 'rxjs';
 import { catchError } from 'rxjs/operators';
-import { ExceptionBase } from '@libs/exceptions';
+import {
+  ConcurrencyConflictException,
+  ExceptionBase,
+  IdempotencyKeyInUseException,
+  IdempotencyKeyReusedException,
+} from '@libs/exceptions';
 import { RequestContextService } from '../context/AppRequestContext';
 import { ApiErrorResponse } from '@src/libs/api/api-error.response';
 
@@ -20,6 +27,34 @@ export class ExceptionInterceptor implements NestInterceptor {
   ): Observable<ExceptionBase> {
     return next.handle().pipe(
       catchError((err) => {
+        // Optimistic concurrency conflicts can happen in any command,
+        // the client is expected to reload the resource and retry.
+        // Same for a request retried while its first attempt still runs
+        if (
+          err instanceof ConcurrencyConflictException ||
+          err instanceof IdempotencyKeyInUseException
+        ) {
+          err = new ConflictHttpException(
+            new ApiErrorResponse({
+              statusCode: 409,
+              message: err.message,
+              error: 'Conflict',
+              correlationId: err.correlationId,
+            }),
+          );
+        }
+
+        if (err instanceof IdempotencyKeyReusedException) {
+          err = new UnprocessableEntityException(
+            new ApiErrorResponse({
+              statusCode: 422,
+              message: err.message,
+              error: 'Unprocessable Entity',
+              correlationId: err.correlationId,
+            }),
+          );
+        }
+
         // Logging for debugging purposes
         if (err.status >= 400 && err.status < 500) {
           this.logger.debug(
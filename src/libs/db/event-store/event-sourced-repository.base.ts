@@ -0,0 +1,311 @@
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import {
+  AggregateID,
+  EventSourcedAggregateRoot,
+  DomainEvent,
+  Paginated,
+  PaginatedQueryParams,
+  RepositoryPort,
+} from '@libs/ddd';
+import {
+  ArgumentInvalidException,
+  ConcurrencyConflictException,
+} from '@libs/exceptions';
+import { LoggerPort } from '@libs/ports/logger.port';
+import { None, Option, Some } from 'oxide.ts';
+import {
+  DatabasePool,
+  DatabaseTransactionConnection,
+  sql,
+  UniqueIntegrityConstraintViolationError,
+} from 'slonik';
+import { z } from 'zod';
+import { JournalWriter } from '../journal/journal.writer';
+import { OutboxWriter, toJsonPayload } from '../outbox/outbox.writer';
+import {
+  EVENT_STORE_SNAPSHOTS_TABLE,
+  EVENT_STORE_TABLE,
+  EventDeserializers,
+  snapshotSchema,
+  StoredEvent,
+  storedEventSchema,
+} from './event-store.types';
+
+/**
+ * Base class for repositories of event-sourced aggregates.
+ *
+ * Instead of the current state, new domain events of an aggregate are
+ * appended to its stream in the event store. The stream version makes
+ * concurrent changes fail with a ConcurrencyConflictException, like the
+ * `version` column does in SqlRepositoryBase. Aggregates are rebuilt by
+ * replaying their events, starting from the latest snapshot, if any.
+ *
+ * Events are recorded in the outbox and the event journal in the same
+ * transaction, so handlers get them as from any other repository.
+ */
+export abstract class EventSourcedRepositoryBase<
+  Aggregate extends EventSourcedAggregateRoot<any>,
+> implements RepositoryPort<Aggregate> {
+  /** Stored with every event, keeps streams of different aggregates apart */
+  protected abstract aggregateType: string;
+
+  protected abstract events: EventDeserializers;
+
+  /** A snapshot is taken every N events, 0 disables snapshots */
+  protected snapshotEvery = 50;
+
+  protected readonly outbox = new OutboxWriter();
+
+  protected readonly journal = new JournalWriter();
+
+  protected constructor(
+    private readonly _pool: DatabasePool,
+    protected readonly logger: LoggerPort,
+  ) {}
+
+  /** Aggregate in its state before the first event of its stream */
+  protected abstract createInitial(id: AggregateID, createdAt: Date): Aggregate;
+
+  protected abstract toSnapshot(aggregate: Aggregate): Record<string, unknown>;
+
+  protected abstract fromSnapshot(state: Record<string, unknown>): Aggregate;
+
+  async insert(entity: Aggregate | Aggregate[]): Promise<void> {
+    const entities = Array.isArray(entity) ? entity : [entity];
+
+    await this.pool.transaction(async (connection) => {
+      for (const aggregate of entities) {
+        await this.append(connection, aggregate);
+      }
+    });
+  }
+
+  async update(entity: Aggregate): Promise<void> {
+    await this.pool.transaction((connection) =>
+      this.append(connection, entity),
+    );
+  }
+
+  async findOneById(id: AggregateID): Promise<Option<Aggregate>> {
+    const snapshotRow =
+      this.snapshotEvery > 0
+        ? await this.pool.maybeOne(
+            sql.type(snapshotSchema)`
+              SELECT * FROM ${sql.identifier([EVENT_STORE_SNAPSHOTS_TABLE])}
+              WHERE "streamId" = ${id} AND "aggregateType" = ${this.aggregateType}
+            `,
+          )
+        : null;
+    const snapshot = snapshotRow && snapshotSchema.parse(snapshotRow);
+    const fromVersion = snapshot?.version ?? 0;
+
+    const result = await this.pool.query(
+      sql.type(storedEventSchema)`
+        SELECT * FROM ${sql.identifier([EVENT_STORE_TABLE])}
+        WHERE "streamId" = ${id}
+          AND "aggregateType" = ${this.aggregateType}
+          AND "version" > ${fromVersion}
+        ORDER BY "version" ASC
+      `,
+    );
+    const rows = result.rows.map((row) => storedEventSchema.parse(row));
+    if (!snapshot && rows.length === 0) {
+      return None;
+    }
+
+    const aggregate = snapshot
+      ? this.fromSnapshot(snapshot.state)
+      : this.createInitial(id, rows[0].occurredAt);
+    aggregate.replay(
+      rows.map((row) => this.deserialize(row)),
+      fromVersion,
+    );
+
+    return Some(aggregate);
+  }
+
+  async findAll(): Promise<Aggregate[]> {
+    const ids = await this.pool.anyFirst(
+      sql.type(z.object({ streamId: z.string() }))`
+        SELECT "streamId" FROM ${sql.identifier([EVENT_STORE_TABLE])}
+        WHERE "aggregateType" = ${this.aggregateType} AND "version" = 1
+        ORDER BY "occurredAt" ASC
+      `,
+    );
+    return this.findManyByIds(ids);
+  }
+
+  /** Newest streams first */
+  async findAllPaginated(
+    params: PaginatedQueryParams,
+  ): Promise<Paginated<Aggregate>> {
+    const [count, ids] = await Promise.all([
+      this.pool.oneFirst(
+        sql.type(z.object({ count: z.coerce.number() }))`
+          SELECT COUNT(*) AS count FROM ${sql.identifier([EVENT_STORE_TABLE])}
+          WHERE "aggregateType" = ${this.aggregateType} AND "version" = 1
+        `,
+      ),
+      this.pool.anyFirst(
+        sql.type(z.object({ streamId: z.string() }))`
+          SELECT "streamId" FROM ${sql.identifier([EVENT_STORE_TABLE])}
+          WHERE "aggregateType" = ${this.aggregateType} AND "version" = 1
+          ORDER BY "occurredAt" DESC
+          LIMIT ${params.limit}
+          OFFSET ${params.offset}
+        `,
+      ),
+    ]);
+
+    return new Paginated({
+      data: await this.findManyByIds(ids),
+      count,
+      limit: params.limit,
+      page: params.page,
+    });
+  }
+
+  /**
+   * Streams are append-only, an aggregate that goes away
+   * records an event instead (e.g. a closed wallet)
+   */
+  async delete(entity: Aggregate): Promise<boolean> {
+    throw new ArgumentInvalidException(
+      `${this.aggregateType} ${entity.id} is event-sourced and cannot be deleted`,
+    );
+  }
+
+  /**
+   * Runs the handler in a transaction shared by all repositories
+   * through the request context, savepoints are used when nested
+   */
+  async transaction<T>(handler: () => Promise<T>): Promise<T> {
+    return this.pool.transaction(async (connection) => {
+      if (RequestContextService.getTransactionConnection()) {
+        return handler();
+      }
+      return RequestContextService.runInContext(
+        {
+          ...RequestContextService.getContext(),
+          transactionConnection: connection,
+        },
+        handler,
+      );
+    });
+  }
+
+  /**
+   * Prevents concurrent changes of a stream until the end of the
+   * current transaction. Must be called inside a transaction.
+   */
+  protected async lockStream(id: AggregateID): Promise<void> {
+    await this.pool.query(
+      sql.unsafe`SELECT pg_advisory_xact_lock(hashtext(${id}))`,
+    );
+  }
+
+  protected get pool(): DatabasePool | DatabaseTransactionConnection {
+    return RequestContextService.getTransactionConnection() ?? this._pool;
+  }
+
+  private async findManyByIds(
+    ids: readonly AggregateID[],
+  ): Promise<Aggregate[]> {
+    const aggregates: Aggregate[] = [];
+    for (const id of ids) {
+      const aggregate = await this.findOneById(id);
+      if (aggregate.isSome()) {
+        aggregates.push(aggregate.unwrap());
+      }
+    }
+    return aggregates;
+  }
+
+  private async append(
+    connection: DatabaseTransactionConnection,
+    aggregate: Aggregate,
+  ): Promise<void> {
+    const events = aggregate.domainEvents;
+    if (events.length === 0) {
+      return;
+    }
+    aggregate.validate();
+
+    const expectedVersion = aggregate.streamVersion;
+    const rows = events.map(
+      (event, index) => sql.fragment`(
+        ${aggregate.id},
+        ${expectedVersion + index + 1},
+        ${this.aggregateType},
+        ${event.id},
+        ${event.constructor.name},
+        ${sql.jsonb(toJsonPayload(event))},
+        ${sql.timestamp(new Date(event.metadata.timestamp))}
+      )`,
+    );
+
+    try {
+      await connection.query(sql.unsafe`
+        INSERT INTO ${sql.identifier([EVENT_STORE_TABLE])}
+        ("streamId", "version", "aggregateType", "eventId", "eventName", "payload", "occurredAt")
+        VALUES ${sql.join(rows, sql.fragment`, `)}
+      `);
+    } catch (error) {
+      if (error instanceof UniqueIntegrityConstraintViolationError) {
+        throw new ConcurrencyConflictException(
+          `Stream ${aggregate.id} was modified by another process (expected version ${expectedVersion})`,
+        );
+      }
+      throw error;
+    }
+
+    await this.outbox.append(connection, [aggregate]);
+    await this.journal.appendEvents(connection, [aggregate]);
+
+    const version = expectedVersion + events.length;
+    if (this.isSnapshotDue(expectedVersion, version)) {
+      await this.saveSnapshot(connection, aggregate, version);
+    }
+
+    this.logger.debug(
+      `[${RequestContextService.getRequestId()}] ${events.length} events appended to ${this.aggregateType} ${aggregate.id} (version ${version})`,
+    );
+
+    aggregate.markEventsCommitted();
+  }
+
+  private isSnapshotDue(fromVersion: number, toVersion: number): boolean {
+    return (
+      this.snapshotEvery > 0 &&
+      Math.floor(toVersion / this.snapshotEvery) >
+        Math.floor(fromVersion / this.snapshotEvery)
+    );
+  }
+
+  private async saveSnapshot(
+    connection: DatabaseTransactionConnection,
+    aggregate: Aggregate,
+    version: number,
+  ): Promise<void> {
+    const state = sql.jsonb(toJsonPayload(this.toSnapshot(aggregate)));
+    await connection.query(sql.unsafe`
+      INSERT INTO ${sql.identifier([EVENT_STORE_SNAPSHOTS_TABLE])}
+      ("streamId", "aggregateType", "version", "state")
+      VALUES (${aggregate.id}, ${this.aggregateType}, ${version}, ${state})
+      ON CONFLICT ("streamId") DO UPDATE
+      SET "version" = EXCLUDED."version",
+          "state" = EXCLUDED."state",
+          "createdAt" = now()
+    `);
+  }
+
+  private deserialize(row: StoredEvent): DomainEvent {
+    const deserialize = this.events[row.eventName];
+    if (!deserialize) {
+      throw new ArgumentInvalidException(
+        `No deserializer for ${row.eventName} (stream ${row.streamId}, version ${row.version})`,
+      );
+    }
+    return deserialize(row.payload);
+  }
+}
@@ -0,0 +1,45 @@
+import { DomainEvent } from '@libs/ddd';
+import { z } from 'zod';
+
+export const EVENT_STORE_TABLE = 'event_store';
+
+export const EVENT_STORE_SNAPSHOTS_TABLE = 'event_store_snapshots';
+
+/** jsonb column, parsed here unless the driver already did */
+const jsonObject = z.preprocess(
+  (val: unknown) => (typeof val === 'string' ? JSON.parse(val) : val),
+  z.record(z.string(), z.unknown()),
+);
+
+export const storedEventSchema = z.object({
+  streamId: z.string().min(1).max(255),
+  version: z.number().int().positive(),
+  aggregateType: z.string().min(1).max(255),
+  eventId: z.string().min(1).max(255),
+  eventName: z.string().min(1).max(255),
+  /** The serialized event, including its id and metadata */
+  payload: jsonObject,
+  occurredAt: z.preprocess((val: any) => new Date(val), z.date()),
+  createdAt: z.preprocess((val: any) => new Date(val), z.date()),
+});
+
+export type StoredEvent = z.TypeOf<typeof storedEventSchema>;
+
+export const snapshotSchema = z.object({
+  streamId: z.string().min(1).max(255),
+  aggregateType: z.string().min(1).max(255),
+  version: z.number().int().positive(),
+  state: jsonObject,
+  createdAt: z.preprocess((val: any) => new Date(val), z.date()),
+});
+
+export type Snapshot = z.TypeOf<typeof snapshotSchema>;
+
+/**
+ * Rebuilds stored events, by event name. Payloads are JSON,
+ * so e.g. bigint values have to be converted back.
+ */
+export type EventDeserializers = Record<
+  string,
+  (payload: Record<string, any>) => DomainEvent
+>;
@@ -0,0 +1,106 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { None, Option, Some } from 'oxide.ts';
+import { DatabasePool, sql } from 'slonik';
+import { DATABASE_POOL_TOKEN } from '@libs/database/database.constants';
+import { toJsonPayload } from '../outbox/outbox.writer';
+import {
+  IDEMPOTENCY_KEYS_TABLE,
+  IdempotencyKeyRecord,
+  idempotencyKeySchema,
+  IdempotencyKeyStatus,
+} from './idempotency.types';
+
+export interface IdempotencyKeyReservation {
+  scope: string;
+  key: string;
+  fingerprint: string;
+  expiresAt: Date;
+}
+
+/**
+ * Persists idempotency keys and the responses of their requests.
+ * Always uses the pool, a key has to be stored even when
+ * the transaction of the request is rolled back.
+ */
+@Injectable()
+export class IdempotencyKeyStore {
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    private readonly pool: DatabasePool,
+  ) {}
+
+  /**
+   * Stores a key as being processed. An expired key is taken over.
+   * @returns false when the key is already in use
+   */
+  async reserve({
+    scope,
+    key,
+    fingerprint,
+    expiresAt,
+  }: IdempotencyKeyReservation): Promise<boolean> {
+    const reserved = await this.pool.maybeOne(
+      sql.type(idempotencyKeySchema)`
+        INSERT INTO ${sql.identifier([IDEMPOTENCY_KEYS_TABLE])}
+        ("scope", "key", "fingerprint", "status", "expiresAt")
+        VALUES (
+          ${scope},
+          ${key},
+          ${fingerprint},
+          ${IdempotencyKeyStatus.processing},
+          ${sql.timestamp(expiresAt)}
+        )
+        ON CONFLICT ("scope", "key") DO UPDATE
+        SET "fingerprint" = EXCLUDED."fingerprint",
+            "status" = EXCLUDED."status",
+            "response" = NULL,
+            "createdAt" = now(),
+            "completedAt" = NULL,
+            "expiresAt" = EXCLUDED."expiresAt"
+        WHERE ${sql.identifier([IDEMPOTENCY_KEYS_TABLE, 'expiresAt'])} <= now()
+        RETURNING *
+      `,
+    );
+    return reserved !== null;
+  }
+
+  async find(
+    scope: string,
+    key: string,
+  ): Promise<Option<IdempotencyKeyRecord>> {
+    const found = await this.pool.maybeOne(
+      sql.type(idempotencyKeySchema)`
+        SELECT * FROM ${sql.identifier([IDEMPOTENCY_KEYS_TABLE])}
+        WHERE "scope" = ${scope} AND "key" = ${key}
+      `,
+    );
+    return found ? Some(found) : None;
+  }
+
+  /** Stores the response to replay for the key until it expires */
+  async complete(
+    scope: string,
+    key: string,
+    response: unknown,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.pool.query(sql.unsafe`
+      UPDATE ${sql.identifier([IDEMPOTENCY_KEYS_TABLE])}
+      SET "status" = ${IdempotencyKeyStatus.completed},
+          "response" = ${sql.jsonb(toJsonPayload(response ?? null))},
+          "completedAt" = now(),
+          "expiresAt" = ${sql.timestamp(expiresAt)}
+      WHERE "scope" = ${scope} AND "key" = ${key}
+    `);
+  }
+
+  /** Frees a key whose request failed, so it can be retried */
+  async release(scope: string, key: string): Promise<void> {
+    await this.pool.query(sql.unsafe`
+      DELETE FROM ${sql.identifier([IDEMPOTENCY_KEYS_TABLE])}
+      WHERE "scope" = ${scope}
+        AND "key" = ${key}
+        AND "status" = ${IdempotencyKeyStatus.processing}
+    `);
+  }
+}
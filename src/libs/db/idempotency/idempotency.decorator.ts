@@ -0,0 +1,16 @@
+import { applyDecorators, SetMetadata, UseInterceptors } from '@nestjs/common';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IDEMPOTENCY_SCOPE_METADATA } from './idempotency.types';
+
+/**
+ * Makes a command endpoint idempotent for callers sending an idempotency
+ * key: the `Idempotency-Key` header of HTTP requests, or the
+ * `idempotencyKey` of messages. A repeated request gets the response of
+ * the first one instead of executing the command again.
+ * @param scope keys are unique within a scope, e.g. the command name
+ */
+export const Idempotent = (scope: string): MethodDecorator =>
+  applyDecorators(
+    SetMetadata(IDEMPOTENCY_SCOPE_METADATA, scope),
+    UseInterceptors(IdempotencyInterceptor),
+  );
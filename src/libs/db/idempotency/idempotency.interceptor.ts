@@ -0,0 +1,191 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import { from, Observable, of, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import {
+  IdempotencyKeyInUseException,
+  IdempotencyKeyReusedException,
+} from '@libs/exceptions';
+import { IdempotencyKeyStore } from './idempotency-key.store';
+import {
+  IDEMPOTENCY_SCOPE_METADATA,
+  IdempotencyKeyStatus,
+  IdempotencyOptions,
+} from './idempotency.types';
+
+export const IDEMPOTENCY_OPTIONS = Symbol('IDEMPOTENCY_OPTIONS');
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+/** Set on responses replayed from a previous request */
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const MAX_KEY_LENGTH = 255;
+
+interface IdempotentRequest {
+  key?: string;
+  payload: unknown;
+}
+
+/**
+ * Replays the response of a request sent again with the same idempotency
+ * key (see Idempotent). The key is bound to a fingerprint of the payload
+ * and of the caller, reusing it for another request is rejected.
+ * A request that fails frees its key, so it can be retried.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(
+    private readonly store: IdempotencyKeyStore,
+    private readonly reflector: Reflector,
+    @Inject(IDEMPOTENCY_OPTIONS)
+    private readonly options: IdempotencyOptions,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const scope = this.reflector.get<string>(
+      IDEMPOTENCY_SCOPE_METADATA,
+      context.getHandler(),
+    );
+    const { key, payload } = this.getRequest(context);
+    if (!scope || key === undefined) {
+      return next.handle();
+    }
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `Idempotency key must have between 1 and ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+
+    const fingerprint = this.getFingerprint(payload);
+    const reserved = await this.store.reserve({
+      scope,
+      key,
+      fingerprint,
+      expiresAt: this.expiresIn(this.options.processingTimeoutMs),
+    });
+    if (!reserved) {
+      return of(await this.replay(context, scope, key, fingerprint));
+    }
+
+    return next.handle().pipe(
+      mergeMap(async (response) => {
+        await this.store.complete(
+          scope,
+          key,
+          response,
+          this.expiresIn(this.options.ttlMs),
+        );
+        return response;
+      }),
+      catchError((error: unknown) =>
+        from(this.store.release(scope, key)).pipe(
+          mergeMap(() => throwError(() => error)),
+        ),
+      ),
+    );
+  }
+
+  private async replay(
+    context: ExecutionContext,
+    scope: string,
+    key: string,
+    fingerprint: string,
+  ): Promise<unknown> {
+    const found = await this.store.find(scope, key);
+    // Released in the meantime, the caller may retry right away
+    if (found.isNone()) {
+      throw new IdempotencyKeyInUseException();
+    }
+    const record = found.unwrap();
+    if (record.fingerprint !== fingerprint) {
+      throw new IdempotencyKeyReusedException();
+    }
+    if (record.status === IdempotencyKeyStatus.processing) {
+      throw new IdempotencyKeyInUseException();
+    }
+
+    if (context.getType() === 'http') {
+      context
+        .switchToHttp()
+        .getResponse<Response>()
+        .setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+    }
+    return record.response;
+  }
+
+  private getRequest(context: ExecutionContext): IdempotentRequest {
+    switch (context.getType()) {
+      case 'http': {
+        const request = context.switchToHttp().getRequest<Request>();
+        const header = request.headers[IDEMPOTENCY_KEY_HEADER];
+        return {
+          key: typeof header === 'string' ? header : undefined,
+          payload: request.body,
+        };
+      }
+      case 'rpc': {
+        // Other services pass the key in the message, like the request id
+        // and the access token. None of them is part of the payload,
+        // a redelivery may have another id or a refreshed token
+        const payload = { ...context.switchToRpc().getData() };
+        const key = payload.idempotencyKey;
+        delete payload.idempotencyKey;
+        delete payload.requestId;
+        delete payload.authorization;
+        delete payload.user;
+        return { key: typeof key === 'string' ? key : undefined, payload };
+      }
+      default:
+        return { payload: undefined };
+    }
+  }
+
+  /** Hash of the payload and of the authenticated caller */
+  private getFingerprint(payload: unknown): string {
+    return createHash('sha256')
+      .update(
+        this.canonicalize({
+          userId: RequestContextService.getUserId() ?? null,
+          payload: payload ?? null,
+        }),
+      )
+      .digest('hex');
+  }
+
+  /** JSON with sorted object keys, equal payloads give the same string */
+  private canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.canonicalize(item)).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+      return `{${Object.keys(value)
+        .sort()
+        .map(
+          (key) =>
+            `${JSON.stringify(key)}:${this.canonicalize(
+              (value as Record<string, unknown>)[key],
+            )}`,
+        )
+        .join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  private expiresIn(ms: number): Date {
+    return new Date(Date.now() + ms);
+  }
+}
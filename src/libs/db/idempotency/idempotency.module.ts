@@ -0,0 +1,37 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { IdempotencyKeyStore } from './idempotency-key.store';
+import {
+  IDEMPOTENCY_OPTIONS,
+  IdempotencyInterceptor,
+} from './idempotency.interceptor';
+import {
+  DEFAULT_IDEMPOTENCY_OPTIONS,
+  IdempotencyOptions,
+} from './idempotency.types';
+
+/**
+ * Provides what endpoints marked with Idempotent need, in every module.
+ * Requires DatabaseModule to be imported globally.
+ */
+@Module({})
+export class IdempotencyModule {
+  static forRoot(options: Partial<IdempotencyOptions> = {}): DynamicModule {
+    return {
+      module: IdempotencyModule,
+      global: true,
+      providers: [
+        {
+          provide: IDEMPOTENCY_OPTIONS,
+          useValue: { ...DEFAULT_IDEMPOTENCY_OPTIONS, ...options },
+        },
+        IdempotencyKeyStore,
+        IdempotencyInterceptor,
+      ],
+      exports: [
+        IDEMPOTENCY_OPTIONS,
+        IdempotencyKeyStore,
+        IdempotencyInterceptor,
+      ],
+    };
+  }
+}
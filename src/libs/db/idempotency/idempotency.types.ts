@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+export const IDEMPOTENCY_KEYS_TABLE = 'idempotency_keys';
+
+export const IDEMPOTENCY_SCOPE_METADATA = 'idempotency:scope';
+
+export enum IdempotencyKeyStatus {
+  processing = 'processing',
+  completed = 'completed',
+}
+
+export const idempotencyKeySchema = z.object({
+  scope: z.string().min(1).max(255),
+  key: z.string().min(1).max(255),
+  fingerprint: z.string().length(64),
+  status: z.nativeEnum(IdempotencyKeyStatus),
+  response: z.unknown().nullable(),
+  createdAt: z.preprocess((val: any) => new Date(val), z.date()),
+  completedAt: z.preprocess(
+    (val: any) => (val ? new Date(val) : null),
+    z.date().nullable(),
+  ),
+  expiresAt: z.preprocess((val: any) => new Date(val), z.date()),
+});
+
+export type IdempotencyKeyRecord = z.TypeOf<typeof idempotencyKeySchema>;
+
+export interface IdempotencyOptions {
+  /** How long the result of a request is replayed */
+  ttlMs: number;
+  /** A request still processing after this long may be retried */
+  processingTimeoutMs: number;
+}
+
+export const DEFAULT_IDEMPOTENCY_OPTIONS: IdempotencyOptions = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  processingTimeoutMs: 60 * 1000,
+};
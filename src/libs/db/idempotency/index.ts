@@ -0,0 +1,5 @@
+export * from './idempotency.types';
+export * from './idempotency-key.store';
+export * from './idempotency.interceptor';
+export * from './idempotency.decorator';
+export * from './idempotency.module';
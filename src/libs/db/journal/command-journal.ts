@@ -0,0 +1,58 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { CommandBus } from '@nestjs/cqrs';
+import { DatabasePool } from 'slonik';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { DATABASE_POOL_TOKEN } from '@libs/database/database.constants';
+import { Command } from '@libs/ddd';
+import { JournalWriter } from './journal.writer';
+
+/**
+ * Makes every command executed through the CommandBus the cause of
+ * what its handler does: the handler runs with the command id as
+ * causation id, so domain events raised by it (and commands dispatched
+ * from it) link back to the command. The command itself is recorded
+ * in the event journal before it is executed.
+ */
+@Injectable()
+export class CommandJournal implements OnModuleInit {
+  private readonly logger = new Logger(CommandJournal.name);
+
+  private readonly writer = new JournalWriter();
+
+  constructor(
+    private readonly commandBus: CommandBus,
+    @Inject(DATABASE_POOL_TOKEN)
+    private readonly pool: DatabasePool,
+  ) {}
+
+  onModuleInit(): void {
+    const execute = this.commandBus.execute.bind(this.commandBus);
+
+    this.commandBus.execute = ((command: Command, ...args: unknown[]) => {
+      if (!(command instanceof Command)) {
+        return execute(command, ...args);
+      }
+      return this.record(command).then(() =>
+        RequestContextService.runWithCausation(command.id, () =>
+          execute(command, ...args),
+        ),
+      );
+    }) as CommandBus['execute'];
+  }
+
+  /** A failing journal does not stop the command from being executed */
+  private async record(command: Command): Promise<void> {
+    try {
+      await this.writer.appendCommand(
+        RequestContextService.getTransactionConnection() ?? this.pool,
+        command,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Command ${command.constructor.name} (${command.id}) not journaled: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+}
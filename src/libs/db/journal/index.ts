@@ -0,0 +1,5 @@
+export * from './journal.types';
+export * from './journal.writer';
+export * from './journal.reader';
+export * from './command-journal';
+export * from './journal.module';
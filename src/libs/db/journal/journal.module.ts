@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { CqrsModule } from '@nestjs/cqrs';
+import { CommandJournal } from './command-journal';
+
+/**
+ * Tracks causation of commands and records them in the event journal.
+ * Domain events are journaled by SqlRepositoryBase.
+ * Requires DatabaseModule to be imported globally.
+ */
+@Module({
+  imports: [CqrsModule],
+  providers: [CommandJournal],
+})
+export class JournalModule {}
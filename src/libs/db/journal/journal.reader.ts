@@ -0,0 +1,59 @@
+import { DatabasePool, sql } from 'slonik';
+import {
+  CausationNode,
+  EVENT_JOURNAL_TABLE,
+  JournalEntry,
+  journalEntrySchema,
+} from './journal.types';
+
+/**
+ * Reads the event journal, mainly to answer "what happened because of
+ * this request".
+ */
+export class JournalReader {
+  constructor(private readonly pool: DatabasePool) {}
+
+  async findByCorrelationId(
+    correlationId: string,
+  ): Promise<readonly JournalEntry[]> {
+    const result = await this.pool.query(
+      sql.type(journalEntrySchema)`
+        SELECT *
+        FROM ${sql.identifier([EVENT_JOURNAL_TABLE])}
+        WHERE "correlationId" = ${correlationId}
+        ORDER BY "occurredAt" ASC, "createdAt" ASC
+      `,
+    );
+    return result.rows;
+  }
+
+  /**
+   * Commands and events of a correlation id as a command→event→command tree.
+   * Entries whose cause is not part of the same correlation (or not
+   * recorded, e.g. the request itself) are returned as roots.
+   */
+  async findCausationTree(correlationId: string): Promise<CausationNode[]> {
+    return buildCausationTree(await this.findByCorrelationId(correlationId));
+  }
+}
+
+/** Children keep the order of the given entries */
+export function buildCausationTree(
+  entries: readonly JournalEntry[],
+): CausationNode[] {
+  const nodes = new Map<string, CausationNode>(
+    entries.map((entry) => [entry.id, { ...entry, children: [] }]),
+  );
+  const roots: CausationNode[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.causationId ? nodes.get(node.causationId) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
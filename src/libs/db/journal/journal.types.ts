@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+export const EVENT_JOURNAL_TABLE = 'event_journal';
+
+export enum JournalEntryKind {
+  command = 'command',
+  event = 'event',
+}
+
+export const journalEntrySchema = z.object({
+  id: z.string().min(1).max(255),
+  kind: z.nativeEnum(JournalEntryKind),
+  name: z.string().min(1).max(255),
+  correlationId: z.string().min(1).max(255),
+  causationId: z.string().nullable(),
+  aggregateId: z.string().nullable(),
+  userId: z.string().nullable(),
+  occurredAt: z.preprocess((val: any) => new Date(val), z.date()),
+  createdAt: z.preprocess((val: any) => new Date(val), z.date()),
+});
+
+export type JournalEntry = z.TypeOf<typeof journalEntrySchema>;
+
+/** A journal entry with the commands and events it caused */
+export interface CausationNode extends JournalEntry {
+  children: CausationNode[];
+}
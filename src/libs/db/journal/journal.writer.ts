@@ -0,0 +1,79 @@
+import { AggregateRoot, Command, DomainEvent } from '@libs/ddd';
+import {
+  DatabasePool,
+  DatabaseTransactionConnection,
+  FragmentSqlToken,
+  sql,
+} from 'slonik';
+import { EVENT_JOURNAL_TABLE, JournalEntryKind } from './journal.types';
+
+/**
+ * Records executed commands and domain events in the event journal,
+ * together with their correlation and causation ids.
+ * Events must be recorded with the connection that persisted the aggregate,
+ * like in OutboxWriter, so the journal only shows what was committed.
+ */
+export class JournalWriter {
+  async appendEvents(
+    connection: DatabasePool | DatabaseTransactionConnection,
+    aggregates: AggregateRoot<unknown>[],
+  ): Promise<number> {
+    const rows = aggregates.flatMap((aggregate) =>
+      aggregate.domainEvents.map((event) => this.toEventRow(event)),
+    );
+
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    await this.insert(connection, rows);
+
+    return rows.length;
+  }
+
+  async appendCommand(
+    connection: DatabasePool | DatabaseTransactionConnection,
+    command: Command,
+  ): Promise<void> {
+    await this.insert(connection, [this.toCommandRow(command)]);
+  }
+
+  private async insert(
+    connection: DatabasePool | DatabaseTransactionConnection,
+    rows: FragmentSqlToken[],
+  ): Promise<void> {
+    await connection.query(sql.unsafe`
+      INSERT INTO ${sql.identifier([EVENT_JOURNAL_TABLE])}
+      ("id", "kind", "name", "correlationId", "causationId", "aggregateId", "userId", "occurredAt")
+      VALUES ${sql.join(rows, sql.fragment`, `)}
+    `);
+  }
+
+  private toEventRow(event: DomainEvent): FragmentSqlToken {
+    const { correlationId, causationId, userId, timestamp } = event.metadata;
+    return sql.fragment`(
+      ${event.id},
+      ${JournalEntryKind.event},
+      ${event.constructor.name},
+      ${correlationId},
+      ${causationId ?? null},
+      ${event.aggregateId},
+      ${userId ?? null},
+      ${sql.timestamp(new Date(timestamp))}
+    )`;
+  }
+
+  private toCommandRow(command: Command): FragmentSqlToken {
+    const { correlationId, causationId, userId, timestamp } = command.metadata;
+    return sql.fragment`(
+      ${command.id},
+      ${JournalEntryKind.command},
+      ${command.constructor.name},
+      ${correlationId},
+      ${causationId ?? null},
+      ${null},
+      ${userId ?? null},
+      ${sql.timestamp(new Date(timestamp))}
+    )`;
+  }
+}
@@ -0,0 +1,120 @@
+import { FragmentSqlToken, sql } from 'slonik';
+import { ArgumentInvalidException } from '@libs/exceptions';
+import { CursorPaginated, CursorPaginatedQueryParams } from '@libs/ddd';
+
+/**
+ * Keyset pagination over ("createdAt", "id"), newest rows first.
+ * "id" breaks ties between rows created at the same time, so the order
+ * is total and pages do not shift when new rows are inserted.
+ *
+ * Timestamps are compared with millisecond precision, which is
+ * the precision of the dates written by the application.
+ */
+export interface KeysetRow {
+  id: string;
+  createdAt: Date | string | number;
+}
+
+interface KeysetCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface KeysetQuery {
+  /** Condition selecting rows after or before the cursor */
+  where: FragmentSqlToken;
+  orderBy: FragmentSqlToken;
+  /** One more row than requested, to find out if there is another page */
+  limit: number;
+}
+
+export function encodeCursor(row: KeysetRow): string {
+  const cursor: KeysetCursor = {
+    createdAt: new Date(row.createdAt).toISOString(),
+    id: row.id,
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(value: string): KeysetCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString());
+    if (
+      typeof cursor?.id === 'string' &&
+      typeof cursor?.createdAt === 'string' &&
+      !Number.isNaN(Date.parse(cursor.createdAt))
+    ) {
+      return { createdAt: cursor.createdAt, id: cursor.id };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ArgumentInvalidException('Invalid pagination cursor');
+}
+
+export function keysetQuery(params: CursorPaginatedQueryParams): KeysetQuery {
+  if (params.after && params.before) {
+    throw new ArgumentInvalidException(
+      'Only one of "after" and "before" cursors can be used',
+    );
+  }
+
+  const limit = params.limit + 1;
+
+  if (params.before) {
+    // Preceding page: read towards newer rows, reversed in toCursorPage
+    const cursor = decodeCursor(params.before);
+    return {
+      where: sql.fragment`("createdAt", "id") > (${sql.timestamp(
+        new Date(cursor.createdAt),
+      )}, ${cursor.id})`,
+      orderBy: sql.fragment`"createdAt" ASC, "id" ASC`,
+      limit,
+    };
+  }
+
+  const orderBy = sql.fragment`"createdAt" DESC, "id" DESC`;
+  if (params.after) {
+    const cursor = decodeCursor(params.after);
+    return {
+      where: sql.fragment`("createdAt", "id") < (${sql.timestamp(
+        new Date(cursor.createdAt),
+      )}, ${cursor.id})`,
+      orderBy,
+      limit,
+    };
+  }
+
+  return { where: sql.fragment`TRUE`, orderBy, limit };
+}
+
+/**
+ * Builds a page from rows read with a query from `keysetQuery`
+ */
+export function toCursorPage<T>(
+  rows: readonly T[],
+  params: CursorPaginatedQueryParams,
+  getKey: (item: T) => KeysetRow = (item) => item as unknown as KeysetRow,
+): CursorPaginated<T> {
+  const hasMore = rows.length > params.limit;
+  const data = rows.slice(0, params.limit);
+  const backwards = !!params.before;
+  if (backwards) {
+    data.reverse();
+  }
+
+  const first = data[0];
+  const last = data[data.length - 1];
+  // Reading backwards, the page we came from always follows this one
+  const hasNext = backwards || hasMore;
+  const hasPrev = backwards ? hasMore : !!params.after;
+
+  return new CursorPaginated({
+    data,
+    limit: params.limit,
+    nextCursor:
+      last !== undefined && hasNext ? encodeCursor(getKey(last)) : null,
+    prevCursor:
+      first !== undefined && hasPrev ? encodeCursor(getKey(first)) : null,
+  });
+}
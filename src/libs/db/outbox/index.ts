@@ -0,0 +1,4 @@
+export * from './outbox.types';
+export * from './outbox.writer';
+export * from './outbox.relay';
+export * from './outbox.module';
@@ -0,0 +1,31 @@
+import { Inject, Logger } from '@nestjs/common';
+import { Command, Console } from 'nestjs-console';
+import { LoggerPort } from '@libs/ports/logger.port';
+import { OutboxRelay } from './outbox.relay';
+
+// Allows replaying outbox messages using CLI (Command Line Interface)
+@Console({
+  command: 'outbox',
+  description: 'Commands to manage the domain events outbox',
+})
+export class OutboxCliController {
+  constructor(
+    private readonly relay: OutboxRelay,
+    @Inject(Logger)
+    private readonly logger: LoggerPort,
+  ) {}
+
+  @Command({
+    command: 'replay [ids...]',
+    description:
+      'Requeue failed messages (or the given message ids) and deliver them',
+  })
+  async replay(ids: string[] = []): Promise<void> {
+    const requeued = await this.relay.requeue(ids);
+    const delivered = await this.relay.drain();
+
+    this.logger.log(
+      `Outbox replay: ${requeued} messages requeued, ${delivered} delivered`,
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { DynamicModule, Logger, Module } from '@nestjs/common';
+import { OutboxCliController } from './outbox.cli.controller';
+import { OUTBOX_RELAY_OPTIONS, OutboxRelay } from './outbox.relay';
+import { OutboxRelayOptions } from './outbox.types';
+
+/**
+ * Registers the outbox relay that delivers domain events persisted
+ * by SqlRepositoryBase, and the CLI command to replay them.
+ * Requires DatabaseModule and EventEmitterModule to be imported globally.
+ */
+@Module({})
+export class OutboxModule {
+  static forRoot(options: Partial<OutboxRelayOptions> = {}): DynamicModule {
+    return {
+      module: OutboxModule,
+      providers: [
+        { provide: OUTBOX_RELAY_OPTIONS, useValue: options },
+        OutboxRelay,
+        OutboxCliController,
+        Logger,
+      ],
+      exports: [OutboxRelay],
+    };
+  }
+}
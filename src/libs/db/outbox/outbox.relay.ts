@@ -0,0 +1,237 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabasePool, DatabaseTransactionConnection, sql } from 'slonik';
+import { DATABASE_POOL_TOKEN } from '@libs/database/database.constants';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import {
+  DEFAULT_OUTBOX_RELAY_OPTIONS,
+  OUTBOX_TABLE,
+  OutboxMessage,
+  outboxMessageSchema,
+  OutboxRelayOptions,
+  OutboxStatus,
+} from './outbox.types';
+
+export const OUTBOX_RELAY_OPTIONS = Symbol('OUTBOX_RELAY_OPTIONS');
+
+/**
+ * Delivers domain events stored in the outbox to in-process handlers
+ * (the ones registered with @OnEvent and OUTBOX_EVENT_HANDLER_OPTIONS, a
+ * handler that suppresses its errors is always considered successful).
+ * Handlers receive the stored JSON payload, see OutboxEvent.
+ *
+ * Every message is dispatched inside its own savepoint. Handlers run with the
+ * relay's transaction connection in the request context, so their writes and
+ * the "delivered" mark are committed together. A failing handler rolls back
+ * its own changes and the message is retried with exponential backoff until
+ * `maxAttempts` is reached, after which it is marked as failed and can be
+ * replayed manually (see OutboxCliController).
+ *
+ * Delivery is at-least-once, so handlers should be idempotent.
+ */
+@Injectable()
+export class OutboxRelay implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(OutboxRelay.name);
+
+  private readonly options: OutboxRelayOptions;
+
+  private timer?: NodeJS.Timeout;
+
+  private running = false;
+
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    private readonly pool: DatabasePool,
+    private readonly eventEmitter: EventEmitter2,
+    @Inject(OUTBOX_RELAY_OPTIONS)
+    options: Partial<OutboxRelayOptions>,
+  ) {
+    this.options = { ...DEFAULT_OUTBOX_RELAY_OPTIONS, ...options };
+  }
+
+  onApplicationBootstrap(): void {
+    if (process.env.OUTBOX_RELAY_DISABLED === 'true') {
+      this.logger.log('Outbox relay polling is disabled');
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.options.pollIntervalMs);
+    // Do not keep the process alive just because of the relay
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Deliver one batch of due messages.
+   * @returns number of messages that were delivered successfully
+   */
+  async relayPending(limit = this.options.batchSize): Promise<number> {
+    return this.pool.transaction(async (connection) => {
+      const { rows } = await connection.query(
+        sql.type(outboxMessageSchema)`
+          SELECT * FROM ${sql.identifier([OUTBOX_TABLE])}
+          WHERE "status" = ${OutboxStatus.pending} AND "availableAt" <= now()
+          ORDER BY "createdAt" ASC
+          LIMIT ${limit}
+          FOR UPDATE SKIP LOCKED
+        `,
+      );
+
+      let delivered = 0;
+      for (const message of rows) {
+        if (await this.deliver(connection, message)) {
+          delivered++;
+        }
+      }
+      return delivered;
+    });
+  }
+
+  /**
+   * Deliver batches until there is nothing due left.
+   * @returns total number of delivered messages
+   */
+  async drain(): Promise<number> {
+    let total = 0;
+    let delivered: number;
+    do {
+      delivered = await this.relayPending();
+      total += delivered;
+    } while (delivered > 0);
+    return total;
+  }
+
+  /**
+   * Put failed messages back into the queue so they are picked up again.
+   * When `ids` are provided only those messages are requeued (regardless
+   * of their status), otherwise every failed message is.
+   * @returns number of requeued messages
+   */
+  async requeue(ids?: string[]): Promise<number> {
+    const filter =
+      ids && ids.length > 0
+        ? sql.fragment`"id" = ANY(${sql.array(ids, 'text')})`
+        : sql.fragment`"status" = ${OutboxStatus.failed}`;
+
+    const result = await this.pool.query(sql.unsafe`
+      UPDATE ${sql.identifier([OUTBOX_TABLE])}
+      SET "status" = ${OutboxStatus.pending},
+          "attempts" = 0,
+          "availableAt" = now(),
+          "deliveredAt" = NULL
+      WHERE ${filter}
+    `);
+
+    return result.rowCount;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.drain();
+    } catch (error) {
+      this.logger.error(
+        `Outbox relay run failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async deliver(
+    connection: DatabaseTransactionConnection,
+    message: OutboxMessage,
+  ): Promise<boolean> {
+    try {
+      await connection.transaction(async (savepoint) => {
+        await RequestContextService.runInContext(
+          {
+            requestId: message.correlationId ?? message.id,
+            // Whatever the handlers do was caused by this event
+            causationId: message.id,
+            userId: this.getUserId(message),
+            transactionConnection: savepoint,
+          },
+          () => this.eventEmitter.emitAsync(message.eventName, message.payload),
+        );
+        await savepoint.query(sql.unsafe`
+          UPDATE ${sql.identifier([OUTBOX_TABLE])}
+          SET "status" = ${OutboxStatus.delivered},
+              "attempts" = "attempts" + 1,
+              "lastError" = NULL,
+              "deliveredAt" = now()
+          WHERE "id" = ${message.id}
+        `);
+      });
+
+      this.logger.debug(
+        `[${message.correlationId}] "${message.eventName}" delivered for aggregate ${message.aggregateType} : ${message.aggregateId}`,
+      );
+      return true;
+    } catch (error) {
+      await this.markAttemptFailed(connection, message, error);
+      return false;
+    }
+  }
+
+  private async markAttemptFailed(
+    connection: DatabaseTransactionConnection,
+    message: OutboxMessage,
+    error: unknown,
+  ): Promise<void> {
+    const attempts = message.attempts + 1;
+    const exhausted = attempts >= this.options.maxAttempts;
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+
+    await connection.query(sql.unsafe`
+      UPDATE ${sql.identifier([OUTBOX_TABLE])}
+      SET "status" = ${exhausted ? OutboxStatus.failed : OutboxStatus.pending},
+          "attempts" = ${attempts},
+          "lastError" = ${errorMessage},
+          "availableAt" = ${sql.timestamp(
+            new Date(Date.now() + this.getBackoffDelay(attempts)),
+          )}
+      WHERE "id" = ${message.id}
+    `);
+
+    const log = `[${message.correlationId}] "${message.eventName}" delivery attempt ${attempts} failed: ${errorMessage}`;
+    if (exhausted) {
+      this.logger.error(`${log}. Giving up, message marked as failed`);
+    } else {
+      this.logger.warn(log);
+    }
+  }
+
+  private getBackoffDelay(attempts: number): number {
+    return Math.min(
+      this.options.baseBackoffMs * 2 ** (attempts - 1),
+      this.options.maxBackoffMs,
+    );
+  }
+
+  /** The user who caused the event, kept in the serialized metadata */
+  private getUserId(message: OutboxMessage): string | undefined {
+    const metadata = message.payload.metadata as
+      { userId?: string } | undefined;
+    return metadata?.userId;
+  }
+}
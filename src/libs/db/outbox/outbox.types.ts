@@ -0,0 +1,85 @@
+import { z } from 'zod';
+
+export const OUTBOX_TABLE = 'outbox';
+
+export enum OutboxStatus {
+  pending = 'pending',
+  delivered = 'delivered',
+  failed = 'failed',
+}
+
+export const outboxMessageSchema = z.object({
+  id: z.string().min(1).max(255),
+  eventName: z.string().min(1).max(255),
+  aggregateId: z.string().min(1).max(255),
+  aggregateType: z.string().min(1).max(255),
+  payload: z.record(z.string(), z.unknown()),
+  correlationId: z.string().nullable(),
+  status: z.nativeEnum(OutboxStatus),
+  attempts: z.number().int().min(0),
+  lastError: z.string().nullable(),
+  availableAt: z.preprocess((val: any) => new Date(val), z.date()),
+  deliveredAt: z.preprocess(
+    (val: any) => (val ? new Date(val) : null),
+    z.date().nullable(),
+  ),
+  createdAt: z.preprocess((val: any) => new Date(val), z.date()),
+});
+
+export type OutboxMessage = z.TypeOf<typeof outboxMessageSchema>;
+
+/**
+ * A value after a round trip through the JSON payload of an outbox message:
+ * dates and bigints become strings, methods are gone
+ */
+export type Serialized<T> = T extends Date | bigint
+  ? string
+  : T extends (...args: any[]) => any
+    ? never
+    : T extends (infer Item)[]
+      ? Serialized<Item>[]
+      : T extends object
+        ? {
+            [
+              K in keyof T as T[K] extends (...args: any[]) => any ? never : K
+            ]: Serialized<T[K]>;
+          }
+        : T;
+
+/**
+ * A domain event as handlers receive it from the OutboxRelay. The relay
+ * dispatches the stored payload, not an instance of the event class.
+ */
+export type OutboxEvent<Event> = Serialized<Event>;
+
+/**
+ * Options for @OnEvent handlers of events delivered by the OutboxRelay.
+ * Errors must reach the relay so the delivery is retried; by default
+ * @nestjs/event-emitter only logs them.
+ */
+export const OUTBOX_EVENT_HANDLER_OPTIONS = {
+  async: true,
+  promisify: true,
+  suppressErrors: false,
+} as const;
+
+export interface OutboxRelayOptions {
+  /** Max number of messages picked up by a single relay run */
+  batchSize: number;
+  /** How often the relay polls for due messages */
+  pollIntervalMs: number;
+  /** After this many failed deliveries a message is marked as failed */
+  maxAttempts: number;
+  /** Base delay for exponential backoff between delivery attempts */
+  baseBackoffMs: number;
+  /** Upper bound for the backoff delay */
+  maxBackoffMs: number;
+}
+
+export const DEFAULT_OUTBOX_RELAY_OPTIONS: OutboxRelayOptions = {
+  batchSize: 50,
+  pollIntervalMs: 1000,
+  maxAttempts: 10,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 5 * 60 * 1000,
+};
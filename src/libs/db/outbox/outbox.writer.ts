@@ -0,0 +1,91 @@
+import { AggregateRoot, DomainEvent } from '@libs/ddd';
+import {
+  DatabasePool,
+  DatabaseTransactionConnection,
+  FragmentSqlToken,
+  SerializableValue,
+  sql,
+} from 'slonik';
+import { OUTBOX_TABLE, OutboxStatus } from './outbox.types';
+
+/**
+ * Converts an event (or any other object) to a JSON-compatible payload.
+ * bigint values (e.g. money amounts) are stored as strings.
+ */
+export function toJsonPayload(value: unknown): SerializableValue {
+  return JSON.parse(
+    JSON.stringify(value, (_key, item) =>
+      typeof item === 'bigint' ? item.toString() : item,
+    ),
+  );
+}
+
+/**
+ * Records domain events in the outbox table.
+ * Must be called with the same connection that persisted the aggregate,
+ * so the events are committed (or rolled back) together with it.
+ */
+export class OutboxWriter {
+  async append(
+    connection: DatabasePool | DatabaseTransactionConnection,
+    aggregates: AggregateRoot<unknown>[],
+  ): Promise<number> {
+    const rows = aggregates.flatMap((aggregate) =>
+      aggregate.domainEvents.map((event) =>
+        this.toRow(event, aggregate.constructor.name),
+      ),
+    );
+
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    await connection.query(sql.unsafe`
+      INSERT INTO ${sql.identifier([OUTBOX_TABLE])}
+      ("id", "eventName", "aggregateId", "aggregateType", "payload", "correlationId", "status")
+      VALUES ${sql.join(rows, sql.fragment`, `)}
+    `);
+
+    return rows.length;
+  }
+
+  /**
+   * Overwrites the given payload fields of all events of an aggregate,
+   * e.g. to scrub personal data that must not outlive the aggregate.
+   * Returns the number of redacted messages.
+   */
+  async redact(
+    connection: DatabasePool | DatabaseTransactionConnection,
+    aggregateId: string,
+    fields: string[],
+    replacement: string,
+  ): Promise<number> {
+    const keys = sql.array(fields, 'text');
+    const result = await connection.query(sql.unsafe`
+      UPDATE ${sql.identifier([OUTBOX_TABLE])}
+      SET "payload" = (
+        SELECT jsonb_object_agg(
+          "key",
+          CASE WHEN "key" = ANY(${keys}) THEN to_jsonb(${replacement}::text)
+          ELSE "value" END
+        )
+        FROM jsonb_each("payload")
+      )
+      WHERE "aggregateId" = ${aggregateId} AND "payload" ?| ${keys}
+    `);
+
+    return result.rowCount;
+  }
+
+  private toRow(event: DomainEvent, aggregateType: string): FragmentSqlToken {
+    return sql.fragment`(
+      ${event.id},
+      ${event.constructor.name},
+      ${event.aggregateId},
+      ${aggregateType},
+      ${sql.jsonb(toJsonPayload(event))},
+      ${event.metadata?.correlationId ?? null},
+      ${OutboxStatus.pending}
+    )`;
+  }
+}
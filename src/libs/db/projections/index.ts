@@ -0,0 +1,5 @@
+export * from './projection.types';
+export * from './projection.decorators';
+export * from './projector.base';
+export * from './projection.runner';
+export * from './projection.module';
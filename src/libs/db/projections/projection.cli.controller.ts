@@ -0,0 +1,48 @@
+import { Inject, Logger } from '@nestjs/common';
+import { Command, Console } from 'nestjs-console';
+import { LoggerPort } from '@libs/ports/logger.port';
+import { ProjectionRunner } from './projection.runner';
+
+// Allows rebuilding read models using CLI (Command Line Interface)
+@Console({
+  command: 'projections',
+  description: 'Commands to manage the projections of domain events',
+})
+export class ProjectionCliController {
+  constructor(
+    private readonly runner: ProjectionRunner,
+    @Inject(Logger)
+    private readonly logger: LoggerPort,
+  ) {}
+
+  @Command({
+    command: 'rebuild [names...]',
+    description:
+      'Rebuild the given projections (or all of them) from the delivered domain events',
+  })
+  async rebuild(names: string[] = []): Promise<void> {
+    const projections = names.length > 0 ? names : this.runner.projectionNames;
+
+    for (const name of projections) {
+      const processed = await this.runner.rebuild(name);
+      this.logger.log(`Projection ${name}: rebuilt from ${processed} events`);
+    }
+  }
+
+  @Command({
+    command: 'status',
+    description: 'Show the checkpoint of every projection',
+  })
+  async status(): Promise<void> {
+    const checkpoints = await this.runner.findCheckpoints();
+
+    for (const name of this.runner.projectionNames) {
+      const checkpoint = checkpoints.find((item) => item.name === name);
+      this.logger.log(
+        checkpoint
+          ? `Projection ${name}: ${checkpoint.eventsProcessed} events, last ${checkpoint.lastEventName ?? '-'} (${checkpoint.lastEventId ?? '-'}), rebuilt at ${checkpoint.rebuiltAt?.toISOString() ?? 'never'}`
+          : `Projection ${name}: nothing projected yet`,
+      );
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const PROJECTION_HANDLER_METADATA = 'projection:handler';
+
+/**
+ * Marks a method of a Projector as the handler of a domain event,
+ * by event name like @OnEvent does for event handlers
+ */
+export const ProjectionHandler = (eventName: string): MethodDecorator =>
+  SetMetadata(PROJECTION_HANDLER_METADATA, eventName);
@@ -0,0 +1,16 @@
+import { Logger, Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { ProjectionCliController } from './projection.cli.controller';
+import { ProjectionRunner } from './projection.runner';
+
+/**
+ * Subscribes every Projector provider to the domain events it handles
+ * and registers the CLI commands to rebuild projections.
+ * Requires DatabaseModule and EventEmitterModule to be imported globally.
+ */
+@Module({
+  imports: [DiscoveryModule],
+  providers: [ProjectionRunner, ProjectionCliController, Logger],
+  exports: [ProjectionRunner],
+})
+export class ProjectionModule {}
@@ -0,0 +1,213 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabasePool, DatabaseTransactionConnection, sql } from 'slonik';
+import { DATABASE_POOL_TOKEN } from '@libs/database/database.constants';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { ArgumentInvalidException } from '@libs/exceptions';
+import {
+  OUTBOX_TABLE,
+  OutboxMessage,
+  outboxMessageSchema,
+  OutboxStatus,
+} from '../outbox/outbox.types';
+import { PROJECTION_HANDLER_METADATA } from './projection.decorators';
+import {
+  Checkpoint,
+  checkpointSchema,
+  PROJECTION_CHECKPOINTS_TABLE,
+  ProjectionHandlerFn,
+} from './projection.types';
+import { Projector } from './projector.base';
+
+interface Registration {
+  projector: Projector;
+  handlers: Map<string, ProjectionHandlerFn>;
+}
+
+/**
+ * Keeps projections up to date and rebuilds them.
+ *
+ * Every Projector provider is subscribed to the events it handles. Events
+ * delivered by the OutboxRelay are projected with the relay's transaction
+ * connection, so a projection is updated exactly once per delivered event.
+ *
+ * The checkpoint row of a projection is locked while an event is projected
+ * and during a rebuild, so a rebuild sees every event projected before it
+ * and events delivered during a rebuild are projected after it.
+ */
+@Injectable()
+export class ProjectionRunner implements OnModuleInit {
+  private static readonly rebuildBatchSize = 500;
+
+  private readonly registrations = new Map<string, Registration>();
+
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    private readonly pool: DatabasePool,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly discovery: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+  ) {}
+
+  onModuleInit(): void {
+    for (const { instance } of this.discovery.getProviders()) {
+      if (instance instanceof Projector) {
+        this.register(instance);
+      }
+    }
+  }
+
+  get projectionNames(): string[] {
+    return [...this.registrations.keys()];
+  }
+
+  /**
+   * Empties the tables of a projection and projects all delivered
+   * events again, in the order they were recorded.
+   * @returns number of projected events
+   */
+  async rebuild(name: string): Promise<number> {
+    const { projector, handlers } = this.getRegistration(name);
+
+    return this.pool.transaction(async (connection) => {
+      await this.lockCheckpoint(connection, name);
+      await projector.reset(connection);
+
+      let processed = 0;
+      let last: OutboxMessage | undefined;
+      let rows: readonly OutboxMessage[];
+      do {
+        ({ rows } = await connection.query(
+          sql.type(outboxMessageSchema)`
+            SELECT * FROM ${sql.identifier([OUTBOX_TABLE])}
+            WHERE "status" = ${OutboxStatus.delivered}
+              AND "eventName" = ANY(${sql.array([...handlers.keys()], 'text')})
+              ${
+                last
+                  ? sql.fragment`AND ("createdAt", "id") > (${sql.timestamp(
+                      last.createdAt,
+                    )}, ${last.id})`
+                  : sql.fragment``
+              }
+            ORDER BY "createdAt" ASC, "id" ASC
+            LIMIT ${ProjectionRunner.rebuildBatchSize}
+          `,
+        ));
+
+        for (const message of rows) {
+          const handle = handlers.get(message.eventName) as ProjectionHandlerFn;
+          await handle.call(projector, message.payload, connection);
+        }
+        processed += rows.length;
+        last = rows[rows.length - 1] ?? last;
+      } while (rows.length === ProjectionRunner.rebuildBatchSize);
+
+      await connection.query(sql.unsafe`
+        UPDATE ${sql.identifier([PROJECTION_CHECKPOINTS_TABLE])}
+        SET "lastEventId" = ${last?.id ?? null},
+            "lastEventName" = ${last?.eventName ?? null},
+            "eventsProcessed" = ${processed},
+            "rebuiltAt" = now(),
+            "updatedAt" = now()
+        WHERE "name" = ${name}
+      `);
+
+      return processed;
+    });
+  }
+
+  /** Checkpoints of the registered projections, if they projected anything */
+  async findCheckpoints(): Promise<readonly Checkpoint[]> {
+    const { rows } = await this.pool.query(
+      sql.type(checkpointSchema)`
+        SELECT * FROM ${sql.identifier([PROJECTION_CHECKPOINTS_TABLE])}
+        WHERE "name" = ANY(${sql.array(this.projectionNames, 'text')})
+        ORDER BY "name" ASC
+      `,
+    );
+    return rows;
+  }
+
+  private register(projector: Projector): void {
+    if (this.registrations.has(projector.name)) {
+      throw new ArgumentInvalidException(
+        `Projection "${projector.name}" is registered twice`,
+      );
+    }
+
+    const handlers = new Map<string, ProjectionHandlerFn>();
+    const prototype = Object.getPrototypeOf(projector);
+    for (const method of this.metadataScanner.getAllMethodNames(prototype)) {
+      const eventName = this.reflector.get<string>(
+        PROJECTION_HANDLER_METADATA,
+        prototype[method],
+      );
+      if (eventName) {
+        handlers.set(eventName, prototype[method]);
+      }
+    }
+
+    this.registrations.set(projector.name, { projector, handlers });
+    for (const [eventName, handle] of handlers) {
+      this.eventEmitter.on(
+        eventName,
+        (event: Record<string, unknown>) =>
+          this.project(projector, handle, eventName, event),
+        { async: true, promisify: true },
+      );
+    }
+  }
+
+  private async project(
+    projector: Projector,
+    handle: ProjectionHandlerFn,
+    eventName: string,
+    event: Record<string, unknown>,
+  ): Promise<void> {
+    const apply = async (
+      connection: DatabaseTransactionConnection,
+    ): Promise<void> => {
+      await this.lockCheckpoint(connection, projector.name);
+      await handle.call(projector, event, connection);
+      await connection.query(sql.unsafe`
+        UPDATE ${sql.identifier([PROJECTION_CHECKPOINTS_TABLE])}
+        SET "lastEventId" = ${String(event.id)},
+            "lastEventName" = ${eventName},
+            "eventsProcessed" = "eventsProcessed" + 1,
+            "updatedAt" = now()
+        WHERE "name" = ${projector.name}
+      `);
+    };
+
+    const connection = RequestContextService.getTransactionConnection();
+    if (connection) {
+      await apply(connection);
+    } else {
+      await this.pool.transaction(apply);
+    }
+  }
+
+  /** Creates the checkpoint if needed and locks it until the end of the transaction */
+  private async lockCheckpoint(
+    connection: DatabaseTransactionConnection,
+    name: string,
+  ): Promise<void> {
+    await connection.query(sql.unsafe`
+      INSERT INTO ${sql.identifier([PROJECTION_CHECKPOINTS_TABLE])} ("name")
+      VALUES (${name})
+      ON CONFLICT ("name") DO UPDATE SET "name" = EXCLUDED."name"
+    `);
+  }
+
+  private getRegistration(name: string): Registration {
+    const registration = this.registrations.get(name);
+    if (!registration) {
+      throw new ArgumentInvalidException(
+        `Unknown projection "${name}", expected one of: ${this.projectionNames.join(', ')}`,
+      );
+    }
+    return registration;
+  }
+}
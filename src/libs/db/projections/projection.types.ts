@@ -0,0 +1,27 @@
+import { DatabaseTransactionConnection } from 'slonik';
+import { z } from 'zod';
+
+export const PROJECTION_CHECKPOINTS_TABLE = 'projection_checkpoints';
+
+export const checkpointSchema = z.object({
+  name: z.string().min(1).max(255),
+  lastEventId: z.string().nullable(),
+  lastEventName: z.string().nullable(),
+  eventsProcessed: z.coerce.number().int().min(0),
+  rebuiltAt: z.preprocess(
+    (val: any) => (val ? new Date(val) : null),
+    z.date().nullable(),
+  ),
+  updatedAt: z.preprocess((val: any) => new Date(val), z.date()),
+});
+
+export type Checkpoint = z.TypeOf<typeof checkpointSchema>;
+
+/**
+ * Applies a serialized domain event (as stored in the outbox)
+ * to a read model, using the given connection for all writes
+ */
+export type ProjectionHandlerFn = (
+  event: any,
+  connection: DatabaseTransactionConnection,
+) => Promise<void>;
@@ -0,0 +1,26 @@
+import { DatabaseTransactionConnection, sql } from 'slonik';
+
+/**
+ * Maintains a read model from domain events.
+ *
+ * Projectors are regular providers, their methods decorated with
+ * @ProjectionHandler are called by the ProjectionRunner for every
+ * delivered event with that name. A projection can be rebuilt from scratch,
+ * so handlers must only write to the tables owned by the projector.
+ */
+export abstract class Projector {
+  /** Identifies the projection in its checkpoint and in the CLI */
+  abstract readonly name: string;
+
+  /** Tables owned by the projection, emptied before a rebuild */
+  protected abstract readonly tables: string[];
+
+  async reset(connection: DatabaseTransactionConnection): Promise<void> {
+    await connection.query(sql.unsafe`
+      TRUNCATE ${sql.join(
+        this.tables.map((table) => sql.identifier([table])),
+        sql.fragment`, `,
+      )}
+    `);
+  }
+}
@@ -0,0 +1,6 @@
+export * from './saga.types';
+export * from './saga.decorators';
+export * from './saga.base';
+export * from './saga.store';
+export * from './saga.manager';
+export * from './saga.module';
@@ -0,0 +1,39 @@
+import { ICommand } from '@nestjs/cqrs';
+
+export interface SagaStep<State extends object> {
+  name: string;
+  /**
+   * Command performing the step. A step without command is completed
+   * right away, e.g. the one that started the saga
+   */
+  invoke?(state: State): ICommand;
+  /** Merges the result of the command into the state */
+  onCompleted?(state: State, result: unknown): State;
+  /** Command undoing the step when a later step fails */
+  compensate?(state: State): ICommand | undefined;
+  /** Time the step may take, including retries */
+  timeoutMs?: number;
+}
+
+export interface SagaStartOptions<State extends object> {
+  /** Identifies the instance, a saga is started only once per key */
+  key: string;
+  state: State;
+}
+
+/**
+ * Workflow spanning several aggregates, run by the SagaManager.
+ *
+ * Steps are run in order by dispatching their commands through the
+ * CommandBus. A step returning an error makes the saga compensate: the
+ * completed steps are undone in reverse order. A step throwing is retried
+ * with backoff until its timeout, then the saga compensates as well.
+ * Commands of steps and compensations may run more than once,
+ * so their handlers should be idempotent.
+ */
+export abstract class Saga<State extends object> {
+  /** Identifies the saga in its persisted instances */
+  abstract readonly name: string;
+
+  abstract readonly steps: SagaStep<State>[];
+}
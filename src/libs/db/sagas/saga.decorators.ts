@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const SAGA_START_METADATA = 'saga:start';
+
+/**
+ * Marks a method of a Saga that starts a new instance when a domain event
+ * with the given name is delivered. The method returns the key and the
+ * initial state of the instance, or nothing to not start one.
+ */
+export const SagaStart = (eventName: string): MethodDecorator =>
+  SetMetadata(SAGA_START_METADATA, eventName);
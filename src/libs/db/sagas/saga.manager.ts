@@ -0,0 +1,403 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { CommandBus } from '@nestjs/cqrs';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { randomUUID } from 'crypto';
+import { Result } from 'oxide.ts';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { ArgumentInvalidException } from '@libs/exceptions';
+import { SAGA_START_METADATA } from './saga.decorators';
+import { Saga, SagaStartOptions } from './saga.base';
+import { SagaStore } from './saga.store';
+import {
+  DEFAULT_SAGA_MANAGER_OPTIONS,
+  SagaInstance,
+  SagaManagerOptions,
+  SagaRun,
+  SagaStatus,
+} from './saga.types';
+
+export const SAGA_MANAGER_OPTIONS = Symbol('SAGA_MANAGER_OPTIONS');
+
+interface Transition<State extends object> {
+  instance: SagaInstance<State>;
+  /** Error returned by a step, it makes the saga compensate */
+  error?: unknown;
+  /** The saga has to wait until it is resumed */
+  wait?: boolean;
+}
+
+/**
+ * Runs sagas (see Saga).
+ *
+ * Every Saga provider is subscribed to the events that start it. A started
+ * saga runs its steps right away, within the transaction of the request
+ * context if there is one. Its state is saved after every step, sagas that
+ * have to retry a step, or were interrupted, are resumed by polling.
+ */
+@Injectable()
+export class SagaManager
+  implements OnModuleInit, OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(SagaManager.name);
+
+  private readonly options: SagaManagerOptions;
+
+  private readonly sagas = new Map<string, Saga<any>>();
+
+  private timer?: NodeJS.Timeout;
+
+  private running = false;
+
+  constructor(
+    private readonly store: SagaStore,
+    private readonly commandBus: CommandBus,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly discovery: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+    @Inject(SAGA_MANAGER_OPTIONS)
+    options: Partial<SagaManagerOptions>,
+  ) {
+    this.options = { ...DEFAULT_SAGA_MANAGER_OPTIONS, ...options };
+  }
+
+  onModuleInit(): void {
+    for (const { instance } of this.discovery.getProviders()) {
+      if (instance instanceof Saga) {
+        this.register(instance);
+      }
+    }
+  }
+
+  onApplicationBootstrap(): void {
+    if (process.env.SAGA_SCHEDULER_DISABLED === 'true') {
+      this.logger.log('Saga scheduler is disabled');
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.options.pollIntervalMs);
+    // Do not keep the process alive just because of the scheduler
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Starts a saga and runs it until it is finished or has to wait.
+   * A saga is started only once per key, starting it again
+   * returns the existing instance.
+   */
+  async start<State extends object>(
+    saga: Saga<State>,
+    { key, state }: SagaStartOptions<State>,
+  ): Promise<SagaRun<State>> {
+    const now = new Date();
+    const created = await this.store.create<State>({
+      id: randomUUID(),
+      type: saga.name,
+      key,
+      status: SagaStatus.running,
+      step: 0,
+      state,
+      correlationId: RequestContextService.getRequestId(),
+      attempts: 0,
+      lastError: null,
+      deadlineAt: this.getDeadline(saga, 0, now),
+      nextAttemptAt: new Date(now.getTime() + this.options.leaseMs),
+      createdAt: now,
+      updatedAt: now,
+    });
+    if (created.isNone()) {
+      const existing = await this.store.findByKey<State>(saga.name, key);
+      return { instance: existing.unwrap() };
+    }
+    return this.run(saga, created.unwrap());
+  }
+
+  /**
+   * Resume one batch of sagas that have to retry a step or were interrupted.
+   * @returns number of resumed sagas
+   */
+  async resumeDue(limit = this.options.batchSize): Promise<number> {
+    const instances = await this.store.claimDue(limit, this.options.leaseMs);
+
+    for (const instance of instances) {
+      const saga = this.sagas.get(instance.type);
+      if (!saga) {
+        this.logger.warn(
+          `Saga ${instance.id} of unknown type ${instance.type}`,
+        );
+        continue;
+      }
+      // A failing saga does not stop the batch
+      await RequestContextService.runInContext(
+        { requestId: instance.correlationId },
+        () => this.run(saga, instance),
+      ).catch((error: unknown) => {
+        this.logger.error(
+          `[${instance.correlationId}] Saga ${instance.type} ${instance.id} could not be resumed: ${this.getMessage(error)}`,
+        );
+      });
+    }
+    return instances.length;
+  }
+
+  private register(saga: Saga<any>): void {
+    if (this.sagas.has(saga.name)) {
+      throw new ArgumentInvalidException(
+        `Saga "${saga.name}" is registered twice`,
+      );
+    }
+    this.sagas.set(saga.name, saga);
+
+    const prototype = Object.getPrototypeOf(saga);
+    for (const method of this.metadataScanner.getAllMethodNames(prototype)) {
+      const eventName = this.reflector.get<string>(
+        SAGA_START_METADATA,
+        prototype[method],
+      );
+      if (!eventName) {
+        continue;
+      }
+      this.eventEmitter.on(
+        eventName,
+        async (event: unknown) => {
+          const options = await prototype[method].call(saga, event);
+          if (options) {
+            await this.start(saga, options);
+          }
+        },
+        { async: true, promisify: true },
+      );
+    }
+  }
+
+  private async run<State extends object>(
+    saga: Saga<State>,
+    instance: SagaInstance<State>,
+  ): Promise<SagaRun<State>> {
+    let current = instance;
+    let error: unknown;
+    let wait = false;
+
+    while (
+      !wait &&
+      (current.status === SagaStatus.running ||
+        current.status === SagaStatus.compensating)
+    ) {
+      const transition =
+        current.status === SagaStatus.running
+          ? await this.forward(saga, current)
+          : await this.backward(saga, current);
+      current = await this.store.save(transition.instance);
+      error = transition.error ?? error;
+      wait = transition.wait ?? false;
+    }
+
+    this.logger.debug(
+      `[${current.correlationId}] Saga ${saga.name} ${current.id} is ${current.status} (step ${current.step})`,
+    );
+    return { instance: current, error };
+  }
+
+  /** Runs the current step */
+  private async forward<State extends object>(
+    saga: Saga<State>,
+    instance: SagaInstance<State>,
+  ): Promise<Transition<State>> {
+    const step = saga.steps[instance.step];
+    if (!step) {
+      return {
+        instance: {
+          ...instance,
+          status: SagaStatus.completed,
+          deadlineAt: null,
+          nextAttemptAt: null,
+        },
+      };
+    }
+    if (instance.deadlineAt && instance.deadlineAt.getTime() <= Date.now()) {
+      return {
+        instance: this.compensate(
+          instance,
+          `Step ${step.name} timed out after ${instance.attempts} attempts`,
+        ),
+      };
+    }
+    if (!step.invoke) {
+      return { instance: this.next(saga, instance, instance.state) };
+    }
+
+    try {
+      const result = await this.commandBus.execute(step.invoke(instance.state));
+      if (Result.is(result) && result.isErr()) {
+        const error = result.unwrapErr();
+        return {
+          instance: this.compensate(
+            instance,
+            `Step ${step.name} failed: ${this.getMessage(error)}`,
+          ),
+          error,
+        };
+      }
+      const value = Result.is(result) ? result.unwrap() : result;
+      const state = step.onCompleted
+        ? step.onCompleted(instance.state, value)
+        : instance.state;
+      return { instance: this.next(saga, instance, state) };
+    } catch (error) {
+      return {
+        instance: this.retryLater(
+          instance,
+          `Step ${step.name} failed: ${this.getMessage(error)}`,
+        ),
+        wait: true,
+      };
+    }
+  }
+
+  /** Undoes the completed step at `instance.step` */
+  private async backward<State extends object>(
+    saga: Saga<State>,
+    instance: SagaInstance<State>,
+  ): Promise<Transition<State>> {
+    if (instance.step < 0) {
+      return {
+        instance: {
+          ...instance,
+          status: SagaStatus.compensated,
+          deadlineAt: null,
+          nextAttemptAt: null,
+        },
+      };
+    }
+
+    const step = saga.steps[instance.step];
+    const command = step.compensate?.(instance.state);
+    try {
+      if (command) {
+        const result = await this.commandBus.execute(command);
+        if (Result.is(result) && result.isErr()) {
+          throw result.unwrapErr();
+        }
+      }
+      return {
+        instance: { ...instance, step: instance.step - 1, attempts: 0 },
+      };
+    } catch (error) {
+      const lastError = `Compensation of step ${step.name} failed: ${this.getMessage(error)}`;
+      if (instance.attempts + 1 >= this.options.maxCompensationAttempts) {
+        this.logger.error(
+          `[${instance.correlationId}] ${lastError}. Giving up, saga ${saga.name} ${instance.id} marked as failed`,
+        );
+        return {
+          instance: {
+            ...instance,
+            status: SagaStatus.failed,
+            attempts: instance.attempts + 1,
+            lastError,
+            nextAttemptAt: null,
+          },
+          wait: true,
+        };
+      }
+      return { instance: this.retryLater(instance, lastError), wait: true };
+    }
+  }
+
+  private next<State extends object>(
+    saga: Saga<State>,
+    instance: SagaInstance<State>,
+    state: State,
+  ): SagaInstance<State> {
+    const now = new Date();
+    return {
+      ...instance,
+      step: instance.step + 1,
+      state,
+      attempts: 0,
+      deadlineAt: this.getDeadline(saga, instance.step + 1, now),
+      nextAttemptAt: new Date(now.getTime() + this.options.leaseMs),
+    };
+  }
+
+  /** Starts undoing the completed steps, the current one did not complete */
+  private compensate<State extends object>(
+    instance: SagaInstance<State>,
+    lastError: string,
+  ): SagaInstance<State> {
+    this.logger.warn(`[${instance.correlationId}] ${lastError}, compensating`);
+    return {
+      ...instance,
+      status: SagaStatus.compensating,
+      step: instance.step - 1,
+      attempts: 0,
+      lastError,
+      deadlineAt: null,
+      nextAttemptAt: new Date(Date.now() + this.options.leaseMs),
+    };
+  }
+
+  private retryLater<State extends object>(
+    instance: SagaInstance<State>,
+    lastError: string,
+  ): SagaInstance<State> {
+    const attempts = instance.attempts + 1;
+    this.logger.warn(
+      `[${instance.correlationId}] ${lastError} (attempt ${attempts})`,
+    );
+    return {
+      ...instance,
+      attempts,
+      lastError,
+      nextAttemptAt: new Date(Date.now() + this.getBackoffDelay(attempts)),
+    };
+  }
+
+  private getDeadline(saga: Saga<any>, step: number, now: Date): Date | null {
+    if (step >= saga.steps.length) {
+      return null;
+    }
+    const timeoutMs = saga.steps[step].timeoutMs ?? this.options.stepTimeoutMs;
+    return new Date(now.getTime() + timeoutMs);
+  }
+
+  private getBackoffDelay(attempts: number): number {
+    return Math.min(
+      this.options.baseRetryDelayMs * 2 ** (attempts - 1),
+      this.options.maxRetryDelayMs,
+    );
+  }
+
+  private getMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.resumeDue();
+    } catch (error) {
+      this.logger.error(`Saga run failed: ${this.getMessage(error)}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
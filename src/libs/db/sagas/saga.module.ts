@@ -0,0 +1,27 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { CqrsModule } from '@nestjs/cqrs';
+import { SAGA_MANAGER_OPTIONS, SagaManager } from './saga.manager';
+import { SagaStore } from './saga.store';
+import { SagaManagerOptions } from './saga.types';
+
+/**
+ * Registers the manager that starts, runs and resumes every Saga provider.
+ * Requires DatabaseModule and EventEmitterModule to be imported globally.
+ */
+@Module({})
+export class SagaModule {
+  static forRoot(options: Partial<SagaManagerOptions> = {}): DynamicModule {
+    return {
+      module: SagaModule,
+      global: true,
+      imports: [DiscoveryModule, CqrsModule],
+      providers: [
+        { provide: SAGA_MANAGER_OPTIONS, useValue: options },
+        SagaStore,
+        SagaManager,
+      ],
+      exports: [SagaManager],
+    };
+  }
+}
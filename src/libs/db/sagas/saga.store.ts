@@ -0,0 +1,121 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { None, Option, Some } from 'oxide.ts';
+import { DatabasePool, DatabaseTransactionConnection, sql } from 'slonik';
+import { DATABASE_POOL_TOKEN } from '@libs/database/database.constants';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { toJsonPayload } from '../outbox/outbox.writer';
+import {
+  SAGAS_TABLE,
+  SagaInstance,
+  sagaInstanceSchema,
+  SagaStatus,
+} from './saga.types';
+
+/**
+ * Persists saga instances. Uses the transaction of the request context
+ * when there is one, so a saga started by a delivered event is stored
+ * together with the delivery.
+ */
+@Injectable()
+export class SagaStore {
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    private readonly _pool: DatabasePool,
+  ) {}
+
+  /**
+   * @returns the stored instance, or None when an instance
+   * of the same saga with the same key already exists
+   */
+  async create<State extends object>(
+    instance: SagaInstance<State>,
+  ): Promise<Option<SagaInstance<State>>> {
+    const created = await this.pool.maybeOne(
+      sql.type(sagaInstanceSchema)`
+        INSERT INTO ${sql.identifier([SAGAS_TABLE])}
+        ("id", "type", "key", "status", "step", "state", "correlationId", "deadlineAt", "nextAttemptAt")
+        VALUES (
+          ${instance.id},
+          ${instance.type},
+          ${instance.key},
+          ${instance.status},
+          ${instance.step},
+          ${sql.jsonb(toJsonPayload(instance.state))},
+          ${instance.correlationId},
+          ${this.timestamp(instance.deadlineAt)},
+          ${this.timestamp(instance.nextAttemptAt)}
+        )
+        ON CONFLICT ("type", "key") DO NOTHING
+        RETURNING *
+      `,
+    );
+    return created ? Some(created as SagaInstance<State>) : None;
+  }
+
+  async findByKey<State extends object>(
+    type: string,
+    key: string,
+  ): Promise<Option<SagaInstance<State>>> {
+    const found = await this.pool.maybeOne(
+      sql.type(sagaInstanceSchema)`
+        SELECT * FROM ${sql.identifier([SAGAS_TABLE])}
+        WHERE "type" = ${type} AND "key" = ${key}
+      `,
+    );
+    return found ? Some(found as SagaInstance<State>) : None;
+  }
+
+  async save<State extends object>(
+    instance: SagaInstance<State>,
+  ): Promise<SagaInstance<State>> {
+    const saved = await this.pool.one(
+      sql.type(sagaInstanceSchema)`
+        UPDATE ${sql.identifier([SAGAS_TABLE])}
+        SET "status" = ${instance.status},
+            "step" = ${instance.step},
+            "state" = ${sql.jsonb(toJsonPayload(instance.state))},
+            "attempts" = ${instance.attempts},
+            "lastError" = ${instance.lastError},
+            "deadlineAt" = ${this.timestamp(instance.deadlineAt)},
+            "nextAttemptAt" = ${this.timestamp(instance.nextAttemptAt)},
+            "updatedAt" = now()
+        WHERE "id" = ${instance.id}
+        RETURNING *
+      `,
+    );
+    return saved as SagaInstance<State>;
+  }
+
+  /**
+   * Picks up unfinished sagas that are due and postpones them by `leaseMs`,
+   * so they are not resumed twice while they run
+   */
+  async claimDue(limit: number, leaseMs: number): Promise<SagaInstance[]> {
+    const { rows } = await this.pool.query(
+      sql.type(sagaInstanceSchema)`
+        UPDATE ${sql.identifier([SAGAS_TABLE])}
+        SET "nextAttemptAt" = ${sql.timestamp(new Date(Date.now() + leaseMs))}
+        WHERE "id" IN (
+          SELECT "id" FROM ${sql.identifier([SAGAS_TABLE])}
+          WHERE "status" IN (${SagaStatus.running}, ${SagaStatus.compensating})
+            AND "nextAttemptAt" <= now()
+          ORDER BY "nextAttemptAt" ASC
+          LIMIT ${limit}
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+      `,
+    );
+    return [...rows];
+  }
+
+  private timestamp(
+    date: Date | null,
+  ): ReturnType<typeof sql.timestamp> | null {
+    return date ? sql.timestamp(date) : null;
+  }
+
+  private get pool(): DatabasePool | DatabaseTransactionConnection {
+    return RequestContextService.getTransactionConnection() ?? this._pool;
+  }
+}
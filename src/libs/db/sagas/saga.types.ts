@@ -0,0 +1,76 @@
+import { z } from 'zod';
+
+export const SAGAS_TABLE = 'sagas';
+
+export enum SagaStatus {
+  running = 'running',
+  compensating = 'compensating',
+  completed = 'completed',
+  compensated = 'compensated',
+  /** A compensation failed as well, the saga needs manual intervention */
+  failed = 'failed',
+}
+
+export const sagaInstanceSchema = z.object({
+  id: z.string().min(1).max(255),
+  type: z.string().min(1).max(255),
+  key: z.string().min(1).max(255),
+  status: z.nativeEnum(SagaStatus),
+  step: z.number().int(),
+  state: z.record(z.string(), z.unknown()),
+  correlationId: z.string().min(1).max(255),
+  attempts: z.number().int().min(0),
+  lastError: z.string().nullable(),
+  deadlineAt: z.preprocess(
+    (val: any) => (val ? new Date(val) : null),
+    z.date().nullable(),
+  ),
+  nextAttemptAt: z.preprocess(
+    (val: any) => (val ? new Date(val) : null),
+    z.date().nullable(),
+  ),
+  createdAt: z.preprocess((val: any) => new Date(val), z.date()),
+  updatedAt: z.preprocess((val: any) => new Date(val), z.date()),
+});
+
+export type SagaRecord = z.TypeOf<typeof sagaInstanceSchema>;
+
+export interface SagaInstance<
+  State extends object = Record<string, unknown>,
+> extends Omit<SagaRecord, 'state'> {
+  state: State;
+}
+
+/** Outcome of running a saga until it finished or has to wait */
+export interface SagaRun<State extends object> {
+  instance: SagaInstance<State>;
+  /** Error returned by the step that made the saga compensate, if any */
+  error?: unknown;
+}
+
+export interface SagaManagerOptions {
+  /** Max number of sagas resumed by a single run */
+  batchSize: number;
+  /** How often the manager polls for sagas to resume */
+  pollIntervalMs: number;
+  /** Time a step may take, including retries, unless the step sets its own */
+  stepTimeoutMs: number;
+  /** A saga being run is not resumed by another run for this long */
+  leaseMs: number;
+  /** Base delay for exponential backoff between attempts of a step */
+  baseRetryDelayMs: number;
+  /** Upper bound for the backoff delay */
+  maxRetryDelayMs: number;
+  /** After this many failed compensations a saga is marked as failed */
+  maxCompensationAttempts: number;
+}
+
+export const DEFAULT_SAGA_MANAGER_OPTIONS: SagaManagerOptions = {
+  batchSize: 20,
+  pollIntervalMs: 5000,
+  stepTimeoutMs: 60 * 60 * 1000,
+  leaseMs: 60 * 1000,
+  baseRetryDelayMs: 1000,
+  maxRetryDelayMs: 5 * 60 * 1000,
+  maxCompensationAttempts: 10,
+};
@@ -1,8 +1,17 @@
 import { RequestContextService } from '@libs/application/context/AppRequestContext';
-import { AggregateRoot, PaginatedQueryParams, Paginated } from '@libs/ddd';
+import {
+  AggregateRoot,
+  CursorPaginated,
+  CursorPaginatedQueryParams,
+  PaginatedQueryParams,
+  Paginated,
+} from '@libs/ddd';
 import { Mapper } from '@libs/ddd';
 import { RepositoryPort } from '@libs/ddd';
-import { ConflictException } from '@libs/exceptions';
+import {
+  ConcurrencyConflictException,
+  ConflictException,
+} from '@libs/exceptions';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { None, Option, Some } from 'oxide.ts';
 import {
@@ -14,17 +23,37 @@ import {
   UniqueIntegrityConstraintViolationError,
   NotFoundError,
   DataIntegrityError,
+  FragmentSqlToken,
   // ValueExpressionToken, // Not available in v48
   SqlToken,
 } from 'slonik';
 import { ZodSchema, ZodType, z } from 'zod';
 import { LoggerPort } from '../ports/logger.port';
 import { ObjectLiteral } from '../types';
+import { OutboxWriter } from './outbox/outbox.writer';
+import { JournalWriter } from './journal/journal.writer';
+import { keysetQuery, toCursorPage } from './keyset-pagination';
+
+/** Column used for optimistic concurrency control */
+const VERSION_COLUMN = 'version';
 
 /**
  * Generic type-safe repository base class for SQL operations using Slonik.
  * Provides common CRUD operations with proper type safety, validation, and event handling.
  *
+ * Domain events raised by aggregates are not published directly: they are
+ * written to the outbox table in the same transaction as the aggregate
+ * and delivered afterwards by the OutboxRelay.
+ *
+ * If a persistence model has a `version` column, updates use optimistic
+ * concurrency control: a row is updated only if its version still matches
+ * the version of the loaded aggregate, otherwise
+ * a ConcurrencyConflictException is thrown.
+ *
+ * Repositories that set `softDeleteColumn` keep deleted rows in the table:
+ * the generic find methods and count skip rows where that column is set.
+ * Find methods return them too when `withDeleted` is requested.
+ *
  * @template Aggregate - The domain aggregate type
  * @template DbModel - The database model type
  * @template EntityId - The entity identifier type (defaults to string)
@@ -45,6 +74,15 @@ export abstract class SqlRepositoryBase<
   protected idSchema?: ZodType<EntityId> =
     z.string() as unknown as ZodType<EntityId>;
 
+  /** Timestamp column marking soft deleted rows, hard deletes when not set */
+  protected softDeleteColumn?: string;
+
+  /** Records domain events in the outbox table */
+  protected readonly outbox = new OutboxWriter();
+
+  /** Records domain events with their causation in the event journal */
+  protected readonly journal = new JournalWriter();
+
   protected constructor(
     private readonly _pool: DatabasePool,
     protected readonly mapper: Mapper<Aggregate, DbModel>,
@@ -82,7 +120,10 @@ export abstract class SqlRepositoryBase<
   /**
    * Find a single entity by its ID with proper type safety and validation
    */
-  async findOneById(id: string): Promise<Option<Aggregate>> {
+  async findOneById(
+    id: string,
+    options?: { withDeleted?: boolean },
+  ): Promise<Option<Aggregate>> {
     return this.withErrorHandling(
       'findOneById',
       async () => {
@@ -90,8 +131,8 @@ export abstract class SqlRepositoryBase<
         const validatedId = this.idSchema ? this.idSchema.parse(id) : id;
 
         const query = sql.type(this.schema)`
-        SELECT * FROM ${sql.identifier([this.tableName])} 
-        WHERE id = ${validatedId}
+        SELECT ${this.selectColumns()} FROM ${sql.identifier([this.tableName])} 
+        WHERE ${this.notDeleted(sql.fragment`id = ${validatedId}`, options)}
       `;
 
         const result = await this.executeQuery(query, 'findOneById');
@@ -121,15 +162,17 @@ export abstract class SqlRepositoryBase<
     orderBy?: string;
     orderDirection?: 'ASC' | 'DESC';
     where?: SqlToken;
+    withDeleted?: boolean;
   }): Promise<Aggregate[]> {
     try {
       let query = sql.type(
         this.schema,
-      )`SELECT * FROM ${sql.identifier([this.tableName])}`;
+      )`SELECT ${this.selectColumns()} FROM ${sql.identifier([this.tableName])}`;
 
       // Add WHERE clause if provided
-      if (options?.where) {
-        query = sql.type(this.schema)`${query} WHERE ${options.where}`;
+      const where = this.notDeleted(options?.where, options);
+      if (where) {
+        query = sql.type(this.schema)`${query} WHERE ${where}`;
       }
 
       // Add ORDER BY clause if provided
@@ -165,14 +208,16 @@ export abstract class SqlRepositoryBase<
       orderBy?: string;
       orderDirection?: 'ASC' | 'DESC';
       where?: SqlToken;
+      withDeleted?: boolean;
     },
   ): Promise<Paginated<Aggregate>> {
     try {
       // Build base query
       let baseQuery = sql.unsafe`FROM ${sql.identifier([this.tableName])}`;
 
-      if (options?.where) {
-        baseQuery = sql.unsafe`${baseQuery} WHERE ${options.where}`;
+      const where = this.notDeleted(options?.where, options);
+      if (where) {
+        baseQuery = sql.unsafe`${baseQuery} WHERE ${where}`;
       }
 
       // Get total count for pagination metadata
@@ -184,7 +229,9 @@ export abstract class SqlRepositoryBase<
       const totalCount = Number(countResult.rows[0]?.total || 0);
 
       // Build main query with pagination
-      let dataQuery = sql.type(this.schema)`SELECT * ${baseQuery}`;
+      let dataQuery = sql.type(
+        this.schema,
+      )`SELECT ${this.selectColumns()} ${baseQuery}`;
 
       // Add ordering
       if (options?.orderBy) {
@@ -236,6 +283,60 @@ export abstract class SqlRepositoryBase<
     }
   }
 
+  /**
+   * Find entities with keyset pagination, newest first.
+   * Throws ArgumentInvalidException for a malformed cursor.
+   */
+  async findAllCursorPaginated(
+    params: CursorPaginatedQueryParams,
+    options?: { where?: SqlToken; withDeleted?: boolean },
+  ): Promise<CursorPaginated<Aggregate>> {
+    const keyset = keysetQuery(params);
+
+    try {
+      const filter = this.notDeleted(options?.where, options);
+      const where = filter
+        ? sql.fragment`(${filter}) AND ${keyset.where}`
+        : keyset.where;
+
+      const result = await this.executeQuery(
+        sql.type(this.schema)`
+          SELECT ${this.selectColumns()}
+          FROM ${sql.identifier([this.tableName])}
+          WHERE ${where}
+          ORDER BY ${keyset.orderBy}
+          LIMIT ${keyset.limit}
+        `,
+        'findAllCursorPaginated',
+      );
+
+      const rows = result.rows.map((row) => this.schema.parse(row));
+      const page = toCursorPage(rows, params);
+
+      this.logOperation('findAllCursorPaginated', {
+        count: page.data.length,
+        limit: params.limit,
+      });
+
+      return new CursorPaginated({
+        ...page,
+        data: page.data.map((row) => this.mapper.toDomain(row)),
+      });
+    } catch (error) {
+      this.handleRepositoryError(
+        error as Error,
+        'findAllCursorPaginated',
+        params,
+      );
+      return new CursorPaginated({
+        data: [],
+        limit: params.limit,
+        nextCursor: null,
+        prevCursor: null,
+      });
+    }
+  }
+
   /**
    * Delete an entity by its instance with proper validation and event publishing
    */
@@ -252,11 +353,14 @@ export abstract class SqlRepositoryBase<
         WHERE id = ${validatedId}
       `;
 
-      const result = await this.executeWriteQuery(query, entity, 'delete');
+      const result = await this.executeWriteQueryWithEvents(
+        query,
+        entity,
+        'delete',
+      );
       const deleted = result.rowCount > 0;
 
       if (deleted) {
-        await entity.publishEvents(this.logger, this.eventEmitter);
         this.logOperation('delete', { id: entity.id, success: true });
       } else {
         this.logOperation('delete', {
@@ -318,14 +422,7 @@ export abstract class SqlRepositoryBase<
 
       const query = this.generateBatchInsertQuery(records);
 
-      await this.executeWriteQuery(query, entities, 'insert');
-
-      // Publish events for all entities
-      await Promise.all(
-        entities.map((entity) =>
-          entity.publishEvents(this.logger, this.eventEmitter),
-        ),
-      );
+      await this.executeWriteQueryWithEvents(query, entities, 'insert');
 
       this.logOperation('insert', {
         count: entities.length,
@@ -363,16 +460,30 @@ export abstract class SqlRepositoryBase<
         validatedId as EntityId,
       );
 
-      const result = await this.executeWriteQuery(query, entity, 'update');
+      const result = await this.executeWriteQueryWithEvents(
+        query,
+        entity,
+        'update',
+      );
 
       if (result.rowCount === 0) {
+        if (
+          this.isVersioned(validatedModel) &&
+          (await this.exists(validatedId as EntityId))
+        ) {
+          throw new ConcurrencyConflictException(
+            `Entity with id ${entity.id} was modified by another process (expected version ${entity.version})`,
+          );
+        }
         throw new NotFoundError(`Entity with id ${entity.id} not found`, {
           sql: 'UPDATE query',
           values: [],
         });
       }
 
-      await entity.publishEvents(this.logger, this.eventEmitter);
+      if (this.isVersioned(validatedModel)) {
+        entity.incrementVersion();
+      }
 
       this.logOperation('update', { id: entity.id, success: true });
     } catch (error) {
@@ -393,8 +504,7 @@ export abstract class SqlRepositoryBase<
 
       const query = this.generateUpsertQuery(validatedModel);
 
-      await this.executeWriteQuery(query, entity, 'upsert');
-      await entity.publishEvents(this.logger, this.eventEmitter);
+      await this.executeWriteQueryWithEvents(query, entity, 'upsert');
 
       this.logOperation('upsert', { id: entity.id, success: true });
     } catch (error) {
@@ -410,6 +520,7 @@ export abstract class SqlRepositoryBase<
     sqlQuery: SqlToken,
     entity: Aggregate | Aggregate[],
     operation: string,
+    connection: DatabasePool | DatabaseTransactionConnection = this.pool,
   ): Promise<QueryResult<T>> {
     const entities = Array.isArray(entity) ? entity : [entity];
     const entityIds = entities.map((e) => e.id);
@@ -422,7 +533,7 @@ export abstract class SqlRepositoryBase<
     );
 
     try {
-      const result = await this.pool.query(sqlQuery as any);
+      const result = await connection.query(sqlQuery as any);
 
       const duration = Date.now() - startTime;
       this.logger.debug(
@@ -443,6 +554,47 @@ export abstract class SqlRepositoryBase<
     }
   }
 
+  /**
+   * Execute a write query and record domain events of the written entities
+   * in the outbox and the event journal within the same transaction
+   * (a savepoint when a transaction is already in progress). Events are
+   * recorded only if the query affected at least one row.
+   */
+  protected async executeWriteQueryWithEvents<T = any>(
+    sqlQuery: SqlToken,
+    entity: Aggregate | Aggregate[],
+    operation: string,
+  ): Promise<QueryResult<T>> {
+    const entities = Array.isArray(entity) ? entity : [entity];
+
+    const result = await this.pool.transaction(async (connection) => {
+      const queryResult = await this.executeWriteQuery<T>(
+        sqlQuery,
+        entities,
+        operation,
+        connection,
+      );
+
+      if (queryResult.rowCount > 0) {
+        const recorded = await this.outbox.append(connection, entities);
+        await this.journal.appendEvents(connection, entities);
+        if (recorded > 0) {
+          this.logger.debug(
+            `[${this.getRequestId()}] ${operation}: ${recorded} domain events recorded in outbox`,
+          );
+        }
+      }
+
+      return queryResult;
+    });
+
+    if (result.rowCount > 0) {
+      entities.forEach((e) => e.clearEvents());
+    }
+
+    return result;
+  }
+
   /**
    * Execute a read query with proper error handling and logging
    */
@@ -518,11 +670,14 @@ export abstract class SqlRepositoryBase<
   }
 
   /**
-   * Generate update query for a single record
+   * Generate update query for a single record.
+   * Versioned records are updated only if the stored version matches
+   * the version of the model, and the version is incremented.
    */
   protected generateUpdateQuery(model: DbModel, id: EntityId): SqlToken {
     const entries = Object.entries(model).filter(
-      ([key, value]) => key !== 'id' && value !== undefined,
+      ([key, value]) =>
+        key !== 'id' && key !== VERSION_COLUMN && value !== undefined,
     );
 
     if (entries.length === 0) {
@@ -534,10 +689,19 @@ export abstract class SqlRepositoryBase<
         sql.unsafe`${sql.identifier([key])} = ${this.formatValueForQuery(value)}`,
     );
 
+    if (!this.isVersioned(model)) {
+      return sql.unsafe`
+        UPDATE ${sql.identifier([this.tableName])} 
+        SET ${sql.join(setClause, sql.fragment`, `)} 
+        WHERE id = ${id}
+      `;
+    }
+
+    const version = sql.identifier([VERSION_COLUMN]);
     return sql.unsafe`
       UPDATE ${sql.identifier([this.tableName])} 
-      SET ${sql.join(setClause, sql.fragment`, `)} 
-      WHERE id = ${id}
+      SET ${sql.join(setClause, sql.fragment`, `)}, ${version} = ${version} + 1 
+      WHERE id = ${id} AND ${version} = ${model[VERSION_COLUMN] as number}
     `;
   }
 
@@ -556,9 +720,13 @@ export abstract class SqlRepositoryBase<
 
     // Generate SET clause for ON CONFLICT UPDATE (exclude id)
     const updateColumns = columns.filter((col) => col !== 'id');
-    const setClause = updateColumns.map(
-      (col) =>
-        sql.unsafe`${sql.identifier([col])} = EXCLUDED.${sql.identifier([col])}`,
+    const setClause = updateColumns.map((col) =>
+      col === VERSION_COLUMN
+        ? sql.unsafe`${sql.identifier([col])} = ${sql.identifier([
+            this.tableName,
+            col,
+          ])} + 1`
+        : sql.unsafe`${sql.identifier([col])} = EXCLUDED.${sql.identifier([col])}`,
     );
 
     return sql.unsafe`
@@ -570,6 +738,47 @@ export abstract class SqlRepositoryBase<
     `;
   }
 
+  /**
+   * Columns selected by the generic find methods. Override to load data
+   * stored outside of the table, e.g. ids from a junction table.
+   */
+  protected selectColumns(): FragmentSqlToken {
+    return sql.fragment`*`;
+  }
+
+  /**
+   * Adds the condition excluding soft deleted rows to `where`,
+   * unless the repository hard deletes or `withDeleted` is set
+   */
+  protected notDeleted(
+    where: SqlToken,
+    options?: { withDeleted?: boolean },
+  ): SqlToken;
+  protected notDeleted(
+    where: SqlToken | undefined,
+    options?: { withDeleted?: boolean },
+  ): SqlToken | undefined;
+  protected notDeleted(
+    where: SqlToken | undefined,
+    options?: { withDeleted?: boolean },
+  ): SqlToken | undefined {
+    if (!this.softDeleteColumn || options?.withDeleted) {
+      return where;
+    }
+    const notDeleted = sql.fragment`${sql.identifier([
+      this.softDeleteColumn,
+    ])} IS NULL`;
+    return where ? sql.fragment`(${where}) AND ${notDeleted}` : notDeleted;
+  }
+
+  /**
+   * Whether records of this repository are protected by
+   * optimistic concurrency control
+   */
+  protected isVersioned(model: DbModel): boolean {
+    return typeof model[VERSION_COLUMN] === 'number';
+  }
+
   /**
    * Format value for SQL query with proper type handling
    */
@@ -584,7 +793,8 @@ export abstract class SqlRepositoryBase<
     }
 
     if (typeof value === 'object' && value !== null) {
-      return sql.json(JSON.stringify(value));
+      // Round trip through JSON so nested values (e.g. dates) become plain values
+      return sql.jsonb(JSON.parse(JSON.stringify(value)));
     }
 
     return value;
@@ -627,8 +837,10 @@ export abstract class SqlRepositoryBase<
         );
       }
 
-      // Set transaction connection in context if not already set
-      if (!this.getTransactionConnection()) {
+      // Set transaction connection in context if not already set.
+      // Nested transactions (savepoints) keep the outer connection.
+      const isOutermost = !this.getTransactionConnection();
+      if (isOutermost) {
         try {
           RequestContextService.setTransactionConnection(connection);
         } catch {
@@ -658,10 +870,12 @@ export abstract class SqlRepositoryBase<
 
         throw error;
       } finally {
-        try {
-          RequestContextService.cleanTransactionConnection();
-        } catch {
-          // Silently ignore if context service is not available
+        if (isOutermost) {
+          try {
+            RequestContextService.cleanTransactionConnection();
+          } catch {
+            // Silently ignore if context service is not available
+          }
         }
       }
     });
@@ -703,8 +917,9 @@ export abstract class SqlRepositoryBase<
     try {
       let query = sql.unsafe`SELECT COUNT(*) as total FROM ${sql.identifier([this.tableName])}`;
 
-      if (where) {
-        query = sql.unsafe`${query} WHERE ${where}`;
+      const filter = this.notDeleted(where);
+      if (filter) {
+        query = sql.unsafe`${query} WHERE ${filter}`;
       }
 
       const result = await this.executeQuery(query, 'count');
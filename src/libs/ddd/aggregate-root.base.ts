@@ -32,7 +32,10 @@ export abstract class AggregateRoot<EntityProps> extends Entity<EntityProps> {
             this.id
           }`,
         );
-        return eventEmitter.emitAsync(event.constructor.name, event);
+        // Handlers keep the request context, the event becomes their cause
+        return RequestContextService.runWithCausation(event.id, () =>
+          eventEmitter.emitAsync(event.constructor.name, event),
+        );
       }),
     );
     this.clearEvents();
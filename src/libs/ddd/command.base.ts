@@ -17,7 +17,8 @@ type CommandMetadata = {
 
   /**
    * ID of a user who invoked the command. Can be useful for
-   * logging and tracking execution of commands and events
+   * logging and tracking execution of commands and events.
+   * Defaults to the authenticated principal of the current context
    */
   readonly userId?: string;
 
@@ -46,9 +47,9 @@ export class Command {
     this.id = props.id || randomUUID();
     this.metadata = {
       correlationId: props?.metadata?.correlationId || ctx.requestId,
-      causationId: props?.metadata?.causationId,
+      causationId: props?.metadata?.causationId || ctx.causationId,
       timestamp: props?.metadata?.timestamp || Date.now(),
-      userId: props?.metadata?.userId,
+      userId: props?.metadata?.userId || ctx.userId,
     };
   }
 }
@@ -23,6 +23,8 @@ type DomainEventMetadata = {
 };
 
 export type DomainEventProps<T> = Omit<T, 'id' | 'metadata'> & {
+  /** Set only when an event is rebuilt from storage */
+  id?: string;
   aggregateId: string;
   metadata?: DomainEventMetadata;
 };
@@ -41,14 +43,14 @@ export abstract class DomainEvent {
         'DomainEvent props should not be empty',
       );
     }
-    this.id = randomUUID();
+    const ctx = RequestContextService.getContext();
+    this.id = props.id || randomUUID();
     this.aggregateId = props.aggregateId;
     this.metadata = {
-      correlationId:
-        props?.metadata?.correlationId || RequestContextService.getRequestId(),
-      causationId: props?.metadata?.causationId,
+      correlationId: props?.metadata?.correlationId || ctx.requestId,
+      causationId: props?.metadata?.causationId || ctx.causationId,
       timestamp: props?.metadata?.timestamp || Date.now(),
-      userId: props?.metadata?.userId,
+      userId: props?.metadata?.userId || ctx.userId,
     };
   }
 }
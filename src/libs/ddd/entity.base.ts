@@ -12,6 +12,7 @@ export interface BaseEntityProps {
   id: AggregateID;
   createdAt: Date;
   updatedAt: Date;
+  version: number;
 }
 
 export interface CreateEntityProps<T> {
@@ -19,13 +20,18 @@ export interface CreateEntityProps<T> {
   props: T;
   createdAt?: Date;
   updatedAt?: Date;
+  /** Version of a persisted entity, new entities start at INITIAL_VERSION */
+  version?: number;
 }
 
+export const INITIAL_VERSION = 1;
+
 export abstract class Entity<EntityProps> {
   constructor({
     id,
     createdAt,
     updatedAt,
+    version,
     props,
   }: CreateEntityProps<EntityProps>) {
     this.setId(id);
@@ -33,6 +39,7 @@ export abstract class Entity<EntityProps> {
     const now = new Date();
     this._createdAt = createdAt || now;
     this._updatedAt = updatedAt || now;
+    this._version = version ?? INITIAL_VERSION;
     this.props = props;
     this.validate();
   }
@@ -51,6 +58,8 @@ export abstract class Entity<EntityProps> {
 
   private _updatedAt: Date;
 
+  private _version: number;
+
   get id(): AggregateID {
     return this._id;
   }
@@ -67,6 +76,22 @@ export abstract class Entity<EntityProps> {
     return this._updatedAt;
   }
 
+  /**
+   * Version of the entity as it was loaded from the database.
+   * Used by repositories for optimistic concurrency control.
+   */
+  get version(): number {
+    return this._version;
+  }
+
+  /**
+   * Called by a repository after an entity was successfully updated,
+   * so subsequent updates of the same instance expect a new version.
+   */
+  public incrementVersion(): void {
+    this._version += 1;
+  }
+
   static isEntity(entity: unknown): entity is Entity<unknown> {
     return entity instanceof Entity;
   }
@@ -101,6 +126,7 @@ export abstract class Entity<EntityProps> {
       id: this._id,
       createdAt: this._createdAt,
       updatedAt: this._updatedAt,
+      version: this._version,
       ...this.props,
     };
     return Object.freeze(propsCopy);
@@ -118,6 +144,7 @@ export abstract class Entity<EntityProps> {
       id: this._id,
       createdAt: this._createdAt,
       updatedAt: this._updatedAt,
+      version: this._version,
       ...plainProps,
     };
     return Object.freeze(result);
@@ -0,0 +1,51 @@
+import { AggregateRoot } from './aggregate-root.base';
+import { DomainEvent } from './domain-event.base';
+
+/**
+ * Aggregate whose state is derived from its domain events.
+ * Every state change goes through `apply`, which hands the event to `when`
+ * and records it, so replaying the stored events through `when`
+ * rebuilds the same state.
+ */
+export abstract class EventSourcedAggregateRoot<
+  EntityProps,
+> extends AggregateRoot<EntityProps> {
+  private _streamVersion = 0;
+
+  /**
+   * Number of stored events this aggregate was built from,
+   * events that are not persisted yet are not counted
+   */
+  get streamVersion(): number {
+    return this._streamVersion;
+  }
+
+  /**
+   * Changes the state of the aggregate. Only `when` handlers
+   * may change the state, they must not validate or raise events.
+   */
+  protected abstract when(event: DomainEvent): void;
+
+  protected apply(event: DomainEvent): void {
+    this.when(event);
+    this.addEvent(event);
+  }
+
+  /**
+   * Rebuilds the state from stored events, `fromVersion` is the
+   * version of the snapshot the aggregate was restored from, if any
+   */
+  public replay(events: readonly DomainEvent[], fromVersion = 0): void {
+    events.forEach((event) => this.when(event));
+    this._streamVersion = fromVersion + events.length;
+  }
+
+  /**
+   * Called by a repository after the new events were appended
+   * to the stream of the aggregate
+   */
+  public markEventsCommitted(): void {
+    this._streamVersion += this.domainEvents.length;
+    this.clearEvents();
+  }
+}
@@ -1,7 +1,9 @@
 export * from './aggregate-root.base';
 export * from './command.base';
 export * from './domain-event.base';
+export * from './event-sourced-aggregate-root.base';
 export * from './entity.base';
 export * from './mapper.interface';
 export * from './repository.port';
+export * from './specification.base';
 export * from './value-object.base';
@@ -1,4 +1,8 @@
-import { OrderBy, PaginatedQueryParams } from './repository.port';
+import {
+  CursorPaginatedQueryParams,
+  OrderBy,
+  PaginatedQueryParams,
+} from './repository.port';
 
 /**
  * Base class for regular queries
@@ -23,9 +27,31 @@ export abstract class PaginatedQueryBase extends QueryBase {
   }
 }
 
+/**
+ * Base class for queries paginated with a cursor (keyset pagination).
+ * Unlike offset pagination, pages stay stable when rows are inserted
+ * concurrently and deep pages are as fast as the first one.
+ */
+export abstract class CursorPaginatedQueryBase extends QueryBase {
+  limit: number;
+  after?: string;
+  before?: string;
+
+  constructor(props: CursorPaginatedParams<CursorPaginatedQueryBase>) {
+    super();
+    this.limit = props.limit || 20;
+    this.after = props.after;
+    this.before = props.before;
+  }
+}
+
 // Paginated query parameters
 export type PaginatedParams<T> = Omit<
   T,
   'limit' | 'offset' | 'orderBy' | 'page'
 > &
   Partial<Omit<PaginatedQueryParams, 'offset'>>;
+
+// Cursor paginated query parameters
+export type CursorPaginatedParams<T> = Omit<T, 'limit' | 'after' | 'before'> &
+  Partial<CursorPaginatedQueryParams>;
@@ -21,6 +21,26 @@ export class Paginated<T> {
   }
 }
 
+/**
+ * Page of a keyset (cursor) pagination. Cursors are opaque
+ * to clients and point to the first and last item of the page.
+ */
+export class CursorPaginated<T> {
+  readonly data: readonly T[];
+  readonly limit: number;
+  /** Cursor of the following page, null on the last page */
+  readonly nextCursor: string | null;
+  /** Cursor of the preceding page, null on the first page */
+  readonly prevCursor: string | null;
+
+  constructor(props: CursorPaginated<T>) {
+    this.data = props.data;
+    this.limit = props.limit;
+    this.nextCursor = props.nextCursor;
+    this.prevCursor = props.prevCursor;
+  }
+}
+
 export type OrderBy = { field: string | true; param: 'asc' | 'desc' };
 
 export type PaginatedQueryParams = {
@@ -30,6 +50,16 @@ export type PaginatedQueryParams = {
   orderBy: OrderBy;
 };
 
+/**
+ * Either `after` (following page) or `before` (preceding page)
+ * is set, neither of them means the first page
+ */
+export type CursorPaginatedQueryParams = {
+  limit: number;
+  after?: string;
+  before?: string;
+};
+
 export interface RepositoryPort<Entity> {
   insert(entity: Entity | Entity[]): Promise<void>;
   update(entity: Entity): Promise<void>;
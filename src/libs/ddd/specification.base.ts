@@ -0,0 +1,11 @@
+/**
+ * Business rule that a candidate either satisfies or not.
+ * Specifications can be combined with and/or/not.
+ * https://en.wikipedia.org/wiki/Specification_pattern
+ */
+export interface Specification<T> {
+  isSatisfiedBy(candidate: T): boolean;
+  and(other: Specification<T>): Specification<T>;
+  or(other: Specification<T>): Specification<T>;
+  not(): Specification<T>;
+}
@@ -12,4 +12,7 @@ export const ARGUMENT_OUT_OF_RANGE = 'GENERIC.ARGUMENT_OUT_OF_RANGE';
 export const ARGUMENT_NOT_PROVIDED = 'GENERIC.ARGUMENT_NOT_PROVIDED';
 export const NOT_FOUND = 'GENERIC.NOT_FOUND';
 export const CONFLICT = 'GENERIC.CONFLICT';
+export const CONCURRENCY_CONFLICT = 'GENERIC.CONCURRENCY_CONFLICT';
+export const IDEMPOTENCY_KEY_IN_USE = 'GENERIC.IDEMPOTENCY_KEY_IN_USE';
+export const IDEMPOTENCY_KEY_REUSED = 'GENERIC.IDEMPOTENCY_KEY_REUSED';
 export const INTERNAL_SERVER_ERROR = 'GENERIC.INTERNAL_SERVER_ERROR';
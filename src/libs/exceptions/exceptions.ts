@@ -2,7 +2,10 @@ import {
   ARGUMENT_INVALID,
   ARGUMENT_NOT_PROVIDED,
   ARGUMENT_OUT_OF_RANGE,
+  CONCURRENCY_CONFLICT,
   CONFLICT,
+  IDEMPOTENCY_KEY_IN_USE,
+  IDEMPOTENCY_KEY_REUSED,
   INTERNAL_SERVER_ERROR,
   NOT_FOUND,
 } from '.';
@@ -49,6 +52,60 @@ export class ConflictException extends ExceptionBase {
   readonly code = CONFLICT;
 }
 
+/**
+ * Used to indicate that an entity was modified by another process
+ * since it was loaded (optimistic concurrency control)
+ *
+ * @class ConcurrencyConflictException
+ * @extends {ExceptionBase}
+ */
+export class ConcurrencyConflictException extends ExceptionBase {
+  static readonly message =
+    'Entity was modified by another process, reload it and try again';
+
+  constructor(message = ConcurrencyConflictException.message) {
+    super(message);
+  }
+
+  readonly code = CONCURRENCY_CONFLICT;
+}
+
+/**
+ * Used to indicate that a request with the same idempotency key
+ * is still being processed
+ *
+ * @class IdempotencyKeyInUseException
+ * @extends {ExceptionBase}
+ */
+export class IdempotencyKeyInUseException extends ExceptionBase {
+  static readonly message =
+    'A request with this idempotency key is being processed, try again later';
+
+  constructor(message = IdempotencyKeyInUseException.message) {
+    super(message);
+  }
+
+  readonly code = IDEMPOTENCY_KEY_IN_USE;
+}
+
+/**
+ * Used to indicate that an idempotency key was reused
+ * for a request with a different payload
+ *
+ * @class IdempotencyKeyReusedException
+ * @extends {ExceptionBase}
+ */
+export class IdempotencyKeyReusedException extends ExceptionBase {
+  static readonly message =
+    'Idempotency key was already used for a different request';
+
+  constructor(message = IdempotencyKeyReusedException.message) {
+    super(message);
+  }
+
+  readonly code = IDEMPOTENCY_KEY_REUSED;
+}
+
 /**
  * Used to indicate that entity is not found
  *
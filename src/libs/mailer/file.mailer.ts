@@ -0,0 +1,37 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailerPort, MailMessage } from '@libs/ports/mailer.port';
+
+/**
+ * Writes every message to a separate .eml file instead of sending it.
+ * Meant for local development: open the file to follow links or copy tokens.
+ */
+export class FileMailer implements MailerPort {
+  private readonly logger = new Logger(FileMailer.name);
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${randomUUID()}.eml`;
+    const path = join(this.directory, fileName);
+
+    await writeFile(path, this.format(message, sentAt), 'utf8');
+
+    this.logger.debug(`Mail "${message.subject}" to ${message.to}: ${path}`);
+  }
+
+  private format(message: MailMessage, sentAt: Date): string {
+    const headers = [
+      `Date: ${sentAt.toUTCString()}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      'Content-Type: text/plain; charset=utf-8',
+    ];
+    return `${headers.join('\r\n')}\r\n\r\n${message.text}\r\n`;
+  }
+}
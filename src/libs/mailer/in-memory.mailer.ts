@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { MailerPort, MailMessage } from '@libs/ports/mailer.port';
+
+/**
+ * Keeps sent messages in memory instead of delivering them.
+ * Used in tests to inspect what would have been sent.
+ */
+@Injectable()
+export class InMemoryMailer implements MailerPort {
+  private readonly messages: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push({ ...message });
+  }
+
+  get sent(): readonly MailMessage[] {
+    return this.messages;
+  }
+
+  /** Last message sent to a given address */
+  lastSentTo(to: string): MailMessage | undefined {
+    return [...this.messages].reverse().find((message) => message.to === to);
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './mailer.di-tokens';
+export * from './in-memory.mailer';
+export * from './file.mailer';
+export * from './mailer.module';
@@ -0,0 +1,3 @@
+// Tokens used for Dependency Injection
+
+export const MAILER = Symbol('MAILER');
@@ -0,0 +1,47 @@
+import { DynamicModule, Global, Module } from '@nestjs/common';
+import { join } from 'path';
+import { FileMailer } from './file.mailer';
+import { InMemoryMailer } from './in-memory.mailer';
+import { MAILER } from './mailer.di-tokens';
+
+export type MailerTransport = 'file' | 'memory';
+
+export interface MailerModuleOptions {
+  transport: MailerTransport;
+  /** Directory where the file transport writes messages */
+  directory: string;
+}
+
+/**
+ * Provides a MailerPort implementation under the MAILER token.
+ * Transport is configured with MAILER_TRANSPORT ("file" by default,
+ * "memory" in tests) and MAILER_FILE_DIRECTORY.
+ */
+@Global()
+@Module({})
+export class MailerModule {
+  static forRoot(options: Partial<MailerModuleOptions> = {}): DynamicModule {
+    const transport =
+      options.transport ??
+      (process.env.MAILER_TRANSPORT as MailerTransport | undefined) ??
+      (process.env.NODE_ENV === 'test' ? 'memory' : 'file');
+    const directory =
+      options.directory ??
+      process.env.MAILER_FILE_DIRECTORY ??
+      join(process.cwd(), 'tmp', 'mail');
+
+    return {
+      module: MailerModule,
+      providers: [
+        {
+          provide: MAILER,
+          useFactory: () =>
+            transport === 'memory'
+              ? new InMemoryMailer()
+              : new FileMailer(directory),
+        },
+      ],
+      exports: [MAILER],
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import { Specification } from '@libs/ddd';
+import {
+  Policy,
+  PolicyDecision,
+  PolicyPrincipal,
+  PolicyRequest,
+  PolicyRule,
+} from './policy.types';
+
+/** Specification that can name itself in a decision, like UserSpecification */
+export interface DescribedSpecification<T> extends Specification<T> {
+  readonly name: string;
+  readonly description: string;
+}
+
+export function definePolicy<
+  TResource,
+  TPrincipal extends PolicyPrincipal = PolicyPrincipal,
+>(
+  name: string,
+  description: string,
+  rule: PolicyRule<TResource, TPrincipal>,
+): Policy<TResource, TPrincipal> {
+  return {
+    name,
+    description,
+    evaluate: (request): PolicyDecision => ({
+      policy: name,
+      description,
+      allowed: rule(request),
+      because: [],
+    }),
+  };
+}
+
+/**
+ * Policy checking a specification against a part of the request,
+ * e.g. the user of the principal or the resource
+ */
+export function fromSpecification<
+  T,
+  TResource,
+  TPrincipal extends PolicyPrincipal = PolicyPrincipal,
+>(
+  specification: DescribedSpecification<T>,
+  select: (request: PolicyRequest<TResource, TPrincipal>) => T,
+): Policy<TResource, TPrincipal> {
+  return definePolicy(
+    specification.name,
+    specification.description,
+    (request) => specification.isSatisfiedBy(select(request)),
+  );
+}
+
+/**
+ * Allows when every policy allows. All of them are evaluated,
+ * so the decision lists each rule that denied.
+ */
+export function allOf<TResource, TPrincipal extends PolicyPrincipal>(
+  name: string,
+  description: string,
+  policies: Policy<TResource, TPrincipal>[],
+): Policy<TResource, TPrincipal> {
+  return combine(name, description, policies, (decisions) =>
+    decisions.every((decision) => decision.allowed),
+  );
+}
+
+/** Allows when at least one of the policies allows */
+export function anyOf<TResource, TPrincipal extends PolicyPrincipal>(
+  name: string,
+  description: string,
+  policies: Policy<TResource, TPrincipal>[],
+): Policy<TResource, TPrincipal> {
+  return combine(name, description, policies, (decisions) =>
+    decisions.some((decision) => decision.allowed),
+  );
+}
+
+export function not<TResource, TPrincipal extends PolicyPrincipal>(
+  policy: Policy<TResource, TPrincipal>,
+): Policy<TResource, TPrincipal> {
+  return combine(
+    `NOT_${policy.name}`,
+    `NOT (${policy.description})`,
+    [policy],
+    ([decision]) => !decision.allowed,
+  );
+}
+
+function combine<TResource, TPrincipal extends PolicyPrincipal>(
+  name: string,
+  description: string,
+  policies: Policy<TResource, TPrincipal>[],
+  allows: (decisions: PolicyDecision[]) => boolean,
+): Policy<TResource, TPrincipal> {
+  return {
+    name,
+    description,
+    evaluate: (request): PolicyDecision => {
+      const because = policies.map((policy) => policy.evaluate(request));
+      return { policy: name, description, allowed: allows(because), because };
+    },
+  };
+}
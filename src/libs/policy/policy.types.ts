@@ -0,0 +1,55 @@
+/**
+ * Caller a policy decides for. Modules extend it with
+ * the attributes their policies need (see UserPrincipal).
+ */
+export interface PolicyPrincipal {
+  id: string;
+  roles: string[];
+  permissions: string[];
+}
+
+export interface PolicyEnvironment {
+  now: Date;
+  /** Entry point of the request: 'http', 'graphql' or 'rpc' */
+  channel: string;
+}
+
+export interface PolicyRequest<
+  TResource,
+  TPrincipal extends PolicyPrincipal = PolicyPrincipal,
+> {
+  principal: TPrincipal;
+  /** What the principal is doing, e.g. 'wallet:withdraw' */
+  action: string;
+  resource: TResource;
+  environment: PolicyEnvironment;
+}
+
+/**
+ * Outcome of a policy, with the decisions of the policies it
+ * is made of, so a denial can be traced back to a rule.
+ */
+export interface PolicyDecision {
+  policy: string;
+  description: string;
+  allowed: boolean;
+  because: PolicyDecision[];
+}
+
+export type PolicyRule<TResource, TPrincipal extends PolicyPrincipal> = (
+  request: PolicyRequest<TResource, TPrincipal>,
+) => boolean;
+
+/**
+ * Access rule over the principal, the action, the resource
+ * and the environment of a request. Built with definePolicy()
+ * and combined with allOf(), anyOf() and not().
+ */
+export interface Policy<
+  TResource,
+  TPrincipal extends PolicyPrincipal = PolicyPrincipal,
+> {
+  readonly name: string;
+  readonly description: string;
+  evaluate(request: PolicyRequest<TResource, TPrincipal>): PolicyDecision;
+}
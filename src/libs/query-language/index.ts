@@ -0,0 +1,3 @@
+export * from './query-language.types';
+export * from './query-language.parser';
+export * from './query-language.compiler';
@@ -0,0 +1,105 @@
+import { FragmentSqlToken, sql } from 'slonik';
+import {
+  FilterCondition,
+  FilterValue,
+  QueryFieldsSpec,
+  SortCriterion,
+} from './query-language.types';
+
+/**
+ * Compiles parsed filters to a WHERE condition. Columns come from
+ * the whitelist and values are always bound as parameters.
+ * `contains` and `startsWith` are case-insensitive.
+ */
+export function compileFilters(
+  fields: QueryFieldsSpec,
+  filters: readonly FilterCondition[],
+): FragmentSqlToken {
+  if (filters.length === 0) return sql.fragment`TRUE`;
+
+  return sql.fragment`(${sql.join(
+    filters.map((filter) => compileCondition(fields, filter)),
+    sql.fragment` AND `,
+  )})`;
+}
+
+/**
+ * Compiles parsed sorting to an ORDER BY list. `tieBreaker` is appended
+ * so that rows with equal values keep a stable order between pages.
+ */
+export function compileSort(
+  fields: QueryFieldsSpec,
+  sort: readonly SortCriterion[],
+  defaultSort: readonly SortCriterion[],
+  tieBreaker = 'id',
+): FragmentSqlToken {
+  const criteria = sort.length > 0 ? sort : defaultSort;
+  const direction = criteria[criteria.length - 1]?.direction ?? 'ASC';
+
+  const items = [
+    ...criteria
+      .filter((criterion) => criterion.field !== tieBreaker)
+      .map(
+        (criterion) =>
+          sql.fragment`${column(fields, criterion.field)} ${
+            criterion.direction === 'DESC'
+              ? sql.fragment`DESC`
+              : sql.fragment`ASC`
+          }`,
+      ),
+    sql.fragment`${sql.identifier([tieBreaker])} ${
+      direction === 'DESC' ? sql.fragment`DESC` : sql.fragment`ASC`
+    }`,
+  ];
+
+  return sql.fragment`${sql.join(items, sql.fragment`, `)}`;
+}
+
+function compileCondition(
+  fields: QueryFieldsSpec,
+  filter: FilterCondition,
+): FragmentSqlToken {
+  const target = column(fields, filter.field);
+  const value = filter.value;
+
+  switch (filter.operator) {
+    case 'eq':
+      return sql.fragment`${target} = ${toSqlValue(value)}`;
+    case 'ne':
+      return sql.fragment`${target} IS DISTINCT FROM ${toSqlValue(value)}`;
+    case 'gt':
+      return sql.fragment`${target} > ${toSqlValue(value)}`;
+    case 'gte':
+      return sql.fragment`${target} >= ${toSqlValue(value)}`;
+    case 'lt':
+      return sql.fragment`${target} < ${toSqlValue(value)}`;
+    case 'lte':
+      return sql.fragment`${target} <= ${toSqlValue(value)}`;
+    case 'contains':
+      return sql.fragment`${target} ILIKE ${`%${escapeLike(String(value))}%`}`;
+    case 'startsWith':
+      return sql.fragment`${target} ILIKE ${`${escapeLike(String(value))}%`}`;
+    case 'in': {
+      const values = value as FilterValue[];
+      const type = fields[filter.field].type === 'number' ? 'numeric' : 'text';
+      return sql.fragment`${target} = ANY(${sql.array(
+        values as (string | number)[],
+        type,
+      )})`;
+    }
+  }
+}
+
+function column(fields: QueryFieldsSpec, field: string) {
+  return sql.identifier([fields[field].column ?? field]);
+}
+
+function toSqlValue(value: FilterValue | FilterValue[]) {
+  if (value instanceof Date) return sql.timestamp(value);
+  return value as string | number | boolean;
+}
+
+/** Matches `%`, `_` and `\` literally in LIKE patterns */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
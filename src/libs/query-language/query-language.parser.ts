@@ -0,0 +1,226 @@
+import { ArgumentInvalidException } from '@libs/exceptions';
+import { OrderBy } from '../ddd';
+import {
+  FILTER_OPERATORS,
+  FilterCondition,
+  FilterConditionInput,
+  FilterOperator,
+  FilterValue,
+  ParsedQuery,
+  QueryFieldSpec,
+  QueryFieldsSpec,
+  QueryFieldType,
+  SortCriterion,
+} from './query-language.types';
+
+const MAX_FILTERS = 10;
+const MAX_SORT_FIELDS = 3;
+const MAX_IN_VALUES = 50;
+const MAX_VALUE_LENGTH = 255;
+
+const OPERATORS_BY_TYPE: Record<QueryFieldType, readonly FilterOperator[]> = {
+  string: ['eq', 'ne', 'contains', 'startsWith', 'in'],
+  number: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'],
+  boolean: ['eq', 'ne'],
+  enum: ['eq', 'ne', 'in'],
+};
+
+/**
+ * Parses filters and sorting sent by clients into a validated AST.
+ *
+ * Filters are either an object (REST, `?filter[email][contains]=doe`,
+ * a missing operator means `eq`) or a list of conditions (GraphQL).
+ * Sorting is a comma separated list of fields, `-` means descending,
+ * e.g. `-createdAt,email`.
+ *
+ * Throws ArgumentInvalidException for unknown fields, operators
+ * not allowed on a field and values of the wrong type.
+ */
+export function parseQuery(
+  fields: QueryFieldsSpec,
+  input: {
+    filter?: Record<string, unknown> | FilterConditionInput[];
+    sort?: string;
+  },
+): ParsedQuery {
+  return {
+    filters: parseFilters(fields, input.filter),
+    sort: parseSort(fields, input.sort),
+  };
+}
+
+export function parseFilters(
+  fields: QueryFieldsSpec,
+  filter?: Record<string, unknown> | FilterConditionInput[],
+): FilterCondition[] {
+  if (filter === undefined || filter === null) return [];
+
+  const inputs = Array.isArray(filter) ? filter : flattenFilterObject(filter);
+
+  if (inputs.length > MAX_FILTERS) {
+    throw new ArgumentInvalidException(
+      `At most ${MAX_FILTERS} filters can be used`,
+    );
+  }
+
+  return inputs.map((input) => parseCondition(fields, input));
+}
+
+export function parseSort(
+  fields: QueryFieldsSpec,
+  sort?: string,
+): SortCriterion[] {
+  if (!sort) return [];
+  if (typeof sort !== 'string') {
+    throw new ArgumentInvalidException('Sort must be a string');
+  }
+
+  const criteria = sort.split(',').map((item): SortCriterion => {
+    const descending = item.startsWith('-');
+    const field = descending ? item.slice(1) : item;
+    if (!getField(fields, field).sortable) {
+      throw new ArgumentInvalidException(`Cannot sort by "${field}"`);
+    }
+    return { field, direction: descending ? 'DESC' : 'ASC' };
+  });
+
+  if (criteria.length > MAX_SORT_FIELDS) {
+    throw new ArgumentInvalidException(
+      `At most ${MAX_SORT_FIELDS} sort fields can be used`,
+    );
+  }
+  const names = criteria.map((criterion) => criterion.field);
+  if (new Set(names).size !== names.length) {
+    throw new ArgumentInvalidException('Sort fields must be unique');
+  }
+
+  return criteria;
+}
+
+/**
+ * Sorting from a generic OrderBy of a paginated query,
+ * `field: true` means the default order
+ */
+export function sortFromOrderBy(
+  fields: QueryFieldsSpec,
+  orderBy?: OrderBy,
+): SortCriterion[] {
+  if (!orderBy || orderBy.field === true) return [];
+  return parseSort(
+    fields,
+    `${orderBy.param === 'desc' ? '-' : ''}${orderBy.field}`,
+  );
+}
+
+function flattenFilterObject(
+  filter: Record<string, unknown>,
+): FilterConditionInput[] {
+  if (typeof filter !== 'object') {
+    throw new ArgumentInvalidException('Filter must be an object');
+  }
+
+  return Object.entries(filter).flatMap(([field, value]) => {
+    // filter[email]=x is a shorthand of filter[email][eq]=x
+    if (typeof value !== 'object' || value === null) {
+      return [{ field, value: value as string }];
+    }
+    return Object.entries(value).map(([operator, operand]) => ({
+      field,
+      operator,
+      value: operand as string,
+    }));
+  });
+}
+
+function parseCondition(
+  fields: QueryFieldsSpec,
+  input: FilterConditionInput,
+): FilterCondition {
+  const spec = getField(fields, input.field);
+  const operator = input.operator ?? 'eq';
+
+  if (!(FILTER_OPERATORS as readonly string[]).includes(operator)) {
+    throw new ArgumentInvalidException(`Unknown operator "${operator}"`);
+  }
+  const allowed = spec.operators ?? OPERATORS_BY_TYPE[spec.type];
+  if (!allowed.includes(operator as FilterOperator)) {
+    throw new ArgumentInvalidException(
+      `Operator "${operator}" cannot be used on "${input.field}"`,
+    );
+  }
+
+  if (typeof input.value !== 'string') {
+    throw new ArgumentInvalidException(
+      `Value of "${input.field}" must be a string`,
+    );
+  }
+
+  if (operator === 'in') {
+    const values = input.value.split(',');
+    if (values.length > MAX_IN_VALUES) {
+      throw new ArgumentInvalidException(
+        `At most ${MAX_IN_VALUES} values can be used with "in"`,
+      );
+    }
+    return {
+      field: input.field,
+      operator,
+      value: values.map((value) => parseValue(input.field, spec, value)),
+    };
+  }
+
+  return {
+    field: input.field,
+    operator: operator as FilterOperator,
+    value: parseValue(input.field, spec, input.value),
+  };
+}
+
+function parseValue(
+  field: string,
+  spec: QueryFieldSpec,
+  raw: string,
+): FilterValue {
+  if (raw.length > MAX_VALUE_LENGTH) {
+    throw new ArgumentInvalidException(`Value of "${field}" is too long`);
+  }
+
+  switch (spec.type) {
+    case 'string':
+      return raw;
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(value)) {
+        throw new ArgumentInvalidException(`"${field}" must be a number`);
+      }
+      return value;
+    }
+    case 'date': {
+      const value = new Date(raw);
+      if (Number.isNaN(value.getTime())) {
+        throw new ArgumentInvalidException(`"${field}" must be a date`);
+      }
+      return value;
+    }
+    case 'boolean':
+      if (raw !== 'true' && raw !== 'false') {
+        throw new ArgumentInvalidException(`"${field}" must be true or false`);
+      }
+      return raw === 'true';
+    case 'enum':
+      if (!spec.values?.includes(raw)) {
+        throw new ArgumentInvalidException(
+          `"${field}" must be one of: ${spec.values?.join(', ')}`,
+        );
+      }
+      return raw;
+  }
+}
+
+function getField(fields: QueryFieldsSpec, field: string): QueryFieldSpec {
+  if (!Object.prototype.hasOwnProperty.call(fields, field)) {
+    throw new ArgumentInvalidException(`Unknown field "${field}"`);
+  }
+  return fields[field];
+}
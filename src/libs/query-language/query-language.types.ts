@@ -0,0 +1,60 @@
+export const FILTER_OPERATORS = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'contains',
+  'startsWith',
+  'in',
+] as const;
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+export type FilterValue = string | number | boolean | Date;
+
+/** A single validated condition, e.g. `email contains "doe"` */
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  /** Array only for the `in` operator */
+  value: FilterValue | FilterValue[];
+}
+
+export interface SortCriterion {
+  field: string;
+  direction: 'ASC' | 'DESC';
+}
+
+/** Conditions are combined with AND */
+export interface ParsedQuery {
+  filters: FilterCondition[];
+  sort: SortCriterion[];
+}
+
+export type QueryFieldType = 'string' | 'number' | 'date' | 'boolean' | 'enum';
+
+export interface QueryFieldSpec {
+  type: QueryFieldType;
+  /** Database column, defaults to the field name */
+  column?: string;
+  /** Defaults to every operator supported by the type */
+  operators?: readonly FilterOperator[];
+  sortable?: boolean;
+  /** Allowed values of an `enum` field */
+  values?: readonly string[];
+}
+
+/**
+ * Whitelist of fields that can be filtered and sorted on.
+ * Anything not listed here is rejected by the parser.
+ */
+export type QueryFieldsSpec = Record<string, QueryFieldSpec>;
+
+/** Raw condition, as sent by GraphQL clients */
+export interface FilterConditionInput {
+  field: string;
+  operator?: string;
+  value: string;
+}
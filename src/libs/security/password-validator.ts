@@ -111,9 +111,10 @@ export class OptimizedPasswordValidator {
       this.loadCommonPasswords();
     }
 
-    // Set up cache cleanup to prevent memory leaks
+    // Set up cache cleanup to prevent memory leaks, the timer must not keep
+    // the process alive (validators are created by services and specs)
     if (typeof setInterval !== 'undefined') {
-      setInterval(() => this.cleanupCache(), 300000); // Clean every 5 minutes
+      setInterval(() => this.cleanupCache(), 300000).unref?.(); // Clean every 5 minutes
     }
   }
 
@@ -150,10 +150,12 @@ export class SecurityService {
         'Authorization',
         'X-API-Key',
         'X-Request-ID',
+        'Idempotency-Key',
         'X-Correlation-ID',
       ],
       exposedHeaders: [
         'X-Request-ID',
+        'Idempotent-Replayed',
         'X-Correlation-ID',
         'X-RateLimit-Limit',
         'X-RateLimit-Remaining',
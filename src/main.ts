@@ -2,6 +2,7 @@ import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { ValidationPipe, Logger } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { SecurityService } from '@libs/security/security.service';
 import { EnvValidatorService } from '@libs/security/env-validator.service';
 import { SecurityMiddleware } from '@libs/security/security.middleware';
@@ -24,12 +25,15 @@ async function bootstrap(): Promise<void> {
 
   try {
     // Create NestJS application with security-first configuration
-    const app = await NestFactory.create(AppModule, {
+    const app = await NestFactory.create<NestExpressApplication>(AppModule, {
       cors: false, // We'll configure CORS manually with SecurityService
       logger: ['error', 'warn', 'log', 'debug', 'verbose'],
       abortOnError: true, // Fail fast on bootstrap errors
     });
 
+    // Nested query parameters, e.g. ?filter[email][contains]=doe
+    app.set('query parser', 'extended');
+
     // Extract security services with proper error handling
     const securityService = app.get(SecurityService);
     const envValidator = app.get(EnvValidatorService);
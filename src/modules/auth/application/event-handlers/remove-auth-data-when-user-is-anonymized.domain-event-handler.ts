@@ -0,0 +1,39 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import {
+  OUTBOX_EVENT_HANDLER_OPTIONS,
+  OutboxEvent,
+} from '@libs/db/outbox/outbox.types';
+import { UserAnonymizedDomainEvent } from '@modules/user/domain/events/user-anonymized.domain-event';
+import { RoleRepositoryPort } from '../../database/role.repository.port';
+import { PasswordHistoryRepositoryPort } from '../../database/password-history.repository.port';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { LoggerPort } from '@libs/ports/logger.port';
+
+/**
+ * Removes role assignments and password history of an anonymized user.
+ * Audit logs are kept, they only reference the user id.
+ */
+@Injectable()
+export class RemoveAuthDataWhenUserIsAnonymizedDomainEventHandler {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.RoleRepository)
+    private readonly roleRepo: RoleRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.PasswordHistoryRepository)
+    private readonly passwordHistoryRepo: PasswordHistoryRepositoryPort,
+    @Inject(Logger)
+    private readonly logger: LoggerPort,
+  ) {}
+
+  @OnEvent(UserAnonymizedDomainEvent.name, OUTBOX_EVENT_HANDLER_OPTIONS)
+  async handle(event: OutboxEvent<UserAnonymizedDomainEvent>): Promise<void> {
+    const userId = event.aggregateId;
+
+    for (const roleId of await this.roleRepo.getUserRoleIds(userId)) {
+      await this.roleRepo.unassignRoleFromUser(userId, roleId);
+    }
+    await this.passwordHistoryRepo.deleteAllForUser(userId);
+
+    this.logger.log('Auth data of anonymized user removed', { userId });
+  }
+}
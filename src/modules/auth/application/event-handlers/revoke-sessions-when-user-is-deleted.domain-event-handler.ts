@@ -0,0 +1,46 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import {
+  OUTBOX_EVENT_HANDLER_OPTIONS,
+  OutboxEvent,
+} from '@libs/db/outbox/outbox.types';
+import { UserDeletedDomainEvent } from '@modules/user/domain/events/user-deleted.domain-event';
+import { RefreshTokenRepositoryPort } from '../../database/refresh-token.repository.port';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { LoggerPort } from '@libs/ports/logger.port';
+
+/**
+ * Logs a deleted user out everywhere. Access tokens cannot be revoked,
+ * but JwtStrategy does not find deleted users, so they are rejected too.
+ */
+@Injectable()
+export class RevokeSessionsWhenUserIsDeletedDomainEventHandler {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.RefreshTokenRepository)
+    private readonly refreshTokenRepo: RefreshTokenRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+    @Inject(Logger)
+    private readonly logger: LoggerPort,
+  ) {}
+
+  // Revoking tokens twice does nothing, so duplicates need no special care
+  @OnEvent(UserDeletedDomainEvent.name, OUTBOX_EVENT_HANDLER_OPTIONS)
+  async handle(event: OutboxEvent<UserDeletedDomainEvent>): Promise<void> {
+    await this.refreshTokenRepo.revokeAllUserTokens(event.aggregateId);
+
+    await this.auditLogRepo.insert(
+      AuthAuditLogEntity.create({
+        userId: event.aggregateId,
+        action: 'USER_DELETED_SESSIONS_REVOKED',
+        success: true,
+      }),
+    );
+
+    this.logger.log('Sessions of deleted user revoked', {
+      userId: event.aggregateId,
+    });
+  }
+}
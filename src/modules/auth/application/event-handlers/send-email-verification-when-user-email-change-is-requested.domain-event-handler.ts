@@ -0,0 +1,95 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import {
+  OUTBOX_EVENT_HANDLER_OPTIONS,
+  OutboxEvent,
+} from '@libs/db/outbox/outbox.types';
+import { UserEmailChangeRequestedDomainEvent } from '@modules/user/domain/events/user-email-change-requested.domain-event';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { PasswordServicePort } from '../../domain/ports/password.service.port';
+import { AuthNotificationPort } from '../../domain/ports/auth-notification.port';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { AUTH_CONSTANTS } from '../../domain/auth.types';
+import { LoggerPort } from '@libs/ports/logger.port';
+
+/**
+ * Sends a verification token to the new email of a user.
+ * The email is changed once the token is used with VerifyEmailCommand.
+ */
+@Injectable()
+export class SendEmailVerificationWhenUserEmailChangeIsRequestedDomainEventHandler {
+  constructor(
+    @Inject(USER_DI_TOKENS.UserRepository)
+    private readonly userRepo: UserRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.PasswordService)
+    private readonly passwordService: PasswordServicePort,
+    @Inject(AUTH_DI_TOKENS.AuthNotificationService)
+    private readonly notificationService: AuthNotificationPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+    @Inject(Logger)
+    private readonly logger: LoggerPort,
+  ) {}
+
+  @OnEvent(
+    UserEmailChangeRequestedDomainEvent.name,
+    OUTBOX_EVENT_HANDLER_OPTIONS,
+  )
+  async handle(
+    event: OutboxEvent<UserEmailChangeRequestedDomainEvent>,
+  ): Promise<void> {
+    const userOption = await this.userRepo.findOneById(event.aggregateId);
+    if (userOption.isNone()) {
+      return;
+    }
+    const user = userOption.unwrap();
+
+    // The change was replaced by a newer one, or a token for it was already
+    // sent by an earlier delivery of this event
+    const { emailVerificationTokenSentTo } = user.getProps();
+    if (
+      user.pendingEmail !== event.email ||
+      emailVerificationTokenSentTo === event.email
+    ) {
+      return;
+    }
+
+    const token = this.passwordService.generateSecureToken();
+    const expiresAt = new Date(
+      Date.now() +
+        AUTH_CONSTANTS.EMAIL_VERIFICATION_TOKEN_EXPIRES_IN_HOURS *
+          60 *
+          60 *
+          1000,
+    );
+    // Stored only once sent, a failed delivery is retried with a new token
+    await this.notificationService.sendEmailVerification({
+      email: event.email,
+      token,
+      expiresAt,
+    });
+
+    user.generateEmailVerificationToken(
+      this.passwordService.hashToken(token),
+      expiresAt,
+      event.email,
+    );
+    await this.userRepo.update(user);
+
+    await this.auditLogRepo.insert(
+      AuthAuditLogEntity.create({
+        userId: user.id,
+        action: 'EMAIL_CHANGE_VERIFICATION_SENT',
+        details: { expiresAt },
+        success: true,
+      }),
+    );
+
+    this.logger.log('Email change verification token sent', {
+      userId: user.id,
+    });
+  }
+}
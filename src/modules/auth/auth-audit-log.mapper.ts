@@ -0,0 +1,59 @@
+import { Mapper } from '@libs/ddd';
+import { Injectable } from '@nestjs/common';
+import { AuthAuditLogEntity } from './domain/entities/auth-audit-log.entity';
+import {
+  AuthAuditLogModel,
+  authAuditLogSchema,
+} from './database/auth-audit-log.repository';
+import { AuthAuditLogResponseDto } from './dtos/auth-audit-log.response.dto';
+
+@Injectable()
+export class AuthAuditLogMapper implements Mapper<
+  AuthAuditLogEntity,
+  AuthAuditLogModel,
+  AuthAuditLogResponseDto
+> {
+  toPersistence(entity: AuthAuditLogEntity): AuthAuditLogModel {
+    const copy = entity.getProps();
+    const record: AuthAuditLogModel = {
+      id: copy.id,
+      timestamp: copy.createdAt,
+      userId: copy.userId ?? null,
+      action: copy.action,
+      details: copy.details ?? null,
+      ipAddress: copy.ipAddress ?? null,
+      userAgent: copy.userAgent ?? null,
+      success: copy.success,
+    };
+    return authAuditLogSchema.parse(record);
+  }
+
+  toDomain(record: AuthAuditLogModel): AuthAuditLogEntity {
+    const timestamp = new Date(record.timestamp);
+    return new AuthAuditLogEntity({
+      id: record.id,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      props: {
+        userId: record.userId ?? undefined,
+        action: record.action,
+        details: record.details ?? undefined,
+        ipAddress: record.ipAddress ?? undefined,
+        userAgent: record.userAgent ?? undefined,
+        success: record.success,
+      },
+    });
+  }
+
+  toResponse(entity: AuthAuditLogEntity): AuthAuditLogResponseDto {
+    const props = entity.getProps();
+    const response = new AuthAuditLogResponseDto(props);
+    response.userId = props.userId;
+    response.action = props.action;
+    response.details = props.details;
+    response.ipAddress = props.ipAddress;
+    response.userAgent = props.userAgent;
+    response.success = props.success;
+    return response;
+  }
+}
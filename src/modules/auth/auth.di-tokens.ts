@@ -5,11 +5,13 @@ export const AUTH_DI_TOKENS = {
   PermissionRepository: Symbol('PERMISSION_REPOSITORY'),
   RefreshTokenRepository: Symbol('REFRESH_TOKEN_REPOSITORY'),
   AuthAuditLogRepository: Symbol('AUTH_AUDIT_LOG_REPOSITORY'),
+  PasswordHistoryRepository: Symbol('PASSWORD_HISTORY_REPOSITORY'),
 
   // Services
   JwtService: Symbol('JWT_SERVICE'),
   PasswordService: Symbol('PASSWORD_SERVICE'),
   AuthService: Symbol('AUTH_SERVICE'),
+  AuthNotificationService: Symbol('AUTH_NOTIFICATION_SERVICE'),
 
   // Query Handlers
   GetUserPermissionsQueryHandler: Symbol('GET_USER_PERMISSIONS_QUERY_HANDLER'),
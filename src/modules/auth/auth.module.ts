@@ -0,0 +1,259 @@
+import {
+  forwardRef,
+  Logger,
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  Provider,
+} from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { CqrsModule } from '@nestjs/cqrs';
+import { JwtModule } from '@nestjs/jwt';
+import { PassportModule } from '@nestjs/passport';
+import { UserModule } from '@modules/user/user.module';
+import { RevokeSessionsWhenUserIsDeletedDomainEventHandler } from './application/event-handlers/revoke-sessions-when-user-is-deleted.domain-event-handler';
+import { RemoveAuthDataWhenUserIsAnonymizedDomainEventHandler } from './application/event-handlers/remove-auth-data-when-user-is-anonymized.domain-event-handler';
+import { SendEmailVerificationWhenUserEmailChangeIsRequestedDomainEventHandler } from './application/event-handlers/send-email-verification-when-user-email-change-is-requested.domain-event-handler';
+import { ChangePasswordHttpController } from './commands/change-password/change-password.http.controller';
+import { ChangePasswordService } from './commands/change-password/change-password.service';
+import { ForgotPasswordHttpController } from './commands/forgot-password/forgot-password.http.controller';
+import { ForgotPasswordService } from './commands/forgot-password/forgot-password.service';
+import { LoginHttpController } from './commands/login/login.http.controller';
+import { LoginService } from './commands/login/login.service';
+import { LogoutHttpController } from './commands/logout/logout.http.controller';
+import { LogoutService } from './commands/logout/logout.service';
+import { RefreshTokenHttpController } from './commands/refresh-token/refresh-token.http.controller';
+import { RefreshTokenService } from './commands/refresh-token/refresh-token.service';
+import { RegisterHttpController } from './commands/register/register.http.controller';
+import { RegisterService } from './commands/register/register.service';
+import { RevokeSessionHttpController } from './commands/revoke-session/revoke-session.http.controller';
+import { RevokeSessionService } from './commands/revoke-session/revoke-session.service';
+import { ResendVerificationHttpController } from './commands/resend-verification/resend-verification.http.controller';
+import { ResendVerificationService } from './commands/resend-verification/resend-verification.service';
+import { SendEmailVerificationService } from './commands/send-email-verification/send-email-verification.service';
+import { ResetPasswordHttpController } from './commands/reset-password/reset-password.http.controller';
+import { ResetPasswordService } from './commands/reset-password/reset-password.service';
+import { VerifyEmailHttpController } from './commands/verify-email/verify-email.http.controller';
+import { VerifyEmailService } from './commands/verify-email/verify-email.service';
+import { AssignRoleGraphqlResolver } from './commands/assign-role/assign-role.graphql-resolver';
+import { AssignRoleHttpController } from './commands/assign-role/assign-role.http.controller';
+import { AssignRoleService } from './commands/assign-role/assign-role.service';
+import { CreatePermissionGraphqlResolver } from './commands/create-permission/create-permission.graphql-resolver';
+import { CreatePermissionHttpController } from './commands/create-permission/create-permission.http.controller';
+import { CreatePermissionService } from './commands/create-permission/create-permission.service';
+import { CreateRoleGraphqlResolver } from './commands/create-role/create-role.graphql-resolver';
+import { CreateRoleHttpController } from './commands/create-role/create-role.http.controller';
+import { CreateRoleService } from './commands/create-role/create-role.service';
+import { DeletePermissionGraphqlResolver } from './commands/delete-permission/delete-permission.graphql-resolver';
+import { DeletePermissionHttpController } from './commands/delete-permission/delete-permission.http.controller';
+import { DeletePermissionService } from './commands/delete-permission/delete-permission.service';
+import { DeleteRoleGraphqlResolver } from './commands/delete-role/delete-role.graphql-resolver';
+import { DeleteRoleHttpController } from './commands/delete-role/delete-role.http.controller';
+import { DeleteRoleService } from './commands/delete-role/delete-role.service';
+import { GrantPermissionGraphqlResolver } from './commands/grant-permission/grant-permission.graphql-resolver';
+import { GrantPermissionHttpController } from './commands/grant-permission/grant-permission.http.controller';
+import { GrantPermissionService } from './commands/grant-permission/grant-permission.service';
+import { RevokePermissionGraphqlResolver } from './commands/revoke-permission/revoke-permission.graphql-resolver';
+import { RevokePermissionHttpController } from './commands/revoke-permission/revoke-permission.http.controller';
+import { RevokePermissionService } from './commands/revoke-permission/revoke-permission.service';
+import { UnassignRoleGraphqlResolver } from './commands/unassign-role/unassign-role.graphql-resolver';
+import { UnassignRoleHttpController } from './commands/unassign-role/unassign-role.http.controller';
+import { UnassignRoleService } from './commands/unassign-role/unassign-role.service';
+import { UpdatePermissionGraphqlResolver } from './commands/update-permission/update-permission.graphql-resolver';
+import { UpdatePermissionHttpController } from './commands/update-permission/update-permission.http.controller';
+import { UpdatePermissionService } from './commands/update-permission/update-permission.service';
+import { UpdateRoleGraphqlResolver } from './commands/update-role/update-role.graphql-resolver';
+import { UpdateRoleHttpController } from './commands/update-role/update-role.http.controller';
+import { UpdateRoleService } from './commands/update-role/update-role.service';
+import { FindPermissionsGraphqlResolver } from './queries/find-permissions/find-permissions.graphql-resolver';
+import { FindPermissionsHttpController } from './queries/find-permissions/find-permissions.http.controller';
+import { FindPermissionsQueryHandler } from './queries/find-permissions/find-permissions.query-handler';
+import { FindSessionsHttpController } from './queries/find-sessions/find-sessions.http.controller';
+import { FindSessionsQueryHandler } from './queries/find-sessions/find-sessions.query-handler';
+import { FindRolesGraphqlResolver } from './queries/find-roles/find-roles.graphql-resolver';
+import { FindRolesHttpController } from './queries/find-roles/find-roles.http.controller';
+import { FindRolesQueryHandler } from './queries/find-roles/find-roles.query-handler';
+import { AuthAuditLogRepository } from './database/auth-audit-log.repository';
+import { PasswordHistoryRepository } from './database/password-history.repository';
+import { PermissionRepository } from './database/permission.repository';
+import { RefreshTokenRepository } from './database/refresh-token.repository';
+import { RoleRepository } from './database/role.repository';
+import { FindEventLineageHttpController } from './queries/find-event-lineage/find-event-lineage.http.controller';
+import { FindEventLineageQueryHandler } from './queries/find-event-lineage/find-event-lineage.query-handler';
+import { JwtAuthGuard } from './infrastructure/guards/jwt-auth.guard';
+import { PermissionsGuard } from './infrastructure/guards/permissions.guard';
+import { PolicyGuard } from './infrastructure/guards/policy.guard';
+import { RolesGuard } from './infrastructure/guards/roles.guard';
+import { VerifiedEmailGuard } from './infrastructure/guards/verified-email.guard';
+import { RateLimitMiddleware } from './infrastructure/middleware/rate-limit.middleware';
+import { JwtService } from './infrastructure/services/jwt.service';
+import { MailerAuthNotificationService } from './infrastructure/services/mailer-auth-notification.service';
+import { PasswordService } from './infrastructure/services/password.service';
+import { JwtStrategy } from './infrastructure/strategies/jwt.strategy';
+import { AUTH_DI_TOKENS } from './auth.di-tokens';
+import { AuthAuditLogMapper } from './auth-audit-log.mapper';
+import { PermissionMapper } from './permission.mapper';
+import { RefreshTokenMapper } from './refresh-token.mapper';
+import { RoleMapper } from './role.mapper';
+
+const httpControllers = [
+  LoginHttpController,
+  RegisterHttpController,
+  RefreshTokenHttpController,
+  LogoutHttpController,
+  FindSessionsHttpController,
+  RevokeSessionHttpController,
+  ForgotPasswordHttpController,
+  ResetPasswordHttpController,
+  VerifyEmailHttpController,
+  ResendVerificationHttpController,
+  ChangePasswordHttpController,
+  FindEventLineageHttpController,
+  CreateRoleHttpController,
+  UpdateRoleHttpController,
+  DeleteRoleHttpController,
+  GrantPermissionHttpController,
+  RevokePermissionHttpController,
+  AssignRoleHttpController,
+  UnassignRoleHttpController,
+  CreatePermissionHttpController,
+  UpdatePermissionHttpController,
+  DeletePermissionHttpController,
+  FindRolesHttpController,
+  FindPermissionsHttpController,
+];
+
+const graphqlResolvers: Provider[] = [
+  CreateRoleGraphqlResolver,
+  UpdateRoleGraphqlResolver,
+  DeleteRoleGraphqlResolver,
+  GrantPermissionGraphqlResolver,
+  RevokePermissionGraphqlResolver,
+  AssignRoleGraphqlResolver,
+  UnassignRoleGraphqlResolver,
+  CreatePermissionGraphqlResolver,
+  UpdatePermissionGraphqlResolver,
+  DeletePermissionGraphqlResolver,
+  FindRolesGraphqlResolver,
+  FindPermissionsGraphqlResolver,
+];
+
+const commandHandlers: Provider[] = [
+  LoginService,
+  RegisterService,
+  RefreshTokenService,
+  LogoutService,
+  RevokeSessionService,
+  ForgotPasswordService,
+  ResetPasswordService,
+  VerifyEmailService,
+  ResendVerificationService,
+  SendEmailVerificationService,
+  ChangePasswordService,
+  CreateRoleService,
+  UpdateRoleService,
+  DeleteRoleService,
+  GrantPermissionService,
+  RevokePermissionService,
+  AssignRoleService,
+  UnassignRoleService,
+  CreatePermissionService,
+  UpdatePermissionService,
+  DeletePermissionService,
+];
+
+const queryHandlers: Provider[] = [
+  FindEventLineageQueryHandler,
+  FindRolesQueryHandler,
+  FindPermissionsQueryHandler,
+  FindSessionsQueryHandler,
+];
+
+const eventHandlers: Provider[] = [
+  SendEmailVerificationWhenUserEmailChangeIsRequestedDomainEventHandler,
+  RevokeSessionsWhenUserIsDeletedDomainEventHandler,
+  RemoveAuthDataWhenUserIsAnonymizedDomainEventHandler,
+];
+
+const guards: Provider[] = [
+  JwtAuthGuard,
+  RolesGuard,
+  PermissionsGuard,
+  VerifiedEmailGuard,
+  PolicyGuard,
+];
+
+const mappers: Provider[] = [
+  RoleMapper,
+  PermissionMapper,
+  RefreshTokenMapper,
+  AuthAuditLogMapper,
+];
+
+const services: Provider[] = [
+  JwtStrategy,
+  { provide: AUTH_DI_TOKENS.JwtService, useClass: JwtService },
+  { provide: AUTH_DI_TOKENS.PasswordService, useClass: PasswordService },
+  {
+    provide: AUTH_DI_TOKENS.AuthNotificationService,
+    useClass: MailerAuthNotificationService,
+  },
+];
+
+const repositories: Provider[] = [
+  { provide: AUTH_DI_TOKENS.RoleRepository, useClass: RoleRepository },
+  {
+    provide: AUTH_DI_TOKENS.PermissionRepository,
+    useClass: PermissionRepository,
+  },
+  {
+    provide: AUTH_DI_TOKENS.RefreshTokenRepository,
+    useClass: RefreshTokenRepository,
+  },
+  {
+    provide: AUTH_DI_TOKENS.AuthAuditLogRepository,
+    useClass: AuthAuditLogRepository,
+  },
+  {
+    provide: AUTH_DI_TOKENS.PasswordHistoryRepository,
+    useClass: PasswordHistoryRepository,
+  },
+];
+
+@Module({
+  imports: [
+    CqrsModule,
+    ConfigModule,
+    PassportModule.register({ defaultStrategy: 'jwt' }),
+    // Secrets and expiry are passed per call by JwtService
+    JwtModule.register({}),
+    // UserModule reads roles through RoleRepository
+    forwardRef(() => UserModule),
+  ],
+  controllers: [...httpControllers],
+  providers: [
+    Logger,
+    RateLimitMiddleware,
+    ...graphqlResolvers,
+    ...commandHandlers,
+    ...queryHandlers,
+    ...eventHandlers,
+    ...guards,
+    ...mappers,
+    ...services,
+    ...repositories,
+  ],
+  exports: [
+    ...guards,
+    AUTH_DI_TOKENS.JwtService,
+    AUTH_DI_TOKENS.RoleRepository,
+    AUTH_DI_TOKENS.PermissionRepository,
+    AUTH_DI_TOKENS.RefreshTokenRepository,
+    AUTH_DI_TOKENS.AuthAuditLogRepository,
+  ],
+})
+export class AuthModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(RateLimitMiddleware).forRoutes(...httpControllers);
+  }
+}
@@ -0,0 +1,17 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class AssignRoleCommand extends Command {
+  readonly userId: string;
+
+  readonly roleId: string;
+
+  /** Id of the authenticated user that assigns the role */
+  readonly performedBy: string;
+
+  constructor(props: CommandProps<AssignRoleCommand>) {
+    super(props);
+    this.userId = props.userId;
+    this.roleId = props.roleId;
+    this.performedBy = props.performedBy;
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  ConflictException as ConflictHttpException,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { CommandBus } from '@nestjs/cqrs';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { RoleInactiveError, RoleNotFoundError } from '../../domain/auth.errors';
+import { RequireRoles } from '../../infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../../infrastructure/guards/jwt-auth.guard';
+import { RolesGuard } from '../../infrastructure/guards/roles.guard';
+import { AssignRoleCommand } from './assign-role.command';
+import { AssignRoleError } from './assign-role.service';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class AssignRoleHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({ summary: 'Assign a role to a user' })
+  @ApiResponse({
+    description: 'Role assigned',
+    status: HttpStatus.NO_CONTENT,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: `${NotFoundException.message} / ${RoleNotFoundError.message}`,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: RoleInactiveError.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Insufficient permissions',
+    type: ApiErrorResponse,
+  })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequireRoles(['admin'])
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Put(routesV1.admin.userRole)
+  async assign(
+    @Param('userId') userId: string,
+    @Param('roleId') roleId: string,
+    @CurrentUser() performer: AuthenticatedUser,
+  ): Promise<void> {
+    const command = new AssignRoleCommand({
+      userId,
+      roleId,
+      performedBy: performer.sub,
+    });
+    const result: Result<void, AssignRoleError> =
+      await this.commandBus.execute(command);
+
+    match(result, {
+      Ok: () => undefined,
+      Err: (error: Error) => {
+        if (
+          error instanceof NotFoundException ||
+          error instanceof RoleNotFoundError
+        )
+          throw new NotFoundHttpException(error.message);
+        if (error instanceof RoleInactiveError)
+          throw new ConflictHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
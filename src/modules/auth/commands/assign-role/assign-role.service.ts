@@ -0,0 +1,71 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { RoleRepositoryPort } from '../../database/role.repository.port';
+import { RoleInactiveError, RoleNotFoundError } from '../../domain/auth.errors';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { AssignRoleCommand } from './assign-role.command';
+
+export type AssignRoleError =
+  NotFoundException | RoleNotFoundError | RoleInactiveError;
+
+/**
+ * Assigns a role to a user. Assigning a role the user already
+ * has succeeds without any change. The role is saved to publish
+ * RoleAssignedDomainEvent together with the assignment.
+ */
+@CommandHandler(AssignRoleCommand)
+export class AssignRoleService implements ICommandHandler<AssignRoleCommand> {
+  constructor(
+    @Inject(USER_DI_TOKENS.UserRepository)
+    private readonly userRepo: UserRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.RoleRepository)
+    private readonly roleRepo: RoleRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+  ) {}
+
+  async execute(
+    command: AssignRoleCommand,
+  ): Promise<Result<void, AssignRoleError>> {
+    const user = await this.userRepo.findOneById(command.userId);
+    if (user.isNone()) return Err(new NotFoundException());
+
+    const found = await this.roleRepo.findOneById(command.roleId);
+    if (found.isNone()) return Err(new RoleNotFoundError());
+
+    const role = found.unwrap();
+    if (!role.isActive) return Err(new RoleInactiveError());
+
+    const roleIds = await this.roleRepo.getUserRoleIds(command.userId);
+    if (roleIds.includes(role.id)) return Ok(undefined);
+
+    role.assignTo(command.userId, command.performedBy);
+    await this.roleRepo.transaction(async () => {
+      await this.roleRepo.assignRoleToUser(
+        command.userId,
+        role.id,
+        command.performedBy,
+      );
+      await this.roleRepo.update(role);
+      await this.auditLogRepo.insert(
+        AuthAuditLogEntity.create({
+          userId: command.performedBy,
+          action: 'ROLE_ASSIGNED',
+          details: {
+            roleId: role.id,
+            role: role.name,
+            targetUserId: command.userId,
+          },
+          success: true,
+        }),
+      );
+    });
+    return Ok(undefined);
+  }
+}
@@ -0,0 +1,22 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class ChangePasswordCommand extends Command {
+  readonly userId: string;
+  readonly currentPassword: string;
+  readonly newPassword: string;
+  readonly confirmPassword: string;
+  readonly refreshToken?: string;
+  readonly ipAddress?: string;
+  readonly userAgent?: string;
+
+  constructor(props: CommandProps<ChangePasswordCommand>) {
+    super(props);
+    this.userId = props.userId;
+    this.currentPassword = props.currentPassword;
+    this.newPassword = props.newPassword;
+    this.confirmPassword = props.confirmPassword;
+    this.refreshToken = props.refreshToken;
+    this.ipAddress = props.ipAddress;
+    this.userAgent = props.userAgent;
+  }
+}
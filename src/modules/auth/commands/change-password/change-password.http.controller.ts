@@ -0,0 +1,115 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  BadRequestException,
+  NotFoundException as NotFoundHttpException,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { CommandBus } from '@nestjs/cqrs';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { Request } from 'express';
+
+import { ChangePasswordCommand } from './change-password.command';
+import { ChangePasswordError } from './change-password.service';
+import { ChangePasswordRequestDto } from '../../dtos/change-password.request.dto';
+import { MessageResponseDto } from '../../dtos/auth.response.dto';
+import {
+  CurrentPasswordIncorrectError,
+  PasswordMismatchError,
+  PasswordReusedError,
+  WeakPasswordError,
+} from '../../domain/auth.errors';
+import { NotFoundException } from '@libs/exceptions';
+import { ApiErrorResponse } from '@libs/api/api-error.response';
+import { JwtAuthGuard } from '../../infrastructure/guards/jwt-auth.guard';
+import {
+  CurrentUser,
+  AuthenticatedUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+
+@ApiTags('Authentication')
+@Controller('auth')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ChangePasswordHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({ summary: 'Change the password of the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Password has been changed, other sessions were signed out',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: `${CurrentPasswordIncorrectError.message}, ${PasswordMismatchError.message}, ${PasswordReusedError.message} or ${WeakPasswordError.message}`,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Authentication required',
+    type: ApiErrorResponse,
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('change-password')
+  async changePassword(
+    @Body() body: ChangePasswordRequestDto,
+    @CurrentUser() user: AuthenticatedUser,
+    @Req() req: Request,
+  ): Promise<MessageResponseDto> {
+    const command = new ChangePasswordCommand({
+      userId: user.sub,
+      currentPassword: body.currentPassword,
+      newPassword: body.newPassword,
+      confirmPassword: body.confirmPassword,
+      refreshToken: body.refreshToken,
+      ipAddress: body.ipAddress || this.extractIpAddress(req),
+      userAgent: body.userAgent || req.get('User-Agent'),
+    });
+
+    const result: Result<void, ChangePasswordError | Error> =
+      await this.commandBus.execute(command);
+
+    return match(result, {
+      Ok: () => new MessageResponseDto('Password has been changed'),
+      Err: (error: Error) => {
+        if (error instanceof NotFoundException) {
+          throw new NotFoundHttpException(error.message);
+        }
+        if (
+          error instanceof CurrentPasswordIncorrectError ||
+          error instanceof PasswordMismatchError ||
+          error instanceof PasswordReusedError ||
+          error instanceof WeakPasswordError
+        ) {
+          throw new BadRequestException(error.message);
+        }
+
+        // Generic error handling
+        throw new BadRequestException(
+          error.message || 'Password change failed',
+        );
+      },
+    });
+  }
+
+  private extractIpAddress(req: Request): string {
+    return (
+      req.ip ||
+      req.connection?.remoteAddress ||
+      req.socket?.remoteAddress ||
+      (req as any).connection?.socket?.remoteAddress ||
+      'unknown'
+    );
+  }
+}
@@ -0,0 +1,208 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { ChangePasswordCommand } from './change-password.command';
+import { Password } from '../../domain/value-objects/password.value-object';
+import {
+  CurrentPasswordIncorrectError,
+  PasswordMismatchError,
+  PasswordReusedError,
+  WeakPasswordError,
+} from '../../domain/auth.errors';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { RefreshTokenRepositoryPort } from '../../database/refresh-token.repository.port';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { PasswordHistoryRepositoryPort } from '../../database/password-history.repository.port';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { PasswordServicePort } from '../../domain/ports/password.service.port';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { AUTH_CONSTANTS } from '../../domain/auth.types';
+import {
+  DEFAULT_PASSWORD_CONFIG,
+  OptimizedPasswordValidator,
+} from '@libs/security/password-validator';
+import { NotFoundException } from '@libs/exceptions';
+import { LoggerPort } from '@libs/ports/logger.port';
+
+export type ChangePasswordError =
+  | CurrentPasswordIncorrectError
+  | PasswordMismatchError
+  | PasswordReusedError
+  | WeakPasswordError
+  | NotFoundException;
+
+/**
+ * Changes the password of an authenticated user.
+ * The current password and the last PASSWORD_HISTORY_SIZE passwords cannot
+ * be reused. All other sessions are revoked, the session of the request
+ * is kept when its refresh token is provided.
+ */
+@CommandHandler(ChangePasswordCommand)
+@Injectable()
+export class ChangePasswordService implements ICommandHandler<ChangePasswordCommand> {
+  private readonly passwordValidator = new OptimizedPasswordValidator(
+    DEFAULT_PASSWORD_CONFIG,
+  );
+
+  constructor(
+    @Inject(USER_DI_TOKENS.UserRepository)
+    private readonly userRepo: UserRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.PasswordService)
+    private readonly passwordService: PasswordServicePort,
+    @Inject(AUTH_DI_TOKENS.PasswordHistoryRepository)
+    private readonly passwordHistoryRepo: PasswordHistoryRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.RefreshTokenRepository)
+    private readonly refreshTokenRepo: RefreshTokenRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+    @Inject(Logger)
+    private readonly logger: LoggerPort,
+  ) {}
+
+  async execute(
+    command: ChangePasswordCommand,
+  ): Promise<Result<void, ChangePasswordError | Error>> {
+    const {
+      userId,
+      currentPassword,
+      newPassword,
+      confirmPassword,
+      refreshToken,
+      ipAddress,
+      userAgent,
+    } = command;
+
+    try {
+      if (newPassword !== confirmPassword) {
+        return Err(new PasswordMismatchError());
+      }
+
+      const userOption = await this.userRepo.findOneById(userId);
+      if (userOption.isNone()) {
+        return Err(new NotFoundException());
+      }
+      const user = userOption.unwrap();
+      const { password: currentHash } = user.getProps();
+
+      if (
+        !currentHash ||
+        !(await this.passwordService.compare(currentPassword, currentHash))
+      ) {
+        await this.logAttempt(
+          userId,
+          'PASSWORD_CHANGE_INCORRECT_PASSWORD',
+          false,
+          {},
+          ipAddress,
+          userAgent,
+        );
+        return Err(new CurrentPasswordIncorrectError());
+      }
+
+      const validation = this.passwordValidator.validate(newPassword);
+      if (!validation.isValid) {
+        return Err(
+          new WeakPasswordError({
+            errors: validation.errors.map((error) => error.message),
+          }),
+        );
+      }
+
+      if (await this.isRecentlyUsed(userId, newPassword, currentHash)) {
+        await this.logAttempt(
+          userId,
+          'PASSWORD_CHANGE_REUSED_PASSWORD',
+          false,
+          {},
+          ipAddress,
+          userAgent,
+        );
+        return Err(new PasswordReusedError());
+      }
+
+      const hashedPassword = await Password.create(newPassword).hash();
+      user.updatePassword(hashedPassword.value);
+      // Other sessions must not outlive the password they were opened with
+      await this.userRepo.transaction(async () => {
+        await this.userRepo.update(user);
+        await this.passwordHistoryRepo.add(
+          userId,
+          currentHash,
+          AUTH_CONSTANTS.PASSWORD_HISTORY_SIZE,
+        );
+        await this.refreshTokenRepo.revokeAllUserTokens(
+          userId,
+          ipAddress,
+          refreshToken,
+        );
+      });
+
+      await this.logAttempt(
+        userId,
+        'PASSWORD_CHANGED',
+        true,
+        { currentSessionKept: !!refreshToken },
+        ipAddress,
+        userAgent,
+      );
+
+      this.logger.log('Password changed', { userId, ipAddress });
+
+      return Ok(undefined);
+    } catch (error) {
+      if (error instanceof WeakPasswordError) {
+        return Err(error);
+      }
+
+      this.logger.error('Change password command execution failed', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ipAddress,
+      });
+
+      return Err(
+        error instanceof Error ? error : new Error('Password change failed'),
+      );
+    }
+  }
+
+  private async isRecentlyUsed(
+    userId: string,
+    newPassword: string,
+    currentHash: string,
+  ): Promise<boolean> {
+    const previousHashes = await this.passwordHistoryRepo.findRecentHashes(
+      userId,
+      AUTH_CONSTANTS.PASSWORD_HISTORY_SIZE,
+    );
+
+    // bcrypt hashes are salted, every hash has to be compared separately
+    for (const hash of [currentHash, ...previousHashes]) {
+      if (await this.passwordService.compare(newPassword, hash)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async logAttempt(
+    userId: string,
+    action: string,
+    success: boolean,
+    details: Record<string, unknown>,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<void> {
+    const auditLog = AuthAuditLogEntity.create({
+      userId,
+      action,
+      details,
+      ipAddress,
+      userAgent,
+      success,
+    });
+
+    await this.auditLogRepo.insert(auditLog);
+  }
+}
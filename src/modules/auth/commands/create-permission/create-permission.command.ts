@@ -0,0 +1,20 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class CreatePermissionCommand extends Command {
+  readonly resource: string;
+
+  readonly action: string;
+
+  readonly description?: string;
+
+  /** Id of the authenticated user that creates the permission */
+  readonly performedBy: string;
+
+  constructor(props: CommandProps<CreatePermissionCommand>) {
+    super(props);
+    this.resource = props.resource;
+    this.action = props.action;
+    this.description = props.description;
+    this.performedBy = props.performedBy;
+  }
+}
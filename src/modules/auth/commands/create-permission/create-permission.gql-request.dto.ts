@@ -0,0 +1,22 @@
+import { ArgsType, Field, InputType } from '@nestjs/graphql';
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+@ArgsType()
+@InputType()
+export class CreatePermissionGqlRequestDto {
+  @MaxLength(50)
+  @Matches(/^[a-z][a-z0-9_-]+$/)
+  @Field()
+  readonly resource: string;
+
+  @MaxLength(50)
+  @Matches(/^[a-z][a-z0-9_-]+$/)
+  @Field()
+  readonly action: string;
+
+  @IsOptional()
+  @MaxLength(255)
+  @IsString()
+  @Field({ nullable: true })
+  readonly description?: string;
+}
@@ -0,0 +1,36 @@
+import { Args, Mutation, Resolver } from '@nestjs/graphql';
+import { CommandBus } from '@nestjs/cqrs';
+import { Result } from 'oxide.ts';
+import { AggregateID } from '@libs/ddd';
+import { IdGqlResponse } from '@modules/user/commands/create-user/graphql-example/dtos/id.gql-response.dto';
+import { PermissionAlreadyExistsError } from '../../domain/auth.errors';
+import { Auth } from '../../infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+import { CreatePermissionCommand } from './create-permission.command';
+import { CreatePermissionGqlRequestDto } from './create-permission.gql-request.dto';
+
+@Resolver()
+export class CreatePermissionGraphqlResolver {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Mutation(() => IdGqlResponse)
+  @Auth({ roles: ['admin'] })
+  async createPermission(
+    @Args('input') input: CreatePermissionGqlRequestDto,
+    @CurrentUser() performer: AuthenticatedUser,
+  ): Promise<IdGqlResponse> {
+    const command = new CreatePermissionCommand({
+      ...input,
+      performedBy: performer.sub,
+    });
+
+    const result: Result<AggregateID, PermissionAlreadyExistsError> =
+      await this.commandBus.execute(command);
+    if (result.isErr()) throw result.unwrapErr();
+
+    return new IdGqlResponse(result.unwrap());
+  }
+}
@@ -0,0 +1,70 @@
+import {
+  Body,
+  ConflictException as ConflictHttpException,
+  Controller,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { CommandBus } from '@nestjs/cqrs';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { IdResponse } from '@libs/api/id.response.dto';
+import { AggregateID } from '@libs/ddd';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { PermissionAlreadyExistsError } from '../../domain/auth.errors';
+import { RequireRoles } from '../../infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../../infrastructure/guards/jwt-auth.guard';
+import { RolesGuard } from '../../infrastructure/guards/roles.guard';
+import { CreatePermissionCommand } from './create-permission.command';
+import { CreatePermissionRequestDto } from './create-permission.request.dto';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class CreatePermissionHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({ summary: 'Create a permission' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    type: IdResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: PermissionAlreadyExistsError.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Insufficient permissions',
+    type: ApiErrorResponse,
+  })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequireRoles(['admin'])
+  @Post(routesV1.admin.permissions)
+  async create(
+    @Body() body: CreatePermissionRequestDto,
+    @CurrentUser() performer: AuthenticatedUser,
+  ): Promise<IdResponse> {
+    const command = new CreatePermissionCommand({
+      ...body,
+      performedBy: performer.sub,
+    });
+    const result: Result<AggregateID, PermissionAlreadyExistsError> =
+      await this.commandBus.execute(command);
+
+    return match(result, {
+      Ok: (id: string) => new IdResponse(id),
+      Err: (error: Error) => {
+        if (error instanceof PermissionAlreadyExistsError)
+          throw new ConflictHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+export class CreatePermissionRequestDto {
+  @ApiProperty({ example: 'invoice', description: 'Protected resource' })
+  @MaxLength(50)
+  @Matches(/^[a-z][a-z0-9_-]+$/)
+  readonly resource: string;
+
+  @ApiProperty({ example: 'read', description: 'Action on the resource' })
+  @MaxLength(50)
+  @Matches(/^[a-z][a-z0-9_-]+$/)
+  readonly action: string;
+
+  @ApiProperty({ example: 'View invoices', required: false })
+  @IsOptional()
+  @MaxLength(255)
+  @IsString()
+  readonly description?: string;
+}
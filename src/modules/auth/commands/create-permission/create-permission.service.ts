@@ -0,0 +1,63 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { AggregateID } from '@libs/ddd';
+import { ConflictException } from '@libs/exceptions';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { PermissionRepositoryPort } from '../../database/permission.repository.port';
+import { PermissionAlreadyExistsError } from '../../domain/auth.errors';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { PermissionEntity } from '../../domain/entities/permission.entity';
+import { CreatePermissionCommand } from './create-permission.command';
+
+/**
+ * Creates a permission named "resource:action".
+ * It is granted to no role until GrantPermissionCommand.
+ */
+@CommandHandler(CreatePermissionCommand)
+export class CreatePermissionService implements ICommandHandler<CreatePermissionCommand> {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.PermissionRepository)
+    private readonly permissionRepo: PermissionRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+  ) {}
+
+  async execute(
+    command: CreatePermissionCommand,
+  ): Promise<Result<AggregateID, PermissionAlreadyExistsError>> {
+    const existing = await this.permissionRepo.findByResourceAndAction(
+      command.resource,
+      command.action,
+    );
+    if (existing.isSome()) return Err(new PermissionAlreadyExistsError());
+
+    const permission = PermissionEntity.create({
+      name: `${command.resource}:${command.action}`,
+      resource: command.resource,
+      action: command.action,
+      description: command.description,
+    });
+
+    try {
+      await this.permissionRepo.transaction(async () => {
+        await this.permissionRepo.insert(permission);
+        await this.auditLogRepo.insert(
+          AuthAuditLogEntity.create({
+            userId: command.performedBy,
+            action: 'PERMISSION_CREATED',
+            details: { permissionId: permission.id, name: permission.name },
+            success: true,
+          }),
+        );
+      });
+      return Ok(permission.id);
+    } catch (error: any) {
+      if (error instanceof ConflictException) {
+        return Err(new PermissionAlreadyExistsError(error));
+      }
+      throw error;
+    }
+  }
+}
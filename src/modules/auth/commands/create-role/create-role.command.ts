@@ -0,0 +1,20 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class CreateRoleCommand extends Command {
+  readonly name: string;
+
+  readonly description?: string;
+
+  readonly permissionIds: string[];
+
+  /** Id of the authenticated user that creates the role */
+  readonly performedBy: string;
+
+  constructor(props: CommandProps<CreateRoleCommand>) {
+    super(props);
+    this.name = props.name;
+    this.description = props.description;
+    this.permissionIds = props.permissionIds;
+    this.performedBy = props.performedBy;
+  }
+}
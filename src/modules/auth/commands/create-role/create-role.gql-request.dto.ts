@@ -0,0 +1,31 @@
+import { ArgsType, Field, InputType } from '@nestjs/graphql';
+import {
+  IsArray,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+@ArgsType()
+@InputType()
+export class CreateRoleGqlRequestDto {
+  @MaxLength(50)
+  @MinLength(2)
+  @Matches(/^[a-z][a-z0-9_-]*$/)
+  @Field()
+  readonly name: string;
+
+  @IsOptional()
+  @MaxLength(255)
+  @IsString()
+  @Field({ nullable: true })
+  readonly description?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Field(() => [String], { nullable: true })
+  readonly permissionIds?: string[];
+}
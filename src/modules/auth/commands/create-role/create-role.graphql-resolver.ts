@@ -0,0 +1,38 @@
+import { Args, Mutation, Resolver } from '@nestjs/graphql';
+import { CommandBus } from '@nestjs/cqrs';
+import { Result } from 'oxide.ts';
+import { AggregateID } from '@libs/ddd';
+import { IdGqlResponse } from '@modules/user/commands/create-user/graphql-example/dtos/id.gql-response.dto';
+import { Auth } from '../../infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+import { CreateRoleCommand } from './create-role.command';
+import { CreateRoleGqlRequestDto } from './create-role.gql-request.dto';
+import { CreateRoleError } from './create-role.service';
+
+@Resolver()
+export class CreateRoleGraphqlResolver {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Mutation(() => IdGqlResponse)
+  @Auth({ roles: ['admin'] })
+  async createRole(
+    @Args('input') input: CreateRoleGqlRequestDto,
+    @CurrentUser() performer: AuthenticatedUser,
+  ): Promise<IdGqlResponse> {
+    const command = new CreateRoleCommand({
+      name: input.name,
+      description: input.description,
+      permissionIds: input.permissionIds ?? [],
+      performedBy: performer.sub,
+    });
+
+    const result: Result<AggregateID, CreateRoleError> =
+      await this.commandBus.execute(command);
+    if (result.isErr()) throw result.unwrapErr();
+
+    return new IdGqlResponse(result.unwrap());
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  Body,
+  ConflictException as ConflictHttpException,
+  Controller,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { CommandBus } from '@nestjs/cqrs';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { IdResponse } from '@libs/api/id.response.dto';
+import { AggregateID } from '@libs/ddd';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import {
+  PermissionNotFoundError,
+  RoleAlreadyExistsError,
+} from '../../domain/auth.errors';
+import { RequireRoles } from '../../infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../../infrastructure/guards/jwt-auth.guard';
+import { RolesGuard } from '../../infrastructure/guards/roles.guard';
+import { CreateRoleCommand } from './create-role.command';
+import { CreateRoleRequestDto } from './create-role.request.dto';
+import { CreateRoleError } from './create-role.service';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class CreateRoleHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({ summary: 'Create a role' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    type: IdResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: RoleAlreadyExistsError.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: PermissionNotFoundError.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Insufficient permissions',
+    type: ApiErrorResponse,
+  })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequireRoles(['admin'])
+  @Post(routesV1.admin.roles)
+  async create(
+    @Body() body: CreateRoleRequestDto,
+    @CurrentUser() performer: AuthenticatedUser,
+  ): Promise<IdResponse> {
+    const command = new CreateRoleCommand({
+      name: body.name,
+      description: body.description,
+      permissionIds: body.permissionIds ?? [],
+      performedBy: performer.sub,
+    });
+    const result: Result<AggregateID, CreateRoleError> =
+      await this.commandBus.execute(command);
+
+    return match(result, {
+      Ok: (id: string) => new IdResponse(id),
+      Err: (error: Error) => {
+        if (error instanceof RoleAlreadyExistsError)
+          throw new ConflictHttpException(error.message);
+        if (error instanceof PermissionNotFoundError)
+          throw new NotFoundHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export class CreateRoleRequestDto {
+  @ApiProperty({ example: 'support', description: 'Unique role name' })
+  @MaxLength(50)
+  @MinLength(2)
+  @Matches(/^[a-z][a-z0-9_-]*$/)
+  readonly name: string;
+
+  @ApiProperty({
+    example: 'Support agents reading user accounts',
+    required: false,
+  })
+  @IsOptional()
+  @MaxLength(255)
+  @IsString()
+  readonly description?: string;
+
+  @ApiProperty({
+    example: ['perm-user-002'],
+    description: 'Ids of the permissions granted by the role',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  readonly permissionIds?: string[];
+}
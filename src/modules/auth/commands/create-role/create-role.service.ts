@@ -0,0 +1,72 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { AggregateID } from '@libs/ddd';
+import { ConflictException } from '@libs/exceptions';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { PermissionRepositoryPort } from '../../database/permission.repository.port';
+import { RoleRepositoryPort } from '../../database/role.repository.port';
+import {
+  PermissionNotFoundError,
+  RoleAlreadyExistsError,
+} from '../../domain/auth.errors';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { RoleEntity } from '../../domain/entities/role.entity';
+import { CreateRoleCommand } from './create-role.command';
+
+export type CreateRoleError = RoleAlreadyExistsError | PermissionNotFoundError;
+
+@CommandHandler(CreateRoleCommand)
+export class CreateRoleService implements ICommandHandler<CreateRoleCommand> {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.RoleRepository)
+    private readonly roleRepo: RoleRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.PermissionRepository)
+    private readonly permissionRepo: PermissionRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+  ) {}
+
+  async execute(
+    command: CreateRoleCommand,
+  ): Promise<Result<AggregateID, CreateRoleError>> {
+    const existing = await this.roleRepo.findByName(command.name);
+    if (existing.isSome()) return Err(new RoleAlreadyExistsError());
+
+    const permissionIds = [...new Set(command.permissionIds)];
+    const permissions = await this.permissionRepo.findByIds(permissionIds);
+    const missing = permissionIds.filter(
+      (id) => !permissions.some((permission) => permission.id === id),
+    );
+    if (missing.length > 0) {
+      return Err(new PermissionNotFoundError({ permissionIds: missing }));
+    }
+
+    const role = RoleEntity.create({
+      name: command.name,
+      description: command.description,
+    });
+    permissionIds.forEach((id) => role.grantPermission(id));
+
+    try {
+      await this.roleRepo.transaction(async () => {
+        await this.roleRepo.insert(role);
+        await this.auditLogRepo.insert(
+          AuthAuditLogEntity.create({
+            userId: command.performedBy,
+            action: 'ROLE_CREATED',
+            details: { roleId: role.id, name: role.name, permissionIds },
+            success: true,
+          }),
+        );
+      });
+      return Ok(role.id);
+    } catch (error: any) {
+      if (error instanceof ConflictException) {
+        return Err(new RoleAlreadyExistsError(error));
+      }
+      throw error;
+    }
+  }
+}
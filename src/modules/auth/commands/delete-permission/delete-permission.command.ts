@@ -0,0 +1,14 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class DeletePermissionCommand extends Command {
+  readonly permissionId: string;
+
+  /** Id of the authenticated user that deletes the permission */
+  readonly performedBy: string;
+
+  constructor(props: CommandProps<DeletePermissionCommand>) {
+    super(props);
+    this.permissionId = props.permissionId;
+    this.performedBy = props.performedBy;
+  }
+}
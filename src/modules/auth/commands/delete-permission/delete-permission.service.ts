@@ -0,0 +1,44 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { PermissionRepositoryPort } from '../../database/permission.repository.port';
+import { PermissionNotFoundError } from '../../domain/auth.errors';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { DeletePermissionCommand } from './delete-permission.command';
+
+/**
+ * Deletes a permission, it is revoked from all roles
+ * ("role_permissions" cascades).
+ */
+@CommandHandler(DeletePermissionCommand)
+export class DeletePermissionService implements ICommandHandler<DeletePermissionCommand> {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.PermissionRepository)
+    private readonly permissionRepo: PermissionRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+  ) {}
+
+  async execute(
+    command: DeletePermissionCommand,
+  ): Promise<Result<void, PermissionNotFoundError>> {
+    const found = await this.permissionRepo.findOneById(command.permissionId);
+    if (found.isNone()) return Err(new PermissionNotFoundError());
+
+    const permission = found.unwrap();
+    await this.permissionRepo.transaction(async () => {
+      await this.permissionRepo.delete(permission);
+      await this.auditLogRepo.insert(
+        AuthAuditLogEntity.create({
+          userId: command.performedBy,
+          action: 'PERMISSION_DELETED',
+          details: { permissionId: permission.id, name: permission.name },
+          success: true,
+        }),
+      );
+    });
+    return Ok(undefined);
+  }
+}
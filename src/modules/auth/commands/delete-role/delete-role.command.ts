@@ -0,0 +1,14 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class DeleteRoleCommand extends Command {
+  readonly roleId: string;
+
+  /** Id of the authenticated user that deletes the role */
+  readonly performedBy: string;
+
+  constructor(props: CommandProps<DeleteRoleCommand>) {
+    super(props);
+    this.roleId = props.roleId;
+    this.performedBy = props.performedBy;
+  }
+}
@@ -0,0 +1,34 @@
+import { Args, Mutation, Resolver } from '@nestjs/graphql';
+import { CommandBus } from '@nestjs/cqrs';
+import { Result } from 'oxide.ts';
+import { IdGqlResponse } from '@modules/user/commands/create-user/graphql-example/dtos/id.gql-response.dto';
+import { RoleNotFoundError } from '../../domain/auth.errors';
+import { Auth } from '../../infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+import { DeleteRoleCommand } from './delete-role.command';
+
+@Resolver()
+export class DeleteRoleGraphqlResolver {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Mutation(() => IdGqlResponse)
+  @Auth({ roles: ['admin'] })
+  async deleteRole(
+    @Args('roleId') roleId: string,
+    @CurrentUser() performer: AuthenticatedUser,
+  ): Promise<IdGqlResponse> {
+    const command = new DeleteRoleCommand({
+      roleId,
+      performedBy: performer.sub,
+    });
+
+    const result: Result<void, RoleNotFoundError> =
+      await this.commandBus.execute(command);
+    if (result.isErr()) throw result.unwrapErr();
+
+    return new IdGqlResponse(roleId);
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { CommandBus } from '@nestjs/cqrs';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { RoleNotFoundError } from '../../domain/auth.errors';
+import { RequireRoles } from '../../infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../../infrastructure/guards/jwt-auth.guard';
+import { RolesGuard } from '../../infrastructure/guards/roles.guard';
+import { DeleteRoleCommand } from './delete-role.command';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class DeleteRoleHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({ summary: 'Delete a role and unassign it from all users' })
+  @ApiResponse({
+    description: 'Role deleted',
+    status: HttpStatus.NO_CONTENT,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: RoleNotFoundError.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Insufficient permissions',
+    type: ApiErrorResponse,
+  })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequireRoles(['admin'])
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete(routesV1.admin.role)
+  async delete(
+    @Param('id') id: string,
+    @CurrentUser() performer: AuthenticatedUser,
+  ): Promise<void> {
+    const command = new DeleteRoleCommand({
+      roleId: id,
+      performedBy: performer.sub,
+    });
+    const result: Result<void, RoleNotFoundError> =
+      await this.commandBus.execute(command);
+
+    match(result, {
+      Ok: () => undefined,
+      Err: (error: Error) => {
+        if (error instanceof RoleNotFoundError)
+          throw new NotFoundHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
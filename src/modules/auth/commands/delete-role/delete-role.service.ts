@@ -0,0 +1,44 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { RoleRepositoryPort } from '../../database/role.repository.port';
+import { RoleNotFoundError } from '../../domain/auth.errors';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { DeleteRoleCommand } from './delete-role.command';
+
+/**
+ * Deletes a role, its permissions and assignments are deleted with it
+ * ("role_permissions" and "user_roles" cascade).
+ */
+@CommandHandler(DeleteRoleCommand)
+export class DeleteRoleService implements ICommandHandler<DeleteRoleCommand> {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.RoleRepository)
+    private readonly roleRepo: RoleRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+  ) {}
+
+  async execute(
+    command: DeleteRoleCommand,
+  ): Promise<Result<void, RoleNotFoundError>> {
+    const found = await this.roleRepo.findOneById(command.roleId);
+    if (found.isNone()) return Err(new RoleNotFoundError());
+
+    const role = found.unwrap();
+    await this.roleRepo.transaction(async () => {
+      await this.roleRepo.delete(role);
+      await this.auditLogRepo.insert(
+        AuthAuditLogEntity.create({
+          userId: command.performedBy,
+          action: 'ROLE_DELETED',
+          details: { roleId: role.id, name: role.name },
+          success: true,
+        }),
+      );
+    });
+    return Ok(undefined);
+  }
+}
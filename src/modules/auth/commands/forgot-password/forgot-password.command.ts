@@ -0,0 +1,14 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class ForgotPasswordCommand extends Command {
+  readonly email: string;
+  readonly ipAddress?: string;
+  readonly userAgent?: string;
+
+  constructor(props: CommandProps<ForgotPasswordCommand>) {
+    super(props);
+    this.email = props.email;
+    this.ipAddress = props.ipAddress;
+    this.userAgent = props.userAgent;
+  }
+}
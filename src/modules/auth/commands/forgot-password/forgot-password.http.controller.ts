@@ -0,0 +1,81 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  BadRequestException,
+  Req,
+} from '@nestjs/common';
+import { CommandBus } from '@nestjs/cqrs';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { Request } from 'express';
+
+import { ForgotPasswordCommand } from './forgot-password.command';
+import { ForgotPasswordRequestDto } from '../../dtos/forgot-password.request.dto';
+import { MessageResponseDto } from '../../dtos/auth.response.dto';
+import { ApiErrorResponse } from '@libs/api/api-error.response';
+import { Public } from '../../infrastructure/decorators/auth.decorator';
+
+@ApiTags('Authentication')
+@Controller('auth')
+export class ForgotPasswordHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Public()
+  @ApiOperation({ summary: 'Request a password reset token by email' })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description:
+      'Reset token sent if an account with this email exists and is allowed to reset its password',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid request data',
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many password reset attempts',
+    type: ApiErrorResponse,
+  })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Post('forgot-password')
+  async forgotPassword(
+    @Body() body: ForgotPasswordRequestDto,
+    @Req() req: Request,
+  ): Promise<MessageResponseDto> {
+    const command = new ForgotPasswordCommand({
+      email: body.email,
+      ipAddress: body.ipAddress || this.extractIpAddress(req),
+      userAgent: body.userAgent || req.get('User-Agent'),
+    });
+
+    const result: Result<void, Error> = await this.commandBus.execute(command);
+
+    // Same response whether the account exists or not
+    return match(result, {
+      Ok: () =>
+        new MessageResponseDto(
+          'If an account with this email exists, a password reset token has been sent',
+        ),
+      Err: (error: Error) => {
+        throw new BadRequestException(
+          error.message || 'Password reset request failed',
+        );
+      },
+    });
+  }
+
+  private extractIpAddress(req: Request): string {
+    return (
+      req.ip ||
+      req.connection?.remoteAddress ||
+      req.socket?.remoteAddress ||
+      (req as any).connection?.socket?.remoteAddress ||
+      'unknown'
+    );
+  }
+}
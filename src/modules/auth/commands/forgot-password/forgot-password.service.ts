@@ -0,0 +1,150 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { ForgotPasswordCommand } from './forgot-password.command';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { PasswordServicePort } from '../../domain/ports/password.service.port';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { AUTH_CONSTANTS } from '../../domain/auth.types';
+import { MAILER } from '@libs/mailer';
+import { MailerPort } from '@libs/ports/mailer.port';
+import { LoggerPort } from '@libs/ports/logger.port';
+
+/**
+ * Sends a single-use password reset token by email.
+ * Always succeeds for unknown or ineligible accounts so the endpoint
+ * cannot be used to find out which emails are registered.
+ */
+@CommandHandler(ForgotPasswordCommand)
+@Injectable()
+export class ForgotPasswordService implements ICommandHandler<ForgotPasswordCommand> {
+  constructor(
+    @Inject(USER_DI_TOKENS.UserRepository)
+    private readonly userRepo: UserRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.PasswordService)
+    private readonly passwordService: PasswordServicePort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+    @Inject(MAILER)
+    private readonly mailer: MailerPort,
+    @Inject(Logger)
+    private readonly logger: LoggerPort,
+  ) {}
+
+  async execute(command: ForgotPasswordCommand): Promise<Result<void, Error>> {
+    const { email, ipAddress, userAgent } = command;
+
+    try {
+      const user = await this.userRepo.findByEmailForAuth(email);
+      if (!user) {
+        await this.logAttempt(
+          undefined,
+          'PASSWORD_RESET_UNKNOWN_EMAIL',
+          false,
+          { email },
+          ipAddress,
+          userAgent,
+        );
+        return Ok(undefined);
+      }
+
+      const rejectionReason = this.getRejectionReason(user);
+      if (rejectionReason) {
+        await this.logAttempt(
+          user.id,
+          'PASSWORD_RESET_NOT_ALLOWED',
+          false,
+          { reason: rejectionReason },
+          ipAddress,
+          userAgent,
+        );
+        return Ok(undefined);
+      }
+
+      // Only a hash of the token is stored, the token itself is sent by email
+      const resetToken = this.passwordService.generateResetToken();
+      const expiresAt = new Date(
+        Date.now() +
+          AUTH_CONSTANTS.PASSWORD_RESET_TOKEN_EXPIRES_IN_HOURS * 60 * 60 * 1000,
+      );
+      user.generatePasswordResetToken(
+        this.passwordService.hashToken(resetToken),
+        expiresAt,
+      );
+      await this.userRepo.update(user);
+
+      await this.mailer.send({
+        to: email,
+        subject: 'Reset your password',
+        text: [
+          'We received a request to reset the password of your account.',
+          `Use the following token to set a new password: ${resetToken}`,
+          `The token can be used once and expires at ${expiresAt.toISOString()}.`,
+          'If you did not request a password reset, you can ignore this email.',
+        ].join('\n\n'),
+      });
+
+      await this.logAttempt(
+        user.id,
+        'PASSWORD_RESET_REQUESTED',
+        true,
+        { expiresAt },
+        ipAddress,
+        userAgent,
+      );
+
+      this.logger.log('Password reset requested', {
+        userId: user.id,
+        ipAddress,
+      });
+
+      return Ok(undefined);
+    } catch (error) {
+      this.logger.error('Forgot password command execution failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ipAddress,
+      });
+
+      return Err(
+        error instanceof Error ? error : new Error('Password reset failed'),
+      );
+    }
+  }
+
+  private getRejectionReason(user: UserEntity): string | undefined {
+    if (!user.isActive) {
+      return 'ACCOUNT_INACTIVE';
+    }
+    if (!user.isEmailVerified) {
+      return 'EMAIL_NOT_VERIFIED';
+    }
+    if (user.isLocked) {
+      return 'ACCOUNT_LOCKED';
+    }
+    return undefined;
+  }
+
+  private async logAttempt(
+    userId: string | undefined,
+    action: string,
+    success: boolean,
+    details: Record<string, unknown>,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<void> {
+    const auditLog = AuthAuditLogEntity.create({
+      userId,
+      action,
+      details,
+      ipAddress,
+      userAgent,
+      success,
+    });
+
+    await this.auditLogRepo.insert(auditLog);
+  }
+}
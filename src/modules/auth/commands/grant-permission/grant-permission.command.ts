@@ -0,0 +1,17 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class GrantPermissionCommand extends Command {
+  readonly roleId: string;
+
+  readonly permissionId: string;
+
+  /** Id of the authenticated user that grants the permission */
+  readonly performedBy: string;
+
+  constructor(props: CommandProps<GrantPermissionCommand>) {
+    super(props);
+    this.roleId = props.roleId;
+    this.permissionId = props.permissionId;
+    this.performedBy = props.performedBy;
+  }
+}
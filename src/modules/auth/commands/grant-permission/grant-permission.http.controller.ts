@@ -0,0 +1,78 @@
+import {
+  Controller,
+  HttpCode,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { CommandBus } from '@nestjs/cqrs';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import {
+  PermissionNotFoundError,
+  RoleNotFoundError,
+} from '../../domain/auth.errors';
+import { RequireRoles } from '../../infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../../infrastructure/guards/jwt-auth.guard';
+import { RolesGuard } from '../../infrastructure/guards/roles.guard';
+import { GrantPermissionCommand } from './grant-permission.command';
+import { GrantPermissionError } from './grant-permission.service';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class GrantPermissionHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({ summary: 'Grant a permission to a role' })
+  @ApiResponse({
+    description: 'Permission granted',
+    status: HttpStatus.NO_CONTENT,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: `${RoleNotFoundError.message} / ${PermissionNotFoundError.message}`,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Insufficient permissions',
+    type: ApiErrorResponse,
+  })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequireRoles(['admin'])
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Put(routesV1.admin.rolePermission)
+  async grant(
+    @Param('id') id: string,
+    @Param('permissionId') permissionId: string,
+    @CurrentUser() performer: AuthenticatedUser,
+  ): Promise<void> {
+    const command = new GrantPermissionCommand({
+      roleId: id,
+      permissionId,
+      performedBy: performer.sub,
+    });
+    const result: Result<void, GrantPermissionError> =
+      await this.commandBus.execute(command);
+
+    match(result, {
+      Ok: () => undefined,
+      Err: (error: Error) => {
+        if (
+          error instanceof RoleNotFoundError ||
+          error instanceof PermissionNotFoundError
+        )
+          throw new NotFoundHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { PermissionRepositoryPort } from '../../database/permission.repository.port';
+import { RoleRepositoryPort } from '../../database/role.repository.port';
+import {
+  PermissionNotFoundError,
+  RoleNotFoundError,
+} from '../../domain/auth.errors';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { GrantPermissionCommand } from './grant-permission.command';
+
+export type GrantPermissionError = RoleNotFoundError | PermissionNotFoundError;
+
+/**
+ * Grants a permission to a role. Granting a permission the role
+ * already has succeeds without any change.
+ */
+@CommandHandler(GrantPermissionCommand)
+export class GrantPermissionService implements ICommandHandler<GrantPermissionCommand> {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.RoleRepository)
+    private readonly roleRepo: RoleRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.PermissionRepository)
+    private readonly permissionRepo: PermissionRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+  ) {}
+
+  async execute(
+    command: GrantPermissionCommand,
+  ): Promise<Result<void, GrantPermissionError>> {
+    const found = await this.roleRepo.findOneById(command.roleId);
+    if (found.isNone()) return Err(new RoleNotFoundError());
+
+    const permission = await this.permissionRepo.findOneById(
+      command.permissionId,
+    );
+    if (permission.isNone()) return Err(new PermissionNotFoundError());
+
+    const role = found.unwrap();
+    if (role.hasPermission(command.permissionId)) return Ok(undefined);
+
+    role.grantPermission(command.permissionId);
+    await this.roleRepo.transaction(async () => {
+      await this.roleRepo.update(role);
+      await this.auditLogRepo.insert(
+        AuthAuditLogEntity.create({
+          userId: command.performedBy,
+          action: 'PERMISSION_GRANTED',
+          details: {
+            roleId: role.id,
+            permissionId: command.permissionId,
+            permission: permission.unwrap().name,
+          },
+          success: true,
+        }),
+      );
+    });
+    return Ok(undefined);
+  }
+}
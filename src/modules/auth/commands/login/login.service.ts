@@ -1,4 +1,5 @@
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
 import { Err, Ok, Result } from 'oxide.ts';
 import { LoginCommand } from './login.command';
@@ -16,6 +17,8 @@ import { JwtServicePort } from '../../domain/ports/jwt.service.port';
 import { PasswordServicePort } from '../../domain/ports/password.service.port';
 import { RefreshTokenRepositoryPort } from '../../database/refresh-token.repository.port';
 import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { RoleRepositoryPort } from '../../database/role.repository.port';
+import { PermissionRepositoryPort } from '../../database/permission.repository.port';
 import { RefreshTokenEntity } from '../../domain/entities/refresh-token.entity';
 import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
 import { LoggerPort } from '@libs/ports/logger.port';
@@ -24,6 +27,8 @@ import { AUTH_CONSTANTS } from '../../domain/auth.types';
 @CommandHandler(LoginCommand)
 @Injectable()
 export class LoginService implements ICommandHandler<LoginCommand> {
+  private readonly maxSessionsPerUser: number;
+
   constructor(
     @Inject(USER_DI_TOKENS.UserRepository)
     private readonly userRepo: UserRepositoryPort,
@@ -35,8 +40,28 @@ export class LoginService implements ICommandHandler<LoginCommand> {
     private readonly refreshTokenRepo: RefreshTokenRepositoryPort,
     @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
     private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.RoleRepository)
+    private readonly roleRepo: RoleRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.PermissionRepository)
+    private readonly permissionRepo: PermissionRepositoryPort,
+    @Inject(Logger)
     private readonly logger: LoggerPort,
-  ) {}
+    configService: ConfigService,
+  ) {
+    // Anything but a positive integer would end every session on login
+    const configured = configService.get('AUTH_MAX_SESSIONS_PER_USER');
+    const maxSessions = Number(configured);
+    if (Number.isInteger(maxSessions) && maxSessions > 0) {
+      this.maxSessionsPerUser = maxSessions;
+    } else {
+      if (configured !== undefined) {
+        this.logger.warn(
+          `AUTH_MAX_SESSIONS_PER_USER must be a positive integer, got "${configured}"`,
+        );
+      }
+      this.maxSessionsPerUser = AUTH_CONSTANTS.MAX_SESSIONS_PER_USER;
+    }
+  }
 
   async execute(command: LoginCommand): Promise<Result<TokenPair, Error>> {
     const { email, password, ipAddress, userAgent } = command;
@@ -52,6 +77,7 @@ export class LoginService implements ICommandHandler<LoginCommand> {
         return userResult;
       }
       const user = userResult.unwrap();
+      const userProps = user.getProps();
 
       // Validate account status
       const accountValidationResult = await this.validateAccountStatus(
@@ -98,6 +124,9 @@ export class LoginService implements ICommandHandler<LoginCommand> {
         userAgent,
       );
 
+      // End the least recently used sessions over the cap
+      await this.evictSessionsOverCap(user.id, ipAddress, userAgent);
+
       // Log successful login
       await this.logSuccessfulAttempt(
         user.id,
@@ -210,6 +239,39 @@ export class LoginService implements ICommandHandler<LoginCommand> {
     await this.refreshTokenRepo.insert(refreshToken);
   }
 
+  /**
+   * Each login starts a session, with a single active refresh token
+   * at a time, so active tokens are counted as sessions
+   */
+  private async evictSessionsOverCap(
+    userId: string,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<void> {
+    const activeSessions =
+      await this.refreshTokenRepo.countActiveTokensForUser(userId);
+    if (activeSessions <= this.maxSessionsPerUser) return;
+
+    // Most recently used first, the session just started included
+    const sessions =
+      await this.refreshTokenRepo.findActiveTokensByUserId(userId);
+    const evicted = sessions.slice(this.maxSessionsPerUser);
+    for (const session of evicted) {
+      await this.refreshTokenRepo.revokeFamily(session.familyId, ipAddress);
+    }
+
+    await this.logSuccessfulAttempt(
+      userId,
+      'SESSIONS_EVICTED',
+      {
+        sessionIds: evicted.map((session) => session.familyId),
+        maxSessions: this.maxSessionsPerUser,
+      },
+      ipAddress,
+      userAgent,
+    );
+  }
+
   private async logSuccessfulAttempt(
     userId: string,
     action: string,
@@ -381,18 +443,13 @@ export class LoginService implements ICommandHandler<LoginCommand> {
     }
   }
 
-  // These methods would be implemented based on your user repository structure
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private async getUserRoles(_userId: string): Promise<string[]> {
-    // Implementation would query user roles
-    // For now, return empty array or mock data
-    return ['user']; // This should be replaced with actual role lookup
+  private async getUserRoles(userId: string): Promise<string[]> {
+    const roles = await this.roleRepo.findUserRoles(userId);
+    return roles.filter((role) => role.isActive).map((role) => role.name);
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private async getUserPermissions(_userId: string): Promise<string[]> {
-    // Implementation would query user permissions via roles
-    // For now, return empty array or mock data
-    return ['user:read-own', 'wallet:read-own']; // This should be replaced with actual permission lookup
+  private async getUserPermissions(userId: string): Promise<string[]> {
+    const permissions = await this.permissionRepo.findUserPermissions(userId);
+    return permissions.map((permission) => permission.name);
   }
 }
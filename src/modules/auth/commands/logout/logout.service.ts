@@ -1,4 +1,4 @@
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
 import { Err, Ok, Result } from 'oxide.ts';
 import { LogoutCommand } from './logout.command';
@@ -16,6 +16,7 @@ export class LogoutService implements ICommandHandler<LogoutCommand> {
     private readonly refreshTokenRepo: RefreshTokenRepositoryPort,
     @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
     private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+    @Inject(Logger)
     private readonly logger: LoggerPort,
   ) {}
 
@@ -1,4 +1,4 @@
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
 import { Err, Ok, Result } from 'oxide.ts';
 import { RefreshTokenCommand } from './refresh-token.command';
@@ -11,12 +11,15 @@ import {
 import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
 import { RefreshTokenRepositoryPort } from '../../database/refresh-token.repository.port';
 import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { RoleRepositoryPort } from '../../database/role.repository.port';
+import { PermissionRepositoryPort } from '../../database/permission.repository.port';
 import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
 import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
 import { JwtServicePort } from '../../domain/ports/jwt.service.port';
 import { RefreshTokenEntity } from '../../domain/entities/refresh-token.entity';
 import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
 import { LoggerPort } from '@libs/ports/logger.port';
+import { SecurityLogger } from '@libs/security/security-logger.service';
 import { AUTH_CONSTANTS } from '../../domain/auth.types';
 
 @CommandHandler(RefreshTokenCommand)
@@ -33,7 +36,13 @@ export class RefreshTokenService
     private readonly refreshTokenRepo: RefreshTokenRepositoryPort,
     @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
     private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.RoleRepository)
+    private readonly roleRepo: RoleRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.PermissionRepository)
+    private readonly permissionRepo: PermissionRepositoryPort,
+    @Inject(Logger)
     private readonly logger: LoggerPort,
+    private readonly securityLogger: SecurityLogger,
   ) {}
 
   async execute(
@@ -75,6 +84,17 @@ export class RefreshTokenService
 
       const refreshTokenEntity = refreshTokenOption.unwrap();
 
+      // A rotated token is only presented again when it was stolen, either
+      // by the client using it now or by the one that rotated it before
+      if (refreshTokenEntity.isRotated) {
+        await this.revokeReusedTokenFamily(
+          refreshTokenEntity,
+          ipAddress,
+          userAgent,
+        );
+        return Err(new RefreshTokenNotFoundError());
+      }
+
       // Check if token is active (not revoked and not expired)
       if (!refreshTokenEntity.isActive) {
         await this.logFailedAttempt(
@@ -130,17 +150,37 @@ export class RefreshTokenService
         tokenType: 'access', // Will be overridden by the service
       });
 
-      // Revoke the old refresh token and store the new one
-      refreshTokenEntity.revoke(ipAddress, newTokenPair.refreshToken);
-      await this.refreshTokenRepo.update(refreshTokenEntity);
-
-      // Store the new refresh token
-      await this.storeRefreshToken(
-        user.id,
-        newTokenPair.refreshToken,
-        ipAddress,
-        userAgent,
-      );
+      // Revoke the old refresh token and store the new one in a transaction
+      // holding the family, so a concurrent revocation of the family also
+      // revokes the new token and a failed insert keeps the old one.
+      // A concurrent request presenting the same token may have rotated it
+      // since it was read, only one of them wins and the other one is a reuse
+      const rotated = await this.refreshTokenRepo.transaction(async () => {
+        await this.refreshTokenRepo.lockFamily(refreshTokenEntity.familyId);
+        const revoked = await this.refreshTokenRepo.revokeToken(
+          refreshToken,
+          ipAddress,
+          newTokenPair.refreshToken,
+        );
+        if (revoked) {
+          await this.storeRefreshToken(
+            user.id,
+            newTokenPair.refreshToken,
+            refreshTokenEntity.familyId,
+            ipAddress,
+            userAgent,
+          );
+        }
+        return revoked;
+      });
+      if (!rotated) {
+        await this.revokeReusedTokenFamily(
+          refreshTokenEntity,
+          ipAddress,
+          userAgent,
+        );
+        return Err(new RefreshTokenNotFoundError());
+      }
 
       // Log successful token refresh
       await this.logSuccessfulAttempt(
@@ -170,15 +210,55 @@ export class RefreshTokenService
     }
   }
 
+  /**
+   * Revokes every token of the family, so neither the legitimate
+   * client nor the attacker can keep refreshing
+   */
+  private async revokeReusedTokenFamily(
+    refreshToken: RefreshTokenEntity,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<void> {
+    await this.refreshTokenRepo.revokeFamily(refreshToken.familyId, ipAddress);
+
+    const details = {
+      familyId: refreshToken.familyId,
+      tokenId: refreshToken.id,
+      revokedAt: refreshToken.revokedAt,
+    };
+    await this.logFailedAttempt(
+      refreshToken.userId,
+      'REFRESH_TOKEN_REUSE_DETECTED',
+      details,
+      ipAddress,
+      userAgent,
+    );
+
+    this.securityLogger.logSecurityEvent({
+      type: 'SUSPICIOUS_ACTIVITY',
+      severity: 'HIGH',
+      details: {
+        ...details,
+        reason: 'Rotated refresh token reused',
+        userId: refreshToken.userId,
+        ip: ipAddress,
+        userAgent,
+      },
+      timestamp: new Date(),
+    });
+  }
+
   private async storeRefreshToken(
     userId: string,
     token: string,
+    familyId: string,
     ipAddress?: string,
     userAgent?: string,
   ): Promise<void> {
     const refreshToken = RefreshTokenEntity.create({
       token,
       userId,
+      familyId,
       expiresAt: new Date(
         Date.now() +
           AUTH_CONSTANTS.REFRESH_TOKEN_EXPIRES_IN_DAYS * 24 * 60 * 60 * 1000,
@@ -228,16 +308,13 @@ export class RefreshTokenService
     await this.auditLogRepo.insert(auditLog);
   }
 
-  // These methods would be implemented based on your role/permission system
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private async getUserRoles(_userId: string): Promise<string[]> {
-    // Implementation would query user roles
-    return ['user']; // This should be replaced with actual role lookup
+  private async getUserRoles(userId: string): Promise<string[]> {
+    const roles = await this.roleRepo.findUserRoles(userId);
+    return roles.filter((role) => role.isActive).map((role) => role.name);
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private async getUserPermissions(_userId: string): Promise<string[]> {
-    // Implementation would query user permissions via roles
-    return ['user:read-own', 'wallet:read-own']; // This should be replaced with actual permission lookup
+  private async getUserPermissions(userId: string): Promise<string[]> {
+    const permissions = await this.permissionRepo.findUserPermissions(userId);
+    return permissions.map((permission) => permission.name);
   }
 }
@@ -8,7 +8,7 @@ import {
   Req,
 } from '@nestjs/common';
 import { CommandBus } from '@nestjs/cqrs';
-import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ApiHeader, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { match, Result } from 'oxide.ts';
 import { Request } from 'express';
 
@@ -22,6 +22,7 @@ import {
 } from '../../domain/auth.errors';
 import { ApiErrorResponse } from '@libs/api/api-error.response';
 import { AggregateID } from '@libs/ddd';
+import { Idempotent } from '@libs/db/idempotency';
 import { Public } from '../../infrastructure/decorators/auth.decorator';
 
 @ApiTags('Authentication')
@@ -31,6 +32,12 @@ export class RegisterHttpController {
 
   @Public()
   @ApiOperation({ summary: 'User registration' })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    required: false,
+    description:
+      'Repeating a request with the same key returns its first response',
+  })
   @ApiResponse({
     status: HttpStatus.CREATED,
     description: 'User successfully registered',
@@ -46,6 +53,7 @@ export class RegisterHttpController {
     description: 'Invalid request data or weak password',
     type: ApiErrorResponse,
   })
+  @Idempotent('auth.register')
   @Post('register')
   async register(
     @Body() body: RegisterRequestDto,
@@ -1,4 +1,4 @@
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
 import { Err, Ok, Result } from 'oxide.ts';
 import { RegisterCommand } from './register.command';
@@ -29,6 +29,7 @@ export class RegisterService implements ICommandHandler<RegisterCommand> {
     private readonly passwordService: PasswordServicePort,
     @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
     private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+    @Inject(Logger)
     private readonly logger: LoggerPort,
   ) {}
 
@@ -67,17 +68,14 @@ export class RegisterService implements ICommandHandler<RegisterCommand> {
       // Create address value object
       const addressVO = new Address(address);
 
-      // Generate email verification token
-      const emailVerificationToken = this.passwordService.generateSecureToken();
-
-      // Create user entity with authentication fields
+      // Create user entity with authentication fields, the verification token
+      // is sent by UserOnboardingSaga
       const user = UserEntity.createWithAuth({
         email,
         address: addressVO,
         password: hashedPassword.value,
         isActive: true,
         isEmailVerified: false,
-        emailVerificationToken,
         loginAttempts: 0,
       });
 
@@ -106,9 +104,6 @@ export class RegisterService implements ICommandHandler<RegisterCommand> {
         ipAddress,
       });
 
-      // TODO: Send email verification email
-      // await this.emailService.sendVerificationEmail(email, emailVerificationToken);
-
       return Ok(user.id);
     } catch (error) {
       this.logger.error('Register command execution failed', {
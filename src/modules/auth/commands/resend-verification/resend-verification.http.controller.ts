@@ -0,0 +1,81 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  BadRequestException,
+  Req,
+} from '@nestjs/common';
+import { CommandBus } from '@nestjs/cqrs';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { Request } from 'express';
+
+import { ResendVerificationCommand } from './resend-verification.command';
+import { ResendVerificationRequestDto } from '../../dtos/resend-verification.request.dto';
+import { MessageResponseDto } from '../../dtos/auth.response.dto';
+import { ApiErrorResponse } from '@libs/api/api-error.response';
+import { Public } from '../../infrastructure/decorators/auth.decorator';
+
+@ApiTags('Authentication')
+@Controller('auth')
+export class ResendVerificationHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Public()
+  @ApiOperation({ summary: 'Send a new email verification token' })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description:
+      'Verification token sent if an unverified account with this email exists',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid request data',
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many verification requests',
+    type: ApiErrorResponse,
+  })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Post('resend-verification')
+  async resendVerification(
+    @Body() body: ResendVerificationRequestDto,
+    @Req() req: Request,
+  ): Promise<MessageResponseDto> {
+    const command = new ResendVerificationCommand({
+      email: body.email,
+      ipAddress: body.ipAddress || this.extractIpAddress(req),
+      userAgent: body.userAgent || req.get('User-Agent'),
+    });
+
+    const result: Result<void, Error> = await this.commandBus.execute(command);
+
+    // Same response whether the account exists or not
+    return match(result, {
+      Ok: () =>
+        new MessageResponseDto(
+          'If an unverified account with this email exists, a verification token has been sent',
+        ),
+      Err: (error: Error) => {
+        throw new BadRequestException(
+          error.message || 'Resending email verification failed',
+        );
+      },
+    });
+  }
+
+  private extractIpAddress(req: Request): string {
+    return (
+      req.ip ||
+      req.connection?.remoteAddress ||
+      req.socket?.remoteAddress ||
+      (req as any).connection?.socket?.remoteAddress ||
+      'unknown'
+    );
+  }
+}
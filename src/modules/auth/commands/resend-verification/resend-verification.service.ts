@@ -0,0 +1,150 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { ResendVerificationCommand } from './resend-verification.command';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { PasswordServicePort } from '../../domain/ports/password.service.port';
+import { AuthNotificationPort } from '../../domain/ports/auth-notification.port';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { AUTH_CONSTANTS } from '../../domain/auth.types';
+import { LoggerPort } from '@libs/ports/logger.port';
+
+/**
+ * Issues a new email verification token, replacing any previous one.
+ * Always succeeds for unknown or ineligible accounts so the endpoint
+ * cannot be used to find out which emails are registered.
+ */
+@CommandHandler(ResendVerificationCommand)
+@Injectable()
+export class ResendVerificationService implements ICommandHandler<ResendVerificationCommand> {
+  constructor(
+    @Inject(USER_DI_TOKENS.UserRepository)
+    private readonly userRepo: UserRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.PasswordService)
+    private readonly passwordService: PasswordServicePort,
+    @Inject(AUTH_DI_TOKENS.AuthNotificationService)
+    private readonly notificationService: AuthNotificationPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+    @Inject(Logger)
+    private readonly logger: LoggerPort,
+  ) {}
+
+  async execute(
+    command: ResendVerificationCommand,
+  ): Promise<Result<void, Error>> {
+    const { email, ipAddress, userAgent } = command;
+
+    try {
+      const user = await this.userRepo.findByEmailForAuth(email);
+      if (!user) {
+        await this.logAttempt(
+          undefined,
+          'EMAIL_VERIFICATION_UNKNOWN_EMAIL',
+          false,
+          { email },
+          ipAddress,
+          userAgent,
+        );
+        return Ok(undefined);
+      }
+
+      const rejectionReason = this.getRejectionReason(user);
+      if (rejectionReason) {
+        await this.logAttempt(
+          user.id,
+          'EMAIL_VERIFICATION_NOT_ALLOWED',
+          false,
+          { reason: rejectionReason },
+          ipAddress,
+          userAgent,
+        );
+        return Ok(undefined);
+      }
+
+      // Only a hash of the token is stored, the token itself is sent to the user.
+      // It verifies the current email, never a pending one (see verifyEmail)
+      const token = this.passwordService.generateSecureToken();
+      const expiresAt = new Date(
+        Date.now() +
+          AUTH_CONSTANTS.EMAIL_VERIFICATION_TOKEN_EXPIRES_IN_HOURS *
+            60 *
+            60 *
+            1000,
+      );
+      user.generateEmailVerificationToken(
+        this.passwordService.hashToken(token),
+        expiresAt,
+        user.email,
+      );
+      await this.userRepo.update(user);
+
+      await this.notificationService.sendEmailVerification({
+        email: user.email,
+        token,
+        expiresAt,
+      });
+
+      await this.logAttempt(
+        user.id,
+        'EMAIL_VERIFICATION_SENT',
+        true,
+        { expiresAt },
+        ipAddress,
+        userAgent,
+      );
+
+      this.logger.log('Email verification token resent', {
+        userId: user.id,
+        ipAddress,
+      });
+
+      return Ok(undefined);
+    } catch (error) {
+      this.logger.error('Resend verification command execution failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ipAddress,
+      });
+
+      return Err(
+        error instanceof Error
+          ? error
+          : new Error('Resending email verification failed'),
+      );
+    }
+  }
+
+  private getRejectionReason(user: UserEntity): string | undefined {
+    if (user.isEmailVerified) {
+      return 'EMAIL_ALREADY_VERIFIED';
+    }
+    if (!user.isActive) {
+      return 'ACCOUNT_INACTIVE';
+    }
+    return undefined;
+  }
+
+  private async logAttempt(
+    userId: string | undefined,
+    action: string,
+    success: boolean,
+    details: Record<string, unknown>,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<void> {
+    const auditLog = AuthAuditLogEntity.create({
+      userId,
+      action,
+      details,
+      ipAddress,
+      userAgent,
+      success,
+    });
+
+    await this.auditLogRepo.insert(auditLog);
+  }
+}
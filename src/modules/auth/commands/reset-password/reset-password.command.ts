@@ -0,0 +1,18 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class ResetPasswordCommand extends Command {
+  readonly token: string;
+  readonly newPassword: string;
+  readonly confirmPassword: string;
+  readonly ipAddress?: string;
+  readonly userAgent?: string;
+
+  constructor(props: CommandProps<ResetPasswordCommand>) {
+    super(props);
+    this.token = props.token;
+    this.newPassword = props.newPassword;
+    this.confirmPassword = props.confirmPassword;
+    this.ipAddress = props.ipAddress;
+    this.userAgent = props.userAgent;
+  }
+}
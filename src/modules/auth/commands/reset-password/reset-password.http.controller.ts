@@ -0,0 +1,87 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  BadRequestException,
+  Req,
+} from '@nestjs/common';
+import { CommandBus } from '@nestjs/cqrs';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { Request } from 'express';
+
+import { ResetPasswordCommand } from './reset-password.command';
+import { ResetPasswordError } from './reset-password.service';
+import { ResetPasswordRequestDto } from '../../dtos/reset-password.request.dto';
+import { MessageResponseDto } from '../../dtos/auth.response.dto';
+import {
+  InvalidTokenError,
+  PasswordMismatchError,
+  WeakPasswordError,
+} from '../../domain/auth.errors';
+import { ApiErrorResponse } from '@libs/api/api-error.response';
+import { Public } from '../../infrastructure/decorators/auth.decorator';
+
+@ApiTags('Authentication')
+@Controller('auth')
+export class ResetPasswordHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Public()
+  @ApiOperation({ summary: 'Set a new password using a reset token' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Password has been reset, all sessions were signed out',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: `${InvalidTokenError.message}, ${PasswordMismatchError.message} or ${WeakPasswordError.message}`,
+    type: ApiErrorResponse,
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('reset-password')
+  async resetPassword(
+    @Body() body: ResetPasswordRequestDto,
+    @Req() req: Request,
+  ): Promise<MessageResponseDto> {
+    const command = new ResetPasswordCommand({
+      token: body.token,
+      newPassword: body.newPassword,
+      confirmPassword: body.confirmPassword,
+      ipAddress: body.ipAddress || this.extractIpAddress(req),
+      userAgent: body.userAgent || req.get('User-Agent'),
+    });
+
+    const result: Result<void, ResetPasswordError | Error> =
+      await this.commandBus.execute(command);
+
+    return match(result, {
+      Ok: () => new MessageResponseDto('Password has been reset'),
+      Err: (error: Error) => {
+        if (
+          error instanceof InvalidTokenError ||
+          error instanceof PasswordMismatchError ||
+          error instanceof WeakPasswordError
+        ) {
+          throw new BadRequestException(error.message);
+        }
+
+        // Generic error handling
+        throw new BadRequestException(error.message || 'Password reset failed');
+      },
+    });
+  }
+
+  private extractIpAddress(req: Request): string {
+    return (
+      req.ip ||
+      req.connection?.remoteAddress ||
+      req.socket?.remoteAddress ||
+      (req as any).connection?.socket?.remoteAddress ||
+      'unknown'
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { ResetPasswordCommand } from './reset-password.command';
+import { Password } from '../../domain/value-objects/password.value-object';
+import {
+  InvalidTokenError,
+  PasswordMismatchError,
+  WeakPasswordError,
+} from '../../domain/auth.errors';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { RefreshTokenRepositoryPort } from '../../database/refresh-token.repository.port';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { PasswordServicePort } from '../../domain/ports/password.service.port';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { LoggerPort } from '@libs/ports/logger.port';
+
+export type ResetPasswordError =
+  InvalidTokenError | PasswordMismatchError | WeakPasswordError;
+
+/**
+ * Sets a new password using a token issued by ForgotPasswordCommand.
+ * The token is cleared on success, and every refresh token of the user
+ * is revoked so existing sessions have to log in again.
+ */
+@CommandHandler(ResetPasswordCommand)
+@Injectable()
+export class ResetPasswordService implements ICommandHandler<ResetPasswordCommand> {
+  constructor(
+    @Inject(USER_DI_TOKENS.UserRepository)
+    private readonly userRepo: UserRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.PasswordService)
+    private readonly passwordService: PasswordServicePort,
+    @Inject(AUTH_DI_TOKENS.RefreshTokenRepository)
+    private readonly refreshTokenRepo: RefreshTokenRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+    @Inject(Logger)
+    private readonly logger: LoggerPort,
+  ) {}
+
+  async execute(
+    command: ResetPasswordCommand,
+  ): Promise<Result<void, ResetPasswordError | Error>> {
+    const { token, newPassword, confirmPassword, ipAddress, userAgent } =
+      command;
+
+    try {
+      if (newPassword !== confirmPassword) {
+        await this.logAttempt(
+          undefined,
+          'PASSWORD_RESET_PASSWORD_MISMATCH',
+          false,
+          ipAddress,
+          userAgent,
+        );
+        return Err(new PasswordMismatchError());
+      }
+
+      const userOption = await this.userRepo.findOneByPasswordResetToken(
+        this.passwordService.hashToken(token),
+      );
+      if (userOption.isNone()) {
+        await this.logAttempt(
+          undefined,
+          'PASSWORD_RESET_INVALID_TOKEN',
+          false,
+          ipAddress,
+          userAgent,
+        );
+        return Err(new InvalidTokenError());
+      }
+
+      const user = userOption.unwrap();
+      const { passwordResetTokenExpiresAt } = user.getProps();
+      if (
+        !passwordResetTokenExpiresAt ||
+        passwordResetTokenExpiresAt < new Date()
+      ) {
+        user.clearPasswordResetToken();
+        await this.userRepo.update(user);
+        await this.logAttempt(
+          user.id,
+          'PASSWORD_RESET_TOKEN_EXPIRED',
+          false,
+          ipAddress,
+          userAgent,
+        );
+        return Err(new InvalidTokenError());
+      }
+
+      // Validates password strength, throws WeakPasswordError
+      const hashedPassword = await Password.create(newPassword).hash();
+
+      // Clears the reset token, so it cannot be used again
+      user.updatePassword(hashedPassword.value);
+      user.resetLoginAttempts();
+      // Sessions must not outlive the password they were opened with
+      await this.userRepo.transaction(async () => {
+        await this.userRepo.update(user);
+        await this.refreshTokenRepo.revokeAllUserTokens(user.id, ipAddress);
+      });
+
+      await this.logAttempt(
+        user.id,
+        'PASSWORD_RESET_SUCCESS',
+        true,
+        ipAddress,
+        userAgent,
+      );
+
+      this.logger.log('Password reset completed', {
+        userId: user.id,
+        ipAddress,
+      });
+
+      return Ok(undefined);
+    } catch (error) {
+      if (error instanceof WeakPasswordError) {
+        return Err(error);
+      }
+
+      this.logger.error('Reset password command execution failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ipAddress,
+      });
+
+      return Err(
+        error instanceof Error ? error : new Error('Password reset failed'),
+      );
+    }
+  }
+
+  private async logAttempt(
+    userId: string | undefined,
+    action: string,
+    success: boolean,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<void> {
+    const auditLog = AuthAuditLogEntity.create({
+      userId,
+      action,
+      ipAddress,
+      userAgent,
+      success,
+    });
+
+    await this.auditLogRepo.insert(auditLog);
+  }
+}
@@ -0,0 +1,17 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class RevokePermissionCommand extends Command {
+  readonly roleId: string;
+
+  readonly permissionId: string;
+
+  /** Id of the authenticated user that revokes the permission */
+  readonly performedBy: string;
+
+  constructor(props: CommandProps<RevokePermissionCommand>) {
+    super(props);
+    this.roleId = props.roleId;
+    this.permissionId = props.permissionId;
+    this.performedBy = props.performedBy;
+  }
+}
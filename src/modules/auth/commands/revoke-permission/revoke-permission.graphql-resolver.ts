@@ -0,0 +1,36 @@
+import { Args, Mutation, Resolver } from '@nestjs/graphql';
+import { CommandBus } from '@nestjs/cqrs';
+import { Result } from 'oxide.ts';
+import { IdGqlResponse } from '@modules/user/commands/create-user/graphql-example/dtos/id.gql-response.dto';
+import { Auth } from '../../infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+import { RevokePermissionCommand } from './revoke-permission.command';
+import { RevokePermissionError } from './revoke-permission.service';
+
+@Resolver()
+export class RevokePermissionGraphqlResolver {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Mutation(() => IdGqlResponse)
+  @Auth({ roles: ['admin'] })
+  async revokePermission(
+    @Args('roleId') roleId: string,
+    @Args('permissionId') permissionId: string,
+    @CurrentUser() performer: AuthenticatedUser,
+  ): Promise<IdGqlResponse> {
+    const command = new RevokePermissionCommand({
+      roleId,
+      permissionId,
+      performedBy: performer.sub,
+    });
+
+    const result: Result<void, RevokePermissionError> =
+      await this.commandBus.execute(command);
+    if (result.isErr()) throw result.unwrapErr();
+
+    return new IdGqlResponse(roleId);
+  }
+}
@@ -0,0 +1,49 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { RoleRepositoryPort } from '../../database/role.repository.port';
+import { RoleNotFoundError } from '../../domain/auth.errors';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { RevokePermissionCommand } from './revoke-permission.command';
+
+export type RevokePermissionError = RoleNotFoundError;
+
+/**
+ * Revokes a permission from a role. Revoking a permission the role
+ * does not have succeeds without any change.
+ */
+@CommandHandler(RevokePermissionCommand)
+export class RevokePermissionService implements ICommandHandler<RevokePermissionCommand> {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.RoleRepository)
+    private readonly roleRepo: RoleRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+  ) {}
+
+  async execute(
+    command: RevokePermissionCommand,
+  ): Promise<Result<void, RevokePermissionError>> {
+    const found = await this.roleRepo.findOneById(command.roleId);
+    if (found.isNone()) return Err(new RoleNotFoundError());
+
+    const role = found.unwrap();
+    if (!role.hasPermission(command.permissionId)) return Ok(undefined);
+
+    role.revokePermission(command.permissionId);
+    await this.roleRepo.transaction(async () => {
+      await this.roleRepo.update(role);
+      await this.auditLogRepo.insert(
+        AuthAuditLogEntity.create({
+          userId: command.performedBy,
+          action: 'PERMISSION_REVOKED',
+          details: { roleId: role.id, permissionId: command.permissionId },
+          success: true,
+        }),
+      );
+    });
+    return Ok(undefined);
+  }
+}
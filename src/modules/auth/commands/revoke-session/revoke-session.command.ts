@@ -0,0 +1,21 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class RevokeSessionCommand extends Command {
+  /** Family of the refresh tokens rotated from the login */
+  readonly sessionId: string;
+
+  /** Id of the authenticated user, only their own sessions can be revoked */
+  readonly userId: string;
+
+  readonly ipAddress?: string;
+
+  readonly userAgent?: string;
+
+  constructor(props: CommandProps<RevokeSessionCommand>) {
+    super(props);
+    this.sessionId = props.sessionId;
+    this.userId = props.userId;
+    this.ipAddress = props.ipAddress;
+    this.userAgent = props.userAgent;
+  }
+}
@@ -0,0 +1,70 @@
+import {
+  Controller,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  Req,
+} from '@nestjs/common';
+import { CommandBus } from '@nestjs/cqrs';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { match, Result } from 'oxide.ts';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { SessionNotFoundError } from '../../domain/auth.errors';
+import { AuthenticatedOnly } from '../../infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+import { RevokeSessionCommand } from './revoke-session.command';
+
+@ApiTags('Authentication')
+@Controller('auth')
+@AuthenticatedOnly()
+@ApiBearerAuth()
+export class RevokeSessionHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({ summary: 'Log the current user out of one of their devices' })
+  @ApiResponse({
+    description: 'Session revoked',
+    status: HttpStatus.NO_CONTENT,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: SessionNotFoundError.message,
+    type: ApiErrorResponse,
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete('sessions/:id')
+  async revoke(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Req() req: Request,
+  ): Promise<void> {
+    const command = new RevokeSessionCommand({
+      sessionId: id,
+      userId: user.sub,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+    const result: Result<void, SessionNotFoundError> =
+      await this.commandBus.execute(command);
+
+    match(result, {
+      Ok: () => undefined,
+      Err: (error: Error) => {
+        if (error instanceof SessionNotFoundError)
+          throw new NotFoundHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { RefreshTokenRepositoryPort } from '../../database/refresh-token.repository.port';
+import { SessionNotFoundError } from '../../domain/auth.errors';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { RevokeSessionCommand } from './revoke-session.command';
+
+/**
+ * Logs a user out of one of their devices by revoking the token
+ * family of the session, whichever of its tokens is active.
+ */
+@CommandHandler(RevokeSessionCommand)
+export class RevokeSessionService implements ICommandHandler<RevokeSessionCommand> {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.RefreshTokenRepository)
+    private readonly refreshTokenRepo: RefreshTokenRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+  ) {}
+
+  async execute(
+    command: RevokeSessionCommand,
+  ): Promise<Result<void, SessionNotFoundError>> {
+    const { sessionId, userId, ipAddress, userAgent } = command;
+
+    // Sessions of other users are reported as not found, not forbidden,
+    // so their ids can't be probed
+    const sessions =
+      await this.refreshTokenRepo.findActiveTokensByUserId(userId);
+    const session = sessions.find((token) => token.familyId === sessionId);
+    if (!session) return Err(new SessionNotFoundError());
+
+    await this.refreshTokenRepo.transaction(async () => {
+      await this.refreshTokenRepo.revokeFamily(sessionId, ipAddress);
+      await this.auditLogRepo.insert(
+        AuthAuditLogEntity.create({
+          userId,
+          action: 'SESSION_REVOKED',
+          details: { sessionId, userAgent: session.userAgent },
+          ipAddress,
+          userAgent,
+          success: true,
+        }),
+      );
+    });
+    return Ok(undefined);
+  }
+}
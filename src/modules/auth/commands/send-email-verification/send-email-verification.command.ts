@@ -0,0 +1,11 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+/** Sends the first verification email of a new user */
+export class SendEmailVerificationCommand extends Command {
+  readonly userId: string;
+
+  constructor(props: CommandProps<SendEmailVerificationCommand>) {
+    super(props);
+    this.userId = props.userId;
+  }
+}
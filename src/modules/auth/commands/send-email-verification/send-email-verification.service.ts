@@ -0,0 +1,90 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { PasswordServicePort } from '../../domain/ports/password.service.port';
+import { AuthNotificationPort } from '../../domain/ports/auth-notification.port';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { AUTH_CONSTANTS } from '../../domain/auth.types';
+import { LoggerPort } from '@libs/ports/logger.port';
+import { SendEmailVerificationCommand } from './send-email-verification.command';
+
+/**
+ * Issues the email verification token of a new user, dispatched by
+ * UserOnboardingSaga. A token that was already issued is not replaced,
+ * lost emails can be sent again with ResendVerificationCommand.
+ */
+@CommandHandler(SendEmailVerificationCommand)
+@Injectable()
+export class SendEmailVerificationService implements ICommandHandler<SendEmailVerificationCommand> {
+  constructor(
+    @Inject(USER_DI_TOKENS.UserRepository)
+    private readonly userRepo: UserRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.PasswordService)
+    private readonly passwordService: PasswordServicePort,
+    @Inject(AUTH_DI_TOKENS.AuthNotificationService)
+    private readonly notificationService: AuthNotificationPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+    @Inject(Logger)
+    private readonly logger: LoggerPort,
+  ) {}
+
+  async execute(
+    command: SendEmailVerificationCommand,
+  ): Promise<Result<void, NotFoundException>> {
+    const userOption = await this.userRepo.findOneById(command.userId);
+    if (userOption.isNone()) {
+      return Err(new NotFoundException());
+    }
+    const user = userOption.unwrap();
+
+    // A token is only stored once it was sent, so it marks the email as sent
+    const { emailVerificationTokenSentTo } = user.getProps();
+    if (user.isEmailVerified || emailVerificationTokenSentTo === user.email) {
+      return Ok(undefined);
+    }
+
+    const token = this.passwordService.generateSecureToken();
+    const expiresAt = new Date(
+      Date.now() +
+        AUTH_CONSTANTS.EMAIL_VERIFICATION_TOKEN_EXPIRES_IN_HOURS *
+          60 *
+          60 *
+          1000,
+    );
+    // Sent first: when sending fails nothing is stored and a retry sends
+    // a new token, instead of finding the unsent one and skipping it
+    await this.notificationService.sendEmailVerification({
+      email: user.email,
+      token,
+      expiresAt,
+    });
+
+    user.generateEmailVerificationToken(
+      this.passwordService.hashToken(token),
+      expiresAt,
+      user.email,
+    );
+    await this.userRepo.update(user);
+
+    await this.auditLogRepo.insert(
+      AuthAuditLogEntity.create({
+        userId: user.id,
+        action: 'EMAIL_VERIFICATION_SENT',
+        details: { expiresAt },
+        success: true,
+      }),
+    );
+
+    this.logger.log('Email verification token sent', {
+      userId: user.id,
+    });
+
+    return Ok(undefined);
+  }
+}
@@ -0,0 +1,17 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class UnassignRoleCommand extends Command {
+  readonly userId: string;
+
+  readonly roleId: string;
+
+  /** Id of the authenticated user that unassigns the role */
+  readonly performedBy: string;
+
+  constructor(props: CommandProps<UnassignRoleCommand>) {
+    super(props);
+    this.userId = props.userId;
+    this.roleId = props.roleId;
+    this.performedBy = props.performedBy;
+  }
+}
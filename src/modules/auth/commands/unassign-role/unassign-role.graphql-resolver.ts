@@ -0,0 +1,36 @@
+import { Args, Mutation, Resolver } from '@nestjs/graphql';
+import { CommandBus } from '@nestjs/cqrs';
+import { Result } from 'oxide.ts';
+import { IdGqlResponse } from '@modules/user/commands/create-user/graphql-example/dtos/id.gql-response.dto';
+import { Auth } from '../../infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+import { UnassignRoleCommand } from './unassign-role.command';
+import { UnassignRoleError } from './unassign-role.service';
+
+@Resolver()
+export class UnassignRoleGraphqlResolver {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Mutation(() => IdGqlResponse)
+  @Auth({ roles: ['admin'] })
+  async unassignRole(
+    @Args('userId') userId: string,
+    @Args('roleId') roleId: string,
+    @CurrentUser() performer: AuthenticatedUser,
+  ): Promise<IdGqlResponse> {
+    const command = new UnassignRoleCommand({
+      userId,
+      roleId,
+      performedBy: performer.sub,
+    });
+
+    const result: Result<void, UnassignRoleError> =
+      await this.commandBus.execute(command);
+    if (result.isErr()) throw result.unwrapErr();
+
+    return new IdGqlResponse(userId);
+  }
+}
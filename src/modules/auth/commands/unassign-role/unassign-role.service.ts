@@ -0,0 +1,55 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { RoleRepositoryPort } from '../../database/role.repository.port';
+import { RoleNotFoundError } from '../../domain/auth.errors';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { UnassignRoleCommand } from './unassign-role.command';
+
+export type UnassignRoleError = RoleNotFoundError;
+
+/**
+ * Unassigns a role from a user. Unassigning a role the user
+ * does not have succeeds without any change.
+ */
+@CommandHandler(UnassignRoleCommand)
+export class UnassignRoleService implements ICommandHandler<UnassignRoleCommand> {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.RoleRepository)
+    private readonly roleRepo: RoleRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+  ) {}
+
+  async execute(
+    command: UnassignRoleCommand,
+  ): Promise<Result<void, UnassignRoleError>> {
+    const found = await this.roleRepo.findOneById(command.roleId);
+    if (found.isNone()) return Err(new RoleNotFoundError());
+
+    const role = found.unwrap();
+    const roleIds = await this.roleRepo.getUserRoleIds(command.userId);
+    if (!roleIds.includes(role.id)) return Ok(undefined);
+
+    role.unassignFrom(command.userId);
+    await this.roleRepo.transaction(async () => {
+      await this.roleRepo.unassignRoleFromUser(command.userId, role.id);
+      await this.roleRepo.update(role);
+      await this.auditLogRepo.insert(
+        AuthAuditLogEntity.create({
+          userId: command.performedBy,
+          action: 'ROLE_UNASSIGNED',
+          details: {
+            roleId: role.id,
+            role: role.name,
+            targetUserId: command.userId,
+          },
+          success: true,
+        }),
+      );
+    });
+    return Ok(undefined);
+  }
+}
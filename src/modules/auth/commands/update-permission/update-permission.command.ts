@@ -0,0 +1,17 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class UpdatePermissionCommand extends Command {
+  readonly permissionId: string;
+
+  readonly description: string;
+
+  /** Id of the authenticated user that updates the permission */
+  readonly performedBy: string;
+
+  constructor(props: CommandProps<UpdatePermissionCommand>) {
+    super(props);
+    this.permissionId = props.permissionId;
+    this.description = props.description;
+    this.performedBy = props.performedBy;
+  }
+}
@@ -0,0 +1,16 @@
+import { ArgsType, Field, InputType } from '@nestjs/graphql';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+@ArgsType()
+@InputType()
+export class UpdatePermissionGqlRequestDto {
+  @IsNotEmpty()
+  @IsString()
+  @Field()
+  readonly permissionId: string;
+
+  @MaxLength(255)
+  @IsString()
+  @Field()
+  readonly description: string;
+}
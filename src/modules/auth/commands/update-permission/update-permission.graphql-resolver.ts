@@ -0,0 +1,35 @@
+import { Args, Mutation, Resolver } from '@nestjs/graphql';
+import { CommandBus } from '@nestjs/cqrs';
+import { Result } from 'oxide.ts';
+import { IdGqlResponse } from '@modules/user/commands/create-user/graphql-example/dtos/id.gql-response.dto';
+import { PermissionNotFoundError } from '../../domain/auth.errors';
+import { Auth } from '../../infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+import { UpdatePermissionCommand } from './update-permission.command';
+import { UpdatePermissionGqlRequestDto } from './update-permission.gql-request.dto';
+
+@Resolver()
+export class UpdatePermissionGraphqlResolver {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Mutation(() => IdGqlResponse)
+  @Auth({ roles: ['admin'] })
+  async updatePermission(
+    @Args('input') input: UpdatePermissionGqlRequestDto,
+    @CurrentUser() performer: AuthenticatedUser,
+  ): Promise<IdGqlResponse> {
+    const command = new UpdatePermissionCommand({
+      ...input,
+      performedBy: performer.sub,
+    });
+
+    const result: Result<void, PermissionNotFoundError> =
+      await this.commandBus.execute(command);
+    if (result.isErr()) throw result.unwrapErr();
+
+    return new IdGqlResponse(input.permissionId);
+  }
+}
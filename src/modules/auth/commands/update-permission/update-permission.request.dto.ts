@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, MaxLength } from 'class-validator';
+
+export class UpdatePermissionRequestDto {
+  @ApiProperty({ example: 'View and export invoices' })
+  @MaxLength(255)
+  @IsString()
+  readonly description: string;
+}
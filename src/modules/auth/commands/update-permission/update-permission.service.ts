@@ -0,0 +1,49 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { PermissionRepositoryPort } from '../../database/permission.repository.port';
+import { PermissionNotFoundError } from '../../domain/auth.errors';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { UpdatePermissionCommand } from './update-permission.command';
+
+/**
+ * Updates the description of a permission. Its name is part of
+ * issued access tokens and cannot be changed.
+ */
+@CommandHandler(UpdatePermissionCommand)
+export class UpdatePermissionService implements ICommandHandler<UpdatePermissionCommand> {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.PermissionRepository)
+    private readonly permissionRepo: PermissionRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+  ) {}
+
+  async execute(
+    command: UpdatePermissionCommand,
+  ): Promise<Result<void, PermissionNotFoundError>> {
+    const found = await this.permissionRepo.findOneById(command.permissionId);
+    if (found.isNone()) return Err(new PermissionNotFoundError());
+
+    const permission = found.unwrap();
+    permission.updateDescription(command.description);
+
+    await this.permissionRepo.transaction(async () => {
+      await this.permissionRepo.update(permission);
+      await this.auditLogRepo.insert(
+        AuthAuditLogEntity.create({
+          userId: command.performedBy,
+          action: 'PERMISSION_UPDATED',
+          details: {
+            permissionId: permission.id,
+            description: command.description,
+          },
+          success: true,
+        }),
+      );
+    });
+    return Ok(undefined);
+  }
+}
@@ -0,0 +1,20 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class UpdateRoleCommand extends Command {
+  readonly roleId: string;
+
+  readonly description?: string;
+
+  readonly isActive?: boolean;
+
+  /** Id of the authenticated user that updates the role */
+  readonly performedBy: string;
+
+  constructor(props: CommandProps<UpdateRoleCommand>) {
+    super(props);
+    this.roleId = props.roleId;
+    this.description = props.description;
+    this.isActive = props.isActive;
+    this.performedBy = props.performedBy;
+  }
+}
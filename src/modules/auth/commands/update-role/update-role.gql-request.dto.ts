@@ -0,0 +1,28 @@
+import { ArgsType, Field, InputType } from '@nestjs/graphql';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+@ArgsType()
+@InputType()
+export class UpdateRoleGqlRequestDto {
+  @IsNotEmpty()
+  @IsString()
+  @Field()
+  readonly roleId: string;
+
+  @IsOptional()
+  @MaxLength(255)
+  @IsString()
+  @Field({ nullable: true })
+  readonly description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  @Field({ nullable: true })
+  readonly isActive?: boolean;
+}
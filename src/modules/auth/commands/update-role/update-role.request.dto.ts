@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class UpdateRoleRequestDto {
+  @ApiProperty({
+    example: 'Support agents reading user accounts',
+    required: false,
+  })
+  @IsOptional()
+  @MaxLength(255)
+  @IsString()
+  readonly description?: string;
+
+  @ApiProperty({
+    example: false,
+    description: 'Inactive roles grant no permissions',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly isActive?: boolean;
+}
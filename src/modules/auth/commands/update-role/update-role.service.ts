@@ -0,0 +1,54 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { RoleRepositoryPort } from '../../database/role.repository.port';
+import { RoleNotFoundError } from '../../domain/auth.errors';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { UpdateRoleCommand } from './update-role.command';
+
+/**
+ * Updates the description of a role or (de)activates it.
+ * Users keep inactive roles, but inactive roles grant no permissions.
+ */
+@CommandHandler(UpdateRoleCommand)
+export class UpdateRoleService implements ICommandHandler<UpdateRoleCommand> {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.RoleRepository)
+    private readonly roleRepo: RoleRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+  ) {}
+
+  async execute(
+    command: UpdateRoleCommand,
+  ): Promise<Result<void, RoleNotFoundError>> {
+    const found = await this.roleRepo.findOneById(command.roleId);
+    if (found.isNone()) return Err(new RoleNotFoundError());
+
+    const role = found.unwrap();
+    if (command.description !== undefined) {
+      role.updateDescription(command.description);
+    }
+    if (command.isActive === true) role.activate();
+    if (command.isActive === false) role.deactivate();
+
+    await this.roleRepo.transaction(async () => {
+      await this.roleRepo.update(role);
+      await this.auditLogRepo.insert(
+        AuthAuditLogEntity.create({
+          userId: command.performedBy,
+          action: 'ROLE_UPDATED',
+          details: {
+            roleId: role.id,
+            description: command.description,
+            isActive: command.isActive,
+          },
+          success: true,
+        }),
+      );
+    });
+    return Ok(undefined);
+  }
+}
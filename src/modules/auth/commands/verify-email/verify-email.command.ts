@@ -0,0 +1,14 @@
+import { Command, CommandProps } from '@libs/ddd/command.base';
+
+export class VerifyEmailCommand extends Command {
+  readonly token: string;
+  readonly ipAddress?: string;
+  readonly userAgent?: string;
+
+  constructor(props: CommandProps<VerifyEmailCommand>) {
+    super(props);
+    this.token = props.token;
+    this.ipAddress = props.ipAddress;
+    this.userAgent = props.userAgent;
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  BadRequestException,
+  Req,
+} from '@nestjs/common';
+import { CommandBus } from '@nestjs/cqrs';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { Request } from 'express';
+
+import { VerifyEmailCommand } from './verify-email.command';
+import { VerifyEmailRequestDto } from '../../dtos/verify-email.request.dto';
+import { MessageResponseDto } from '../../dtos/auth.response.dto';
+import { InvalidTokenError } from '../../domain/auth.errors';
+import { ApiErrorResponse } from '@libs/api/api-error.response';
+import { Public } from '../../infrastructure/decorators/auth.decorator';
+
+@ApiTags('Authentication')
+@Controller('auth')
+export class VerifyEmailHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Public()
+  @ApiOperation({ summary: 'Verify an email address using a token' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Email address has been verified',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: InvalidTokenError.message,
+    type: ApiErrorResponse,
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('verify-email')
+  async verifyEmail(
+    @Body() body: VerifyEmailRequestDto,
+    @Req() req: Request,
+  ): Promise<MessageResponseDto> {
+    const command = new VerifyEmailCommand({
+      token: body.token,
+      ipAddress: body.ipAddress || this.extractIpAddress(req),
+      userAgent: body.userAgent || req.get('User-Agent'),
+    });
+
+    const result: Result<void, InvalidTokenError | Error> =
+      await this.commandBus.execute(command);
+
+    return match(result, {
+      Ok: () => new MessageResponseDto('Email address has been verified'),
+      Err: (error: Error) => {
+        if (error instanceof InvalidTokenError) {
+          throw new BadRequestException(error.message);
+        }
+
+        // Generic error handling
+        throw new BadRequestException(
+          error.message || 'Email verification failed',
+        );
+      },
+    });
+  }
+
+  private extractIpAddress(req: Request): string {
+    return (
+      req.ip ||
+      req.connection?.remoteAddress ||
+      req.socket?.remoteAddress ||
+      (req as any).connection?.socket?.remoteAddress ||
+      'unknown'
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { VerifyEmailCommand } from './verify-email.command';
+import { InvalidTokenError } from '../../domain/auth.errors';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { AuthAuditLogRepositoryPort } from '../../database/auth-audit-log.repository.port';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { PasswordServicePort } from '../../domain/ports/password.service.port';
+import { AuthAuditLogEntity } from '../../domain/entities/auth-audit-log.entity';
+import { LoggerPort } from '@libs/ports/logger.port';
+
+/**
+ * Marks the email of a user as verified using a token issued when the
+ * user was created or by ResendVerificationCommand.
+ */
+@CommandHandler(VerifyEmailCommand)
+@Injectable()
+export class VerifyEmailService implements ICommandHandler<VerifyEmailCommand> {
+  constructor(
+    @Inject(USER_DI_TOKENS.UserRepository)
+    private readonly userRepo: UserRepositoryPort,
+    @Inject(AUTH_DI_TOKENS.PasswordService)
+    private readonly passwordService: PasswordServicePort,
+    @Inject(AUTH_DI_TOKENS.AuthAuditLogRepository)
+    private readonly auditLogRepo: AuthAuditLogRepositoryPort,
+    @Inject(Logger)
+    private readonly logger: LoggerPort,
+  ) {}
+
+  async execute(
+    command: VerifyEmailCommand,
+  ): Promise<Result<void, InvalidTokenError | Error>> {
+    const { token, ipAddress, userAgent } = command;
+
+    try {
+      const userOption = await this.userRepo.findOneByEmailVerificationToken(
+        this.passwordService.hashToken(token),
+      );
+      if (userOption.isNone()) {
+        await this.logAttempt(
+          undefined,
+          'EMAIL_VERIFICATION_INVALID_TOKEN',
+          false,
+          ipAddress,
+          userAgent,
+        );
+        return Err(new InvalidTokenError());
+      }
+
+      const user = userOption.unwrap();
+      const { emailVerificationTokenExpiresAt } = user.getProps();
+      if (
+        !emailVerificationTokenExpiresAt ||
+        emailVerificationTokenExpiresAt < new Date()
+      ) {
+        user.clearEmailVerificationToken();
+        await this.userRepo.update(user);
+        await this.logAttempt(
+          user.id,
+          'EMAIL_VERIFICATION_TOKEN_EXPIRED',
+          false,
+          ipAddress,
+          userAgent,
+        );
+        return Err(new InvalidTokenError());
+      }
+
+      // Clears the token, so it cannot be used again
+      user.verifyEmail();
+      await this.userRepo.update(user);
+
+      await this.logAttempt(
+        user.id,
+        'EMAIL_VERIFICATION_SUCCESS',
+        true,
+        ipAddress,
+        userAgent,
+      );
+
+      this.logger.log('Email verified', { userId: user.id, ipAddress });
+
+      return Ok(undefined);
+    } catch (error) {
+      this.logger.error('Verify email command execution failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ipAddress,
+      });
+
+      return Err(
+        error instanceof Error ? error : new Error('Email verification failed'),
+      );
+    }
+  }
+
+  private async logAttempt(
+    userId: string | undefined,
+    action: string,
+    success: boolean,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<void> {
+    const auditLog = AuthAuditLogEntity.create({
+      userId,
+      action,
+      ipAddress,
+      userAgent,
+      success,
+    });
+
+    await this.auditLogRepo.insert(auditLog);
+  }
+}
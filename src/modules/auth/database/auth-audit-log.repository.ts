@@ -0,0 +1,133 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabasePool, sql } from 'slonik';
+import { z } from 'zod';
+import { DATABASE_POOL_TOKEN } from '@libs/database';
+import { Paginated, PaginatedQueryParams } from '@libs/ddd';
+import { SqlRepositoryBase } from '@src/libs/db/sql-repository.base';
+import { AuthAuditLogRepositoryPort } from './auth-audit-log.repository.port';
+import { AuthAuditLogEntity } from '../domain/entities/auth-audit-log.entity';
+import { AuthAuditLogMapper } from '../auth-audit-log.mapper';
+
+/**
+ * Audit log entries are append-only, "timestamp" is the time
+ * the entry was created.
+ */
+export const authAuditLogSchema = z.object({
+  id: z.string().min(1).max(255),
+  timestamp: z.preprocess((val: any) => new Date(val), z.date()),
+  userId: z.string().nullable(),
+  action: z.string().min(1).max(100),
+  details: z.record(z.string(), z.any()).nullable(),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  success: z.boolean(),
+});
+
+export type AuthAuditLogModel = z.TypeOf<typeof authAuditLogSchema>;
+
+const DEFAULT_PAGE: PaginatedQueryParams = {
+  limit: 20,
+  page: 0,
+  offset: 0,
+  orderBy: { field: true, param: 'desc' },
+};
+
+@Injectable()
+export class AuthAuditLogRepository
+  extends SqlRepositoryBase<AuthAuditLogEntity, AuthAuditLogModel>
+  implements AuthAuditLogRepositoryPort
+{
+  protected tableName = 'auth_audit_log';
+
+  protected schema = authAuditLogSchema;
+
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    pool: DatabasePool,
+    mapper: AuthAuditLogMapper,
+    eventEmitter: EventEmitter2,
+  ) {
+    super(pool, mapper, eventEmitter, new Logger(AuthAuditLogRepository.name));
+  }
+
+  async findByUserId(
+    userId: string,
+    params: PaginatedQueryParams = DEFAULT_PAGE,
+  ): Promise<Paginated<AuthAuditLogEntity>> {
+    return this.findAllPaginated(params, {
+      where: sql.fragment`"userId" = ${userId}`,
+      orderBy: 'timestamp',
+      orderDirection: 'DESC',
+    });
+  }
+
+  async findByAction(
+    action: string,
+    params: PaginatedQueryParams = DEFAULT_PAGE,
+  ): Promise<Paginated<AuthAuditLogEntity>> {
+    return this.findAllPaginated(params, {
+      where: sql.fragment`"action" = ${action}`,
+      orderBy: 'timestamp',
+      orderDirection: 'DESC',
+    });
+  }
+
+  async findFailedLoginAttempts(
+    ipAddress: string,
+    since: Date,
+  ): Promise<AuthAuditLogEntity[]> {
+    return this.findAll({
+      where: sql.fragment`"ipAddress" = ${ipAddress} AND ${this.failedLoginSince(since)}`,
+      orderBy: 'timestamp',
+      orderDirection: 'DESC',
+    });
+  }
+
+  async findUserFailedLoginAttempts(
+    userId: string,
+    since: Date,
+  ): Promise<AuthAuditLogEntity[]> {
+    return this.findAll({
+      where: sql.fragment`"userId" = ${userId} AND ${this.failedLoginSince(since)}`,
+      orderBy: 'timestamp',
+      orderDirection: 'DESC',
+    });
+  }
+
+  async findRecentActivity(
+    userId: string,
+    limit = 10,
+  ): Promise<AuthAuditLogEntity[]> {
+    const result = await this.executeQuery(
+      sql.type(this.schema)`
+        SELECT * FROM "auth_audit_log"
+        WHERE "userId" = ${userId}
+        ORDER BY "timestamp" DESC
+        LIMIT ${limit}
+      `,
+      'findRecentActivity',
+    );
+
+    return result.rows.map((row) =>
+      this.mapper.toDomain(this.schema.parse(row)),
+    );
+  }
+
+  async cleanupOldLogs(olderThan: Date): Promise<number> {
+    const result = await this.executeQuery(
+      sql.unsafe`
+        DELETE FROM "auth_audit_log"
+        WHERE "timestamp" < ${sql.timestamp(olderThan)}
+      `,
+      'cleanupOldLogs',
+    );
+    return result.rowCount;
+  }
+
+  private failedLoginSince(since: Date) {
+    return sql.fragment`"action" LIKE 'LOGIN_%'
+      AND "success" = false
+      AND "timestamp" >= ${sql.timestamp(since)}`;
+  }
+}
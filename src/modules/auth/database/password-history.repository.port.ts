@@ -0,0 +1,8 @@
+export interface PasswordHistoryRepositoryPort {
+  /** Password hashes previously used by a user, newest first */
+  findRecentHashes(userId: string, limit: number): Promise<string[]>;
+  /** Records a hash and removes entries beyond the newest `keep` ones */
+  add(userId: string, passwordHash: string, keep: number): Promise<void>;
+  /** Removes every entry of a user */
+  deleteAllForUser(userId: string): Promise<void>;
+}
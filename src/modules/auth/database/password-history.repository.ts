@@ -0,0 +1,60 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { DatabasePool, sql } from 'slonik';
+import { z } from 'zod';
+import { DATABASE_POOL_TOKEN } from '@libs/database';
+import { PasswordHistoryRepositoryPort } from './password-history.repository.port';
+
+const passwordHistorySchema = z.object({
+  passwordHash: z.string(),
+});
+
+/**
+ * Stores hashes of previous passwords, so they cannot be reused.
+ * Entries are plain rows, not entities, they have no behavior of their own.
+ */
+@Injectable()
+export class PasswordHistoryRepository implements PasswordHistoryRepositoryPort {
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    private readonly pool: DatabasePool,
+  ) {}
+
+  async findRecentHashes(userId: string, limit: number): Promise<string[]> {
+    const result = await this.pool.query(
+      sql.type(passwordHistorySchema)`
+        SELECT "passwordHash" FROM "password_history"
+        WHERE "userId" = ${userId}
+        ORDER BY "createdAt" DESC
+        LIMIT ${limit}
+      `,
+    );
+
+    return result.rows.map((row) => row.passwordHash);
+  }
+
+  async add(userId: string, passwordHash: string, keep: number): Promise<void> {
+    await this.pool.transaction(async (connection) => {
+      await connection.query(sql.unsafe`
+        INSERT INTO "password_history" ("id", "userId", "passwordHash")
+        VALUES (${randomUUID()}, ${userId}, ${passwordHash})
+      `);
+
+      await connection.query(sql.unsafe`
+        DELETE FROM "password_history"
+        WHERE "userId" = ${userId} AND "id" NOT IN (
+          SELECT "id" FROM "password_history"
+          WHERE "userId" = ${userId}
+          ORDER BY "createdAt" DESC
+          LIMIT ${keep}
+        )
+      `);
+    });
+  }
+
+  async deleteAllForUser(userId: string): Promise<void> {
+    await this.pool.query(sql.unsafe`
+      DELETE FROM "password_history" WHERE "userId" = ${userId}
+    `);
+  }
+}
@@ -0,0 +1,141 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabasePool, sql } from 'slonik';
+import { z } from 'zod';
+import { None, Option, Some } from 'oxide.ts';
+import { DATABASE_POOL_TOKEN } from '@libs/database';
+import { SqlRepositoryBase } from '@src/libs/db/sql-repository.base';
+import { PermissionRepositoryPort } from './permission.repository.port';
+import { PermissionEntity } from '../domain/entities/permission.entity';
+import { PermissionMapper } from '../permission.mapper';
+
+export const permissionSchema = z.object({
+  id: z.string().min(1).max(255),
+  createdAt: z.preprocess((val: any) => new Date(val), z.date()),
+  updatedAt: z.preprocess((val: any) => new Date(val), z.date()),
+  name: z.string().min(1).max(255),
+  resource: z.string().min(1).max(255),
+  action: z.string().min(1).max(255),
+  description: z.string().nullable(),
+});
+
+export type PermissionModel = z.TypeOf<typeof permissionSchema>;
+
+@Injectable()
+export class PermissionRepository
+  extends SqlRepositoryBase<PermissionEntity, PermissionModel>
+  implements PermissionRepositoryPort
+{
+  protected tableName = 'permissions';
+
+  protected schema = permissionSchema;
+
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    pool: DatabasePool,
+    mapper: PermissionMapper,
+    eventEmitter: EventEmitter2,
+  ) {
+    super(pool, mapper, eventEmitter, new Logger(PermissionRepository.name));
+  }
+
+  async findByName(name: string): Promise<Option<PermissionEntity>> {
+    const [permission] = await this.findAll({
+      where: sql.fragment`"name" = ${name}`,
+    });
+    return permission ? Some(permission) : None;
+  }
+
+  async findByResourceAndAction(
+    resource: string,
+    action: string,
+  ): Promise<Option<PermissionEntity>> {
+    const [permission] = await this.findAll({
+      where: sql.fragment`"resource" = ${resource} AND "action" = ${action}`,
+    });
+    return permission ? Some(permission) : None;
+  }
+
+  async findByResource(resource: string): Promise<PermissionEntity[]> {
+    return this.findAll({
+      where: sql.fragment`"resource" = ${resource}`,
+      orderBy: 'name',
+    });
+  }
+
+  async findByAction(action: string): Promise<PermissionEntity[]> {
+    return this.findAll({
+      where: sql.fragment`"action" = ${action}`,
+      orderBy: 'name',
+    });
+  }
+
+  async findByIds(ids: string[]): Promise<PermissionEntity[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return this.findAll({
+      where: sql.fragment`"id" = ANY(${sql.array(ids, 'text')})`,
+      orderBy: 'name',
+    });
+  }
+
+  /**
+   * Permissions granted to a user through its active roles
+   */
+  async findUserPermissions(userId: string): Promise<PermissionEntity[]> {
+    const result = await this.executeQuery(
+      sql.type(permissionSchema)`
+        SELECT DISTINCT p.* FROM "permissions" p
+        INNER JOIN "role_permissions" rp ON rp."permissionId" = p."id"
+        INNER JOIN "roles" r ON r."id" = rp."roleId" AND r."isActive" = true
+        INNER JOIN "user_roles" ur ON ur."roleId" = r."id"
+        WHERE ur."userId" = ${userId}
+        ORDER BY p."name"
+      `,
+      'findUserPermissions',
+    );
+
+    return result.rows.map((row) =>
+      this.mapper.toDomain(this.schema.parse(row)),
+    );
+  }
+
+  async findRolePermissions(roleId: string): Promise<PermissionEntity[]> {
+    const result = await this.executeQuery(
+      sql.type(permissionSchema)`
+        SELECT p.* FROM "permissions" p
+        INNER JOIN "role_permissions" rp ON rp."permissionId" = p."id"
+        WHERE rp."roleId" = ${roleId}
+        ORDER BY p."name"
+      `,
+      'findRolePermissions',
+    );
+
+    return result.rows.map((row) =>
+      this.mapper.toDomain(this.schema.parse(row)),
+    );
+  }
+
+  async userHasPermission(
+    userId: string,
+    resource: string,
+    action: string,
+  ): Promise<boolean> {
+    const result = await this.executeQuery(
+      sql.unsafe`
+        SELECT 1 FROM "permissions" p
+        INNER JOIN "role_permissions" rp ON rp."permissionId" = p."id"
+        INNER JOIN "roles" r ON r."id" = rp."roleId" AND r."isActive" = true
+        INNER JOIN "user_roles" ur ON ur."roleId" = r."id"
+        WHERE ur."userId" = ${userId}
+          AND p."resource" = ${resource}
+          AND p."action" = ${action}
+        LIMIT 1
+      `,
+      'userHasPermission',
+    );
+
+    return result.rows.length > 0;
+  }
+}
@@ -2,16 +2,34 @@ import { RepositoryPort } from '@libs/ddd';
 import { Option } from 'oxide.ts';
 import { RefreshTokenEntity } from '../domain/entities/refresh-token.entity';
 
-export interface RefreshTokenRepositoryPort
-  extends RepositoryPort<RefreshTokenEntity> {
+export interface RefreshTokenRepositoryPort extends RepositoryPort<RefreshTokenEntity> {
   findByToken(token: string): Promise<Option<RefreshTokenEntity>>;
   findActiveTokensByUserId(userId: string): Promise<RefreshTokenEntity[]>;
-  revokeAllUserTokens(userId: string, revokedByIp?: string): Promise<void>;
+  /** Revokes every active token of a user, except `exceptToken` if given */
+  revokeAllUserTokens(
+    userId: string,
+    revokedByIp?: string,
+    exceptToken?: string,
+  ): Promise<void>;
+  /**
+   * Revokes a token unless it is revoked already. Returns whether it was
+   * revoked by this call, so only one of concurrent rotations succeeds.
+   */
   revokeToken(
     token: string,
     revokedByIp?: string,
     replacedByToken?: string,
-  ): Promise<void>;
+  ): Promise<boolean>;
+  /**
+   * Revokes every active token rotated from the same login, including one
+   * a concurrent rotation of the family stores
+   */
+  revokeFamily(familyId: string, revokedByIp?: string): Promise<void>;
+  /**
+   * Locks the tokens of a family until the end of the current transaction.
+   * Must be called inside a transaction.
+   */
+  lockFamily(familyId: string): Promise<void>;
   cleanupExpiredTokens(): Promise<number>;
   countActiveTokensForUser(userId: string): Promise<number>;
 }
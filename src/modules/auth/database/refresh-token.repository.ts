@@ -0,0 +1,159 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabasePool, sql } from 'slonik';
+import { z } from 'zod';
+import { None, Option, Some } from 'oxide.ts';
+import { DATABASE_POOL_TOKEN } from '@libs/database';
+import { SqlRepositoryBase } from '@src/libs/db/sql-repository.base';
+import { RefreshTokenRepositoryPort } from './refresh-token.repository.port';
+import { RefreshTokenEntity } from '../domain/entities/refresh-token.entity';
+import { RefreshTokenMapper } from '../refresh-token.mapper';
+
+const nullableDate = z.preprocess(
+  (val: any) => (val === null || val === undefined ? null : new Date(val)),
+  z.date().nullable(),
+);
+
+/**
+ * "refresh_tokens" has no "updatedAt" column, tokens only change
+ * when they are revoked.
+ */
+export const refreshTokenSchema = z.object({
+  id: z.string().min(1).max(255),
+  createdAt: z.preprocess((val: any) => new Date(val), z.date()),
+  token: z.string().min(1),
+  userId: z.string().min(1).max(255),
+  familyId: z.string().min(1).max(255),
+  expiresAt: z.preprocess((val: any) => new Date(val), z.date()),
+  isRevoked: z.boolean(),
+  revokedAt: nullableDate,
+  revokedByIp: z.string().nullable(),
+  replacedByToken: z.string().nullable(),
+  createdByIp: z.string().nullable(),
+  userAgent: z.string().nullable(),
+});
+
+export type RefreshTokenModel = z.TypeOf<typeof refreshTokenSchema>;
+
+@Injectable()
+export class RefreshTokenRepository
+  extends SqlRepositoryBase<RefreshTokenEntity, RefreshTokenModel>
+  implements RefreshTokenRepositoryPort
+{
+  protected tableName = 'refresh_tokens';
+
+  protected schema = refreshTokenSchema;
+
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    pool: DatabasePool,
+    mapper: RefreshTokenMapper,
+    eventEmitter: EventEmitter2,
+  ) {
+    super(pool, mapper, eventEmitter, new Logger(RefreshTokenRepository.name));
+  }
+
+  async findByToken(token: string): Promise<Option<RefreshTokenEntity>> {
+    const [refreshToken] = await this.findAll({
+      where: sql.fragment`"token" = ${token}`,
+    });
+    return refreshToken ? Some(refreshToken) : None;
+  }
+
+  async findActiveTokensByUserId(
+    userId: string,
+  ): Promise<RefreshTokenEntity[]> {
+    return this.findAll({
+      where: sql.fragment`"userId" = ${userId} AND ${this.isActive()}`,
+      orderBy: 'createdAt',
+      orderDirection: 'DESC',
+    });
+  }
+
+  async revokeAllUserTokens(
+    userId: string,
+    revokedByIp?: string,
+    exceptToken?: string,
+  ): Promise<void> {
+    const except = exceptToken
+      ? sql.fragment`AND "token" <> ${exceptToken}`
+      : sql.fragment``;
+
+    await this.executeQuery(
+      sql.unsafe`
+        UPDATE "refresh_tokens"
+        SET "isRevoked" = true,
+            "revokedAt" = now(),
+            "revokedByIp" = ${revokedByIp ?? null}
+        WHERE "userId" = ${userId} AND "isRevoked" = false ${except}
+      `,
+      'revokeAllUserTokens',
+    );
+  }
+
+  async revokeToken(
+    token: string,
+    revokedByIp?: string,
+    replacedByToken?: string,
+  ): Promise<boolean> {
+    const result = await this.executeQuery(
+      sql.unsafe`
+        UPDATE "refresh_tokens"
+        SET "isRevoked" = true,
+            "revokedAt" = now(),
+            "revokedByIp" = ${revokedByIp ?? null},
+            "replacedByToken" = ${replacedByToken ?? null}
+        WHERE "token" = ${token} AND "isRevoked" = false
+      `,
+      'revokeToken',
+    );
+    return result.rowCount > 0;
+  }
+
+  async revokeFamily(familyId: string, revokedByIp?: string): Promise<void> {
+    // Waits for a rotation holding the family, the update then sees the
+    // token it stored
+    await this.transaction(async () => {
+      await this.lockFamily(familyId);
+      await this.executeQuery(
+        sql.unsafe`
+          UPDATE "refresh_tokens"
+          SET "isRevoked" = true,
+              "revokedAt" = now(),
+              "revokedByIp" = ${revokedByIp ?? null}
+          WHERE "familyId" = ${familyId} AND "isRevoked" = false
+        `,
+        'revokeFamily',
+      );
+    });
+  }
+
+  async lockFamily(familyId: string): Promise<void> {
+    await this.executeQuery(
+      sql.unsafe`
+        SELECT "id" FROM "refresh_tokens"
+        WHERE "familyId" = ${familyId}
+        FOR UPDATE
+      `,
+      'lockFamily',
+    );
+  }
+
+  async cleanupExpiredTokens(): Promise<number> {
+    const result = await this.executeQuery(
+      sql.unsafe`DELETE FROM "refresh_tokens" WHERE "expiresAt" < now()`,
+      'cleanupExpiredTokens',
+    );
+    return result.rowCount;
+  }
+
+  async countActiveTokensForUser(userId: string): Promise<number> {
+    return this.count(
+      sql.fragment`"userId" = ${userId} AND ${this.isActive()}`,
+    );
+  }
+
+  private isActive() {
+    return sql.fragment`"isRevoked" = false AND "expiresAt" > now()`;
+  }
+}
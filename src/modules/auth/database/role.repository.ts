@@ -0,0 +1,180 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabasePool, FragmentSqlToken, sql } from 'slonik';
+import { z } from 'zod';
+import { None, Option, Some } from 'oxide.ts';
+import { DATABASE_POOL_TOKEN } from '@libs/database';
+import { SqlRepositoryBase } from '@src/libs/db/sql-repository.base';
+import { RoleRepositoryPort } from './role.repository.port';
+import { RoleEntity } from '../domain/entities/role.entity';
+import { RoleMapper } from '../role.mapper';
+
+export const roleSchema = z.object({
+  id: z.string().min(1).max(255),
+  createdAt: z.preprocess((val: any) => new Date(val), z.date()),
+  updatedAt: z.preprocess((val: any) => new Date(val), z.date()),
+  name: z.string().min(1).max(255),
+  description: z.string().nullable(),
+  isActive: z.boolean(),
+  /**
+   * Ids of granted permissions, stored in "role_permissions".
+   * Loaded by every query but never written to "roles".
+   */
+  permissions: z.array(z.string()).optional(),
+});
+
+export type RoleModel = z.TypeOf<typeof roleSchema>;
+
+@Injectable()
+export class RoleRepository
+  extends SqlRepositoryBase<RoleEntity, RoleModel>
+  implements RoleRepositoryPort
+{
+  protected tableName = 'roles';
+
+  protected schema = roleSchema;
+
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    pool: DatabasePool,
+    mapper: RoleMapper,
+    eventEmitter: EventEmitter2,
+  ) {
+    super(pool, mapper, eventEmitter, new Logger(RoleRepository.name));
+  }
+
+  /**
+   * Insert roles together with their permissions
+   */
+  async insert(entity: RoleEntity | RoleEntity[]): Promise<void> {
+    const entities = Array.isArray(entity) ? entity : [entity];
+
+    await this.transaction(async () => {
+      await super.insert(entities);
+      for (const role of entities) {
+        await this.replacePermissions(role);
+      }
+    });
+  }
+
+  /**
+   * Update a role and replace its permissions in the same transaction
+   */
+  async update(entity: RoleEntity): Promise<void> {
+    await this.transaction(async () => {
+      await super.update(entity);
+      await this.replacePermissions(entity);
+    });
+  }
+
+  async findByName(name: string): Promise<Option<RoleEntity>> {
+    const [role] = await this.findAll({
+      where: sql.fragment`"name" = ${name}`,
+    });
+    return role ? Some(role) : None;
+  }
+
+  async findByNames(names: string[]): Promise<RoleEntity[]> {
+    if (names.length === 0) {
+      return [];
+    }
+    return this.findAll({
+      where: sql.fragment`"name" = ANY(${sql.array(names, 'text')})`,
+      orderBy: 'name',
+    });
+  }
+
+  async findActiveRoles(): Promise<RoleEntity[]> {
+    return this.findAll({
+      where: sql.fragment`"isActive" = true`,
+      orderBy: 'name',
+    });
+  }
+
+  async findRolesWithPermission(permissionId: string): Promise<RoleEntity[]> {
+    return this.findAll({
+      where: sql.fragment`"id" IN (
+        SELECT "roleId" FROM "role_permissions"
+        WHERE "permissionId" = ${permissionId}
+      )`,
+      orderBy: 'name',
+    });
+  }
+
+  async findUserRoles(userId: string): Promise<RoleEntity[]> {
+    return this.findAll({
+      where: sql.fragment`"id" IN (
+        SELECT "roleId" FROM "user_roles" WHERE "userId" = ${userId}
+      )`,
+      orderBy: 'name',
+    });
+  }
+
+  async assignRoleToUser(
+    userId: string,
+    roleId: string,
+    assignedBy?: string,
+  ): Promise<void> {
+    await this.executeQuery(
+      sql.unsafe`
+        INSERT INTO "user_roles" ("userId", "roleId", "assignedBy")
+        VALUES (${userId}, ${roleId}, ${assignedBy ?? null})
+        ON CONFLICT ("userId", "roleId") DO NOTHING
+      `,
+      'assignRoleToUser',
+    );
+  }
+
+  async unassignRoleFromUser(userId: string, roleId: string): Promise<void> {
+    await this.executeQuery(
+      sql.unsafe`
+        DELETE FROM "user_roles"
+        WHERE "userId" = ${userId} AND "roleId" = ${roleId}
+      `,
+      'unassignRoleFromUser',
+    );
+  }
+
+  async getUserRoleIds(userId: string): Promise<string[]> {
+    const result = await this.executeQuery(
+      sql.type(z.object({ roleId: z.string() }))`
+        SELECT "roleId" FROM "user_roles"
+        WHERE "userId" = ${userId}
+        ORDER BY "assignedAt"
+      `,
+      'getUserRoleIds',
+    );
+
+    return result.rows.map((row) => row.roleId);
+  }
+
+  protected selectColumns(): FragmentSqlToken {
+    return sql.fragment`"roles".*, ARRAY(
+      SELECT "permissionId" FROM "role_permissions"
+      WHERE "roleId" = "roles"."id"
+      ORDER BY "createdAt"
+    ) AS "permissions"`;
+  }
+
+  private async replacePermissions(role: RoleEntity): Promise<void> {
+    await this.executeQuery(
+      sql.unsafe`DELETE FROM "role_permissions" WHERE "roleId" = ${role.id}`,
+      'replacePermissions:delete',
+    );
+
+    if (role.permissions.length === 0) {
+      return;
+    }
+
+    const rows = role.permissions.map(
+      (permissionId) => sql.fragment`(${role.id}, ${permissionId})`,
+    );
+    await this.executeQuery(
+      sql.unsafe`
+        INSERT INTO "role_permissions" ("roleId", "permissionId")
+        VALUES ${sql.join(rows, sql.fragment`, `)}
+      `,
+      'replacePermissions:insert',
+    );
+  }
+}
@@ -81,6 +81,16 @@ export class RefreshTokenNotFoundError extends ExceptionBase {
   }
 }
 
+export class SessionNotFoundError extends ExceptionBase {
+  static readonly message = 'Session not found or has already ended';
+
+  public readonly code = 'AUTH.SESSION_NOT_FOUND';
+
+  constructor(metadata?: unknown) {
+    super(SessionNotFoundError.message, undefined, metadata);
+  }
+}
+
 export class UnauthorizedError extends ExceptionBase {
   static readonly message = 'Unauthorized access';
 
@@ -131,6 +141,17 @@ export class CurrentPasswordIncorrectError extends ExceptionBase {
   }
 }
 
+export class PasswordReusedError extends ExceptionBase {
+  static readonly message =
+    'New password must be different from recently used passwords';
+
+  public readonly code = 'AUTH.PASSWORD_REUSED';
+
+  constructor(metadata?: unknown) {
+    super(PasswordReusedError.message, undefined, metadata);
+  }
+}
+
 export class RoleNotFoundError extends ExceptionBase {
   static readonly message = 'Role not found';
 
@@ -171,3 +192,13 @@ export class PermissionAlreadyExistsError extends ExceptionBase {
     super(PermissionAlreadyExistsError.message, undefined, metadata);
   }
 }
+
+export class RoleInactiveError extends ExceptionBase {
+  static readonly message = 'Inactive roles cannot be assigned';
+
+  public readonly code = 'AUTH.ROLE_INACTIVE';
+
+  constructor(metadata?: unknown) {
+    super(RoleInactiveError.message, undefined, metadata);
+  }
+}
@@ -18,6 +18,8 @@ export interface TokenPair {
 export interface RefreshTokenProps {
   token: string;
   userId: string;
+  /** Tokens rotated from the same login share a family */
+  familyId: string;
   expiresAt: Date;
   isRevoked: boolean;
   revokedAt?: Date;
@@ -30,6 +32,8 @@ export interface RefreshTokenProps {
 export interface CreateRefreshTokenProps {
   token: string;
   userId: string;
+  /** Family of the rotated token, a login starts a new family */
+  familyId?: string;
   expiresAt: Date;
   createdByIp?: string;
   userAgent?: string;
@@ -126,6 +130,8 @@ export interface ChangePasswordRequest {
   currentPassword: string;
   newPassword: string;
   confirmPassword: string;
+  // Refresh token of the current session, it is not revoked when provided
+  refreshToken?: string;
 }
 
 export interface VerifyEmailRequest {
@@ -138,6 +144,7 @@ export interface UserAuthProps {
   isActive: boolean;
   isEmailVerified: boolean;
   emailVerificationToken?: string;
+  emailVerificationTokenExpiresAt?: Date;
   passwordResetToken?: string;
   passwordResetTokenExpiresAt?: Date;
   lastLoginAt?: Date;
@@ -151,6 +158,7 @@ export interface UpdateUserAuthProps {
   isActive?: boolean;
   isEmailVerified?: boolean;
   emailVerificationToken?: string;
+  emailVerificationTokenExpiresAt?: Date;
   passwordResetToken?: string;
   passwordResetTokenExpiresAt?: Date;
   lastLoginAt?: Date;
@@ -164,8 +172,10 @@ export const AUTH_CONSTANTS = {
   ACCOUNT_LOCK_DURATION_MINUTES: 30,
   ACCESS_TOKEN_EXPIRES_IN_MINUTES: 15,
   REFRESH_TOKEN_EXPIRES_IN_DAYS: 7,
+  MAX_SESSIONS_PER_USER: 5,
   EMAIL_VERIFICATION_TOKEN_EXPIRES_IN_HOURS: 24,
   PASSWORD_RESET_TOKEN_EXPIRES_IN_HOURS: 1,
+  PASSWORD_HISTORY_SIZE: 5,
   MIN_PASSWORD_LENGTH: 8,
   MAX_PASSWORD_LENGTH: 128,
 } as const;
@@ -12,6 +12,7 @@ export class RefreshTokenEntity extends AggregateRoot<RefreshTokenProps> {
     const props: RefreshTokenProps = {
       token: create.token,
       userId: create.userId,
+      familyId: create.familyId ?? id,
       expiresAt: create.expiresAt,
       isRevoked: false,
       createdByIp: create.createdByIp,
@@ -30,6 +31,10 @@ export class RefreshTokenEntity extends AggregateRoot<RefreshTokenProps> {
     return this.props.userId;
   }
 
+  get familyId(): string {
+    return this.props.familyId;
+  }
+
   get expiresAt(): Date {
     return this.props.expiresAt;
   }
@@ -66,6 +71,11 @@ export class RefreshTokenEntity extends AggregateRoot<RefreshTokenProps> {
     return !this.props.isRevoked && !this.isExpired;
   }
 
+  /** Revoked because it was exchanged for another token */
+  get isRotated(): boolean {
+    return this.props.isRevoked && this.props.replacedByToken !== undefined;
+  }
+
   revoke(revokedByIp?: string, replacedByToken?: string): void {
     if (this.props.isRevoked) {
       return; // Already revoked
@@ -3,6 +3,10 @@ import { CreateRoleProps, RoleProps } from '../auth.types';
 import { Guard } from '@libs/guard';
 import { ArgumentInvalidException } from '@libs/exceptions';
 import { randomUUID } from 'crypto';
+import { PermissionGrantedDomainEvent } from '../events/permission-granted.domain-event';
+import { PermissionRevokedDomainEvent } from '../events/permission-revoked.domain-event';
+import { RoleAssignedDomainEvent } from '../events/role-assigned.domain-event';
+import { RoleUnassignedDomainEvent } from '../events/role-unassigned.domain-event';
 
 export class RoleEntity extends AggregateRoot<RoleProps> {
   protected readonly _id: AggregateID;
@@ -37,8 +41,8 @@ export class RoleEntity extends AggregateRoot<RoleProps> {
   }
 
   addPermission(permissionId: string): void {
-    if (!Guard.isUuid(permissionId)) {
-      throw new ArgumentInvalidException('Permission ID must be a valid UUID');
+    if (!Guard.isNonEmptyString(permissionId)) {
+      throw new ArgumentInvalidException('Permission ID must not be empty');
     }
 
     if (!this.props.permissions.includes(permissionId)) {
@@ -53,6 +57,68 @@ export class RoleEntity extends AggregateRoot<RoleProps> {
     }
   }
 
+  /**
+   * Grants a permission to the role, unlike addPermission
+   * a change is published as PermissionGrantedDomainEvent
+   */
+  grantPermission(permissionId: string): void {
+    if (this.hasPermission(permissionId)) {
+      return;
+    }
+    this.addPermission(permissionId);
+    this.addEvent(
+      new PermissionGrantedDomainEvent({
+        aggregateId: this.id,
+        roleName: this.props.name,
+        permissionId,
+      }),
+    );
+  }
+
+  revokePermission(permissionId: string): void {
+    if (!this.hasPermission(permissionId)) {
+      return;
+    }
+    this.removePermission(permissionId);
+    this.addEvent(
+      new PermissionRevokedDomainEvent({
+        aggregateId: this.id,
+        roleName: this.props.name,
+        permissionId,
+      }),
+    );
+  }
+
+  /**
+   * Records the assignment of the role to a user,
+   * the assignment itself is stored by RoleRepository.assignRoleToUser
+   */
+  assignTo(userId: string, assignedBy?: string): void {
+    if (!this.props.isActive) {
+      throw new ArgumentInvalidException(
+        `Inactive role ${this.props.name} cannot be assigned`,
+      );
+    }
+    this.addEvent(
+      new RoleAssignedDomainEvent({
+        aggregateId: this.id,
+        userId,
+        roleName: this.props.name,
+        assignedBy,
+      }),
+    );
+  }
+
+  unassignFrom(userId: string): void {
+    this.addEvent(
+      new RoleUnassignedDomainEvent({
+        aggregateId: this.id,
+        userId,
+        roleName: this.props.name,
+      }),
+    );
+  }
+
   hasPermission(permissionId: string): boolean {
     return this.props.permissions.includes(permissionId);
   }
@@ -85,9 +151,9 @@ export class RoleEntity extends AggregateRoot<RoleProps> {
       );
     }
 
-    // Validate permission IDs are UUIDs
+    // Seeded permissions use readable ids (e.g. 'perm-user-001'), not UUIDs
     for (const permissionId of this.props.permissions) {
-      if (!Guard.isUuid(permissionId)) {
+      if (!Guard.isNonEmptyString(permissionId)) {
         throw new ArgumentInvalidException(
           `Invalid permission ID: ${permissionId}`,
         );
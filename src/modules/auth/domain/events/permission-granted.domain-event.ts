@@ -0,0 +1,13 @@
+import { DomainEvent, DomainEventProps } from '@libs/ddd';
+
+export class PermissionGrantedDomainEvent extends DomainEvent {
+  readonly roleName: string;
+
+  readonly permissionId: string;
+
+  constructor(props: DomainEventProps<PermissionGrantedDomainEvent>) {
+    super(props);
+    this.roleName = props.roleName;
+    this.permissionId = props.permissionId;
+  }
+}
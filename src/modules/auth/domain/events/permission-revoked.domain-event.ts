@@ -0,0 +1,13 @@
+import { DomainEvent, DomainEventProps } from '@libs/ddd';
+
+export class PermissionRevokedDomainEvent extends DomainEvent {
+  readonly roleName: string;
+
+  readonly permissionId: string;
+
+  constructor(props: DomainEventProps<PermissionRevokedDomainEvent>) {
+    super(props);
+    this.roleName = props.roleName;
+    this.permissionId = props.permissionId;
+  }
+}
@@ -0,0 +1,17 @@
+import { DomainEvent, DomainEventProps } from '@libs/ddd';
+
+export class RoleAssignedDomainEvent extends DomainEvent {
+  readonly userId: string;
+
+  readonly roleName: string;
+
+  /** Id of the user that assigned the role */
+  readonly assignedBy?: string;
+
+  constructor(props: DomainEventProps<RoleAssignedDomainEvent>) {
+    super(props);
+    this.userId = props.userId;
+    this.roleName = props.roleName;
+    this.assignedBy = props.assignedBy;
+  }
+}
@@ -0,0 +1,13 @@
+import { DomainEvent, DomainEventProps } from '@libs/ddd';
+
+export class RoleUnassignedDomainEvent extends DomainEvent {
+  readonly userId: string;
+
+  readonly roleName: string;
+
+  constructor(props: DomainEventProps<RoleUnassignedDomainEvent>) {
+    super(props);
+    this.userId = props.userId;
+    this.roleName = props.roleName;
+  }
+}
@@ -0,0 +1,15 @@
+export interface EmailVerificationNotification {
+  email: string;
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Delivers authentication related messages to users.
+ * How a message reaches the user (email, SMS, ...) is up to the adapter.
+ */
+export interface AuthNotificationPort {
+  sendEmailVerification(
+    notification: EmailVerificationNotification,
+  ): Promise<void>;
+}
@@ -6,4 +6,9 @@ export interface PasswordServicePort {
   validate(password: string): Promise<boolean>;
   generateSecureToken(): string;
   generateResetToken(): string;
+  /**
+   * One-way hash of a single-use token (password reset, email verification).
+   * Only the hash is stored, so a leaked database does not expose tokens.
+   */
+  hashToken(token: string): string;
 }
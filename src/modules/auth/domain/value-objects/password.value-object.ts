@@ -55,13 +55,15 @@ export class Password extends ValueObject<PasswordProps> {
     return bcrypt.compare(plainTextPassword, this.props.value);
   }
 
-  validate(): void {
-    // Skip validation for already hashed passwords
-    if (this.isHashed) {
+  validate(props: PasswordProps = this.props): void {
+    // Skip validation for already hashed passwords.
+    // Props are passed explicitly when called from the base constructor,
+    // before this.props is assigned.
+    if (props.isHashed) {
       return;
     }
 
-    const { value } = this.props;
+    const { value } = props;
 
     // Length validation
     if (
@@ -0,0 +1,103 @@
+import { ValueObject } from '@libs/ddd/value-object.base';
+
+export enum DeviceType {
+  desktop = 'desktop',
+  mobile = 'mobile',
+  tablet = 'tablet',
+  unknown = 'unknown',
+}
+
+export interface UserAgentProps {
+  browser: string;
+  os: string;
+  device: DeviceType;
+}
+
+const UNKNOWN = 'Unknown';
+
+/**
+ * Order matters: most browsers also claim to be the ones they are built on
+ * (Edge and Opera say Chrome, Chrome says Safari)
+ */
+const BROWSERS: [name: string, pattern: RegExp][] = [
+  ['Edge', /Edg(?:e|A|iOS)?\/(\d+)/],
+  ['Opera', /(?:OPR|Opera)\/(\d+)/],
+  ['Samsung Internet', /SamsungBrowser\/(\d+)/],
+  ['Firefox', /(?:Firefox|FxiOS)\/(\d+)/],
+  ['Chrome', /(?:Chrome|CriOS)\/(\d+)/],
+  ['Safari', /Version\/(\d+)[\d.]* (?:Mobile\/\S+ )?Safari/],
+  ['curl', /curl\/(\d+)/],
+];
+
+const OPERATING_SYSTEMS: [name: string, pattern: RegExp][] = [
+  ['Windows', /Windows NT/],
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Android', /Android/],
+  ['ChromeOS', /CrOS/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['Linux', /Linux/],
+];
+
+/**
+ * Browser, operating system and kind of device parsed from
+ * a User-Agent header, for people to recognize their sessions
+ */
+export class UserAgent extends ValueObject<UserAgentProps> {
+  static parse(userAgent?: string): UserAgent {
+    if (!userAgent) {
+      return new UserAgent({
+        browser: UNKNOWN,
+        os: UNKNOWN,
+        device: DeviceType.unknown,
+      });
+    }
+
+    return new UserAgent({
+      browser: UserAgent.parseBrowser(userAgent),
+      os: UserAgent.parseOs(userAgent),
+      device: UserAgent.parseDevice(userAgent),
+    });
+  }
+
+  get browser(): string {
+    return this.props.browser;
+  }
+
+  get os(): string {
+    return this.props.os;
+  }
+
+  get device(): DeviceType {
+    return this.props.device;
+  }
+
+  protected validate(): void {
+    return;
+  }
+
+  private static parseBrowser(userAgent: string): string {
+    for (const [name, pattern] of BROWSERS) {
+      const match = pattern.exec(userAgent);
+      if (match) return `${name} ${match[1]}`;
+    }
+    return UNKNOWN;
+  }
+
+  private static parseOs(userAgent: string): string {
+    const found = OPERATING_SYSTEMS.find(([, pattern]) =>
+      pattern.test(userAgent),
+    );
+    return found ? found[0] : UNKNOWN;
+  }
+
+  private static parseDevice(userAgent: string): DeviceType {
+    if (/iPad|Tablet/.test(userAgent)) return DeviceType.tablet;
+    // Android tablets leave "Mobile" out of their user agent
+    if (/Android/.test(userAgent) && !/Mobile/.test(userAgent))
+      return DeviceType.tablet;
+    if (/Mobi|iPhone|iPod/.test(userAgent)) return DeviceType.mobile;
+    if (OPERATING_SYSTEMS.some(([, pattern]) => pattern.test(userAgent)))
+      return DeviceType.desktop;
+    return DeviceType.unknown;
+  }
+}
@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ResponseBase } from '@libs/api/response.base';
+
+export class AuthAuditLogResponseDto extends ResponseBase {
+  @ApiProperty({
+    example: '2cdc8ab1-6d50-49cc-ba14-54e4ac7ec231',
+    required: false,
+  })
+  userId?: string;
+
+  @ApiProperty({ example: 'LOGIN_SUCCESS' })
+  action: string;
+
+  @ApiProperty({ example: { reason: 'ACCOUNT_LOCKED' }, required: false })
+  details?: Record<string, any>;
+
+  @ApiProperty({ example: '192.168.1.1', required: false })
+  ipAddress?: string;
+
+  @ApiProperty({
+    example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+    required: false,
+  })
+  userAgent?: string;
+
+  @ApiProperty({ example: true })
+  success: boolean;
+}
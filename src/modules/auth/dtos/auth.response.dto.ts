@@ -108,3 +108,15 @@ export class LogoutResponseDto {
     this.message = message;
   }
 }
+
+export class MessageResponseDto {
+  @ApiProperty({
+    example: 'Password has been reset',
+    description: 'Human readable result of the operation',
+  })
+  message: string;
+
+  constructor(message: string) {
+    this.message = message;
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ChangePasswordRequestDto {
+  @ApiProperty({
+    example: 'CurrentPassword123!',
+    description: 'Current password of the user',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(128)
+  currentPassword: string;
+
+  @ApiProperty({
+    example: 'NewSecurePassword123!',
+    description:
+      'New password (8-128 characters, must contain uppercase, lowercase, number, and special character). Recently used passwords are rejected',
+    minLength: 8,
+    maxLength: 128,
+  })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, {
+    message:
+      'Password must contain at least one lowercase letter, one uppercase letter, one digit, and one special character',
+  })
+  newPassword: string;
+
+  @ApiProperty({
+    example: 'NewSecurePassword123!',
+    description: 'Password confirmation (must match newPassword)',
+  })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  confirmPassword: string;
+
+  @ApiProperty({
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description:
+      'Refresh token of the current session (optional). When provided this session stays signed in, all other sessions are signed out',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  refreshToken?: string;
+
+  @ApiProperty({
+    example: '192.168.1.1',
+    description: 'Client IP address (optional, for audit logging)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  ipAddress?: string;
+
+  @ApiProperty({
+    example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+    description: 'Client user agent (optional, for audit logging)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  userAgent?: string;
+}
@@ -0,0 +1,71 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CausationNode, JournalEntryKind } from '@libs/db/journal';
+
+export class EventLineageNodeResponseDto {
+  constructor(node: CausationNode) {
+    this.id = node.id;
+    this.kind = node.kind;
+    this.name = node.name;
+    this.causationId = node.causationId ?? undefined;
+    this.aggregateId = node.aggregateId ?? undefined;
+    this.userId = node.userId ?? undefined;
+    this.occurredAt = node.occurredAt.toISOString();
+    this.children = node.children.map(
+      (child) => new EventLineageNodeResponseDto(child),
+    );
+  }
+
+  @ApiProperty({ example: '2cdc8ab1-6d50-49cc-ba14-54e4ac7ec231' })
+  readonly id: string;
+
+  @ApiProperty({ enum: JournalEntryKind, example: JournalEntryKind.event })
+  readonly kind: JournalEntryKind;
+
+  @ApiProperty({ example: 'UserCreatedDomainEvent' })
+  readonly name: string;
+
+  @ApiProperty({
+    example: 'd9f4ce2b-e5a4-4a55-9d2f-0bb3b84aa3b6',
+    description: 'Command or event that caused this one',
+    required: false,
+  })
+  readonly causationId?: string;
+
+  @ApiProperty({
+    example: '2cdc8ab1-6d50-49cc-ba14-54e4ac7ec231',
+    description: 'Set for events only',
+    required: false,
+  })
+  readonly aggregateId?: string;
+
+  @ApiProperty({
+    example: '2cdc8ab1-6d50-49cc-ba14-54e4ac7ec231',
+    required: false,
+  })
+  readonly userId?: string;
+
+  @ApiProperty({ example: '2020-11-24T17:43:15.970Z' })
+  readonly occurredAt: string;
+
+  @ApiProperty({
+    type: () => [EventLineageNodeResponseDto],
+    description: 'Commands and events caused by this one',
+  })
+  readonly children: EventLineageNodeResponseDto[];
+}
+
+export class EventLineageResponseDto {
+  constructor(correlationId: string, tree: CausationNode[]) {
+    this.correlationId = correlationId;
+    this.roots = tree.map((node) => new EventLineageNodeResponseDto(node));
+  }
+
+  @ApiProperty({ example: 'a1b2c3' })
+  readonly correlationId: string;
+
+  @ApiProperty({
+    type: () => [EventLineageNodeResponseDto],
+    description: 'Entries not caused by another recorded command or event',
+  })
+  readonly roots: EventLineageNodeResponseDto[];
+}
@@ -0,0 +1,20 @@
+import { Field, ObjectType } from '@nestjs/graphql';
+import { ResponseBase } from '@libs/api/response.base';
+
+@ObjectType()
+export class PermissionGraphqlResponseDto extends ResponseBase {
+  @Field()
+  id: string;
+
+  @Field({ description: 'resource:action' })
+  name: string;
+
+  @Field()
+  resource: string;
+
+  @Field()
+  action: string;
+
+  @Field({ nullable: true })
+  description?: string;
+}
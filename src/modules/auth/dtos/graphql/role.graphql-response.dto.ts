@@ -0,0 +1,22 @@
+import { Field, ObjectType } from '@nestjs/graphql';
+import { ResponseBase } from '@libs/api/response.base';
+
+@ObjectType()
+export class RoleGraphqlResponseDto extends ResponseBase {
+  @Field()
+  id: string;
+
+  @Field({ description: 'Unique role name' })
+  name: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field({ description: 'Inactive roles grant no permissions' })
+  isActive: boolean;
+
+  @Field(() => [String], {
+    description: 'Ids of the permissions granted by the role',
+  })
+  permissions: string[];
+}
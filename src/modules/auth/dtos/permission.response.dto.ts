@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ResponseBase } from '@libs/api/response.base';
+
+export class PermissionResponseDto extends ResponseBase {
+  @ApiProperty({ example: 'user:read', description: 'resource:action' })
+  name: string;
+
+  @ApiProperty({ example: 'user' })
+  resource: string;
+
+  @ApiProperty({ example: 'read' })
+  action: string;
+
+  @ApiProperty({ example: 'View user information', required: false })
+  description?: string;
+}
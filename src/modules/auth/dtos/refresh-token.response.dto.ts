@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ResponseBase } from '@libs/api/response.base';
+
+/**
+ * A refresh token without the token itself,
+ * it must never be returned once issued.
+ */
+export class RefreshTokenResponseDto extends ResponseBase {
+  @ApiProperty({ example: '2020-12-01T17:43:15.970Z' })
+  expiresAt: string;
+
+  @ApiProperty({ example: true })
+  isActive: boolean;
+
+  @ApiProperty({ example: '192.168.1.1', required: false })
+  createdByIp?: string;
+
+  @ApiProperty({
+    example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+    required: false,
+  })
+  userAgent?: string;
+}
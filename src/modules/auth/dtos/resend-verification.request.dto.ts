@@ -0,0 +1,29 @@
+import { IsEmail, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ResendVerificationRequestDto {
+  @ApiProperty({
+    example: 'user@example.com',
+    description: 'Email address of the account to verify',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    example: '192.168.1.1',
+    description: 'Client IP address (optional, for audit logging)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  ipAddress?: string;
+
+  @ApiProperty({
+    example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+    description: 'Client user agent (optional, for audit logging)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  userAgent?: string;
+}
@@ -0,0 +1,62 @@
+import {
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ResetPasswordRequestDto {
+  @ApiProperty({
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b',
+    description: 'Password reset token received by email',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(128)
+  token: string;
+
+  @ApiProperty({
+    example: 'NewSecurePassword123!',
+    description:
+      'New password (8-128 characters, must contain uppercase, lowercase, number, and special character)',
+    minLength: 8,
+    maxLength: 128,
+  })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, {
+    message:
+      'Password must contain at least one lowercase letter, one uppercase letter, one digit, and one special character',
+  })
+  newPassword: string;
+
+  @ApiProperty({
+    example: 'NewSecurePassword123!',
+    description: 'Password confirmation (must match newPassword)',
+  })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  confirmPassword: string;
+
+  @ApiProperty({
+    example: '192.168.1.1',
+    description: 'Client IP address (optional, for audit logging)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  ipAddress?: string;
+
+  @ApiProperty({
+    example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+    description: 'Client user agent (optional, for audit logging)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  userAgent?: string;
+}
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ResponseBase } from '@libs/api/response.base';
+
+export class RoleResponseDto extends ResponseBase {
+  @ApiProperty({ example: 'moderator', description: 'Unique role name' })
+  name: string;
+
+  @ApiProperty({
+    example: 'Moderator with limited administrative access',
+    required: false,
+  })
+  description?: string;
+
+  @ApiProperty({ example: true })
+  isActive: boolean;
+
+  @ApiProperty({
+    example: ['perm-user-002', 'perm-user-005'],
+    description: 'Ids of the permissions granted by the role',
+  })
+  permissions: string[];
+}
@@ -0,0 +1,68 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RefreshTokenEntity } from '../domain/entities/refresh-token.entity';
+import {
+  DeviceType,
+  UserAgent,
+} from '../domain/value-objects/user-agent.value-object';
+
+export class SessionDeviceResponseDto {
+  constructor(userAgent: UserAgent) {
+    this.browser = userAgent.browser;
+    this.os = userAgent.os;
+    this.type = userAgent.device;
+  }
+
+  @ApiProperty({ example: 'Chrome 120' })
+  readonly browser: string;
+
+  @ApiProperty({ example: 'Windows' })
+  readonly os: string;
+
+  @ApiProperty({ enum: DeviceType, example: DeviceType.desktop })
+  readonly type: DeviceType;
+}
+
+/**
+ * A login on a device, built from the latest refresh token
+ * rotated from it: it is issued every time the session is used.
+ */
+export class SessionResponseDto {
+  constructor(token: RefreshTokenEntity) {
+    this.id = token.familyId;
+    this.device = new SessionDeviceResponseDto(
+      UserAgent.parse(token.userAgent),
+    );
+    this.userAgent = token.userAgent;
+    this.ipAddress = token.createdByIp;
+    this.lastUsedAt = token.createdAt.toISOString();
+    this.expiresAt = token.expiresAt.toISOString();
+  }
+
+  @ApiProperty({
+    example: '2cdc8ab1-6d50-49cc-ba14-54e4ac7ec231',
+    description: 'Stays the same when the refresh token is rotated',
+  })
+  readonly id: string;
+
+  @ApiProperty({ type: SessionDeviceResponseDto })
+  readonly device: SessionDeviceResponseDto;
+
+  @ApiProperty({
+    example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+    required: false,
+  })
+  readonly userAgent?: string;
+
+  @ApiProperty({
+    example: '192.168.1.1',
+    description: 'Address the session was last used from',
+    required: false,
+  })
+  readonly ipAddress?: string;
+
+  @ApiProperty({ example: '2020-12-01T17:43:15.970Z' })
+  readonly lastUsedAt: string;
+
+  @ApiProperty({ example: '2020-12-08T17:43:15.970Z' })
+  readonly expiresAt: string;
+}
@@ -0,0 +1,32 @@
+import { IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { VerifyEmailRequest } from '../domain/auth.types';
+
+export class VerifyEmailRequestDto implements VerifyEmailRequest {
+  @ApiProperty({
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b',
+    description: 'Email verification token received by email',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(128)
+  token: string;
+
+  @ApiProperty({
+    example: '192.168.1.1',
+    description: 'Client IP address (optional, for audit logging)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  ipAddress?: string;
+
+  @ApiProperty({
+    example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+    description: 'Client user agent (optional, for audit logging)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  userAgent?: string;
+}
@@ -0,0 +1,54 @@
+import { ExecutionContext } from '@nestjs/common';
+import { GqlContextType, GqlExecutionContext } from '@nestjs/graphql';
+import { MESSAGE_PRINCIPAL } from '@libs/application/context/ContextInterceptor';
+import { PolicyDecision } from '@libs/policy';
+import { JwtPayload } from '../domain/auth.types';
+
+/**
+ * The part of a request guards and decorators work with.
+ * HTTP and GraphQL requests are express requests, messages
+ * carry the access token in `authorization` ("Bearer <token>").
+ */
+export interface AuthRequest {
+  headers?: Record<string, string | string[] | undefined>;
+  authorization?: string;
+  /** Authenticated principal, set by JwtAuthGuard */
+  user?: JwtPayload | null;
+  /** Same as `user` on messages, where `user` may come from the sender */
+  [MESSAGE_PRINCIPAL]?: JwtPayload | null;
+  /** Decision of the policy of the endpoint, set by PolicyGuard */
+  policyDecision?: PolicyDecision;
+}
+
+/**
+ * Request of an HTTP route, a GraphQL resolver or a message handler
+ */
+export function getAuthRequest(context: ExecutionContext): AuthRequest {
+  switch (context.getType<GqlContextType>()) {
+    case 'graphql':
+      return GqlExecutionContext.create(context).getContext().req;
+    case 'rpc':
+      return context.switchToRpc().getData();
+    default:
+      return context.switchToHttp().getRequest();
+  }
+}
+
+/**
+ * Parameters identifying the requested resource: route parameters,
+ * arguments of a resolver (including its `input`) or the message
+ */
+export function getAuthParams(
+  context: ExecutionContext,
+): Record<string, unknown> {
+  switch (context.getType<GqlContextType>()) {
+    case 'graphql': {
+      const args = GqlExecutionContext.create(context).getArgs();
+      return { ...args, ...args.input };
+    }
+    case 'rpc':
+      return context.switchToRpc().getData() ?? {};
+    default:
+      return context.switchToHttp().getRequest().params ?? {};
+  }
+}
@@ -1,24 +1,41 @@
-import { SetMetadata } from '@nestjs/common';
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { VerifiedEmailGuard } from '../guards/verified-email.guard';
+import {
+  AUTH_METADATA_KEY,
+  AuthOptions,
+  PERMISSIONS_METADATA_KEY,
+  ROLES_METADATA_KEY,
+} from './auth.metadata';
 
-export const AUTH_METADATA_KEY = 'auth';
-export const ROLES_METADATA_KEY = 'roles';
-export const PERMISSIONS_METADATA_KEY = 'permissions';
-
-export interface AuthOptions {
-  required?: boolean;
-  roles?: string[];
-  permissions?: string[];
-  requireAll?: boolean; // If true, user must have ALL specified roles/permissions. If false, ANY will suffice.
-}
+export * from './auth.metadata';
 
 /**
- * Mark a route as requiring authentication
+ * Authenticate the caller and check the given roles and permissions.
+ * Works on HTTP routes, GraphQL resolvers and message handlers.
  * @param options Authentication options
  */
 export const Auth = (
   options: AuthOptions = { required: true },
-): MethodDecorator => {
-  return SetMetadata(AUTH_METADATA_KEY, options);
+): MethodDecorator & ClassDecorator => {
+  const requireAll = options.requireAll ?? false;
+  return applyDecorators(
+    SetMetadata(AUTH_METADATA_KEY, options),
+    ...(options.roles
+      ? [SetMetadata(ROLES_METADATA_KEY, { roles: options.roles, requireAll })]
+      : []),
+    ...(options.permissions
+      ? [
+          SetMetadata(PERMISSIONS_METADATA_KEY, {
+            permissions: options.permissions,
+            requireAll,
+          }),
+        ]
+      : []),
+    UseGuards(JwtAuthGuard, RolesGuard, PermissionsGuard),
+  );
 };
 
 /**
@@ -55,13 +72,20 @@ export const Public = (): MethodDecorator => {
 /**
  * Convenience decorator for admin-only routes
  */
-export const AdminOnly = (): MethodDecorator => {
-  return RequireRoles(['admin']);
+export const AdminOnly = (): MethodDecorator & ClassDecorator => {
+  return Auth({ roles: ['admin'] });
 };
 
 /**
  * Convenience decorator for authenticated users only
  */
-export const AuthenticatedOnly = (): MethodDecorator => {
+export const AuthenticatedOnly = (): MethodDecorator & ClassDecorator => {
   return Auth({ required: true });
 };
+
+/**
+ * Require the authenticated user to have a verified email address
+ */
+export const RequireVerifiedEmail = (): MethodDecorator & ClassDecorator => {
+  return UseGuards(VerifiedEmailGuard);
+};
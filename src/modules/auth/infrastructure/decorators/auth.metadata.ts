@@ -0,0 +1,30 @@
+import { InjectionToken } from '@nestjs/common';
+import { Policy } from '@libs/policy';
+
+export const AUTH_METADATA_KEY = 'auth';
+export const ROLES_METADATA_KEY = 'roles';
+export const PERMISSIONS_METADATA_KEY = 'permissions';
+
+export interface AuthOptions {
+  required?: boolean;
+  roles?: string[];
+  permissions?: string[];
+  requireAll?: boolean; // If true, user must have ALL specified roles/permissions. If false, ANY will suffice.
+}
+
+export const POLICY_METADATA_KEY = 'policy';
+
+export interface PolicyOptions {
+  /** Action of the endpoint, e.g. 'wallet:withdraw' */
+  action: string;
+  /**
+   * Resource the policy decides on, loaded with `findOneById` of the
+   * repository using the route parameter, resolver argument or message
+   * field named `param`
+   */
+  resource?: { repository: InjectionToken; param: string };
+}
+
+export interface PolicyMetadata extends PolicyOptions {
+  policy: Policy<any, any>;
+}
@@ -1,5 +1,6 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 import { JwtPayload } from '../../domain/auth.types';
+import { getAuthRequest } from '../auth-request';
 
 export interface AuthenticatedUser extends JwtPayload {
   id: string; // Alias for 'sub' for convenience
@@ -14,7 +15,7 @@ export const CurrentUser = createParamDecorator(
     data: keyof AuthenticatedUser | undefined,
     ctx: ExecutionContext,
   ): AuthenticatedUser | null => {
-    const request = ctx.switchToHttp().getRequest();
+    const request = getAuthRequest(ctx);
     const user = request.user as JwtPayload;
 
     if (!user) {
@@ -39,7 +40,7 @@ export const CurrentUser = createParamDecorator(
  */
 export const UserId = createParamDecorator(
   (data: unknown, ctx: ExecutionContext): string | null => {
-    const request = ctx.switchToHttp().getRequest();
+    const request = getAuthRequest(ctx);
     const user = request.user as JwtPayload;
 
     return user?.sub || null;
@@ -52,7 +53,7 @@ export const UserId = createParamDecorator(
  */
 export const UserRoles = createParamDecorator(
   (data: unknown, ctx: ExecutionContext): string[] => {
-    const request = ctx.switchToHttp().getRequest();
+    const request = getAuthRequest(ctx);
     const user = request.user as JwtPayload;
 
     return user?.roles || [];
@@ -65,7 +66,7 @@ export const UserRoles = createParamDecorator(
  */
 export const UserPermissions = createParamDecorator(
   (data: unknown, ctx: ExecutionContext): string[] => {
-    const request = ctx.switchToHttp().getRequest();
+    const request = getAuthRequest(ctx);
     const user = request.user as JwtPayload;
 
     return user?.permissions || [];
@@ -0,0 +1,29 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import { Policy as AccessPolicy } from '@libs/policy';
+import { UserPrincipal } from '@modules/user/domain/policies/user.policies';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { PolicyGuard } from '../guards/policy.guard';
+import {
+  POLICY_METADATA_KEY,
+  PolicyMetadata,
+  PolicyOptions,
+} from './auth.metadata';
+
+/**
+ * Authenticate the caller and allow the request only if the policy does.
+ * Sending the `Policy-Explain: true` header returns the decision of the
+ * policy with a denial, naming the rules that denied.
+ * Works on HTTP routes, GraphQL resolvers and message handlers.
+ * @param policy Policy of the action
+ * @param options Action and resource the policy decides on
+ */
+export const Policy = <TResource>(
+  policy: AccessPolicy<TResource, UserPrincipal>,
+  options: PolicyOptions,
+): MethodDecorator & ClassDecorator => {
+  const metadata: PolicyMetadata = { ...options, policy };
+  return applyDecorators(
+    SetMetadata(POLICY_METADATA_KEY, metadata),
+    UseGuards(JwtAuthGuard, PolicyGuard),
+  );
+};
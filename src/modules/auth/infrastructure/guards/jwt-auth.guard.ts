@@ -5,7 +5,10 @@ import {
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { Reflector } from '@nestjs/core';
-import { AUTH_METADATA_KEY, AuthOptions } from '../decorators/auth.decorator';
+import { MESSAGE_PRINCIPAL } from '@libs/application/context/ContextInterceptor';
+import { AUTH_METADATA_KEY, AuthOptions } from '../decorators/auth.metadata';
+import { AuthRequest, getAuthRequest } from '../auth-request';
+import { JwtPayload } from '../../domain/auth.types';
 
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {
@@ -21,7 +24,8 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     );
 
     // If auth is explicitly not required, allow access
-    if (authOptions && !authOptions.required) {
+    if (authOptions?.required === false) {
+      this.setMessagePrincipal(context, null);
       return true;
     }
 
@@ -29,6 +33,22 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     return super.canActivate(context);
   }
 
+  getRequest(context: ExecutionContext): AuthRequest {
+    const request = getAuthRequest(context);
+    if (context.getType() !== 'rpc') {
+      return request;
+    }
+    // Passport decorates the request it authenticates, so it gets the
+    // token of a message rather than the message itself (see handleRequest)
+    return { headers: { authorization: request?.authorization } };
+  }
+
+  getResponse(context: ExecutionContext): unknown {
+    return context.getType() === 'http'
+      ? context.switchToHttp().getResponse()
+      : {};
+  }
+
   handleRequest(
     err: unknown,
     user: unknown,
@@ -42,7 +62,8 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     );
 
     // If auth is not required and no user is present, that's fine
-    if (authOptions && !authOptions.required && !user) {
+    if (authOptions?.required === false && !user) {
+      this.setMessagePrincipal(context, null);
       return null;
     }
 
@@ -51,6 +72,26 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       throw err || new UnauthorizedException('Invalid or expired token');
     }
 
+    this.setMessagePrincipal(context, user as JwtPayload);
     return user;
   }
+
+  /**
+   * The `user` of a message is whatever its sender wrote, so it is
+   * always replaced, with null when no token was verified
+   */
+  private setMessagePrincipal(
+    context: ExecutionContext,
+    user: JwtPayload | null,
+  ): void {
+    if (context.getType() !== 'rpc') {
+      return;
+    }
+    const message = getAuthRequest(context);
+    if (!message || typeof message !== 'object') {
+      return;
+    }
+    message.user = user;
+    message[MESSAGE_PRINCIPAL] = user;
+  }
 }
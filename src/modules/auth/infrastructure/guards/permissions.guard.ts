@@ -5,8 +5,9 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { PERMISSIONS_METADATA_KEY } from '../decorators/auth.decorator';
+import { PERMISSIONS_METADATA_KEY } from '../decorators/auth.metadata';
 import { JwtPayload } from '../../domain/auth.types';
+import { getAuthRequest } from '../auth-request';
 
 @Injectable()
 export class PermissionsGuard implements CanActivate {
@@ -27,7 +28,7 @@ export class PermissionsGuard implements CanActivate {
       return true; // No permission requirements
     }
 
-    const request = context.switchToHttp().getRequest();
+    const request = getAuthRequest(context);
     const user = request.user as JwtPayload;
 
     if (!user) {
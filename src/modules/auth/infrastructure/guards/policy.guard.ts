@@ -0,0 +1,115 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { RepositoryPort } from '@libs/ddd';
+import { PolicyDecision } from '@libs/policy';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { UserPrincipal } from '@modules/user/domain/policies/user.policies';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+import { JwtPayload } from '../../domain/auth.types';
+import { getAuthParams, getAuthRequest } from '../auth-request';
+import {
+  POLICY_METADATA_KEY,
+  PolicyMetadata,
+} from '../decorators/auth.metadata';
+
+/** Requests sending it get the decision of the policy with a denial */
+export const POLICY_EXPLAIN_HEADER = 'policy-explain';
+
+/**
+ * Evaluates the policy of an endpoint (see the Policy decorator).
+ * The user of the principal and the resource are loaded through the
+ * repositories of their modules, so the guard works in any module.
+ */
+@Injectable()
+export class PolicyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly moduleRef: ModuleRef,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const metadata = this.reflector.getAllAndOverride<PolicyMetadata>(
+      POLICY_METADATA_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!metadata) {
+      return true;
+    }
+
+    const request = getAuthRequest(context);
+    const user = request.user as JwtPayload;
+
+    if (!user) {
+      throw new ForbiddenException('User not authenticated');
+    }
+
+    const decision: PolicyDecision = metadata.policy.evaluate({
+      principal: await this.loadPrincipal(user),
+      action: metadata.action,
+      resource: await this.loadResource(metadata, context),
+      environment: { now: new Date(), channel: context.getType() },
+    });
+    request.policyDecision = decision;
+
+    if (!decision.allowed) {
+      const message = `Access denied. ${decision.description}`;
+      throw new ForbiddenException(
+        request.headers?.[POLICY_EXPLAIN_HEADER] === 'true'
+          ? { statusCode: 403, message, error: 'Forbidden', decision }
+          : message,
+      );
+    }
+
+    return true;
+  }
+
+  private async loadPrincipal(user: JwtPayload): Promise<UserPrincipal> {
+    const userRepo = this.moduleRef.get<UserRepositoryPort>(
+      USER_DI_TOKENS.UserRepository,
+      { strict: false },
+    );
+    const found = await userRepo.findOneById(user.sub);
+    if (found.isNone()) {
+      throw new ForbiddenException('User not found');
+    }
+    return {
+      id: user.sub,
+      roles: user.roles || [],
+      permissions: user.permissions || [],
+      user: found.unwrap(),
+    };
+  }
+
+  private async loadResource(
+    metadata: PolicyMetadata,
+    context: ExecutionContext,
+  ): Promise<unknown> {
+    if (!metadata.resource) {
+      return undefined;
+    }
+    const { repository, param } = metadata.resource;
+
+    const resourceId = getAuthParams(context)[param];
+    if (typeof resourceId !== 'string' || !resourceId) {
+      throw new ForbiddenException(
+        `Resource ID not found in parameter: ${param}`,
+      );
+    }
+
+    const repo = this.moduleRef.get<RepositoryPort<unknown>>(repository, {
+      strict: false,
+    });
+    const found = await repo.findOneById(resourceId);
+    if (found.isNone()) {
+      throw new NotFoundException();
+    }
+    return found.unwrap();
+  }
+}
@@ -5,6 +5,7 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { JwtPayload } from '../../domain/auth.types';
+import { getAuthParams, getAuthRequest } from '../auth-request';
 
 /**
  * Guard to ensure users can only access their own resources
@@ -13,15 +14,16 @@ import { JwtPayload } from '../../domain/auth.types';
 @Injectable()
 export class ResourceOwnerGuard implements CanActivate {
   canActivate(context: ExecutionContext): boolean {
-    const request = context.switchToHttp().getRequest();
+    const request = getAuthRequest(context);
     const user = request.user as JwtPayload;
 
     if (!user) {
       throw new ForbiddenException('User not authenticated');
     }
 
-    // Get resource ID from route parameters
-    const resourceId = request.params.id || request.params.userId;
+    // Get resource ID from route parameters or resolver arguments
+    const params = getAuthParams(context);
+    const resourceId = params.id || params.userId;
 
     if (!resourceId) {
       throw new ForbiddenException('Resource ID not found in request');
@@ -52,7 +54,7 @@ export const createResourceOwnerGuard = (
   @Injectable()
   class DynamicResourceOwnerGuard implements CanActivate {
     canActivate(context: ExecutionContext): boolean {
-      const request = context.switchToHttp().getRequest();
+      const request = getAuthRequest(context);
       const user = request.user as JwtPayload;
 
       if (!user) {
@@ -60,7 +62,7 @@ export const createResourceOwnerGuard = (
       }
 
       // Get resource ID from specified parameter
-      const resourceId = request.params[paramName];
+      const resourceId = getAuthParams(context)[paramName];
 
       if (!resourceId) {
         throw new ForbiddenException(
@@ -5,8 +5,9 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { ROLES_METADATA_KEY } from '../decorators/auth.decorator';
+import { ROLES_METADATA_KEY } from '../decorators/auth.metadata';
 import { JwtPayload } from '../../domain/auth.types';
+import { getAuthRequest } from '../auth-request';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
@@ -23,7 +24,7 @@ export class RolesGuard implements CanActivate {
       return true; // No role requirements
     }
 
-    const request = context.switchToHttp().getRequest();
+    const request = getAuthRequest(context);
     const user = request.user as JwtPayload;
 
     if (!user) {
@@ -0,0 +1,41 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Inject,
+} from '@nestjs/common';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+import { EmailNotVerifiedError } from '../../domain/auth.errors';
+import { JwtPayload } from '../../domain/auth.types';
+import { getAuthRequest } from '../auth-request';
+
+/**
+ * Guard to ensure the authenticated user has verified their email address.
+ * The user is loaded on every request, so verifying the email takes effect
+ * without issuing new tokens. Apply it with the RequireVerifiedEmail decorator.
+ */
+@Injectable()
+export class VerifiedEmailGuard implements CanActivate {
+  constructor(
+    @Inject(USER_DI_TOKENS.UserRepository)
+    private readonly userRepo: UserRepositoryPort,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = getAuthRequest(context);
+    const user = request.user as JwtPayload;
+
+    if (!user) {
+      throw new ForbiddenException('User not authenticated');
+    }
+
+    const userOption = await this.userRepo.findOneById(user.sub);
+    if (userOption.isNone() || !userOption.unwrap().isEmailVerified) {
+      throw new ForbiddenException(EmailNotVerifiedError.message);
+    }
+
+    return true;
+  }
+}
@@ -33,6 +33,7 @@ export class CorsMiddleware implements NestMiddleware {
         'Authorization',
         'X-API-Key',
         'X-Request-ID',
+        'Idempotency-Key',
         'Cache-Control',
       ],
       exposedHeaders: [
@@ -40,6 +41,7 @@ export class CorsMiddleware implements NestMiddleware {
         'X-RateLimit-Remaining',
         'X-RateLimit-Reset',
         'X-Request-ID',
+        'Idempotent-Replayed',
         'X-API-Version',
       ],
       credentials: true, // Allow cookies and credentials
@@ -63,6 +63,31 @@ export class RateLimitMiddleware implements NestMiddleware {
       message: 'Too many password reset attempts, please try again later',
     });
 
+    this.rules.set('/auth/reset-password', {
+      windowMs: 15 * 60 * 1000, // 15 minutes
+      maxRequests: 5, // 5 token submissions per 15 minutes per IP
+      message: 'Too many password reset attempts, please try again later',
+    });
+
+    this.rules.set('/auth/change-password', {
+      windowMs: 15 * 60 * 1000, // 15 minutes
+      maxRequests: 5, // 5 password changes per 15 minutes per IP
+      message: 'Too many password change attempts, please try again later',
+    });
+
+    // Email verification endpoints
+    this.rules.set('/auth/resend-verification', {
+      windowMs: 60 * 60 * 1000, // 1 hour
+      maxRequests: 3, // 3 verification emails per hour per IP
+      message: 'Too many verification requests, please try again later',
+    });
+
+    this.rules.set('/auth/verify-email', {
+      windowMs: 15 * 60 * 1000, // 15 minutes
+      maxRequests: 10, // 10 token submissions per 15 minutes per IP
+      message: 'Too many verification attempts, please try again later',
+    });
+
     // API endpoints - moderate restrictions
     this.rules.set('/v1/users', {
       windowMs: 15 * 60 * 1000, // 15 minutes
@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { JwtService as NestJwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { JwtServicePort } from '../../domain/ports/jwt.service.port';
@@ -17,6 +17,7 @@ export class JwtService implements JwtServicePort {
   constructor(
     private readonly nestJwtService: NestJwtService,
     private readonly configService: ConfigService,
+    @Inject(Logger)
     private readonly logger: LoggerPort,
   ) {
     this.accessTokenSecret = this.configService.getOrThrow<string>(
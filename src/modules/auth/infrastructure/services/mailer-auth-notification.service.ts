@@ -0,0 +1,35 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { MAILER } from '@libs/mailer';
+import { MailerPort } from '@libs/ports/mailer.port';
+import {
+  AuthNotificationPort,
+  EmailVerificationNotification,
+} from '../../domain/ports/auth-notification.port';
+
+/**
+ * Sends authentication notifications by email using the configured mailer.
+ */
+@Injectable()
+export class MailerAuthNotificationService implements AuthNotificationPort {
+  constructor(
+    @Inject(MAILER)
+    private readonly mailer: MailerPort,
+  ) {}
+
+  async sendEmailVerification({
+    email,
+    token,
+    expiresAt,
+  }: EmailVerificationNotification): Promise<void> {
+    await this.mailer.send({
+      to: email,
+      subject: 'Verify your email address',
+      text: [
+        'Please confirm that this email address belongs to you.',
+        `Use the following token to verify your email: ${token}`,
+        `The token can be used once and expires at ${expiresAt.toISOString()}.`,
+        'If you did not create an account, you can ignore this email.',
+      ].join('\n\n'),
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { PasswordServicePort } from '../../domain/ports/password.service.port';
 import { Password } from '../../domain/value-objects/password.value-object';
 import { WeakPasswordError } from '../../domain/auth.errors';
@@ -10,7 +10,10 @@ import * as crypto from 'crypto';
 export class PasswordService implements PasswordServicePort {
   private static readonly SALT_ROUNDS = 12;
 
-  constructor(private readonly logger: LoggerPort) {}
+  constructor(
+    @Inject(Logger)
+    private readonly logger: LoggerPort,
+  ) {}
 
   async hash(password: Password): Promise<string> {
     try {
@@ -67,4 +70,9 @@ export class PasswordService implements PasswordServicePort {
     // Generate a shorter but still secure token for password resets
     return crypto.randomBytes(20).toString('hex');
   }
+
+  hashToken(token: string): string {
+    // Tokens have enough entropy, a fast hash without salt is sufficient
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
 }
@@ -0,0 +1,53 @@
+import { Mapper } from '@libs/ddd';
+import { Injectable } from '@nestjs/common';
+import { PermissionEntity } from './domain/entities/permission.entity';
+import {
+  PermissionModel,
+  permissionSchema,
+} from './database/permission.repository';
+import { PermissionResponseDto } from './dtos/permission.response.dto';
+
+@Injectable()
+export class PermissionMapper implements Mapper<
+  PermissionEntity,
+  PermissionModel,
+  PermissionResponseDto
+> {
+  toPersistence(entity: PermissionEntity): PermissionModel {
+    const copy = entity.getProps();
+    const record: PermissionModel = {
+      id: copy.id,
+      createdAt: copy.createdAt,
+      updatedAt: copy.updatedAt,
+      name: copy.name,
+      resource: copy.resource,
+      action: copy.action,
+      description: copy.description ?? null,
+    };
+    return permissionSchema.parse(record);
+  }
+
+  toDomain(record: PermissionModel): PermissionEntity {
+    return new PermissionEntity({
+      id: record.id,
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt),
+      props: {
+        name: record.name,
+        resource: record.resource,
+        action: record.action,
+        description: record.description ?? undefined,
+      },
+    });
+  }
+
+  toResponse(entity: PermissionEntity): PermissionResponseDto {
+    const props = entity.getProps();
+    const response = new PermissionResponseDto(props);
+    response.name = props.name;
+    response.resource = props.resource;
+    response.action = props.action;
+    response.description = props.description;
+    return response;
+  }
+}
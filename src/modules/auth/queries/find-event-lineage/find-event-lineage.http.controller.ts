@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Get,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { QueryBus } from '@nestjs/cqrs';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { CausationNode } from '@libs/db/journal';
+import { NotFoundException } from '@libs/exceptions';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { RequireRoles } from '../../infrastructure/decorators/auth.decorator';
+import { JwtAuthGuard } from '../../infrastructure/guards/jwt-auth.guard';
+import { RolesGuard } from '../../infrastructure/guards/roles.guard';
+import { EventLineageResponseDto } from '../../dtos/event-lineage.response.dto';
+import { FindEventLineageQuery } from './find-event-lineage.query-handler';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class FindEventLineageHttpController {
+  constructor(private readonly queryBus: QueryBus) {}
+
+  @Get(routesV1.admin.eventLineage)
+  @ApiOperation({
+    summary: 'Find the commands and events caused by a request',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: EventLineageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: NotFoundException.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Insufficient permissions',
+    type: ApiErrorResponse,
+  })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequireRoles(['admin'])
+  async findEventLineage(
+    @Param('correlationId') correlationId: string,
+  ): Promise<EventLineageResponseDto> {
+    const result: Result<CausationNode[], NotFoundException> =
+      await this.queryBus.execute(new FindEventLineageQuery({ correlationId }));
+
+    return match(result, {
+      Ok: (tree) => new EventLineageResponseDto(correlationId, tree),
+      Err: (error: Error) => {
+        if (error instanceof NotFoundException)
+          throw new NotFoundHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
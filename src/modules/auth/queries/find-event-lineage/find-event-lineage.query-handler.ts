@@ -0,0 +1,42 @@
+import { Inject } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { DatabasePool } from 'slonik';
+import { DATABASE_POOL_TOKEN } from '@libs/database';
+import { CausationNode, JournalReader } from '@libs/db/journal';
+import { QueryBase } from '@libs/ddd/query.base';
+import { NotFoundException } from '@libs/exceptions';
+
+export class FindEventLineageQuery extends QueryBase {
+  readonly correlationId: string;
+
+  constructor(props: FindEventLineageQuery) {
+    super();
+    this.correlationId = props.correlationId;
+  }
+}
+
+@QueryHandler(FindEventLineageQuery)
+export class FindEventLineageQueryHandler implements IQueryHandler<FindEventLineageQuery> {
+  private readonly journal: JournalReader;
+
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    pool: DatabasePool,
+  ) {
+    this.journal = new JournalReader(pool);
+  }
+
+  /**
+   * Commands and events recorded for a correlation id, as trees
+   * of what caused what
+   */
+  async execute(
+    query: FindEventLineageQuery,
+  ): Promise<Result<CausationNode[], NotFoundException>> {
+    const tree = await this.journal.findCausationTree(query.correlationId);
+    if (tree.length === 0) return Err(new NotFoundException());
+
+    return Ok(tree);
+  }
+}
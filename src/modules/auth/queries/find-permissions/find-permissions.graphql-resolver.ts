@@ -0,0 +1,27 @@
+import { QueryBus } from '@nestjs/cqrs';
+import { Query, Resolver } from '@nestjs/graphql';
+import { Result } from 'oxide.ts';
+import { PermissionEntity } from '../../domain/entities/permission.entity';
+import { PermissionGraphqlResponseDto } from '../../dtos/graphql/permission.graphql-response.dto';
+import { Auth } from '../../infrastructure/decorators/auth.decorator';
+import { PermissionMapper } from '../../permission.mapper';
+import { FindPermissionsQuery } from './find-permissions.query-handler';
+
+@Resolver()
+export class FindPermissionsGraphqlResolver {
+  constructor(
+    private readonly queryBus: QueryBus,
+    private readonly mapper: PermissionMapper,
+  ) {}
+
+  @Query(() => [PermissionGraphqlResponseDto])
+  @Auth({ roles: ['admin'] })
+  async permissions(): Promise<PermissionGraphqlResponseDto[]> {
+    const result: Result<PermissionEntity[], Error> =
+      await this.queryBus.execute(new FindPermissionsQuery());
+
+    return result
+      .unwrap()
+      .map((permission) => this.mapper.toResponse(permission));
+  }
+}
@@ -0,0 +1,44 @@
+import { Controller, Get, HttpStatus, UseGuards } from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { QueryBus } from '@nestjs/cqrs';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Result } from 'oxide.ts';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { PermissionEntity } from '../../domain/entities/permission.entity';
+import { PermissionResponseDto } from '../../dtos/permission.response.dto';
+import { RequireRoles } from '../../infrastructure/decorators/auth.decorator';
+import { JwtAuthGuard } from '../../infrastructure/guards/jwt-auth.guard';
+import { RolesGuard } from '../../infrastructure/guards/roles.guard';
+import { PermissionMapper } from '../../permission.mapper';
+import { FindPermissionsQuery } from './find-permissions.query-handler';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class FindPermissionsHttpController {
+  constructor(
+    private readonly queryBus: QueryBus,
+    private readonly mapper: PermissionMapper,
+  ) {}
+
+  @Get(routesV1.admin.permissions)
+  @ApiOperation({ summary: 'Find all permissions' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: [PermissionResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Insufficient permissions',
+    type: ApiErrorResponse,
+  })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequireRoles(['admin'])
+  async findPermissions(): Promise<PermissionResponseDto[]> {
+    const result: Result<PermissionEntity[], Error> =
+      await this.queryBus.execute(new FindPermissionsQuery());
+
+    return result
+      .unwrap()
+      .map((permission) => this.mapper.toResponse(permission));
+  }
+}
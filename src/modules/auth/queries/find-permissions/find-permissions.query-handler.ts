@@ -0,0 +1,23 @@
+import { Inject } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Ok, Result } from 'oxide.ts';
+import { QueryBase } from '@libs/ddd/query.base';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { PermissionRepositoryPort } from '../../database/permission.repository.port';
+import { PermissionEntity } from '../../domain/entities/permission.entity';
+
+export class FindPermissionsQuery extends QueryBase {}
+
+@QueryHandler(FindPermissionsQuery)
+export class FindPermissionsQueryHandler implements IQueryHandler<FindPermissionsQuery> {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.PermissionRepository)
+    private readonly permissionRepo: PermissionRepositoryPort,
+  ) {}
+
+  /** All permissions, ordered by name */
+  async execute(): Promise<Result<PermissionEntity[], Error>> {
+    const permissions = await this.permissionRepo.findAll();
+    return Ok(permissions.sort((a, b) => a.name.localeCompare(b.name)));
+  }
+}
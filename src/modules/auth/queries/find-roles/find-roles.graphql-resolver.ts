@@ -0,0 +1,26 @@
+import { QueryBus } from '@nestjs/cqrs';
+import { Query, Resolver } from '@nestjs/graphql';
+import { Result } from 'oxide.ts';
+import { RoleEntity } from '../../domain/entities/role.entity';
+import { RoleGraphqlResponseDto } from '../../dtos/graphql/role.graphql-response.dto';
+import { Auth } from '../../infrastructure/decorators/auth.decorator';
+import { RoleMapper } from '../../role.mapper';
+import { FindRolesQuery } from './find-roles.query-handler';
+
+@Resolver()
+export class FindRolesGraphqlResolver {
+  constructor(
+    private readonly queryBus: QueryBus,
+    private readonly mapper: RoleMapper,
+  ) {}
+
+  @Query(() => [RoleGraphqlResponseDto])
+  @Auth({ roles: ['admin'] })
+  async roles(): Promise<RoleGraphqlResponseDto[]> {
+    const result: Result<RoleEntity[], Error> = await this.queryBus.execute(
+      new FindRolesQuery(),
+    );
+
+    return result.unwrap().map((role) => this.mapper.toResponse(role));
+  }
+}
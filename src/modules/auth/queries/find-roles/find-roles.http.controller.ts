@@ -0,0 +1,43 @@
+import { Controller, Get, HttpStatus, UseGuards } from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { QueryBus } from '@nestjs/cqrs';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Result } from 'oxide.ts';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { RoleEntity } from '../../domain/entities/role.entity';
+import { RoleResponseDto } from '../../dtos/role.response.dto';
+import { RequireRoles } from '../../infrastructure/decorators/auth.decorator';
+import { JwtAuthGuard } from '../../infrastructure/guards/jwt-auth.guard';
+import { RolesGuard } from '../../infrastructure/guards/roles.guard';
+import { RoleMapper } from '../../role.mapper';
+import { FindRolesQuery } from './find-roles.query-handler';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class FindRolesHttpController {
+  constructor(
+    private readonly queryBus: QueryBus,
+    private readonly mapper: RoleMapper,
+  ) {}
+
+  @Get(routesV1.admin.roles)
+  @ApiOperation({ summary: 'Find all roles with their permissions' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: [RoleResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Insufficient permissions',
+    type: ApiErrorResponse,
+  })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequireRoles(['admin'])
+  async findRoles(): Promise<RoleResponseDto[]> {
+    const result: Result<RoleEntity[], Error> = await this.queryBus.execute(
+      new FindRolesQuery(),
+    );
+
+    return result.unwrap().map((role) => this.mapper.toResponse(role));
+  }
+}
@@ -0,0 +1,23 @@
+import { Inject } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Ok, Result } from 'oxide.ts';
+import { QueryBase } from '@libs/ddd/query.base';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { RoleRepositoryPort } from '../../database/role.repository.port';
+import { RoleEntity } from '../../domain/entities/role.entity';
+
+export class FindRolesQuery extends QueryBase {}
+
+@QueryHandler(FindRolesQuery)
+export class FindRolesQueryHandler implements IQueryHandler<FindRolesQuery> {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.RoleRepository)
+    private readonly roleRepo: RoleRepositoryPort,
+  ) {}
+
+  /** All roles, active or not, ordered by name */
+  async execute(): Promise<Result<RoleEntity[], Error>> {
+    const roles = await this.roleRepo.findAll();
+    return Ok(roles.sort((a, b) => a.name.localeCompare(b.name)));
+  }
+}
@@ -0,0 +1,48 @@
+import { Controller, Get, HttpStatus } from '@nestjs/common';
+import { QueryBus } from '@nestjs/cqrs';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Result } from 'oxide.ts';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { RefreshTokenEntity } from '../../domain/entities/refresh-token.entity';
+import { SessionResponseDto } from '../../dtos/session.response.dto';
+import { AuthenticatedOnly } from '../../infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../infrastructure/decorators/current-user.decorator';
+import { FindSessionsQuery } from './find-sessions.query-handler';
+
+@ApiTags('Authentication')
+@Controller('auth')
+@AuthenticatedOnly()
+@ApiBearerAuth()
+export class FindSessionsHttpController {
+  constructor(private readonly queryBus: QueryBus) {}
+
+  @ApiOperation({
+    summary: 'List the devices the current user is logged in on',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: [SessionResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Authentication token is required',
+    type: ApiErrorResponse,
+  })
+  @Get('sessions')
+  async findSessions(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<SessionResponseDto[]> {
+    const result: Result<RefreshTokenEntity[], Error> =
+      await this.queryBus.execute(new FindSessionsQuery({ userId: user.sub }));
+
+    return result.unwrap().map((token) => new SessionResponseDto(token));
+  }
+}
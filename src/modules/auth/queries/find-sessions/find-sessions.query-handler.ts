@@ -0,0 +1,37 @@
+import { Inject } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Ok, Result } from 'oxide.ts';
+import { QueryBase } from '@libs/ddd/query.base';
+import { AUTH_DI_TOKENS } from '../../auth.di-tokens';
+import { RefreshTokenRepositoryPort } from '../../database/refresh-token.repository.port';
+import { RefreshTokenEntity } from '../../domain/entities/refresh-token.entity';
+
+export class FindSessionsQuery extends QueryBase {
+  readonly userId: string;
+
+  constructor(props: FindSessionsQuery) {
+    super();
+    this.userId = props.userId;
+  }
+}
+
+@QueryHandler(FindSessionsQuery)
+export class FindSessionsQueryHandler implements IQueryHandler<FindSessionsQuery> {
+  constructor(
+    @Inject(AUTH_DI_TOKENS.RefreshTokenRepository)
+    private readonly refreshTokenRepo: RefreshTokenRepositoryPort,
+  ) {}
+
+  /**
+   * Active sessions of a user, most recently used first.
+   * Rotating a refresh token revokes it, so each session
+   * has a single active token: the one issued on its last use.
+   */
+  async execute(
+    query: FindSessionsQuery,
+  ): Promise<Result<RefreshTokenEntity[], Error>> {
+    return Ok(
+      await this.refreshTokenRepo.findActiveTokensByUserId(query.userId),
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { Mapper } from '@libs/ddd';
+import { Injectable } from '@nestjs/common';
+import { RefreshTokenEntity } from './domain/entities/refresh-token.entity';
+import {
+  RefreshTokenModel,
+  refreshTokenSchema,
+} from './database/refresh-token.repository';
+import { RefreshTokenResponseDto } from './dtos/refresh-token.response.dto';
+
+@Injectable()
+export class RefreshTokenMapper implements Mapper<
+  RefreshTokenEntity,
+  RefreshTokenModel,
+  RefreshTokenResponseDto
+> {
+  toPersistence(entity: RefreshTokenEntity): RefreshTokenModel {
+    const copy = entity.getProps();
+    const record: RefreshTokenModel = {
+      id: copy.id,
+      createdAt: copy.createdAt,
+      token: copy.token,
+      userId: copy.userId,
+      familyId: copy.familyId,
+      expiresAt: copy.expiresAt,
+      isRevoked: copy.isRevoked,
+      revokedAt: copy.revokedAt ?? null,
+      revokedByIp: copy.revokedByIp ?? null,
+      replacedByToken: copy.replacedByToken ?? null,
+      createdByIp: copy.createdByIp ?? null,
+      userAgent: copy.userAgent ?? null,
+    };
+    return refreshTokenSchema.parse(record);
+  }
+
+  toDomain(record: RefreshTokenModel): RefreshTokenEntity {
+    return new RefreshTokenEntity({
+      id: record.id,
+      createdAt: new Date(record.createdAt),
+      // A token is only updated when it is revoked
+      updatedAt: new Date(record.revokedAt ?? record.createdAt),
+      props: {
+        token: record.token,
+        userId: record.userId,
+        familyId: record.familyId,
+        expiresAt: new Date(record.expiresAt),
+        isRevoked: record.isRevoked,
+        revokedAt: record.revokedAt ? new Date(record.revokedAt) : undefined,
+        revokedByIp: record.revokedByIp ?? undefined,
+        replacedByToken: record.replacedByToken ?? undefined,
+        createdByIp: record.createdByIp ?? undefined,
+        userAgent: record.userAgent ?? undefined,
+      },
+    });
+  }
+
+  toResponse(entity: RefreshTokenEntity): RefreshTokenResponseDto {
+    const props = entity.getProps();
+    const response = new RefreshTokenResponseDto(props);
+    response.expiresAt = props.expiresAt.toISOString();
+    response.isActive = entity.isActive;
+    response.createdByIp = props.createdByIp;
+    response.userAgent = props.userAgent;
+    return response;
+  }
+}
@@ -0,0 +1,50 @@
+import { Mapper } from '@libs/ddd';
+import { Injectable } from '@nestjs/common';
+import { RoleEntity } from './domain/entities/role.entity';
+import { RoleModel, roleSchema } from './database/role.repository';
+import { RoleResponseDto } from './dtos/role.response.dto';
+
+@Injectable()
+export class RoleMapper implements Mapper<
+  RoleEntity,
+  RoleModel,
+  RoleResponseDto
+> {
+  toPersistence(entity: RoleEntity): RoleModel {
+    const copy = entity.getProps();
+    // Permissions are stored in "role_permissions" by RoleRepository
+    const record: RoleModel = {
+      id: copy.id,
+      createdAt: copy.createdAt,
+      updatedAt: copy.updatedAt,
+      name: copy.name,
+      description: copy.description ?? null,
+      isActive: copy.isActive,
+    };
+    return roleSchema.parse(record);
+  }
+
+  toDomain(record: RoleModel): RoleEntity {
+    return new RoleEntity({
+      id: record.id,
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt),
+      props: {
+        name: record.name,
+        description: record.description ?? undefined,
+        isActive: record.isActive,
+        permissions: record.permissions ?? [],
+      },
+    });
+  }
+
+  toResponse(entity: RoleEntity): RoleResponseDto {
+    const props = entity.getProps();
+    const response = new RoleResponseDto(props);
+    response.name = props.name;
+    response.description = props.description;
+    response.isActive = props.isActive;
+    response.permissions = [...props.permissions];
+    return response;
+  }
+}
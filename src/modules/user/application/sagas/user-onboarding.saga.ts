@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { Saga, SagaStart, SagaStartOptions, SagaStep } from '@libs/db/sagas';
+import { SendEmailVerificationCommand } from '@modules/auth/commands/send-email-verification/send-email-verification.command';
+import { CreateWalletCommand } from '@modules/wallet/commands/create-wallet/create-wallet.command';
+import { UserCreatedDomainEvent } from '../../domain/events/user-created.domain-event';
+
+export interface UserOnboardingState {
+  userId: string;
+}
+
+/**
+ * Sets up a new user: creates the wallet of the user, then sends the
+ * verification email. Failing steps are retried until their timeout, the
+ * user is kept when they still fail: the saga ends compensated with the
+ * error, to be completed by hand.
+ */
+@Injectable()
+export class UserOnboardingSaga extends Saga<UserOnboardingState> {
+  readonly name = 'user_onboarding';
+
+  readonly steps: SagaStep<UserOnboardingState>[] = [
+    { name: 'create-user' },
+    {
+      name: 'create-wallet',
+      invoke: (state) => new CreateWalletCommand({ userId: state.userId }),
+      timeoutMs: 15 * 60 * 1000,
+    },
+    {
+      name: 'send-email-verification',
+      invoke: (state) =>
+        new SendEmailVerificationCommand({ userId: state.userId }),
+      timeoutMs: 60 * 60 * 1000,
+    },
+  ];
+
+  @SagaStart(UserCreatedDomainEvent.name)
+  start(event: UserCreatedDomainEvent): SagaStartOptions<UserOnboardingState> {
+    return { key: event.aggregateId, state: { userId: event.aggregateId } };
+  }
+}
@@ -0,0 +1,10 @@
+import { Command, CommandProps } from '@libs/ddd';
+
+export class AnonymizeUserCommand extends Command {
+  readonly userId: string;
+
+  constructor(props: CommandProps<AnonymizeUserCommand>) {
+    super(props);
+    this.userId = props.userId;
+  }
+}
@@ -0,0 +1,41 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { UserNotDeletedError } from '@modules/user/domain/user.errors';
+import { USER_REPOSITORY } from '../../user.di-tokens';
+import { AnonymizeUserCommand } from './anonymize-user.command';
+
+/**
+ * Scrubs personal data of a deleted user.
+ * Dispatched by UserAnonymizationScheduler once the retention period
+ * has passed. Anonymizing an anonymized user does nothing.
+ */
+@CommandHandler(AnonymizeUserCommand)
+export class AnonymizeUserService implements ICommandHandler<AnonymizeUserCommand> {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepo: UserRepositoryPort,
+  ) {}
+
+  async execute(
+    command: AnonymizeUserCommand,
+  ): Promise<Result<void, NotFoundException | UserNotDeletedError>> {
+    const found = await this.userRepo.findOneById(command.userId, {
+      withDeleted: true,
+    });
+    if (found.isNone()) return Err(new NotFoundException());
+
+    const user = found.unwrap();
+    const result = user.anonymize();
+    if (result.isErr()) return result;
+
+    // Events of the user are kept for projections, without the personal data
+    await this.userRepo.transaction(async () => {
+      await this.userRepo.update(user);
+      await this.userRepo.redactEvents(user);
+    });
+    return Ok(undefined);
+  }
+}
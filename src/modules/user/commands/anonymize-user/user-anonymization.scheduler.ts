@@ -0,0 +1,118 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { CommandBus } from '@nestjs/cqrs';
+import { randomUUID } from 'crypto';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { USER_REPOSITORY } from '../../user.di-tokens';
+import { AnonymizeUserCommand } from './anonymize-user.command';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+const POLL_INTERVAL_MS = 60 * 60 * 1000;
+
+const BATCH_SIZE = 100;
+
+/**
+ * Periodically anonymizes users that were deleted more than
+ * USER_RETENTION_DAYS days ago, until then they can be restored.
+ */
+@Injectable()
+export class UserAnonymizationScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(UserAnonymizationScheduler.name);
+
+  private timer?: NodeJS.Timeout;
+
+  private running = false;
+
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepo: UserRepositoryPort,
+    private readonly commandBus: CommandBus,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (process.env.USER_ANONYMIZATION_DISABLED === 'true') {
+      this.logger.log('User anonymization is disabled');
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, POLL_INTERVAL_MS);
+    // Do not keep the process alive just because of the scheduler
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Anonymize one batch of users whose retention period is over.
+   * @returns number of anonymized users
+   */
+  async anonymizeExpired(now = new Date()): Promise<number> {
+    const ids = await this.userRepo.findIdsToAnonymize(
+      new Date(now.getTime() - this.getRetentionDays() * DAY_MS),
+      BATCH_SIZE,
+    );
+
+    let anonymized = 0;
+    for (const userId of ids) {
+      // Each user gets its own correlation id, a failure does not stop the batch
+      const result = await RequestContextService.runInContext(
+        { requestId: randomUUID() },
+        () => this.commandBus.execute(new AnonymizeUserCommand({ userId })),
+      ).catch((error: unknown) => {
+        this.logger.error(
+          `Anonymization of user ${userId} failed: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+        );
+        return undefined;
+      });
+      if (result?.isOk()) {
+        anonymized++;
+      }
+    }
+    return anonymized;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const anonymized = await this.anonymizeExpired();
+      if (anonymized > 0) {
+        this.logger.log(`${anonymized} deleted users anonymized`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `User anonymization run failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private getRetentionDays(): number {
+    const days = Number(process.env.USER_RETENTION_DAYS || NaN);
+    return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+  }
+}
@@ -0,0 +1,13 @@
+import { Command, CommandProps } from '@libs/ddd';
+
+export class ChangeUserEmailCommand extends Command {
+  readonly userId: string;
+
+  readonly email: string;
+
+  constructor(props: CommandProps<ChangeUserEmailCommand>) {
+    super(props);
+    this.userId = props.userId;
+    this.email = props.email;
+  }
+}
@@ -0,0 +1,16 @@
+import { ArgsType, Field, InputType } from '@nestjs/graphql';
+import { IsEmail, IsUUID, MaxLength, MinLength } from 'class-validator';
+
+@ArgsType()
+@InputType()
+export class ChangeUserEmailGqlRequestDto {
+  @IsUUID()
+  @Field()
+  readonly userId: string;
+
+  @MaxLength(320)
+  @MinLength(5)
+  @IsEmail()
+  @Field()
+  readonly email: string;
+}
@@ -0,0 +1,31 @@
+import { UseGuards } from '@nestjs/common';
+import { Args, Mutation, Resolver } from '@nestjs/graphql';
+import { CommandBus } from '@nestjs/cqrs';
+import { Result } from 'oxide.ts';
+import { Auth } from '@modules/auth/infrastructure/decorators/auth.decorator';
+import { ResourceOwnerGuard } from '@modules/auth/infrastructure/guards/resource-owner.guard';
+import { IdGqlResponse } from '../create-user/graphql-example/dtos/id.gql-response.dto';
+import { ChangeUserEmailCommand } from './change-user-email.command';
+import { ChangeUserEmailGqlRequestDto } from './change-user-email.gql-request.dto';
+import { ChangeUserEmailError } from './change-user-email.service';
+
+@Resolver()
+export class ChangeUserEmailGraphqlResolver {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Mutation(() => IdGqlResponse)
+  // Guards of the lower decorator run first, the owner check needs the user
+  @UseGuards(ResourceOwnerGuard)
+  @Auth({ permissions: ['user:update', 'user:update-own'] })
+  async changeUserEmail(
+    @Args('input') input: ChangeUserEmailGqlRequestDto,
+  ): Promise<IdGqlResponse> {
+    const command = new ChangeUserEmailCommand(input);
+
+    const result: Result<void, ChangeUserEmailError> =
+      await this.commandBus.execute(command);
+    if (result.isErr()) throw result.unwrapErr();
+
+    return new IdGqlResponse(input.userId);
+  }
+}
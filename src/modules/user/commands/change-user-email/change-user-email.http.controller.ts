@@ -0,0 +1,81 @@
+import {
+  Body,
+  ConflictException as ConflictHttpException,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  Patch,
+  UseGuards,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { CommandBus } from '@nestjs/cqrs';
+import { match, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { Auth } from '@modules/auth/infrastructure/decorators/auth.decorator';
+import { ResourceOwnerGuard } from '@modules/auth/infrastructure/guards/resource-owner.guard';
+import { UserAlreadyExistsError } from '@modules/user/domain/user.errors';
+import { ChangeUserEmailCommand } from './change-user-email.command';
+import { ChangeUserEmailRequestDto } from './change-user-email.request.dto';
+import { ChangeUserEmailError } from './change-user-email.service';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class ChangeUserEmailHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({
+    summary: 'Change the email of a user',
+    description:
+      'A verification token is sent to the new email, the current email is used until it is verified',
+  })
+  @ApiResponse({
+    description: 'Verification email sent',
+    status: HttpStatus.ACCEPTED,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: NotFoundException.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: UserAlreadyExistsError.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Users can only change their own email',
+    type: ApiErrorResponse,
+  })
+  // Guards of the lower decorator run first, the owner check needs the user
+  @UseGuards(ResourceOwnerGuard)
+  @Auth({ permissions: ['user:update', 'user:update-own'] })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Patch(routesV1.user.email)
+  async changeEmail(
+    @Param('id') id: string,
+    @Body() body: ChangeUserEmailRequestDto,
+  ): Promise<void> {
+    const command = new ChangeUserEmailCommand({
+      userId: id,
+      email: body.email,
+    });
+    const result: Result<void, ChangeUserEmailError> =
+      await this.commandBus.execute(command);
+
+    match(result, {
+      Ok: () => undefined,
+      Err: (error: Error) => {
+        if (error instanceof NotFoundException)
+          throw new NotFoundHttpException(error.message);
+        if (error instanceof UserAlreadyExistsError)
+          throw new ConflictHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
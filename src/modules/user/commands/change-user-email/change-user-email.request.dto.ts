@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, MaxLength, MinLength } from 'class-validator';
+
+export class ChangeUserEmailRequestDto {
+  @ApiProperty({
+    example: 'john@gmail.com',
+    description: 'New email address, used once it is verified',
+  })
+  @MaxLength(320)
+  @MinLength(5)
+  @IsEmail()
+  readonly email: string;
+}
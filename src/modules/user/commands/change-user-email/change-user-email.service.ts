@@ -0,0 +1,42 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { UserAlreadyExistsError } from '@modules/user/domain/user.errors';
+import { USER_REPOSITORY } from '../../user.di-tokens';
+import { ChangeUserEmailCommand } from './change-user-email.command';
+
+export type ChangeUserEmailError = NotFoundException | UserAlreadyExistsError;
+
+/**
+ * Stores the new email as pending. It replaces the current email only
+ * after it is verified with the token that is sent to the new address.
+ */
+@CommandHandler(ChangeUserEmailCommand)
+export class ChangeUserEmailService implements ICommandHandler<ChangeUserEmailCommand> {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepo: UserRepositoryPort,
+  ) {}
+
+  async execute(
+    command: ChangeUserEmailCommand,
+  ): Promise<Result<void, ChangeUserEmailError>> {
+    const found = await this.userRepo.findOneById(command.userId);
+    if (found.isNone()) return Err(new NotFoundException());
+
+    const user = found.unwrap();
+    if (command.email === user.pendingEmail) return Ok(undefined);
+    if (
+      command.email !== user.email &&
+      (await this.userRepo.existsByEmail(command.email))
+    ) {
+      return Err(new UserAlreadyExistsError());
+    }
+
+    user.requestEmailChange(command.email);
+    await this.userRepo.transaction(async () => this.userRepo.update(user));
+    return Ok(undefined);
+  }
+}
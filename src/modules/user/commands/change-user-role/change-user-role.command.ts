@@ -0,0 +1,18 @@
+import { Command, CommandProps } from '@libs/ddd';
+import { UserRoles } from '@modules/user/domain/user.types';
+
+export class ChangeUserRoleCommand extends Command {
+  readonly userId: string;
+
+  readonly role: UserRoles;
+
+  /** Id of the authenticated user that changes the role */
+  readonly performedBy: string;
+
+  constructor(props: CommandProps<ChangeUserRoleCommand>) {
+    super(props);
+    this.userId = props.userId;
+    this.role = props.role;
+    this.performedBy = props.performedBy;
+  }
+}
@@ -0,0 +1,15 @@
+import { ArgsType, Field, InputType } from '@nestjs/graphql';
+import { IsEnum, IsUUID } from 'class-validator';
+import { UserRoles } from '@modules/user/dtos/graphql/user-roles.graphql-enum';
+
+@ArgsType()
+@InputType()
+export class ChangeUserRoleGqlRequestDto {
+  @IsUUID()
+  @Field()
+  readonly userId: string;
+
+  @IsEnum(UserRoles)
+  @Field(() => UserRoles)
+  readonly role: UserRoles;
+}
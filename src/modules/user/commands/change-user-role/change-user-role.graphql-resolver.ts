@@ -0,0 +1,35 @@
+import { Args, Mutation, Resolver } from '@nestjs/graphql';
+import { CommandBus } from '@nestjs/cqrs';
+import { Result } from 'oxide.ts';
+import { Auth } from '@modules/auth/infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '@modules/auth/infrastructure/decorators/current-user.decorator';
+import { IdGqlResponse } from '../create-user/graphql-example/dtos/id.gql-response.dto';
+import { ChangeUserRoleCommand } from './change-user-role.command';
+import { ChangeUserRoleGqlRequestDto } from './change-user-role.gql-request.dto';
+import { ChangeUserRoleError } from './change-user-role.service';
+
+@Resolver()
+export class ChangeUserRoleGraphqlResolver {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Mutation(() => IdGqlResponse)
+  @Auth({ roles: ['admin', 'moderator'], permissions: ['role:assign'] })
+  async changeUserRole(
+    @Args('input') input: ChangeUserRoleGqlRequestDto,
+    @CurrentUser() performer: AuthenticatedUser,
+  ): Promise<IdGqlResponse> {
+    const command = new ChangeUserRoleCommand({
+      ...input,
+      performedBy: performer.sub,
+    });
+
+    const result: Result<void, ChangeUserRoleError> =
+      await this.commandBus.execute(command);
+    if (result.isErr()) throw result.unwrapErr();
+
+    return new IdGqlResponse(input.userId);
+  }
+}
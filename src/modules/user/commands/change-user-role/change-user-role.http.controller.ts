@@ -0,0 +1,74 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException as ForbiddenHttpException,
+  HttpCode,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  Put,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { CommandBus } from '@nestjs/cqrs';
+import { match, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { Auth } from '@modules/auth/infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '@modules/auth/infrastructure/decorators/current-user.decorator';
+import { UserRoleChangeNotAllowedError } from '@modules/user/domain/user.errors';
+import { ChangeUserRoleCommand } from './change-user-role.command';
+import { ChangeUserRoleRequestDto } from './change-user-role.request.dto';
+import { ChangeUserRoleError } from './change-user-role.service';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class ChangeUserRoleHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({ summary: 'Change the role of a user' })
+  @ApiResponse({
+    description: 'Role changed',
+    status: HttpStatus.NO_CONTENT,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: NotFoundException.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: UserRoleChangeNotAllowedError.message,
+    type: ApiErrorResponse,
+  })
+  @Auth({ roles: ['admin', 'moderator'], permissions: ['role:assign'] })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Put(routesV1.user.role)
+  async changeRole(
+    @Param('id') id: string,
+    @Body() body: ChangeUserRoleRequestDto,
+    @CurrentUser() performer: AuthenticatedUser,
+  ): Promise<void> {
+    const command = new ChangeUserRoleCommand({
+      userId: id,
+      role: body.role,
+      performedBy: performer.sub,
+    });
+    const result: Result<void, ChangeUserRoleError> =
+      await this.commandBus.execute(command);
+
+    match(result, {
+      Ok: () => undefined,
+      Err: (error: Error) => {
+        if (error instanceof NotFoundException)
+          throw new NotFoundHttpException(error.message);
+        if (error instanceof UserRoleChangeNotAllowedError)
+          throw new ForbiddenHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
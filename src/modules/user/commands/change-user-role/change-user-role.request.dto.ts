@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { UserRoles } from '@modules/user/domain/user.types';
+
+export class ChangeUserRoleRequestDto {
+  @ApiProperty({
+    enum: UserRoles,
+    example: UserRoles.moderator,
+    description: 'New role of the user',
+  })
+  @IsEnum(UserRoles)
+  readonly role: UserRoles;
+}
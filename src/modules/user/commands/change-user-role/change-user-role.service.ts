@@ -0,0 +1,54 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { UserDomainService } from '@modules/user/domain/services/user-domain.service';
+import { UserRoleChangeNotAllowedError } from '@modules/user/domain/user.errors';
+import { USER_REPOSITORY } from '../../user.di-tokens';
+import { ChangeUserRoleCommand } from './change-user-role.command';
+
+export type ChangeUserRoleError =
+  NotFoundException | UserRoleChangeNotAllowedError;
+
+/**
+ * Changes the role of a user on behalf of another user.
+ * Who may grant which role is decided by UserDomainService.changeUserRole.
+ */
+@CommandHandler(ChangeUserRoleCommand)
+export class ChangeUserRoleService implements ICommandHandler<ChangeUserRoleCommand> {
+  private readonly userDomainService = new UserDomainService();
+
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepo: UserRepositoryPort,
+  ) {}
+
+  async execute(
+    command: ChangeUserRoleCommand,
+  ): Promise<Result<void, ChangeUserRoleError>> {
+    const found = await this.userRepo.findOneById(command.userId);
+    if (found.isNone()) return Err(new NotFoundException());
+
+    const performer = await this.userRepo.findOneById(command.performedBy);
+    if (performer.isNone()) return Err(new UserRoleChangeNotAllowedError());
+
+    const user = found.unwrap();
+    const { success, error } = this.userDomainService.changeUserRole(
+      user,
+      command.role,
+      performer.unwrap(),
+    );
+    if (!success) {
+      return Err(
+        new UserRoleChangeNotAllowedError({
+          reason: error?.code,
+          ...error?.details,
+        }),
+      );
+    }
+
+    await this.userRepo.transaction(async () => this.userRepo.update(user));
+    return Ok(undefined);
+  }
+}
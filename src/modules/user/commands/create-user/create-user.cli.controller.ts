@@ -3,6 +3,7 @@ import { Command, Console } from 'nestjs-console';
 import { CommandBus } from '@nestjs/cqrs';
 import { CreateUserCommand } from './create-user.command';
 import { LoggerPort } from '@libs/ports/logger.port';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
 
 // Allows creating a user using CLI (Command Line Interface)
 @Console({
@@ -26,15 +27,18 @@ export class CreateUserCliController {
     postalCode: string,
     street: string,
   ): Promise<void> {
-    const command = new CreateUserCommand({
-      email,
-      country,
-      postalCode,
-      street,
-    });
+    // Every CLI invocation is a request of its own
+    await RequestContextService.runInContext({}, async () => {
+      const command = new CreateUserCommand({
+        email,
+        country,
+        postalCode,
+        street,
+      });
 
-    const result = await this.commandBus.execute(command);
+      const result = await this.commandBus.execute(command);
 
-    this.logger.log('User created:', result.unwrap());
+      this.logger.log('User created:', result.unwrap());
+    });
   }
 }
@@ -6,7 +6,12 @@ import {
   Post,
 } from '@nestjs/common';
 import { routesV1 } from '@config/app.routes';
-import { ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiHeader,
+} from '@nestjs/swagger';
 import { CommandBus } from '@nestjs/cqrs';
 import { match, Result } from 'oxide.ts';
 import { CreateUserCommand } from './create-user.command';
@@ -16,6 +21,7 @@ import { IdResponse } from '@libs/api/id.response.dto';
 import { AggregateID } from '@libs/ddd';
 import { ApiErrorResponse } from '@src/libs/api/api-error.response';
 import { RequirePermissions } from '@modules/auth/infrastructure/decorators/auth.decorator';
+import { Idempotent } from '@libs/db/idempotency';
 
 @Controller(routesV1.version)
 @ApiBearerAuth()
@@ -23,6 +29,12 @@ export class CreateUserHttpController {
   constructor(private readonly commandBus: CommandBus) {}
 
   @ApiOperation({ summary: 'Create a user' })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    required: false,
+    description:
+      'Repeating a request with the same key returns its first response',
+  })
   @ApiResponse({
     status: HttpStatus.OK,
     type: IdResponse,
@@ -42,6 +54,7 @@ export class CreateUserHttpController {
     type: ApiErrorResponse,
   })
   @RequirePermissions(['user:create'])
+  @Idempotent('user.create')
   @Post(routesV1.user.root)
   async create(@Body() body: CreateUserRequestDto): Promise<IdResponse> {
     const command = new CreateUserCommand(body);
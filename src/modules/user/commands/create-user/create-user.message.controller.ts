@@ -4,12 +4,14 @@ import { CommandBus } from '@nestjs/cqrs';
 import { CreateUserCommand } from './create-user.command';
 import { CreateUserRequestDto } from './create-user.request.dto';
 import { IdResponse } from '@libs/api/id.response.dto';
+import { Idempotent } from '@libs/db/idempotency';
 
 @Controller()
 export class CreateUserMessageController {
   constructor(private readonly commandBus: CommandBus) {}
 
   @MessagePattern('user.create') // <- Subscribe to a microservice message
+  @Idempotent('user.create') // <- Redelivered messages with the same idempotencyKey are not executed again
   async create(message: CreateUserRequestDto): Promise<IdResponse> {
     const command = new CreateUserCommand(message);
 
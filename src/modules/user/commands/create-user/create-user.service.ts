@@ -30,8 +30,8 @@ export class CreateUserService implements ICommandHandler<CreateUserCommand> {
     });
 
     try {
-      /* Wrapping operation in a transaction to make sure
-         that all domain events are processed atomically */
+      /* Wrapping operation in a transaction to make sure that the user
+         and its domain events (stored in the outbox) are saved atomically */
       await this.userRepo.transaction(async () => this.userRepo.insert(user));
       return Ok(user.id);
     } catch (error: any) {
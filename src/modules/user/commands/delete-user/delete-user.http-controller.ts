@@ -13,8 +13,9 @@ import { NotFoundException } from '@libs/exceptions';
 import { ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { ApiErrorResponse } from '@src/libs/api/api-error.response';
 import { RequirePermissions } from '@modules/auth/infrastructure/decorators/auth.decorator';
-import { ResourceOwnerGuard } from '@modules/auth/infrastructure/guards/resource-owner.guard';
-import { UseGuards } from '@nestjs/common';
+import { Policy } from '@modules/auth/infrastructure/decorators/policy.decorator';
+import { UserPolicies } from '@modules/user/domain/policies/user.policies';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
 
 @Controller(routesV1.version)
 @ApiBearerAuth()
@@ -33,11 +34,14 @@ export class DeleteUserHttpController {
   })
   @ApiResponse({
     status: HttpStatus.FORBIDDEN,
-    description: 'Insufficient permissions or not resource owner',
+    description: 'Only admins may delete the account of other users',
     type: ApiErrorResponse,
   })
   @RequirePermissions(['user:delete'])
-  @UseGuards(ResourceOwnerGuard)
+  @Policy(UserPolicies.delete, {
+    action: 'user:delete',
+    resource: { repository: USER_DI_TOKENS.UserRepository, param: 'id' },
+  })
   @Delete(routesV1.user.delete)
   async deleteUser(@Param('id') id: string): Promise<void> {
     const command = new DeleteUserCommand({ userId: id });
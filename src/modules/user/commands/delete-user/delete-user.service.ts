@@ -26,8 +26,10 @@ export class DeleteUserService {
     const found = await this.userRepo.findOneById(command.userId);
     if (found.isNone()) return Err(new NotFoundException());
     const user = found.unwrap();
+    /* Users are soft deleted, the row is kept until it is anonymized
+       by AnonymizeUserCommand after the retention period */
     user.delete();
-    const result = await this.userRepo.delete(user);
-    return Ok(result);
+    await this.userRepo.transaction(async () => this.userRepo.update(user));
+    return Ok(true);
   }
 }
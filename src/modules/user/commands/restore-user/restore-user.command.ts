@@ -0,0 +1,10 @@
+import { Command, CommandProps } from '@libs/ddd';
+
+export class RestoreUserCommand extends Command {
+  readonly userId: string;
+
+  constructor(props: CommandProps<RestoreUserCommand>) {
+    super(props);
+    this.userId = props.userId;
+  }
+}
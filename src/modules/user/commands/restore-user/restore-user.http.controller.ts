@@ -0,0 +1,75 @@
+import {
+  ConflictException as ConflictHttpException,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { CommandBus } from '@nestjs/cqrs';
+import { match, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import {
+  AdminOnly,
+  RequirePermissions,
+} from '@modules/auth/infrastructure/decorators/auth.decorator';
+import {
+  UserAlreadyAnonymizedError,
+  UserNotDeletedError,
+} from '@modules/user/domain/user.errors';
+import { RestoreUserCommand } from './restore-user.command';
+import { RestoreUserError } from './restore-user.service';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class RestoreUserHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({ summary: 'Restore a deleted user' })
+  @ApiResponse({
+    description: 'User restored',
+    status: HttpStatus.NO_CONTENT,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: NotFoundException.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: `${UserNotDeletedError.message} / ${UserAlreadyAnonymizedError.message}`,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Insufficient permissions',
+    type: ApiErrorResponse,
+  })
+  @AdminOnly()
+  @RequirePermissions(['user:delete'])
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Post(routesV1.user.restore)
+  async restore(@Param('id') id: string): Promise<void> {
+    const command = new RestoreUserCommand({ userId: id });
+    const result: Result<void, RestoreUserError> =
+      await this.commandBus.execute(command);
+
+    match(result, {
+      Ok: () => undefined,
+      Err: (error: Error) => {
+        if (error instanceof NotFoundException)
+          throw new NotFoundHttpException(error.message);
+        if (
+          error instanceof UserNotDeletedError ||
+          error instanceof UserAlreadyAnonymizedError
+        )
+          throw new ConflictHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import {
+  UserAlreadyAnonymizedError,
+  UserNotDeletedError,
+} from '@modules/user/domain/user.errors';
+import { USER_REPOSITORY } from '../../user.di-tokens';
+import { RestoreUserCommand } from './restore-user.command';
+
+export type RestoreUserError =
+  NotFoundException | UserNotDeletedError | UserAlreadyAnonymizedError;
+
+/**
+ * Brings back a soft deleted user. Not possible anymore once
+ * the user has been anonymized.
+ */
+@CommandHandler(RestoreUserCommand)
+export class RestoreUserService implements ICommandHandler<RestoreUserCommand> {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepo: UserRepositoryPort,
+  ) {}
+
+  async execute(
+    command: RestoreUserCommand,
+  ): Promise<Result<void, RestoreUserError>> {
+    const found = await this.userRepo.findOneById(command.userId, {
+      withDeleted: true,
+    });
+    if (found.isNone()) return Err(new NotFoundException());
+
+    const user = found.unwrap();
+    const result = user.restore();
+    if (result.isErr()) return result;
+
+    await this.userRepo.transaction(async () => this.userRepo.update(user));
+    return Ok(undefined);
+  }
+}
@@ -0,0 +1,19 @@
+import { Command, CommandProps } from '@libs/ddd';
+
+export class UpdateUserAddressCommand extends Command {
+  readonly userId: string;
+
+  readonly country?: string;
+
+  readonly postalCode?: string;
+
+  readonly street?: string;
+
+  constructor(props: CommandProps<UpdateUserAddressCommand>) {
+    super(props);
+    this.userId = props.userId;
+    this.country = props.country;
+    this.postalCode = props.postalCode;
+    this.street = props.street;
+  }
+}
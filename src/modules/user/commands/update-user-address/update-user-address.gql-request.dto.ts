@@ -0,0 +1,40 @@
+import { ArgsType, Field, InputType } from '@nestjs/graphql';
+import {
+  IsAlphanumeric,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+@ArgsType()
+@InputType()
+export class UpdateUserAddressGqlRequestDto {
+  @IsUUID()
+  @Field()
+  readonly userId: string;
+
+  @IsOptional()
+  @MaxLength(50)
+  @MinLength(4)
+  @IsString()
+  @Matches(/^[a-zA-Z ]*$/)
+  @Field({ nullable: true })
+  readonly country?: string;
+
+  @IsOptional()
+  @MaxLength(10)
+  @MinLength(4)
+  @IsAlphanumeric()
+  @Field({ nullable: true })
+  readonly postalCode?: string;
+
+  @IsOptional()
+  @MaxLength(50)
+  @MinLength(5)
+  @Matches(/^[a-zA-Z ]*$/)
+  @Field({ nullable: true })
+  readonly street?: string;
+}
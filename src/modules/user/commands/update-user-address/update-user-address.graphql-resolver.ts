@@ -0,0 +1,31 @@
+import { UseGuards } from '@nestjs/common';
+import { Args, Mutation, Resolver } from '@nestjs/graphql';
+import { CommandBus } from '@nestjs/cqrs';
+import { Result } from 'oxide.ts';
+import { Auth } from '@modules/auth/infrastructure/decorators/auth.decorator';
+import { ResourceOwnerGuard } from '@modules/auth/infrastructure/guards/resource-owner.guard';
+import { IdGqlResponse } from '../create-user/graphql-example/dtos/id.gql-response.dto';
+import { UpdateUserAddressCommand } from './update-user-address.command';
+import { UpdateUserAddressGqlRequestDto } from './update-user-address.gql-request.dto';
+import { UpdateUserAddressError } from './update-user-address.service';
+
+@Resolver()
+export class UpdateUserAddressGraphqlResolver {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Mutation(() => IdGqlResponse)
+  // Guards of the lower decorator run first, the owner check needs the user
+  @UseGuards(ResourceOwnerGuard)
+  @Auth({ permissions: ['user:update', 'user:update-own'] })
+  async updateUserAddress(
+    @Args('input') input: UpdateUserAddressGqlRequestDto,
+  ): Promise<IdGqlResponse> {
+    const command = new UpdateUserAddressCommand(input);
+
+    const result: Result<void, UpdateUserAddressError> =
+      await this.commandBus.execute(command);
+    if (result.isErr()) throw result.unwrapErr();
+
+    return new IdGqlResponse(input.userId);
+  }
+}
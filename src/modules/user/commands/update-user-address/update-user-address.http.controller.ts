@@ -0,0 +1,70 @@
+import {
+  BadRequestException as BadRequestHttpException,
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  Patch,
+  UseGuards,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { CommandBus } from '@nestjs/cqrs';
+import { match, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { Auth } from '@modules/auth/infrastructure/decorators/auth.decorator';
+import { ResourceOwnerGuard } from '@modules/auth/infrastructure/guards/resource-owner.guard';
+import { UpdateUserAddressCommand } from './update-user-address.command';
+import { UpdateUserAddressRequestDto } from './update-user-address.request.dto';
+import { UpdateUserAddressError } from './update-user-address.service';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class UpdateUserAddressHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({ summary: 'Update the address of a user' })
+  @ApiResponse({
+    description: 'Address updated',
+    status: HttpStatus.NO_CONTENT,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: NotFoundException.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Users can only update their own address',
+    type: ApiErrorResponse,
+  })
+  // Guards of the lower decorator run first, the owner check needs the user
+  @UseGuards(ResourceOwnerGuard)
+  @Auth({ permissions: ['user:update', 'user:update-own'] })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Patch(routesV1.user.address)
+  async updateAddress(
+    @Param('id') id: string,
+    @Body() body: UpdateUserAddressRequestDto,
+  ): Promise<void> {
+    const command = new UpdateUserAddressCommand({ userId: id, ...body });
+    const result: Result<void, UpdateUserAddressError> =
+      await this.commandBus.execute(command);
+
+    match(result, {
+      Ok: () => undefined,
+      Err: (error: Error) => {
+        if (error instanceof NotFoundException)
+          throw new NotFoundHttpException(error.message);
+        throw new BadRequestHttpException(error.message);
+      },
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsAlphanumeric,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+/** Fields that are not sent keep their current value */
+export class UpdateUserAddressRequestDto {
+  @ApiPropertyOptional({
+    example: 'France',
+    description: 'Country of residence',
+  })
+  @IsOptional()
+  @MaxLength(50)
+  @MinLength(4)
+  @IsString()
+  @Matches(/^[a-zA-Z ]*$/)
+  readonly country?: string;
+
+  @ApiPropertyOptional({ example: '28566', description: 'Postal code' })
+  @IsOptional()
+  @MaxLength(10)
+  @MinLength(4)
+  @IsAlphanumeric()
+  readonly postalCode?: string;
+
+  @ApiPropertyOptional({ example: 'Grande Rue', description: 'Street' })
+  @IsOptional()
+  @MaxLength(50)
+  @MinLength(5)
+  @Matches(/^[a-zA-Z ]*$/)
+  readonly street?: string;
+}
@@ -0,0 +1,44 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import {
+  ArgumentOutOfRangeException,
+  NotFoundException,
+} from '@libs/exceptions';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { USER_REPOSITORY } from '../../user.di-tokens';
+import { UpdateUserAddressCommand } from './update-user-address.command';
+
+export type UpdateUserAddressError =
+  NotFoundException | ArgumentOutOfRangeException;
+
+@CommandHandler(UpdateUserAddressCommand)
+export class UpdateUserAddressService implements ICommandHandler<UpdateUserAddressCommand> {
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly userRepo: UserRepositoryPort,
+  ) {}
+
+  async execute(
+    command: UpdateUserAddressCommand,
+  ): Promise<Result<void, UpdateUserAddressError>> {
+    const found = await this.userRepo.findOneById(command.userId);
+    if (found.isNone()) return Err(new NotFoundException());
+
+    const user = found.unwrap();
+    try {
+      user.updateAddress({
+        country: command.country,
+        postalCode: command.postalCode,
+        street: command.street,
+      });
+    } catch (error) {
+      // Raised by the Address value object
+      if (error instanceof ArgumentOutOfRangeException) return Err(error);
+      throw error;
+    }
+
+    await this.userRepo.transaction(async () => this.userRepo.update(user));
+    return Ok(undefined);
+  }
+}
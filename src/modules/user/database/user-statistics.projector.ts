@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseTransactionConnection, sql } from 'slonik';
+import { ProjectionHandler, Projector } from '@libs/db/projections';
+import { UserCreatedDomainEvent } from '../domain/events/user-created.domain-event';
+import { UserAddressUpdatedDomainEvent } from '../domain/events/user-address-updated.domain-event';
+import { UserDeletedDomainEvent } from '../domain/events/user-deleted.domain-event';
+import { UserRestoredDomainEvent } from '../domain/events/user-restored.domain-event';
+
+export const USER_STATISTICS_PROJECTION_TABLE = 'user_statistics_projection';
+
+/**
+ * Country and lifecycle of every user, the "user_statistics" view
+ * aggregates them by country
+ */
+@Injectable()
+export class UserStatisticsProjector extends Projector {
+  readonly name = 'user_statistics';
+
+  protected readonly tables = [USER_STATISTICS_PROJECTION_TABLE];
+
+  private readonly table = sql.identifier([USER_STATISTICS_PROJECTION_TABLE]);
+
+  @ProjectionHandler(UserCreatedDomainEvent.name)
+  async onUserCreated(
+    event: UserCreatedDomainEvent,
+    connection: DatabaseTransactionConnection,
+  ): Promise<void> {
+    await connection.query(sql.unsafe`
+      INSERT INTO ${this.table} ("userId", "country", "createdAt")
+      VALUES (
+        ${event.aggregateId},
+        ${event.country},
+        ${sql.timestamp(new Date(event.metadata.timestamp))}
+      )
+      ON CONFLICT ("userId") DO NOTHING
+    `);
+  }
+
+  @ProjectionHandler(UserAddressUpdatedDomainEvent.name)
+  async onUserAddressUpdated(
+    event: UserAddressUpdatedDomainEvent,
+    connection: DatabaseTransactionConnection,
+  ): Promise<void> {
+    await connection.query(sql.unsafe`
+      UPDATE ${this.table} SET "country" = ${event.country}
+      WHERE "userId" = ${event.aggregateId}
+    `);
+  }
+
+  @ProjectionHandler(UserDeletedDomainEvent.name)
+  async onUserDeleted(
+    event: UserDeletedDomainEvent,
+    connection: DatabaseTransactionConnection,
+  ): Promise<void> {
+    await connection.query(sql.unsafe`
+      UPDATE ${this.table}
+      SET "deletedAt" = ${sql.timestamp(new Date(event.deletedAt))}
+      WHERE "userId" = ${event.aggregateId}
+    `);
+  }
+
+  @ProjectionHandler(UserRestoredDomainEvent.name)
+  async onUserRestored(
+    event: UserRestoredDomainEvent,
+    connection: DatabaseTransactionConnection,
+  ): Promise<void> {
+    await connection.query(sql.unsafe`
+      UPDATE ${this.table} SET "deletedAt" = NULL
+      WHERE "userId" = ${event.aggregateId}
+    `);
+  }
+}
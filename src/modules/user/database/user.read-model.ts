@@ -0,0 +1,32 @@
+import { sql } from 'slonik';
+import { z } from 'zod';
+import { userSchema } from './user.repository';
+
+/**
+ * Columns of the users table that queries may return.
+ * Password hashes, tokens and lockout state are only loaded by
+ * UserRepository, the read side never selects them.
+ */
+export const userReadModelSchema = userSchema.pick({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  email: true,
+  country: true,
+  postalCode: true,
+  street: true,
+  role: true,
+  isActive: true,
+  isEmailVerified: true,
+  lastLoginAt: true,
+});
+
+export type UserReadModel = z.TypeOf<typeof userReadModelSchema>;
+
+/** Select list of the read model, use instead of `SELECT *` */
+export const userReadModelColumns = sql.join(
+  Object.keys(userReadModelSchema.shape).map((column) =>
+    sql.identifier(['users', column]),
+  ),
+  sql.fragment`, `,
+);
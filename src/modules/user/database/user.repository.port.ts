@@ -1,5 +1,6 @@
-import { PaginatedQueryParams, RepositoryPort } from '@libs/ddd';
+import { Paginated, PaginatedQueryParams, RepositoryPort } from '@libs/ddd';
 import { UserEntity } from '../domain/user.entity';
+import { UserSpecification } from '../domain/specifications/user.specifications';
 import { Option } from 'oxide.ts';
 
 export interface FindUsersParams extends PaginatedQueryParams {
@@ -9,6 +10,27 @@ export interface FindUsersParams extends PaginatedQueryParams {
 }
 
 export interface UserRepositoryPort extends RepositoryPort<UserEntity> {
+  /** Deleted users are returned only when `withDeleted` is set */
+  findOneById(
+    id: string,
+    options?: { withDeleted?: boolean },
+  ): Promise<Option<UserEntity>>;
   findOneByEmail(email: string): Promise<UserEntity | null>;
   findByEmail(email: string): Promise<Option<UserEntity>>;
+  /** Same as findByEmail, but returns inactive users too */
+  findByEmailForAuth(email: string): Promise<UserEntity | null>;
+  findOneByPasswordResetToken(tokenHash: string): Promise<Option<UserEntity>>;
+  findOneByEmailVerificationToken(
+    tokenHash: string,
+  ): Promise<Option<UserEntity>>;
+  /** Deleted users that are not anonymized yet keep their email */
+  existsByEmail(email: string): Promise<boolean>;
+  /** Filters in the database, see UserSpecification.toSql() */
+  findBySpecification(
+    specification: UserSpecification,
+    params: PaginatedQueryParams,
+  ): Promise<Paginated<UserEntity>>;
+  findIdsToAnonymize(deletedBefore: Date, limit: number): Promise<string[]>;
+  /** Scrubs personal data from the outbox payloads of the user's events */
+  redactEvents(user: UserEntity): Promise<void>;
 }
@@ -7,7 +7,15 @@ import { SqlRepositoryBase } from '@src/libs/db/sql-repository.base';
 import { UserRepositoryPort } from './user.repository.port';
 import { UserMapper } from '../user.mapper';
 import { UserRoles } from '../domain/user.types';
-import { UserEntity } from '../domain/user.entity';
+import { ANONYMIZED_VALUE, UserEntity } from '../domain/user.entity';
+import { UserSpecification } from '../domain/specifications/user.specifications';
+import { Paginated, PaginatedQueryParams } from '@libs/ddd';
+import { None, Option, Some } from 'oxide.ts';
+
+const nullableDate = z.preprocess(
+  (val: any) => (val === null || val === undefined ? null : new Date(val)),
+  z.date().nullable(),
+);
 
 /**
  * Runtime validation of user object for extra safety (in case database schema changes).
@@ -18,15 +26,42 @@ export const userSchema = z.object({
   id: z.string().uuid(),
   createdAt: z.preprocess((val: any) => new Date(val), z.date()),
   updatedAt: z.preprocess((val: any) => new Date(val), z.date()),
+  version: z.number().int().positive(),
   email: z.string().email(),
+  pendingEmail: z.string().email().nullable(),
   country: z.string().min(1).max(255),
   postalCode: z.string().min(1).max(20),
   street: z.string().min(1).max(255),
   role: z.nativeEnum(UserRoles),
+  // Authentication fields
+  password: z.string().nullable(),
+  isActive: z.boolean(),
+  isEmailVerified: z.boolean(),
+  /** SHA-256 hash of the token sent to the user, never the token itself */
+  emailVerificationToken: z.string().nullable(),
+  emailVerificationTokenExpiresAt: nullableDate,
+  emailVerificationTokenSentTo: z.string().email().nullable(),
+  /** SHA-256 hash of the token sent to the user, never the token itself */
+  passwordResetToken: z.string().nullable(),
+  passwordResetTokenExpiresAt: nullableDate,
+  lastLoginAt: nullableDate,
+  loginAttempts: z.number().int().nonnegative(),
+  lockedUntil: nullableDate,
+  deletedAt: nullableDate,
+  anonymizedAt: nullableDate,
 });
 
 export type UserModel = z.TypeOf<typeof userSchema>;
 
+/** Payload fields of user events that hold personal data */
+const PERSONAL_EVENT_FIELDS = [
+  'email',
+  'previousEmail',
+  'country',
+  'postalCode',
+  'street',
+];
+
 /**
  *  Repository is used for retrieving/saving domain entities
  * */
@@ -39,6 +74,8 @@ export class UserRepository
 
   protected schema = userSchema;
 
+  protected softDeleteColumn = 'deletedAt';
+
   constructor(
     @Inject(DATABASE_POOL_TOKEN)
     pool: DatabasePool,
@@ -55,7 +92,8 @@ export class UserRepository
         street = ${address.street}, 
         country = ${address.country}, 
         "postalCode" = ${address.postalCode},
-        "updatedAt" = ${sql.timestamp(new Date())}
+        "updatedAt" = ${sql.timestamp(new Date())},
+        "version" = "version" + 1
       WHERE id = ${user.id}
     `;
 
@@ -68,7 +106,7 @@ export class UserRepository
       const result = await this.executeQuery(
         sql.type(userSchema)`
           SELECT * FROM "users"
-          WHERE email = ${email} AND "isActive" = true
+          WHERE email = ${email} AND "isActive" = true AND "deletedAt" IS NULL
           LIMIT 1
         `,
         'findOneByEmail',
@@ -87,7 +125,8 @@ export class UserRepository
   }
 
   /**
-   * Find user by email for authentication (includes inactive users)
+   * Find user by email for authentication (includes inactive users,
+   * deleted users cannot log in)
    */
   async findByEmailForAuth(email: string): Promise<UserEntity | null> {
     try {
@@ -95,7 +134,7 @@ export class UserRepository
       const result = await this.executeQuery(
         sql.type(userSchema)`
           SELECT * FROM "users"
-          WHERE email = ${email}
+          WHERE email = ${email} AND "deletedAt" IS NULL
           LIMIT 1
         `,
         'findByEmailForAuth',
@@ -115,6 +154,57 @@ export class UserRepository
     }
   }
 
+  async findByEmail(email: string): Promise<Option<UserEntity>> {
+    const user = await this.findByEmailForAuth(email);
+    return user ? Some(user) : None;
+  }
+
+  /**
+   * Find user by the hash of a password reset token
+   */
+  async findOneByPasswordResetToken(
+    tokenHash: string,
+  ): Promise<Option<UserEntity>> {
+    // Uses index: IDX_users_password_reset_token
+    const result = await this.executeQuery(
+      sql.type(userSchema)`
+        SELECT * FROM "users"
+        WHERE "passwordResetToken" = ${tokenHash} AND "deletedAt" IS NULL
+        LIMIT 1
+      `,
+      'findOneByPasswordResetToken',
+    );
+
+    if (result.rows.length === 0) {
+      return None;
+    }
+
+    return Some(this.mapper.toDomain(this.schema.parse(result.rows[0])));
+  }
+
+  /**
+   * Find user by the hash of an email verification token
+   */
+  async findOneByEmailVerificationToken(
+    tokenHash: string,
+  ): Promise<Option<UserEntity>> {
+    // Uses index: IDX_users_email_verification_token
+    const result = await this.executeQuery(
+      sql.type(userSchema)`
+        SELECT * FROM "users"
+        WHERE "emailVerificationToken" = ${tokenHash} AND "deletedAt" IS NULL
+        LIMIT 1
+      `,
+      'findOneByEmailVerificationToken',
+    );
+
+    if (result.rows.length === 0) {
+      return None;
+    }
+
+    return Some(this.mapper.toDomain(this.schema.parse(result.rows[0])));
+  }
+
   /**
    * Find users by role with pagination support
    */
@@ -127,7 +217,7 @@ export class UserRepository
       const result = await this.executeQuery(
         sql.type(userSchema)`
           SELECT * FROM "users" 
-          WHERE role = ${role}
+          WHERE role = ${role} AND "deletedAt" IS NULL
           ORDER BY "createdAt" DESC
           LIMIT ${limit} OFFSET ${offset}
         `,
@@ -149,7 +239,58 @@ export class UserRepository
   }
 
   /**
-   * Check if user exists by email
+   * Users satisfying the specification, newest first.
+   * Deleted users are skipped like in the other finders.
+   */
+  async findBySpecification(
+    specification: UserSpecification,
+    params: PaginatedQueryParams,
+  ): Promise<Paginated<UserEntity>> {
+    return this.findAllPaginated(params, {
+      where: specification.toSql(),
+      orderBy: 'createdAt',
+      orderDirection: 'DESC',
+    });
+  }
+
+  /**
+   * Find ids of users deleted before the given date
+   * whose personal data has not been anonymized yet
+   */
+  async findIdsToAnonymize(
+    deletedBefore: Date,
+    limit: number,
+  ): Promise<string[]> {
+    const result = await this.executeQuery(
+      sql.type(z.object({ id: z.string() }))`
+        SELECT id FROM "users"
+        WHERE "deletedAt" < ${sql.timestamp(deletedBefore)}
+          AND "anonymizedAt" IS NULL
+        ORDER BY "deletedAt" ASC
+        LIMIT ${limit}
+      `,
+      'findIdsToAnonymize',
+    );
+
+    return result.rows.map((row) => row.id);
+  }
+
+  async redactEvents(user: UserEntity): Promise<void> {
+    const redacted = await this.outbox.redact(
+      this.pool,
+      user.id,
+      PERSONAL_EVENT_FIELDS,
+      ANONYMIZED_VALUE,
+    );
+    this.logger.debug(
+      `[${this.getRequestId()}] redactEvents: ${redacted} outbox messages of user ${user.id} redacted`,
+    );
+  }
+
+  /**
+   * Check if user exists by email. Deleted users keep their email
+   * until they are anonymized, so it cannot be registered again
+   * while they can still be restored.
    */
   async existsByEmail(email: string): Promise<boolean> {
     try {
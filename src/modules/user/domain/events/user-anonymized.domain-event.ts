@@ -0,0 +1,10 @@
+import { DomainEvent, DomainEventProps } from '@libs/ddd';
+
+export class UserAnonymizedDomainEvent extends DomainEvent {
+  readonly anonymizedAt: Date;
+
+  constructor(props: DomainEventProps<UserAnonymizedDomainEvent>) {
+    super(props);
+    this.anonymizedAt = props.anonymizedAt;
+  }
+}
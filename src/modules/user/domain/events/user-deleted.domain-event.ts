@@ -1,7 +1,10 @@
 import { DomainEvent, DomainEventProps } from '@libs/ddd';
 
 export class UserDeletedDomainEvent extends DomainEvent {
+  readonly deletedAt: Date;
+
   constructor(props: DomainEventProps<UserDeletedDomainEvent>) {
     super(props);
+    this.deletedAt = props.deletedAt;
   }
 }
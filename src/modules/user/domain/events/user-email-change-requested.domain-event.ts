@@ -0,0 +1,11 @@
+import { DomainEvent, DomainEventProps } from '@libs/ddd';
+
+export class UserEmailChangeRequestedDomainEvent extends DomainEvent {
+  /** New email, it has to be verified before it replaces the current one */
+  readonly email: string;
+
+  constructor(props: DomainEventProps<UserEmailChangeRequestedDomainEvent>) {
+    super(props);
+    this.email = props.email;
+  }
+}
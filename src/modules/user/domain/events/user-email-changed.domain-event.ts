@@ -0,0 +1,13 @@
+import { DomainEvent, DomainEventProps } from '@libs/ddd';
+
+export class UserEmailChangedDomainEvent extends DomainEvent {
+  readonly previousEmail: string;
+
+  readonly email: string;
+
+  constructor(props: DomainEventProps<UserEmailChangedDomainEvent>) {
+    super(props);
+    this.previousEmail = props.previousEmail;
+    this.email = props.email;
+  }
+}
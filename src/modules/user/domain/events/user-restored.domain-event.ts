@@ -0,0 +1,7 @@
+import { DomainEvent, DomainEventProps } from '@libs/ddd';
+
+export class UserRestoredDomainEvent extends DomainEvent {
+  constructor(props: DomainEventProps<UserRestoredDomainEvent>) {
+    super(props);
+  }
+}
@@ -0,0 +1,91 @@
+import {
+  allOf,
+  anyOf,
+  definePolicy,
+  fromSpecification,
+  Policy,
+  PolicyPrincipal,
+} from '@libs/policy';
+import {
+  UserAccountCanBeDeletedSpecification,
+  UserCanAdminSpecification,
+  UserHasRoleSpecification,
+  UserIsEmailVerifiedSpecification,
+} from '../specifications/user.specifications';
+import { UserEntity } from '../user.entity';
+import { UserRoles } from '../user.types';
+
+/** Principal with its user loaded, so policies can check its attributes */
+export interface UserPrincipal extends PolicyPrincipal {
+  user: UserEntity;
+}
+
+export type UserPolicy<TResource = UserEntity> = Policy<
+  TResource,
+  UserPrincipal
+>;
+
+/**
+ * Building blocks for policies of any resource,
+ * checking the user of the principal
+ */
+export const principalIsAdmin = <TResource>(): UserPolicy<TResource> =>
+  fromSpecification(
+    new UserCanAdminSpecification(),
+    ({ principal }) => principal.user,
+  );
+
+export const principalHasVerifiedEmail = <TResource>(): UserPolicy<TResource> =>
+  fromSpecification(
+    new UserIsEmailVerifiedSpecification(),
+    ({ principal }) => principal.user,
+  );
+
+const principalIsModerator: UserPolicy = definePolicy(
+  'PRINCIPAL_IS_MODERATOR',
+  'Principal is a moderator',
+  ({ principal }) =>
+    new UserHasRoleSpecification(UserRoles.moderator).isSatisfiedBy(
+      principal.user,
+    ),
+);
+
+const userIsGuest: UserPolicy = fromSpecification(
+  new UserHasRoleSpecification(UserRoles.guest),
+  ({ resource }) => resource,
+);
+
+const userLivesInCountryOfPrincipal: UserPolicy = definePolicy(
+  'SAME_COUNTRY',
+  'User lives in the country of the principal',
+  ({ principal, resource }) =>
+    principal.user.getProps().address.country ===
+    resource.getProps().address.country,
+);
+
+/**
+ * Policies of actions on a user, the resource being the target user
+ */
+export const UserPolicies = {
+  deactivate: anyOf<UserEntity, UserPrincipal>(
+    'CAN_DEACTIVATE_USER',
+    'Admins may deactivate any user, moderators guests of their own country',
+    [
+      principalIsAdmin(),
+      allOf(
+        'MODERATOR_OF_GUEST_IN_SAME_COUNTRY',
+        'Moderator deactivating a guest of their own country',
+        [principalIsModerator, userIsGuest, userLivesInCountryOfPrincipal],
+      ),
+    ],
+  ),
+
+  delete: definePolicy<UserEntity, UserPrincipal>(
+    'CAN_DELETE_USER',
+    'Users may delete their own account, admins any non-admin account',
+    ({ principal, resource }) =>
+      new UserAccountCanBeDeletedSpecification(principal.user).isSatisfiedBy(
+        resource,
+      ),
+  ),
+};
@@ -235,11 +235,7 @@ export class UserDomainService implements DomainService {
           user.makeModerator();
           break;
         case UserRoles.guest:
-          // Note: In a real system, we might need a 'demote' method
-          // For now, we'll handle this through the updateAuthProps method
-          user.updateAuthProps({
-            /* role would be updated through a different mechanism */
-          });
+          user.makeGuest();
           break;
         default:
           throw new Error(`Unknown role: ${newRole}`);
@@ -399,6 +395,7 @@ export class UserDomainService implements DomainService {
    */
   initiateEmailVerification(
     user: UserEntity,
+    expiresAt: Date,
   ): DomainOperationResult<{ verificationToken: string }> {
     if (user.isEmailVerified) {
       return {
@@ -413,7 +410,11 @@ export class UserDomainService implements DomainService {
 
     try {
       const verificationToken = this.generateSecureToken();
-      user.generateEmailVerificationToken(verificationToken);
+      user.generateEmailVerificationToken(
+        verificationToken,
+        expiresAt,
+        user.email,
+      );
 
       return {
         success: true,
@@ -1,4 +1,6 @@
+import { FragmentSqlToken, sql } from 'slonik';
 import { Specification } from '@libs/ddd';
+import { ArgumentInvalidException } from '@libs/exceptions';
 import { UserEntity } from '../user.entity';
 import { UserRoles } from '../user.types';
 import {
@@ -6,12 +8,27 @@ import {
   DEFAULT_PASSWORD_CONFIG,
 } from '@libs/security/password-validator';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Base specification interface for User entity business rules
  */
 export interface UserSpecification extends Specification<UserEntity> {
   readonly name: string;
   readonly description: string;
+
+  and(other: UserSpecification): UserSpecification;
+  or(other: UserSpecification): UserSpecification;
+  not(): UserSpecification;
+
+  /**
+   * Same rule as isSatisfiedBy() as a condition on the "users" table,
+   * so the filtering can be done by the database. The condition never
+   * evaluates to NULL, otherwise not() would disagree with isSatisfiedBy().
+   * Throws ArgumentInvalidException for rules that can only be
+   * evaluated in memory.
+   */
+  toSql(): FragmentSqlToken;
 }
 
 /**
@@ -23,6 +40,13 @@ export abstract class BaseUserSpecification implements UserSpecification {
 
   abstract isSatisfiedBy(user: UserEntity): boolean;
 
+  /** Rules that are not overriding it can only be evaluated in memory */
+  toSql(): FragmentSqlToken {
+    throw new ArgumentInvalidException(
+      `${this.name} can only be evaluated in memory`,
+    );
+  }
+
   and(other: UserSpecification): UserSpecification {
     return new AndUserSpecification(this, other);
   }
@@ -54,6 +78,10 @@ class AndUserSpecification extends BaseUserSpecification {
   isSatisfiedBy(user: UserEntity): boolean {
     return this.left.isSatisfiedBy(user) && this.right.isSatisfiedBy(user);
   }
+
+  toSql(): FragmentSqlToken {
+    return sql.fragment`(${this.left.toSql()} AND ${this.right.toSql()})`;
+  }
 }
 
 class OrUserSpecification extends BaseUserSpecification {
@@ -71,6 +99,10 @@ class OrUserSpecification extends BaseUserSpecification {
   isSatisfiedBy(user: UserEntity): boolean {
     return this.left.isSatisfiedBy(user) || this.right.isSatisfiedBy(user);
   }
+
+  toSql(): FragmentSqlToken {
+    return sql.fragment`(${this.left.toSql()} OR ${this.right.toSql()})`;
+  }
 }
 
 class NotUserSpecification extends BaseUserSpecification {
@@ -85,6 +117,10 @@ class NotUserSpecification extends BaseUserSpecification {
   isSatisfiedBy(user: UserEntity): boolean {
     return !this.specification.isSatisfiedBy(user);
   }
+
+  toSql(): FragmentSqlToken {
+    return sql.fragment`(NOT ${this.specification.toSql()})`;
+  }
 }
 
 /**
@@ -97,6 +133,10 @@ export class UserIsActiveSpecification extends BaseUserSpecification {
   isSatisfiedBy(user: UserEntity): boolean {
     return user.isActive;
   }
+
+  toSql(): FragmentSqlToken {
+    return sql.fragment`"isActive" IS TRUE`;
+  }
 }
 
 export class UserIsEmailVerifiedSpecification extends BaseUserSpecification {
@@ -106,6 +146,10 @@ export class UserIsEmailVerifiedSpecification extends BaseUserSpecification {
   isSatisfiedBy(user: UserEntity): boolean {
     return user.isEmailVerified;
   }
+
+  toSql(): FragmentSqlToken {
+    return sql.fragment`"isEmailVerified" IS TRUE`;
+  }
 }
 
 export class UserIsNotLockedSpecification extends BaseUserSpecification {
@@ -115,11 +159,16 @@ export class UserIsNotLockedSpecification extends BaseUserSpecification {
   isSatisfiedBy(user: UserEntity): boolean {
     return !user.isLocked;
   }
+
+  toSql(): FragmentSqlToken {
+    return sql.fragment`("lockedUntil" IS NULL OR "lockedUntil" <= ${sql.timestamp(new Date())})`;
+  }
 }
 
 /**
  * User authentication security specifications
  */
+/** Runs the password validator, so it has no SQL form */
 export class UserHasSecurePasswordSpecification extends BaseUserSpecification {
   readonly name = 'USER_SECURE_PASSWORD';
   readonly description = 'User has a secure password';
@@ -151,6 +200,10 @@ export class UserLoginAttemptsWithinLimitSpecification extends BaseUserSpecifica
   isSatisfiedBy(user: UserEntity): boolean {
     return user.loginAttempts < this.maxAttempts;
   }
+
+  toSql(): FragmentSqlToken {
+    return sql.fragment`"loginAttempts" < ${this.maxAttempts}`;
+  }
 }
 
 export class UserLastLoginRecentSpecification extends BaseUserSpecification {
@@ -170,6 +223,11 @@ export class UserLastLoginRecentSpecification extends BaseUserSpecification {
       (Date.now() - user.lastLoginAt.getTime()) / (1000 * 60 * 60 * 24);
     return daysSinceLogin <= this.maxDaysInactive;
   }
+
+  toSql(): FragmentSqlToken {
+    const since = new Date(Date.now() - this.maxDaysInactive * DAY_MS);
+    return sql.fragment`("lastLoginAt" IS NOT NULL AND "lastLoginAt" >= ${sql.timestamp(since)})`;
+  }
 }
 
 /**
@@ -187,6 +245,10 @@ export class UserHasRoleSpecification extends BaseUserSpecification {
   isSatisfiedBy(user: UserEntity): boolean {
     return user.role === this.requiredRole;
   }
+
+  toSql(): FragmentSqlToken {
+    return sql.fragment`"role" = ${this.requiredRole}`;
+  }
 }
 
 export class UserCanModerateSpecification extends BaseUserSpecification {
@@ -196,6 +258,10 @@ export class UserCanModerateSpecification extends BaseUserSpecification {
   isSatisfiedBy(user: UserEntity): boolean {
     return user.role === UserRoles.admin || user.role === UserRoles.moderator;
   }
+
+  toSql(): FragmentSqlToken {
+    return sql.fragment`"role" IN (${UserRoles.admin}, ${UserRoles.moderator})`;
+  }
 }
 
 export class UserCanAdminSpecification extends BaseUserSpecification {
@@ -205,6 +271,10 @@ export class UserCanAdminSpecification extends BaseUserSpecification {
   isSatisfiedBy(user: UserEntity): boolean {
     return user.role === UserRoles.admin;
   }
+
+  toSql(): FragmentSqlToken {
+    return sql.fragment`"role" = ${UserRoles.admin}`;
+  }
 }
 
 /**
@@ -237,6 +307,19 @@ export class UserCanChangeRoleSpecification extends BaseUserSpecification {
     // Guests cannot change roles
     return false;
   }
+
+  toSql(): FragmentSqlToken {
+    if (this.performedBy.role === UserRoles.admin) {
+      return sql.fragment`TRUE`;
+    }
+    if (
+      this.performedBy.role === UserRoles.moderator &&
+      this.newRole === UserRoles.moderator
+    ) {
+      return sql.fragment`"role" = ${UserRoles.guest}`;
+    }
+    return sql.fragment`FALSE`;
+  }
 }
 
 export class UserAccountCanBeDeletedSpecification extends BaseUserSpecification {
@@ -264,6 +347,13 @@ export class UserAccountCanBeDeletedSpecification extends BaseUserSpecification
     // Prevent deletion of admin accounts by non-admins
     return false;
   }
+
+  toSql(): FragmentSqlToken {
+    if (this.performedBy.role === UserRoles.admin) {
+      return sql.fragment`"role" <> ${UserRoles.admin}`;
+    }
+    return sql.fragment`("role" <> ${UserRoles.admin} AND "id" = ${this.performedBy.id})`;
+  }
 }
 
 /**
@@ -293,6 +383,18 @@ export class UserCanResetPasswordSpecification extends BaseUserSpecification {
 
     return true; // Can request password reset
   }
+
+  toSql(): FragmentSqlToken {
+    return sql.fragment`(
+      "isEmailVerified" IS TRUE AND
+      ("lockedUntil" IS NULL OR "lockedUntil" <= ${sql.timestamp(new Date())}) AND
+      (
+        "passwordResetToken" IS NULL OR
+        "passwordResetTokenExpiresAt" IS NULL OR
+        "passwordResetTokenExpiresAt" > ${sql.timestamp(new Date())}
+      )
+    )`;
+  }
 }
 
 export class UserEmailVerificationValidSpecification extends BaseUserSpecification {
@@ -319,6 +421,14 @@ export class UserEmailVerificationValidSpecification extends BaseUserSpecificati
     // Token must match (use constant time comparison in real implementation)
     return userProps.emailVerificationToken === this.providedToken;
   }
+
+  toSql(): FragmentSqlToken {
+    return sql.fragment`(
+      "isEmailVerified" IS NOT TRUE AND
+      "emailVerificationToken" IS NOT NULL AND
+      "emailVerificationToken" = ${this.providedToken}
+    )`;
+  }
 }
 
 /**
@@ -340,6 +450,10 @@ export class ValidUserForLoginSpecification extends BaseUserSpecification {
   isSatisfiedBy(user: UserEntity): boolean {
     return this.specification.isSatisfiedBy(user);
   }
+
+  toSql(): FragmentSqlToken {
+    return this.specification.toSql();
+  }
 }
 
 export class FullyVerifiedUserSpecification extends BaseUserSpecification {
@@ -359,6 +473,10 @@ export class FullyVerifiedUserSpecification extends BaseUserSpecification {
   isSatisfiedBy(user: UserEntity): boolean {
     return this.specification.isSatisfiedBy(user);
   }
+
+  toSql(): FragmentSqlToken {
+    return this.specification.toSql();
+  }
 }
 
 export class EligibleForRoleUpgradeSpecification extends BaseUserSpecification {
@@ -379,6 +497,10 @@ export class EligibleForRoleUpgradeSpecification extends BaseUserSpecification {
       this.specification.isSatisfiedBy(user) && user.role === UserRoles.guest
     );
   }
+
+  toSql(): FragmentSqlToken {
+    return sql.fragment`(${this.specification.toSql()} AND "role" = ${UserRoles.guest})`;
+  }
 }
 
 /**
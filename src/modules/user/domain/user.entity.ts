@@ -1,6 +1,6 @@
 import { AggregateRoot, AggregateID } from '@libs/ddd';
 import { UserCreatedDomainEvent } from './events/user-created.domain-event';
-import { Address, AddressProps } from './value-objects/address.value-object';
+import { Address } from './value-objects/address.value-object';
 import {
   CreateUserProps,
   CreateUserAuthProps,
@@ -10,11 +10,20 @@ import {
   UserRoles,
 } from './user.types';
 import { UserDeletedDomainEvent } from './events/user-deleted.domain-event';
+import { UserRestoredDomainEvent } from './events/user-restored.domain-event';
+import { UserAnonymizedDomainEvent } from './events/user-anonymized.domain-event';
 import { UserRoleChangedDomainEvent } from './events/user-role-changed.domain-event';
 import { UserAddressUpdatedDomainEvent } from './events/user-address-updated.domain-event';
+import { UserEmailChangeRequestedDomainEvent } from './events/user-email-change-requested.domain-event';
+import { UserEmailChangedDomainEvent } from './events/user-email-changed.domain-event';
+import { UserAlreadyAnonymizedError, UserNotDeletedError } from './user.errors';
 import { Guard } from '@libs/guard';
+import { Err, Ok, Result } from 'oxide.ts';
 import { randomUUID } from 'crypto';
 
+/** Replaces personal data of anonymized users */
+export const ANONYMIZED_VALUE = 'anonymized';
+
 export class UserEntity extends AggregateRoot<UserProps> {
   protected readonly _id: AggregateID;
 
@@ -72,6 +81,9 @@ export class UserEntity extends AggregateRoot<UserProps> {
   }
 
   private changeRole(newRole: UserRoles): void {
+    if (this.props.role === newRole) {
+      return;
+    }
     this.addEvent(
       new UserRoleChangedDomainEvent({
         aggregateId: this.id,
@@ -91,23 +103,99 @@ export class UserEntity extends AggregateRoot<UserProps> {
     this.changeRole(UserRoles.moderator);
   }
 
+  makeGuest(): void {
+    this.changeRole(UserRoles.guest);
+  }
+
+  get isDeleted(): boolean {
+    return this.props.deletedAt !== undefined;
+  }
+
+  get deletedAt(): Date | undefined {
+    return this.props.deletedAt;
+  }
+
+  get isAnonymized(): boolean {
+    return this.props.anonymizedAt !== undefined;
+  }
+
+  /* Users are soft deleted, so they can be restored until
+  their personal data is anonymized (see anonymize()) */
   delete(): void {
+    if (this.isDeleted) {
+      return;
+    }
+    this.props.deletedAt = new Date();
     this.addEvent(
       new UserDeletedDomainEvent({
         aggregateId: this.id,
+        deletedAt: this.props.deletedAt,
       }),
     );
   }
 
+  restore(): Result<void, UserNotDeletedError | UserAlreadyAnonymizedError> {
+    if (!this.isDeleted) {
+      return Err(new UserNotDeletedError());
+    }
+    if (this.isAnonymized) {
+      return Err(new UserAlreadyAnonymizedError());
+    }
+    this.props.deletedAt = undefined;
+    this.addEvent(new UserRestoredDomainEvent({ aggregateId: this.id }));
+    return Ok(undefined);
+  }
+
+  /**
+   * Scrubs personal data of a deleted user. The row itself is kept,
+   * so references from other aggregates stay valid.
+   * Cannot be undone.
+   */
+  anonymize(): Result<void, UserNotDeletedError> {
+    if (!this.isDeleted) {
+      return Err(new UserNotDeletedError());
+    }
+    if (this.isAnonymized) {
+      return Ok(undefined);
+    }
+    const anonymizedAt = new Date();
+    Object.assign(this.props, {
+      email: `${this.id}@${ANONYMIZED_VALUE}.invalid`,
+      address: new Address({
+        country: ANONYMIZED_VALUE,
+        postalCode: ANONYMIZED_VALUE,
+        street: ANONYMIZED_VALUE,
+      }),
+      pendingEmail: undefined,
+      password: undefined,
+      role: UserRoles.guest,
+      isActive: false,
+      lastLoginAt: undefined,
+      lockedUntil: undefined,
+      anonymizedAt,
+    });
+    this.clearEmailVerificationToken();
+    this.clearPasswordResetToken();
+    this.addEvent(
+      new UserAnonymizedDomainEvent({
+        aggregateId: this.id,
+        anonymizedAt,
+      }),
+    );
+    return Ok(undefined);
+  }
+
   /* Update method only changes properties that we allow, in this
    case only address. This prevents from illegal actions, 
    for example setting email from outside by doing something
    like user.email = otherEmail */
   updateAddress(props: UpdateUserAddressProps): void {
+    const current = this.props.address.unpack();
     const newAddress = new Address({
-      ...this.props.address,
-      ...props,
-    } as AddressProps);
+      country: props.country ?? current.country,
+      postalCode: props.postalCode ?? current.postalCode,
+      street: props.street ?? current.street,
+    });
 
     this.props.address = newAddress;
 
@@ -121,6 +209,32 @@ export class UserEntity extends AggregateRoot<UserProps> {
     );
   }
 
+  get email(): string {
+    return this.props.email;
+  }
+
+  get pendingEmail(): string | undefined {
+    return this.props.pendingEmail;
+  }
+
+  /* The email is not changed right away: the new address has to be
+  verified first (see verifyEmail()), until then the user keeps
+  logging in with the current one */
+  requestEmailChange(email: string): void {
+    if (email === this.props.email) {
+      this.props.pendingEmail = undefined;
+      return;
+    }
+    this.props.pendingEmail = email;
+    this.clearEmailVerificationToken();
+    this.addEvent(
+      new UserEmailChangeRequestedDomainEvent({
+        aggregateId: this.id,
+        email,
+      }),
+    );
+  }
+
   /* Authentication-related getters */
   get isActive(): boolean {
     return this.props.isActive;
@@ -147,13 +261,40 @@ export class UserEntity extends AggregateRoot<UserProps> {
     Object.assign(this.props, props);
   }
 
+  /* A token only proves access to the address it was sent to, so the
+  pending email replaces the current one only with a token sent to it */
   verifyEmail(): void {
+    const { pendingEmail, emailVerificationTokenSentTo } = this.props;
+    if (pendingEmail && pendingEmail === emailVerificationTokenSentTo) {
+      const previousEmail = this.props.email;
+      this.props.email = pendingEmail;
+      this.props.pendingEmail = undefined;
+      this.addEvent(
+        new UserEmailChangedDomainEvent({
+          aggregateId: this.id,
+          previousEmail,
+          email: this.props.email,
+        }),
+      );
+    }
     this.props.isEmailVerified = true;
-    this.props.emailVerificationToken = undefined;
+    this.clearEmailVerificationToken();
   }
 
-  generateEmailVerificationToken(token: string): void {
+  generateEmailVerificationToken(
+    token: string,
+    expiresAt: Date,
+    sentTo: string,
+  ): void {
     this.props.emailVerificationToken = token;
+    this.props.emailVerificationTokenExpiresAt = expiresAt;
+    this.props.emailVerificationTokenSentTo = sentTo;
+  }
+
+  clearEmailVerificationToken(): void {
+    this.props.emailVerificationToken = undefined;
+    this.props.emailVerificationTokenExpiresAt = undefined;
+    this.props.emailVerificationTokenSentTo = undefined;
   }
 
   generatePasswordResetToken(token: string, expiresAt: Date): void {
@@ -9,3 +9,33 @@ export class UserAlreadyExistsError extends ExceptionBase {
     super(UserAlreadyExistsError.message, cause, metadata);
   }
 }
+
+export class UserNotDeletedError extends ExceptionBase {
+  static readonly message = 'User is not deleted';
+
+  public readonly code = 'USER.NOT_DELETED';
+
+  constructor(metadata?: unknown) {
+    super(UserNotDeletedError.message, undefined, metadata);
+  }
+}
+
+export class UserAlreadyAnonymizedError extends ExceptionBase {
+  static readonly message = 'User has already been anonymized';
+
+  public readonly code = 'USER.ALREADY_ANONYMIZED';
+
+  constructor(metadata?: unknown) {
+    super(UserAlreadyAnonymizedError.message, undefined, metadata);
+  }
+}
+
+export class UserRoleChangeNotAllowedError extends ExceptionBase {
+  static readonly message = 'Role change is not allowed';
+
+  public readonly code = 'USER.ROLE_CHANGE_NOT_ALLOWED';
+
+  constructor(metadata?: unknown) {
+    super(UserRoleChangeNotAllowedError.message, undefined, metadata);
+  }
+}
@@ -4,17 +4,26 @@ import { Address } from './value-objects/address.value-object';
 export interface UserProps {
   role: UserRoles;
   email: string;
+  /** New email waiting for verification, replaces `email` once verified */
+  pendingEmail?: string;
   address: Address;
   // Authentication fields
   password?: string;
   isActive: boolean;
   isEmailVerified: boolean;
   emailVerificationToken?: string;
+  emailVerificationTokenExpiresAt?: Date;
+  /** Address the email verification token was sent to */
+  emailVerificationTokenSentTo?: string;
   passwordResetToken?: string;
   passwordResetTokenExpiresAt?: Date;
   lastLoginAt?: Date;
   loginAttempts: number;
   lockedUntil?: Date;
+  /** Set while the user is soft deleted */
+  deletedAt?: Date;
+  /** Set once personal data of a deleted user has been scrubbed */
+  anonymizedAt?: Date;
 }
 
 // Properties that are needed for a user creation
@@ -47,6 +56,7 @@ export interface UpdateUserAuthProps {
   isActive?: boolean;
   isEmailVerified?: boolean;
   emailVerificationToken?: string;
+  emailVerificationTokenExpiresAt?: Date;
   passwordResetToken?: string;
   passwordResetTokenExpiresAt?: Date;
   lastLoginAt?: Date;
@@ -0,0 +1,38 @@
+import { Field, ObjectType } from '@nestjs/graphql';
+import { UserGraphqlResponseDto } from './user.graphql-response.dto';
+import { UserRoles } from './user-roles.graphql-enum';
+
+@ObjectType()
+export class WalletSummaryGraphqlResponseDto {
+  @Field()
+  id: string;
+
+  @Field({ description: 'Balance in minor units (e.g. cents)' })
+  balance: string;
+
+  @Field({ description: 'ISO-4217 currency code' })
+  currency: string;
+
+  @Field()
+  isClosed: boolean;
+}
+
+@ObjectType()
+export class UserDetailsGraphqlResponseDto extends UserGraphqlResponseDto {
+  @Field(() => UserRoles)
+  role: UserRoles;
+
+  @Field(() => [String], {
+    description: 'Roles assigned to the user for authorization',
+  })
+  roles: string[];
+
+  @Field()
+  isEmailVerified: boolean;
+
+  @Field(() => Date, { nullable: true })
+  lastLoginAt: Date | null;
+
+  @Field(() => WalletSummaryGraphqlResponseDto, { nullable: true })
+  wallet: WalletSummaryGraphqlResponseDto | null;
+}
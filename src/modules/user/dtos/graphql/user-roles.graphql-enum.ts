@@ -0,0 +1,6 @@
+import { registerEnumType } from '@nestjs/graphql';
+import { UserRoles } from '../../domain/user.types';
+
+registerEnumType(UserRoles, { name: 'UserRoles' });
+
+export { UserRoles };
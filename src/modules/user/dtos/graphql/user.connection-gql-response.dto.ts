@@ -0,0 +1,9 @@
+import { ObjectType } from '@nestjs/graphql';
+import { CursorPaginatedGraphqlResponse } from '../../../../libs/api/graphql/cursor-paginated.graphql-response.base';
+
+import { UserGraphqlResponseDto } from './user.graphql-response.dto';
+
+@ObjectType()
+export class UserConnectionGraphqlResponseDto extends CursorPaginatedGraphqlResponse(
+  UserGraphqlResponseDto,
+) {}
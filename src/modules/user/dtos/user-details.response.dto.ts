@@ -0,0 +1,64 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRoles } from '../domain/user.types';
+import {
+  UserDetailsReadModel,
+  WalletSummaryReadModel,
+} from '../queries/find-user-by-id/find-user-by-id.query-handler';
+import { UserResponseDto } from './user.response.dto';
+
+export class WalletSummaryResponseDto {
+  constructor(props: WalletSummaryReadModel) {
+    this.id = props.id;
+    this.balance = props.balance.toString();
+    this.currency = props.currency;
+    this.isClosed = props.isClosed;
+  }
+
+  @ApiProperty({ example: '2cdc8ab1-6d50-49cc-ba14-54e4ac7ec231' })
+  readonly id: string;
+
+  @ApiProperty({
+    example: '4500',
+    description: 'Balance in minor units (e.g. cents)',
+  })
+  readonly balance: string;
+
+  @ApiProperty({ example: 'USD', description: 'ISO-4217 currency code' })
+  readonly currency: string;
+
+  @ApiProperty({ example: false })
+  readonly isClosed: boolean;
+}
+
+export class UserDetailsResponseDto extends UserResponseDto {
+  constructor(props: UserDetailsReadModel) {
+    super(props);
+    this.email = props.email;
+    this.country = props.country;
+    this.postalCode = props.postalCode;
+    this.street = props.street;
+    this.role = props.role;
+    this.roles = props.roles;
+    this.isEmailVerified = props.isEmailVerified;
+    this.lastLoginAt = props.lastLoginAt?.toISOString() ?? null;
+    this.wallet = props.wallet && new WalletSummaryResponseDto(props.wallet);
+  }
+
+  @ApiProperty({ enum: UserRoles, example: UserRoles.guest })
+  readonly role: UserRoles;
+
+  @ApiProperty({
+    example: ['user'],
+    description: 'Roles assigned to the user for authorization',
+  })
+  readonly roles: string[];
+
+  @ApiProperty({ example: true })
+  readonly isEmailVerified: boolean;
+
+  @ApiProperty({ example: '2020-11-24T17:43:15.970Z', nullable: true })
+  readonly lastLoginAt: string | null;
+
+  @ApiProperty({ type: WalletSummaryResponseDto, nullable: true })
+  readonly wallet: WalletSummaryResponseDto | null;
+}
@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CursorPaginatedResponseDto } from '@src/libs/api/cursor-paginated.response.base';
+import { UserResponseDto } from './user.response.dto';
+
+export class UserCursorPaginatedResponseDto extends CursorPaginatedResponseDto<UserResponseDto> {
+  @ApiProperty({ type: UserResponseDto, isArray: true })
+  readonly data: readonly UserResponseDto[];
+}
@@ -0,0 +1,64 @@
+import { UseGuards } from '@nestjs/common';
+import { QueryBus } from '@nestjs/cqrs';
+import { Args, Query, Resolver } from '@nestjs/graphql';
+import { Result } from 'oxide.ts';
+import { ResponseBase } from '../../../../libs/api/response.base';
+import { NotFoundException } from '../../../../libs/exceptions';
+import { Auth } from '../../../auth/infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '../../../auth/infrastructure/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../../../auth/infrastructure/guards/jwt-auth.guard';
+import { ResourceOwnerGuard } from '../../../auth/infrastructure/guards/resource-owner.guard';
+import { UserDetailsGraphqlResponseDto } from '../../dtos/graphql/user-details.graphql-response.dto';
+import {
+  FindUserByIdQuery,
+  UserDetailsReadModel,
+} from './find-user-by-id.query-handler';
+
+@Resolver()
+export class FindUserByIdGraphqlResolver {
+  constructor(private readonly queryBus: QueryBus) {}
+
+  @Query(() => UserDetailsGraphqlResponseDto)
+  // Guards of the lower decorator run first, the owner check needs the user
+  @UseGuards(ResourceOwnerGuard)
+  @Auth({ permissions: ['user:read', 'user:read-own'] })
+  async user(@Args('id') id: string): Promise<UserDetailsGraphqlResponseDto> {
+    return this.findUser(id);
+  }
+
+  @Query(() => UserDetailsGraphqlResponseDto)
+  @UseGuards(JwtAuthGuard)
+  async me(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<UserDetailsGraphqlResponseDto> {
+    return this.findUser(user.sub);
+  }
+
+  private async findUser(
+    userId: string,
+  ): Promise<UserDetailsGraphqlResponseDto> {
+    const result: Result<UserDetailsReadModel, NotFoundException> =
+      await this.queryBus.execute(new FindUserByIdQuery({ userId }));
+    if (result.isErr()) throw result.unwrapErr();
+
+    const user = result.unwrap();
+    return {
+      ...new ResponseBase(user),
+      email: user.email,
+      country: user.country,
+      street: user.street,
+      postalCode: user.postalCode,
+      role: user.role,
+      roles: user.roles,
+      isEmailVerified: user.isEmailVerified,
+      lastLoginAt: user.lastLoginAt,
+      wallet: user.wallet && {
+        ...user.wallet,
+        balance: user.wallet.balance.toString(),
+      },
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { QueryBus } from '@nestjs/cqrs';
+import { ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { Auth } from '@modules/auth/infrastructure/decorators/auth.decorator';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from '@modules/auth/infrastructure/decorators/current-user.decorator';
+import { JwtAuthGuard } from '@modules/auth/infrastructure/guards/jwt-auth.guard';
+import { ResourceOwnerGuard } from '@modules/auth/infrastructure/guards/resource-owner.guard';
+import { UserDetailsResponseDto } from '../../dtos/user-details.response.dto';
+import {
+  FindUserByIdQuery,
+  UserDetailsReadModel,
+} from './find-user-by-id.query-handler';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class FindUserByIdHttpController {
+  constructor(private readonly queryBus: QueryBus) {}
+
+  @Get(routesV1.user.me)
+  @ApiOperation({ summary: 'Find the authenticated user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: UserDetailsResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Authentication required',
+    type: ApiErrorResponse,
+  })
+  @UseGuards(JwtAuthGuard)
+  async findMe(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<UserDetailsResponseDto> {
+    return this.findUser(user.sub);
+  }
+
+  @Get(routesV1.user.findById)
+  @ApiOperation({ summary: 'Find a user by id' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: UserDetailsResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: NotFoundException.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Users can only read their own profile',
+    type: ApiErrorResponse,
+  })
+  // Guards of the lower decorator run first, the owner check needs the user
+  @UseGuards(ResourceOwnerGuard)
+  @Auth({ permissions: ['user:read', 'user:read-own'] })
+  async findById(@Param('id') id: string): Promise<UserDetailsResponseDto> {
+    return this.findUser(id);
+  }
+
+  private async findUser(userId: string): Promise<UserDetailsResponseDto> {
+    const result: Result<UserDetailsReadModel, NotFoundException> =
+      await this.queryBus.execute(new FindUserByIdQuery({ userId }));
+
+    return match(result, {
+      Ok: (user) => new UserDetailsResponseDto(user),
+      Err: (error: Error) => {
+        if (error instanceof NotFoundException)
+          throw new NotFoundHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
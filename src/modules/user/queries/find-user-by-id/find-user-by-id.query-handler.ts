@@ -0,0 +1,85 @@
+import { Inject } from '@nestjs/common';
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { DatabasePool, sql } from 'slonik';
+import { DATABASE_POOL_TOKEN } from '@libs/database';
+import { QueryBase } from '@libs/ddd/query.base';
+import { NotFoundException } from '@libs/exceptions';
+import { AUTH_DI_TOKENS } from '@modules/auth/auth.di-tokens';
+import { RoleRepositoryPort } from '@modules/auth/database/role.repository.port';
+import { WalletRepositoryPort } from '@modules/wallet/database/wallet.repository.port';
+import { WALLET_REPOSITORY } from '@modules/wallet/wallet.di-tokens';
+import {
+  UserReadModel,
+  userReadModelColumns,
+  userReadModelSchema,
+} from '../../database/user.read-model';
+
+export class FindUserByIdQuery extends QueryBase {
+  readonly userId: string;
+
+  constructor(props: FindUserByIdQuery) {
+    super();
+    this.userId = props.userId;
+  }
+}
+
+export interface WalletSummaryReadModel {
+  id: string;
+  /** Minor units, e.g. cents */
+  balance: bigint;
+  currency: string;
+  isClosed: boolean;
+}
+
+export interface UserDetailsReadModel extends UserReadModel {
+  /** Names of the roles assigned in the auth module */
+  roles: string[];
+  /** Null until the wallet is created for a new user */
+  wallet: WalletSummaryReadModel | null;
+}
+
+@QueryHandler(FindUserByIdQuery)
+export class FindUserByIdQueryHandler implements IQueryHandler<FindUserByIdQuery> {
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    private readonly pool: DatabasePool,
+    @Inject(AUTH_DI_TOKENS.RoleRepository)
+    private readonly roleRepo: RoleRepositoryPort,
+    @Inject(WALLET_REPOSITORY)
+    private readonly walletRepo: WalletRepositoryPort,
+  ) {}
+
+  /**
+   * The user itself is read from the read model, roles and wallet
+   * are owned by other modules and are loaded through their repositories.
+   */
+  async execute(
+    query: FindUserByIdQuery,
+  ): Promise<Result<UserDetailsReadModel, NotFoundException>> {
+    const user = await this.pool.maybeOne(
+      sql.type(userReadModelSchema)`
+        SELECT ${userReadModelColumns}
+        FROM users
+        WHERE id = ${query.userId} AND "deletedAt" IS NULL
+      `,
+    );
+    if (!user) return Err(new NotFoundException());
+
+    const [roles, wallet] = await Promise.all([
+      this.roleRepo.findUserRoles(user.id),
+      this.walletRepo.findByUserId(user.id),
+    ]);
+
+    return Ok({
+      ...user,
+      roles: roles.map((role) => role.name),
+      wallet: wallet && {
+        id: wallet.id,
+        balance: wallet.balance.amount,
+        currency: wallet.currency,
+        isClosed: wallet.isClosed,
+      },
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import { QueryBus } from '@nestjs/cqrs';
+import { Args, Int, Query, Resolver } from '@nestjs/graphql';
+import { Result } from 'oxide.ts';
+import { ResponseBase } from '../../../../libs/api/response.base';
+import { CursorPaginated } from '../../../../libs/ddd';
+import { encodeCursor } from '../../../../libs/db/keyset-pagination';
+import { UserReadModel } from '../../database/user.read-model';
+import { UserConnectionGraphqlResponseDto } from '../../dtos/graphql/user.connection-gql-response.dto';
+import { Auth } from '../../../auth/infrastructure/decorators/auth.decorator';
+import { FindUsersCursorQuery } from './find-users-cursor.query-handler';
+
+@Resolver()
+export class FindUsersCursorGraphqlResolver {
+  constructor(private readonly queryBus: QueryBus) {}
+
+  @Query(() => UserConnectionGraphqlResponseDto)
+  @Auth({ permissions: ['user:list'] })
+  async usersConnection(
+    @Args('first', { type: () => Int, nullable: true }) first?: number,
+    @Args('after', { nullable: true }) after?: string,
+    @Args('before', { nullable: true }) before?: string,
+  ): Promise<UserConnectionGraphqlResponseDto> {
+    const query = new FindUsersCursorQuery({ limit: first, after, before });
+    const result: Result<
+      CursorPaginated<UserReadModel>,
+      Error
+    > = await this.queryBus.execute(query);
+
+    const page = result.unwrap();
+    const edges = page.data.map((user) => ({
+      cursor: encodeCursor(user),
+      node: {
+        ...new ResponseBase(user),
+        email: user.email,
+        country: user.country,
+        street: user.street,
+        postalCode: user.postalCode,
+      },
+    }));
+
+    return new UserConnectionGraphqlResponseDto({
+      edges,
+      pageInfo: {
+        hasNextPage: page.nextCursor !== null,
+        hasPreviousPage: page.prevCursor !== null,
+        startCursor: edges[0]?.cursor ?? null,
+        endCursor: edges[edges.length - 1]?.cursor ?? null,
+      },
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Query,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { QueryBus } from '@nestjs/cqrs';
+import { ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { CursorPaginated } from '@src/libs/ddd';
+import { ArgumentInvalidException } from '@libs/exceptions';
+import { CursorPaginatedQueryRequestDto } from '@src/libs/api/cursor-paginated-query.request.dto';
+import { ResponseBase } from '@src/libs/api/response.base';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { Auth } from '@modules/auth/infrastructure/decorators/auth.decorator';
+import { UserReadModel } from '../../database/user.read-model';
+import { UserCursorPaginatedResponseDto } from '../../dtos/user.cursor-paginated.response.dto';
+import { FindUsersRequestDto } from '../find-users/find-users.request.dto';
+import { FindUsersCursorQuery } from './find-users-cursor.query-handler';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class FindUsersCursorHttpController {
+  constructor(private readonly queryBus: QueryBus) {}
+
+  @Get(routesV1.user.cursor)
+  @ApiOperation({ summary: 'Find users using cursor pagination' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: UserCursorPaginatedResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid pagination cursor',
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Insufficient permissions',
+    type: ApiErrorResponse,
+  })
+  @Auth({ permissions: ['user:list'] })
+  async findUsers(
+    @Body() request: FindUsersRequestDto,
+    @Query() queryParams: CursorPaginatedQueryRequestDto,
+  ): Promise<UserCursorPaginatedResponseDto> {
+    const query = new FindUsersCursorQuery({
+      ...request,
+      limit: queryParams?.limit,
+      after: queryParams?.after,
+      before: queryParams?.before,
+    });
+    const result: Result<
+      CursorPaginated<UserReadModel>,
+      ArgumentInvalidException
+    > = await this.queryBus.execute(query);
+
+    return match(result, {
+      // Whitelisting returned properties
+      Ok: (page) =>
+        new UserCursorPaginatedResponseDto({
+          ...page,
+          data: page.data.map((user) => ({
+            ...new ResponseBase(user),
+            email: user.email,
+            country: user.country,
+            street: user.street,
+            postalCode: user.postalCode,
+          })),
+        }),
+      Err: (error: Error) => {
+        if (error instanceof ArgumentInvalidException)
+          throw new BadRequestException(error.message);
+        throw error;
+      },
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import {
+  CursorPaginatedParams,
+  CursorPaginatedQueryBase,
+} from '@libs/ddd/query.base';
+import { CursorPaginated } from '@src/libs/ddd';
+import { Inject } from '@nestjs/common';
+import { DATABASE_POOL_TOKEN } from '@libs/database';
+import { ArgumentInvalidException } from '@libs/exceptions';
+import { keysetQuery, toCursorPage } from '@src/libs/db/keyset-pagination';
+import { DatabasePool, sql } from 'slonik';
+import {
+  UserReadModel,
+  userReadModelColumns,
+  userReadModelSchema,
+} from '../../database/user.read-model';
+
+export class FindUsersCursorQuery extends CursorPaginatedQueryBase {
+  readonly country?: string;
+
+  readonly postalCode?: string;
+
+  readonly street?: string;
+
+  constructor(props: CursorPaginatedParams<FindUsersCursorQuery>) {
+    super(props);
+    this.country = props.country;
+    this.postalCode = props.postalCode;
+    this.street = props.street;
+  }
+}
+
+@QueryHandler(FindUsersCursorQuery)
+export class FindUsersCursorQueryHandler implements IQueryHandler<FindUsersCursorQuery> {
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    private readonly pool: DatabasePool,
+  ) {}
+
+  /**
+   * Keyset pagination over ("createdAt", "id"), newest users first.
+   * Served by the idx_users_created_at_desc index, so every page
+   * costs the same regardless of its depth.
+   */
+  async execute(
+    query: FindUsersCursorQuery,
+  ): Promise<Result<CursorPaginated<UserReadModel>, ArgumentInvalidException>> {
+    let keyset: ReturnType<typeof keysetQuery>;
+    try {
+      keyset = keysetQuery(query);
+    } catch (error) {
+      if (error instanceof ArgumentInvalidException) return Err(error);
+      throw error;
+    }
+
+    const records = await this.pool.query(
+      sql.type(userReadModelSchema)`
+        SELECT ${userReadModelColumns}
+        FROM users
+        WHERE
+          "deletedAt" IS NULL AND
+          ${query.country ? sql.fragment`country = ${query.country}` : sql.fragment`TRUE`} AND
+          ${query.street ? sql.fragment`street = ${query.street}` : sql.fragment`TRUE`} AND
+          ${query.postalCode ? sql.fragment`"postalCode" = ${query.postalCode}` : sql.fragment`TRUE`} AND
+          ${keyset.where}
+        ORDER BY ${keyset.orderBy}
+        LIMIT ${keyset.limit}
+      `,
+    );
+
+    return Ok(toCursorPage(records.rows, query));
+  }
+}
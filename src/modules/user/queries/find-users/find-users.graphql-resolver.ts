@@ -4,21 +4,30 @@ import { Result } from 'oxide.ts';
 import { ResponseBase } from '../../../../libs/api/response.base';
 import { Paginated } from '../../../../libs/ddd';
 import { PaginatedParams } from '../../../../libs/ddd/query.base';
-import { UserModel } from '../../database/user.repository';
+import { UserReadModel } from '../../database/user.read-model';
 import { UserPaginatedGraphqlResponseDto } from '../../dtos/graphql/user.paginated-gql-response.dto';
+import { FilterConditionGraphqlInput } from '../../../../libs/api/graphql/filter-condition.graphql-input';
+import { Auth } from '../../../auth/infrastructure/decorators/auth.decorator';
 import { FindUsersQuery } from './find-users.query-handler';
 
 @Resolver()
 export class FindUsersGraphqlResolver {
   constructor(private readonly queryBus: QueryBus) {}
   @Query(() => UserPaginatedGraphqlResponseDto)
+  @Auth({ permissions: ['user:list'] })
   async findUsers(
     @Args('options', { type: () => String })
     options: PaginatedParams<FindUsersQuery>,
+    @Args('filter', {
+      type: () => [FilterConditionGraphqlInput],
+      nullable: true,
+    })
+    filter?: FilterConditionGraphqlInput[],
+    @Args('sort', { nullable: true }) sort?: string,
   ): Promise<UserPaginatedGraphqlResponseDto> {
-    const query = new FindUsersQuery(options);
+    const query = new FindUsersQuery({ ...options, filter, sort });
     const result: Result<
-      Paginated<UserModel>,
+      Paginated<UserReadModel>,
       Error
     > = await this.queryBus.execute(query);
 
@@ -1,17 +1,25 @@
-import { Body, Controller, Get, HttpStatus, Query } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Query,
+} from '@nestjs/common';
 import { routesV1 } from '@config/app.routes';
 import { QueryBus } from '@nestjs/cqrs';
 import { ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
-import { Result } from 'oxide.ts';
+import { match, Result } from 'oxide.ts';
 import { FindUsersRequestDto } from './find-users.request.dto';
+import { FindUsersQueryRequestDto } from './find-users.query.request.dto';
 import { FindUsersQuery } from './find-users.query-handler';
 import { Paginated } from '@src/libs/ddd';
 import { UserPaginatedResponseDto } from '../../dtos/user.paginated.response.dto';
-import { PaginatedQueryRequestDto } from '@src/libs/api/paginated-query.request.dto';
-import { UserModel } from '../../database/user.repository';
+import { UserReadModel } from '../../database/user.read-model';
 import { ResponseBase } from '@src/libs/api/response.base';
-import { RequirePermissions } from '@modules/auth/infrastructure/decorators/auth.decorator';
+import { Auth } from '@modules/auth/infrastructure/decorators/auth.decorator';
 import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { ArgumentInvalidException } from '@libs/exceptions';
 
 @Controller(routesV1.version)
 @ApiBearerAuth()
@@ -24,38 +32,51 @@ export class FindUsersHttpController {
     status: HttpStatus.OK,
     type: UserPaginatedResponseDto,
   })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid filter or sort',
+    type: ApiErrorResponse,
+  })
   @ApiResponse({
     status: HttpStatus.FORBIDDEN,
     description: 'Insufficient permissions',
     type: ApiErrorResponse,
   })
-  @RequirePermissions(['user:list'])
+  @Auth({ permissions: ['user:list'] })
   async findUsers(
     @Body() request: FindUsersRequestDto,
-    @Query() queryParams: PaginatedQueryRequestDto,
+    @Query() queryParams: FindUsersQueryRequestDto,
   ): Promise<UserPaginatedResponseDto> {
     const query = new FindUsersQuery({
       ...request,
       limit: queryParams?.limit,
       page: queryParams?.page,
+      filter: queryParams?.filter,
+      sort: queryParams?.sort,
     });
     const result: Result<
-      Paginated<UserModel>,
-      Error
+      Paginated<UserReadModel>,
+      ArgumentInvalidException
     > = await this.queryBus.execute(query);
 
-    const paginated = result.unwrap();
-
-    // Whitelisting returned properties
-    return new UserPaginatedResponseDto({
-      ...paginated,
-      data: paginated.data.map((user) => ({
-        ...new ResponseBase(user),
-        email: user.email,
-        country: user.country,
-        street: user.street,
-        postalCode: user.postalCode,
-      })),
+    return match(result, {
+      // Whitelisting returned properties
+      Ok: (paginated) =>
+        new UserPaginatedResponseDto({
+          ...paginated,
+          data: paginated.data.map((user) => ({
+            ...new ResponseBase(user),
+            email: user.email,
+            country: user.country,
+            street: user.street,
+            postalCode: user.postalCode,
+          })),
+        }),
+      Err: (error: Error) => {
+        if (error instanceof ArgumentInvalidException)
+          throw new BadRequestException(error.message);
+        throw error;
+      },
     });
   }
 }
@@ -0,0 +1,18 @@
+import { QueryFieldsSpec } from '@libs/query-language';
+import { UserRoles } from '../../domain/user.types';
+
+/**
+ * Fields of the users read model that clients can filter and sort on.
+ * Secrets (password, tokens) must never be added here.
+ */
+export const USER_QUERY_FIELDS: QueryFieldsSpec = {
+  email: { type: 'string', sortable: true },
+  country: { type: 'string', sortable: true },
+  postalCode: { type: 'string' },
+  street: { type: 'string' },
+  role: { type: 'enum', values: Object.values(UserRoles) },
+  isActive: { type: 'boolean' },
+  isEmailVerified: { type: 'boolean' },
+  createdAt: { type: 'date', sortable: true },
+  updatedAt: { type: 'date', sortable: true },
+};
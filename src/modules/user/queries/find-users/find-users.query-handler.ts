@@ -1,11 +1,27 @@
 import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
-import { Ok, Result } from 'oxide.ts';
+import { Err, Ok, Result } from 'oxide.ts';
 import { PaginatedParams, PaginatedQueryBase } from '@libs/ddd/query.base';
 import { Paginated } from '@src/libs/ddd';
 import { Inject } from '@nestjs/common';
 import { DATABASE_POOL_TOKEN } from '@libs/database';
+import { ArgumentInvalidException } from '@libs/exceptions';
+import {
+  compileFilters,
+  compileSort,
+  FilterCondition,
+  FilterConditionInput,
+  parseQuery,
+  ParsedQuery,
+  sortFromOrderBy,
+} from '@libs/query-language';
 import { DatabasePool, sql } from 'slonik';
-import { UserModel } from '../../database/user.repository';
+import { z } from 'zod';
+import {
+  UserReadModel,
+  userReadModelColumns,
+  userReadModelSchema,
+} from '../../database/user.read-model';
+import { USER_QUERY_FIELDS } from './find-users.query-fields';
 
 export class FindUsersQuery extends PaginatedQueryBase {
   readonly country?: string;
@@ -14,11 +30,19 @@ export class FindUsersQuery extends PaginatedQueryBase {
 
   readonly street?: string;
 
+  /** Filters in the query language, see parseQuery */
+  readonly filter?: Record<string, unknown> | FilterConditionInput[];
+
+  /** Comma separated fields, `-` for descending, e.g. `-createdAt,email` */
+  readonly sort?: string;
+
   constructor(props: PaginatedParams<FindUsersQuery>) {
     super(props);
     this.country = props.country;
     this.postalCode = props.postalCode;
     this.street = props.street;
+    this.filter = props.filter;
+    this.sort = props.sort;
   }
 }
 
@@ -37,30 +61,69 @@ export class FindUsersQueryHandler implements IQueryHandler<FindUsersQuery> {
    */
   async execute(
     query: FindUsersQuery,
-  ): Promise<Result<Paginated<UserModel>, Error>> {
+  ): Promise<Result<Paginated<UserReadModel>, ArgumentInvalidException>> {
+    let parsed: ParsedQuery;
+    try {
+      parsed = parseQuery(USER_QUERY_FIELDS, query);
+      if (parsed.sort.length === 0) {
+        parsed.sort = sortFromOrderBy(USER_QUERY_FIELDS, query.orderBy);
+      }
+    } catch (error) {
+      if (error instanceof ArgumentInvalidException) return Err(error);
+      throw error;
+    }
+
     /**
      * Constructing a query with Slonik.
      * More info: https://contra.com/p/AqZWWoUB-writing-composable-sql-using-java-script
      */
-    const statement = sql.unsafe`
-         SELECT *
-         FROM users
-         WHERE
-           ${query.country ? sql.unsafe`country = ${query.country}` : sql.unsafe`TRUE`} AND
-           ${query.street ? sql.unsafe`street = ${query.street}` : sql.unsafe`TRUE`} AND
-           ${query.postalCode ? sql.unsafe`"postalCode" = ${query.postalCode}` : sql.unsafe`TRUE`}
-         LIMIT ${query.limit}
-         OFFSET ${query.offset}`;
+    const where = compileFilters(USER_QUERY_FIELDS, [
+      ...parsed.filters,
+      ...this.exactMatches(query),
+    ]);
+    const orderBy = compileSort(USER_QUERY_FIELDS, parsed.sort, [
+      { field: 'createdAt', direction: 'DESC' },
+    ]);
 
-    const records = await this.pool.query(statement);
+    // rowCount is the size of the page, the total needs its own query
+    const [count, records] = await Promise.all([
+      this.pool.oneFirst(
+        sql.type(z.object({ count: z.coerce.number() }))`
+          SELECT COUNT(*) AS count
+          FROM users
+          WHERE ${where} AND "deletedAt" IS NULL
+        `,
+      ),
+      this.pool.query(
+        sql.type(userReadModelSchema)`
+          SELECT ${userReadModelColumns}
+          FROM users
+          WHERE ${where} AND "deletedAt" IS NULL
+          ORDER BY ${orderBy}
+          LIMIT ${query.limit}
+          OFFSET ${query.offset}
+        `,
+      ),
+    ]);
 
     return Ok(
       new Paginated({
         data: records.rows,
-        count: records.rowCount,
+        count,
         limit: query.limit,
         page: query.page,
       }),
     );
   }
+
+  private exactMatches(query: FindUsersQuery): FilterCondition[] {
+    const { country, postalCode, street } = query;
+    return Object.entries({ country, postalCode, street })
+      .filter(([, value]) => value)
+      .map(([field, value]) => ({
+        field,
+        operator: 'eq',
+        value: value as string,
+      }));
+  }
 }
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsObject, IsOptional, IsString, MaxLength } from 'class-validator';
+import { PaginatedQueryRequestDto } from '@src/libs/api/paginated-query.request.dto';
+
+export class FindUsersQueryRequestDto extends PaginatedQueryRequestDto {
+  @IsOptional()
+  @IsObject()
+  @ApiProperty({
+    example: { email: { contains: 'doe' }, createdAt: { gte: '2024-01-01' } },
+    description:
+      'Filters as filter[field][operator]=value. Operators: eq, ne, gt, gte, lt, lte, contains, startsWith, in (comma separated values)',
+    required: false,
+  })
+  readonly filter?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  @ApiProperty({
+    example: '-createdAt,email',
+    description: 'Comma separated fields, prefixed with "-" for descending',
+    required: false,
+  })
+  readonly sort?: string;
+}
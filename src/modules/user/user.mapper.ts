@@ -13,20 +13,38 @@ import { Injectable } from '@nestjs/common';
  */
 
 @Injectable()
-export class UserMapper
-  implements Mapper<UserEntity, UserModel, UserResponseDto>
-{
+export class UserMapper implements Mapper<
+  UserEntity,
+  UserModel,
+  UserResponseDto
+> {
   toPersistence(entity: UserEntity): UserModel {
     const copy = entity.getProps();
     const record: UserModel = {
       id: copy.id,
       createdAt: copy.createdAt,
       updatedAt: copy.updatedAt,
+      version: copy.version,
       email: copy.email,
+      pendingEmail: copy.pendingEmail ?? null,
       country: copy.address.country,
       postalCode: copy.address.postalCode,
       street: copy.address.street,
       role: copy.role,
+      password: copy.password ?? null,
+      isActive: copy.isActive,
+      isEmailVerified: copy.isEmailVerified,
+      emailVerificationToken: copy.emailVerificationToken ?? null,
+      emailVerificationTokenExpiresAt:
+        copy.emailVerificationTokenExpiresAt ?? null,
+      emailVerificationTokenSentTo: copy.emailVerificationTokenSentTo ?? null,
+      passwordResetToken: copy.passwordResetToken ?? null,
+      passwordResetTokenExpiresAt: copy.passwordResetTokenExpiresAt ?? null,
+      lastLoginAt: copy.lastLoginAt ?? null,
+      loginAttempts: copy.loginAttempts,
+      lockedUntil: copy.lockedUntil ?? null,
+      deletedAt: copy.deletedAt ?? null,
+      anonymizedAt: copy.anonymizedAt ?? null,
     };
     return userSchema.parse(record);
   }
@@ -36,14 +54,32 @@ export class UserMapper
       id: record.id,
       createdAt: new Date(record.createdAt),
       updatedAt: new Date(record.updatedAt),
+      version: record.version,
       props: {
         email: record.email,
+        pendingEmail: record.pendingEmail ?? undefined,
         role: record.role,
         address: new Address({
           street: record.street,
           postalCode: record.postalCode,
           country: record.country,
         }),
+        password: record.password ?? undefined,
+        isActive: record.isActive,
+        isEmailVerified: record.isEmailVerified,
+        emailVerificationToken: record.emailVerificationToken ?? undefined,
+        emailVerificationTokenExpiresAt:
+          record.emailVerificationTokenExpiresAt ?? undefined,
+        emailVerificationTokenSentTo:
+          record.emailVerificationTokenSentTo ?? undefined,
+        passwordResetToken: record.passwordResetToken ?? undefined,
+        passwordResetTokenExpiresAt:
+          record.passwordResetTokenExpiresAt ?? undefined,
+        lastLoginAt: record.lastLoginAt ?? undefined,
+        loginAttempts: record.loginAttempts,
+        lockedUntil: record.lockedUntil ?? undefined,
+        deletedAt: record.deletedAt ?? undefined,
+        anonymizedAt: record.anonymizedAt ?? undefined,
       },
     });
     return entity;
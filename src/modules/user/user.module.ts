@@ -1,4 +1,4 @@
-import { Logger, Module, Provider } from '@nestjs/common';
+import { forwardRef, Logger, Module, Provider } from '@nestjs/common';
 import { UserRepository } from './database/user.repository';
 import { CreateUserHttpController } from './commands/create-user/create-user.http.controller';
 import { DeleteUserHttpController } from './commands/delete-user/delete-user.http-controller';
@@ -8,16 +8,46 @@ import { CreateUserMessageController } from './commands/create-user/create-user.
 import { CreateUserGraphqlResolver } from './commands/create-user/graphql-example/create-user.graphql-resolver';
 import { CreateUserService } from './commands/create-user/create-user.service';
 import { DeleteUserService } from './commands/delete-user/delete-user.service';
+import { RestoreUserHttpController } from './commands/restore-user/restore-user.http.controller';
+import { RestoreUserService } from './commands/restore-user/restore-user.service';
+import { UpdateUserAddressHttpController } from './commands/update-user-address/update-user-address.http.controller';
+import { UpdateUserAddressGraphqlResolver } from './commands/update-user-address/update-user-address.graphql-resolver';
+import { UpdateUserAddressService } from './commands/update-user-address/update-user-address.service';
+import { ChangeUserEmailHttpController } from './commands/change-user-email/change-user-email.http.controller';
+import { ChangeUserEmailGraphqlResolver } from './commands/change-user-email/change-user-email.graphql-resolver';
+import { ChangeUserEmailService } from './commands/change-user-email/change-user-email.service';
+import { ChangeUserRoleHttpController } from './commands/change-user-role/change-user-role.http.controller';
+import { ChangeUserRoleGraphqlResolver } from './commands/change-user-role/change-user-role.graphql-resolver';
+import { ChangeUserRoleService } from './commands/change-user-role/change-user-role.service';
+import { AnonymizeUserService } from './commands/anonymize-user/anonymize-user.service';
+import { UserAnonymizationScheduler } from './commands/anonymize-user/user-anonymization.scheduler';
 import { FindUsersQueryHandler } from './queries/find-users/find-users.query-handler';
+import { UserOnboardingSaga } from './application/sagas/user-onboarding.saga';
+import { UserStatisticsProjector } from './database/user-statistics.projector';
 import { UserMapper } from './user.mapper';
 import { CqrsModule } from '@nestjs/cqrs';
+import { AuthModule } from '@modules/auth/auth.module';
+import { WalletModule } from '@modules/wallet/wallet.module';
 import { USER_REPOSITORY } from './user.di-tokens';
 import { FindUsersGraphqlResolver } from './queries/find-users/find-users.graphql-resolver';
+import { FindUsersCursorHttpController } from './queries/find-users-cursor/find-users-cursor.http.controller';
+import { FindUsersCursorQueryHandler } from './queries/find-users-cursor/find-users-cursor.query-handler';
+import { FindUsersCursorGraphqlResolver } from './queries/find-users-cursor/find-users-cursor.graphql-resolver';
+import { FindUserByIdHttpController } from './queries/find-user-by-id/find-user-by-id.http.controller';
+import { FindUserByIdQueryHandler } from './queries/find-user-by-id/find-user-by-id.query-handler';
+import { FindUserByIdGraphqlResolver } from './queries/find-user-by-id/find-user-by-id.graphql-resolver';
 
 const httpControllers = [
   CreateUserHttpController,
   DeleteUserHttpController,
+  RestoreUserHttpController,
+  UpdateUserAddressHttpController,
+  ChangeUserEmailHttpController,
+  ChangeUserRoleHttpController,
+  FindUsersCursorHttpController,
   FindUsersHttpController,
+  // Last, GET /users/:id would shadow GET /users/cursor and /users/me
+  FindUserByIdHttpController,
 ];
 
 const messageControllers = [CreateUserMessageController];
@@ -26,12 +56,35 @@ const cliControllers: Provider[] = [CreateUserCliController];
 
 const graphqlResolvers: Provider[] = [
   CreateUserGraphqlResolver,
+  UpdateUserAddressGraphqlResolver,
+  ChangeUserEmailGraphqlResolver,
+  ChangeUserRoleGraphqlResolver,
   FindUsersGraphqlResolver,
+  FindUsersCursorGraphqlResolver,
+  FindUserByIdGraphqlResolver,
 ];
 
-const commandHandlers: Provider[] = [CreateUserService, DeleteUserService];
+const commandHandlers: Provider[] = [
+  CreateUserService,
+  DeleteUserService,
+  RestoreUserService,
+  UpdateUserAddressService,
+  ChangeUserEmailService,
+  ChangeUserRoleService,
+  AnonymizeUserService,
+];
+
+const schedulers: Provider[] = [UserAnonymizationScheduler];
+
+const queryHandlers: Provider[] = [
+  FindUsersQueryHandler,
+  FindUsersCursorQueryHandler,
+  FindUserByIdQueryHandler,
+];
+
+const sagas: Provider[] = [UserOnboardingSaga];
 
-const queryHandlers: Provider[] = [FindUsersQueryHandler];
+const projectors: Provider[] = [UserStatisticsProjector];
 
 const mappers: Provider[] = [UserMapper];
 
@@ -40,7 +93,7 @@ const repositories: Provider[] = [
 ];
 
 @Module({
-  imports: [CqrsModule],
+  imports: [CqrsModule, forwardRef(() => AuthModule), WalletModule],
   controllers: [...httpControllers, ...messageControllers],
   providers: [
     Logger,
@@ -48,8 +101,12 @@ const repositories: Provider[] = [
     ...repositories,
     ...graphqlResolvers,
     ...commandHandlers,
+    ...schedulers,
     ...queryHandlers,
+    ...sagas,
+    ...projectors,
     ...mappers,
   ],
+  exports: [...repositories],
 })
 export class UserModule {}
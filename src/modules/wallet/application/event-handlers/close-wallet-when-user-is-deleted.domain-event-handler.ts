@@ -0,0 +1,29 @@
+import { UserDeletedDomainEvent } from '@modules/user/domain/events/user-deleted.domain-event';
+import { WalletRepositoryPort } from '@modules/wallet/database/wallet.repository.port';
+import { OnEvent } from '@nestjs/event-emitter';
+import {
+  OUTBOX_EVENT_HANDLER_OPTIONS,
+  OutboxEvent,
+} from '@libs/db/outbox/outbox.types';
+import { Inject, Injectable } from '@nestjs/common';
+import { WALLET_REPOSITORY } from '../../wallet.di-tokens';
+
+@Injectable()
+export class CloseWalletWhenUserIsDeletedDomainEventHandler {
+  constructor(
+    @Inject(WALLET_REPOSITORY)
+    private readonly walletRepo: WalletRepositoryPort,
+  ) {}
+
+  // The balance is kept, so the wallet can be reopened if the user is restored
+  @OnEvent(UserDeletedDomainEvent.name, OUTBOX_EVENT_HANDLER_OPTIONS)
+  async handle(event: OutboxEvent<UserDeletedDomainEvent>): Promise<void> {
+    const wallet = await this.walletRepo.findByUserId(event.aggregateId);
+    // Events are delivered at least once (see OutboxRelay), skip duplicates
+    if (!wallet || wallet.isClosed) {
+      return;
+    }
+    wallet.close();
+    await this.walletRepo.update(wallet);
+  }
+}
@@ -0,0 +1,28 @@
+import { UserRestoredDomainEvent } from '@modules/user/domain/events/user-restored.domain-event';
+import { WalletRepositoryPort } from '@modules/wallet/database/wallet.repository.port';
+import { OnEvent } from '@nestjs/event-emitter';
+import {
+  OUTBOX_EVENT_HANDLER_OPTIONS,
+  OutboxEvent,
+} from '@libs/db/outbox/outbox.types';
+import { Inject, Injectable } from '@nestjs/common';
+import { WALLET_REPOSITORY } from '../../wallet.di-tokens';
+
+@Injectable()
+export class ReopenWalletWhenUserIsRestoredDomainEventHandler {
+  constructor(
+    @Inject(WALLET_REPOSITORY)
+    private readonly walletRepo: WalletRepositoryPort,
+  ) {}
+
+  @OnEvent(UserRestoredDomainEvent.name, OUTBOX_EVENT_HANDLER_OPTIONS)
+  async handle(event: OutboxEvent<UserRestoredDomainEvent>): Promise<void> {
+    const wallet = await this.walletRepo.findByUserId(event.aggregateId);
+    // Events are delivered at least once (see OutboxRelay), skip duplicates
+    if (!wallet || !wallet.isClosed) {
+      return;
+    }
+    wallet.reopen();
+    await this.walletRepo.update(wallet);
+  }
+}
@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { Saga, SagaStep } from '@libs/db/sagas';
+import { DepositCommand } from '../../commands/deposit/deposit.command';
+import { WithdrawCommand } from '../../commands/withdraw/withdraw.command';
+
+const STEP_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface WalletTransferState {
+  transferId: string;
+  sourceWalletId: string;
+  targetWalletId: string;
+  /** Minor units of the source wallet currency, a string as the state is stored as JSON */
+  debitAmount: string;
+  debitCurrency: string;
+  /** Minor units of the target wallet currency */
+  creditAmount: string;
+  creditCurrency: string;
+}
+
+/**
+ * Debits the source wallet, then credits the target wallet.
+ * The source wallet is refunded when the target cannot be credited.
+ * All ledger entries reference the transfer id.
+ */
+@Injectable()
+export class WalletTransferSaga extends Saga<WalletTransferState> {
+  readonly name = 'wallet_transfer';
+
+  readonly steps: SagaStep<WalletTransferState>[] = [
+    {
+      name: 'withdraw',
+      invoke: (state) =>
+        new WithdrawCommand({
+          walletId: state.sourceWalletId,
+          amount: BigInt(state.debitAmount),
+          currency: state.debitCurrency,
+          reference: state.transferId,
+        }),
+      compensate: (state) =>
+        new DepositCommand({
+          walletId: state.sourceWalletId,
+          amount: BigInt(state.debitAmount),
+          currency: state.debitCurrency,
+          reference: state.transferId,
+        }),
+      timeoutMs: STEP_TIMEOUT_MS,
+    },
+    {
+      name: 'deposit',
+      invoke: (state) =>
+        new DepositCommand({
+          walletId: state.targetWalletId,
+          amount: BigInt(state.creditAmount),
+          currency: state.creditCurrency,
+          reference: state.transferId,
+        }),
+      timeoutMs: STEP_TIMEOUT_MS,
+    },
+  ];
+}
@@ -0,0 +1,35 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Ok, Result } from 'oxide.ts';
+import { AggregateID } from '@libs/ddd';
+import { WalletRepositoryPort } from '../../database/wallet.repository.port';
+import { WalletEntity } from '../../domain/wallet.entity';
+import { WALLET_REPOSITORY } from '../../wallet.di-tokens';
+import { CreateWalletCommand } from './create-wallet.command';
+
+@CommandHandler(CreateWalletCommand)
+export class CreateWalletService implements ICommandHandler<CreateWalletCommand> {
+  constructor(
+    @Inject(WALLET_REPOSITORY)
+    private readonly walletRepo: WalletRepositoryPort,
+  ) {}
+
+  /**
+   * A user has a single wallet, creating it again returns the existing one.
+   * @returns id of the wallet
+   */
+  async execute(
+    command: CreateWalletCommand,
+  ): Promise<Result<AggregateID, never>> {
+    const existing = await this.walletRepo.findByUserId(command.userId);
+    if (existing) {
+      return Ok(existing.id);
+    }
+
+    const wallet = WalletEntity.create({ userId: command.userId });
+    await this.walletRepo.transaction(async () =>
+      this.walletRepo.insert(wallet),
+    );
+    return Ok(wallet.id);
+  }
+}
@@ -0,0 +1,22 @@
+import { Command, CommandProps } from '@libs/ddd';
+
+export class DepositCommand extends Command {
+  readonly walletId: string;
+
+  /** Amount in minor units of the currency */
+  readonly amount: bigint;
+
+  /** ISO-4217 currency code, must match the wallet currency */
+  readonly currency: string;
+
+  /** Groups ledger entries of a single business operation (e.g. a transfer) */
+  readonly reference?: string;
+
+  constructor(props: CommandProps<DepositCommand>) {
+    super(props);
+    this.walletId = props.walletId;
+    this.amount = props.amount;
+    this.currency = props.currency;
+    this.reference = props.reference;
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  Body,
+  Controller,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  Post,
+  UnprocessableEntityException as UnprocessableEntityHttpException,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { CommandBus } from '@nestjs/cqrs';
+import { match, Result } from 'oxide.ts';
+import { IdResponse } from '@libs/api/id.response.dto';
+import {
+  ConcurrencyConflictException,
+  NotFoundException,
+} from '@libs/exceptions';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { Auth } from '@modules/auth/infrastructure/decorators/auth.decorator';
+import {
+  WalletClosedError,
+  WalletCurrencyMismatchError,
+} from '../../domain/wallet.errors';
+import { DepositCommand } from './deposit.command';
+import { DepositRequestDto } from './deposit.request.dto';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class DepositHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({ summary: 'Deposit funds to a wallet' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Id of the created ledger entry',
+    type: IdResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: NotFoundException.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    description: `${WalletClosedError.message} or ${WalletCurrencyMismatchError.message}`,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: ConcurrencyConflictException.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Only admins may deposit funds',
+    type: ApiErrorResponse,
+  })
+  @Auth({ roles: ['admin'], permissions: ['wallet:update'] })
+  @Post(routesV1.wallet.deposit)
+  async deposit(
+    @Param('id') walletId: string,
+    @Body() body: DepositRequestDto,
+  ): Promise<IdResponse> {
+    const command = new DepositCommand({
+      walletId,
+      amount: BigInt(body.amount),
+      currency: body.currency,
+    });
+
+    const result: Result<
+      string,
+      NotFoundException | WalletClosedError | WalletCurrencyMismatchError
+    > = await this.commandBus.execute(command);
+
+    return match(result, {
+      Ok: (id: string) => new IdResponse(id),
+      Err: (error: Error) => {
+        if (error instanceof NotFoundException)
+          throw new NotFoundHttpException(error.message);
+        if (
+          error instanceof WalletClosedError ||
+          error instanceof WalletCurrencyMismatchError
+        )
+          throw new UnprocessableEntityHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsISO4217CurrencyCode, Max, Min } from 'class-validator';
+
+export class DepositRequestDto {
+  @ApiProperty({
+    example: 1500,
+    description: 'Amount to deposit in minor units (e.g. cents)',
+  })
+  @IsInt()
+  @Min(1)
+  @Max(Number.MAX_SAFE_INTEGER)
+  readonly amount: number;
+
+  @ApiProperty({ example: 'USD', description: 'ISO-4217 currency code' })
+  @IsISO4217CurrencyCode()
+  readonly currency: string;
+}
@@ -0,0 +1,61 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { WalletTransactionType } from '../../database/wallet.repository';
+import { WalletRepositoryPort } from '../../database/wallet.repository.port';
+import { Money } from '../../domain/value-objects/money.value-object';
+import {
+  WalletClosedError,
+  WalletCurrencyMismatchError,
+} from '../../domain/wallet.errors';
+import { WALLET_REPOSITORY } from '../../wallet.di-tokens';
+import { DepositCommand } from './deposit.command';
+
+@CommandHandler(DepositCommand)
+export class DepositService implements ICommandHandler<DepositCommand> {
+  constructor(
+    @Inject(WALLET_REPOSITORY)
+    private readonly walletRepo: WalletRepositoryPort,
+  ) {}
+
+  /**
+   * An operation with a reference is recorded once, repeating it
+   * (e.g. when a saga step is retried) changes nothing.
+   * @returns id of the created ledger entry
+   */
+  async execute(
+    command: DepositCommand,
+  ): Promise<
+    Result<
+      string,
+      NotFoundException | WalletClosedError | WalletCurrencyMismatchError
+    >
+  > {
+    return this.walletRepo.transaction(async () => {
+      const found = await this.walletRepo.findOneByIdForUpdate(
+        command.walletId,
+      );
+      if (found.isNone()) return Err(new NotFoundException());
+
+      if (command.reference) {
+        const recorded = await this.walletRepo.findLedgerEntryId(
+          command.walletId,
+          WalletTransactionType.credit,
+          command.reference,
+        );
+        if (recorded.isSome()) return Ok(recorded.unwrap());
+      }
+
+      const wallet = found.unwrap();
+      const result = wallet.deposit(
+        Money.create(command.amount, command.currency),
+        command.reference,
+      );
+      if (result.isErr()) return result;
+
+      await this.walletRepo.update(wallet);
+      return result;
+    });
+  }
+}
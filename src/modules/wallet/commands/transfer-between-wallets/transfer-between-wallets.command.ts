@@ -0,0 +1,21 @@
+import { Command, CommandProps } from '@libs/ddd';
+
+export class TransferBetweenWalletsCommand extends Command {
+  readonly sourceWalletId: string;
+
+  readonly targetWalletId: string;
+
+  /** Amount in minor units of the source wallet currency */
+  readonly amount: bigint;
+
+  /** ISO-4217 currency code, must match the source wallet currency */
+  readonly currency: string;
+
+  constructor(props: CommandProps<TransferBetweenWalletsCommand>) {
+    super(props);
+    this.sourceWalletId = props.sourceWalletId;
+    this.targetWalletId = props.targetWalletId;
+    this.amount = props.amount;
+    this.currency = props.currency;
+  }
+}
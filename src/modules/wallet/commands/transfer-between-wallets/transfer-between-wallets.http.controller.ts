@@ -0,0 +1,120 @@
+import {
+  BadRequestException as BadRequestHttpException,
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  Post,
+  UnprocessableEntityException as UnprocessableEntityHttpException,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { CommandBus } from '@nestjs/cqrs';
+import { match, Result } from 'oxide.ts';
+import {
+  ArgumentOutOfRangeException,
+  ConcurrencyConflictException,
+  NotFoundException,
+} from '@libs/exceptions';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { Policy } from '@modules/auth/infrastructure/decorators/policy.decorator';
+import {
+  WalletClosedError,
+  WalletCurrencyMismatchError,
+  WalletExchangeRateNotAvailableError,
+  WalletNotEnoughBalanceError,
+  WalletTransferToSameWalletError,
+} from '../../domain/wallet.errors';
+import { WalletPolicies } from '../../domain/wallet.policies';
+import { WalletTransferResponseDto } from '../../dtos/wallet-transfer.response.dto';
+import { WALLET_REPOSITORY } from '../../wallet.di-tokens';
+import { TransferBetweenWalletsCommand } from './transfer-between-wallets.command';
+import { TransferBetweenWalletsRequestDto } from './transfer-between-wallets.request.dto';
+import {
+  TransferBetweenWalletsError,
+  WalletTransfer,
+} from './transfer-between-wallets.service';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class TransferBetweenWalletsHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({ summary: 'Transfer funds to another wallet' })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description:
+      'Id of the transfer (reference of both ledger entries) and whether it completed',
+    type: WalletTransferResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: NotFoundException.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    description: `${WalletClosedError.message}, ${WalletNotEnoughBalanceError.message}, ${WalletCurrencyMismatchError.message} or ${WalletExchangeRateNotAvailableError.message}`,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: ConcurrencyConflictException.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Only owners of the source wallet with a verified email may transfer',
+    type: ApiErrorResponse,
+  })
+  // The transfer withdraws from the source wallet through the saga,
+  // so it is allowed by the policy of a withdrawal
+  @Policy(WalletPolicies.withdraw, {
+    action: 'wallet:transfer',
+    resource: { repository: WALLET_REPOSITORY, param: 'id' },
+  })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Post(routesV1.wallet.transfer)
+  async transfer(
+    @Param('id') sourceWalletId: string,
+    @Body() body: TransferBetweenWalletsRequestDto,
+  ): Promise<WalletTransferResponseDto> {
+    const command = new TransferBetweenWalletsCommand({
+      sourceWalletId,
+      targetWalletId: body.targetWalletId,
+      amount: BigInt(body.amount),
+      currency: body.currency,
+    });
+
+    const result: Result<WalletTransfer, TransferBetweenWalletsError> =
+      await this.commandBus.execute(command);
+
+    return match(result, {
+      Ok: (transfer: WalletTransfer) => new WalletTransferResponseDto(transfer),
+      Err: (error: Error) => {
+        if (error instanceof NotFoundException)
+          throw new NotFoundHttpException(error.message);
+        if (
+          error instanceof WalletClosedError ||
+          error instanceof WalletNotEnoughBalanceError ||
+          error instanceof WalletCurrencyMismatchError ||
+          error instanceof WalletExchangeRateNotAvailableError
+        )
+          throw new UnprocessableEntityHttpException(error.message);
+        if (
+          error instanceof WalletTransferToSameWalletError ||
+          error instanceof ArgumentOutOfRangeException
+        )
+          throw new BadRequestHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
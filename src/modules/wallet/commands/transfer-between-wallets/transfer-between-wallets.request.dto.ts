@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsISO4217CurrencyCode,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class TransferBetweenWalletsRequestDto {
+  @ApiProperty({
+    example: '2cdc8ab1-6d50-49cc-ba14-54e4ac7ec231',
+    description: 'Wallet that receives the funds',
+  })
+  @IsUUID()
+  readonly targetWalletId: string;
+
+  @ApiProperty({
+    example: 1500,
+    description: 'Amount to transfer in minor units (e.g. cents)',
+  })
+  @IsInt()
+  @Min(1)
+  @Max(Number.MAX_SAFE_INTEGER)
+  readonly amount: number;
+
+  @ApiProperty({ example: 'USD', description: 'ISO-4217 currency code' })
+  @IsISO4217CurrencyCode()
+  readonly currency: string;
+}
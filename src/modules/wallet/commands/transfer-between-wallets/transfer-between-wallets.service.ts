@@ -0,0 +1,127 @@
+import { randomUUID } from 'crypto';
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { SagaManager, SagaStatus } from '@libs/db/sagas';
+import {
+  ArgumentOutOfRangeException,
+  NotFoundException,
+} from '@libs/exceptions';
+import { WalletTransferSaga } from '../../application/sagas/wallet-transfer.saga';
+import { WalletRepositoryPort } from '../../database/wallet.repository.port';
+import { ExchangeRatePort } from '../../domain/ports/exchange-rate.port';
+import { Money } from '../../domain/value-objects/money.value-object';
+import {
+  WalletClosedError,
+  WalletCurrencyMismatchError,
+  WalletExchangeRateNotAvailableError,
+  WalletNotEnoughBalanceError,
+  WalletTransferToSameWalletError,
+} from '../../domain/wallet.errors';
+import { EXCHANGE_RATE_PORT, WALLET_REPOSITORY } from '../../wallet.di-tokens';
+import { TransferBetweenWalletsCommand } from './transfer-between-wallets.command';
+
+export type TransferBetweenWalletsError =
+  | NotFoundException
+  | WalletClosedError
+  | WalletNotEnoughBalanceError
+  | WalletTransferToSameWalletError
+  | WalletCurrencyMismatchError
+  | WalletExchangeRateNotAvailableError
+  | ArgumentOutOfRangeException;
+
+export enum WalletTransferStatus {
+  completed = 'completed',
+  /** A step failed for a technical reason and is retried in the background */
+  pending = 'pending',
+}
+
+export interface WalletTransfer {
+  transferId: string;
+  status: WalletTransferStatus;
+}
+
+@CommandHandler(TransferBetweenWalletsCommand)
+export class TransferBetweenWalletsService implements ICommandHandler<TransferBetweenWalletsCommand> {
+  constructor(
+    @Inject(WALLET_REPOSITORY)
+    private readonly walletRepo: WalletRepositoryPort,
+    @Inject(EXCHANGE_RATE_PORT)
+    private readonly exchangeRates: ExchangeRatePort,
+    private readonly sagas: SagaManager,
+    private readonly transferSaga: WalletTransferSaga,
+  ) {}
+
+  /**
+   * Moves funds between two wallets with the WalletTransferSaga, each
+   * wallet is changed in a transaction of its own. When wallets use
+   * different currencies the credited amount is converted with the
+   * current exchange rate.
+   * A transfer that fails for a technical reason is retried in the
+   * background, until it completes or is refunded, it is pending until then.
+   */
+  async execute(
+    command: TransferBetweenWalletsCommand,
+  ): Promise<Result<WalletTransfer, TransferBetweenWalletsError>> {
+    if (command.sourceWalletId === command.targetWalletId) {
+      return Err(new WalletTransferToSameWalletError());
+    }
+
+    const [source, target] = await Promise.all([
+      this.walletRepo.findOneById(command.sourceWalletId),
+      this.walletRepo.findOneById(command.targetWalletId),
+    ]);
+    if (source.isNone() || target.isNone()) return Err(new NotFoundException());
+
+    const debit = Money.create(command.amount, command.currency);
+    const credit = await this.convert(debit, target.unwrap().currency);
+    if (credit.isErr()) return Err(credit.unwrapErr());
+
+    const transferId = randomUUID();
+    const { instance, error } = await this.sagas.start(this.transferSaga, {
+      key: transferId,
+      state: {
+        transferId,
+        sourceWalletId: command.sourceWalletId,
+        targetWalletId: command.targetWalletId,
+        debitAmount: debit.amount.toString(),
+        debitCurrency: debit.currency,
+        creditAmount: credit.unwrap().amount.toString(),
+        creditCurrency: credit.unwrap().currency,
+      },
+    });
+    // Errors returned by the steps, the saga undid the completed ones
+    if (error) return Err(error as TransferBetweenWalletsError);
+
+    return Ok({
+      transferId,
+      status:
+        instance.status === SagaStatus.completed
+          ? WalletTransferStatus.completed
+          : WalletTransferStatus.pending,
+    });
+  }
+
+  private async convert(
+    money: Money,
+    currency: string,
+  ): Promise<
+    Result<
+      Money,
+      WalletExchangeRateNotAvailableError | ArgumentOutOfRangeException
+    >
+  > {
+    if (money.currency === currency) return Ok(money);
+
+    const rate = await this.exchangeRates.getRate(money.currency, currency);
+    if (rate.isNone()) return Err(new WalletExchangeRateNotAvailableError());
+
+    const converted = money.convert(rate.unwrap());
+    if (!converted.isPositive()) {
+      return Err(
+        new ArgumentOutOfRangeException('Amount is too small to be converted'),
+      );
+    }
+    return Ok(converted);
+  }
+}
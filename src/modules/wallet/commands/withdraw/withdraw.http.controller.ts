@@ -0,0 +1,104 @@
+import {
+  Body,
+  Controller,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  Post,
+  UnprocessableEntityException as UnprocessableEntityHttpException,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { CommandBus } from '@nestjs/cqrs';
+import { match, Result } from 'oxide.ts';
+import { IdResponse } from '@libs/api/id.response.dto';
+import {
+  ConcurrencyConflictException,
+  NotFoundException,
+} from '@libs/exceptions';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { Policy } from '@modules/auth/infrastructure/decorators/policy.decorator';
+import {
+  WalletClosedError,
+  WalletCurrencyMismatchError,
+  WalletNotEnoughBalanceError,
+} from '../../domain/wallet.errors';
+import { WalletPolicies } from '../../domain/wallet.policies';
+import { WALLET_REPOSITORY } from '../../wallet.di-tokens';
+import { WithdrawCommand } from './withdraw.command';
+import { WithdrawRequestDto } from './withdraw.request.dto';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class WithdrawHttpController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @ApiOperation({ summary: 'Withdraw funds from a wallet' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Id of the created ledger entry',
+    type: IdResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: NotFoundException.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    description: `${WalletClosedError.message}, ${WalletNotEnoughBalanceError.message} or ${WalletCurrencyMismatchError.message}`,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: ConcurrencyConflictException.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Only owners with a verified email may withdraw',
+    type: ApiErrorResponse,
+  })
+  @Policy(WalletPolicies.withdraw, {
+    action: 'wallet:withdraw',
+    resource: { repository: WALLET_REPOSITORY, param: 'id' },
+  })
+  @Post(routesV1.wallet.withdraw)
+  async withdraw(
+    @Param('id') walletId: string,
+    @Body() body: WithdrawRequestDto,
+  ): Promise<IdResponse> {
+    const command = new WithdrawCommand({
+      walletId,
+      amount: BigInt(body.amount),
+      currency: body.currency,
+    });
+
+    const result: Result<
+      string,
+      | NotFoundException
+      | WalletClosedError
+      | WalletNotEnoughBalanceError
+      | WalletCurrencyMismatchError
+    > = await this.commandBus.execute(command);
+
+    return match(result, {
+      Ok: (id: string) => new IdResponse(id),
+      Err: (error: Error) => {
+        if (error instanceof NotFoundException)
+          throw new NotFoundHttpException(error.message);
+        if (
+          error instanceof WalletClosedError ||
+          error instanceof WalletNotEnoughBalanceError ||
+          error instanceof WalletCurrencyMismatchError
+        )
+          throw new UnprocessableEntityHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
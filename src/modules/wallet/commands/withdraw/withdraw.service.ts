@@ -0,0 +1,65 @@
+import { Inject } from '@nestjs/common';
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { NotFoundException } from '@libs/exceptions';
+import { WalletTransactionType } from '../../database/wallet.repository';
+import { WalletRepositoryPort } from '../../database/wallet.repository.port';
+import { Money } from '../../domain/value-objects/money.value-object';
+import {
+  WalletClosedError,
+  WalletCurrencyMismatchError,
+  WalletNotEnoughBalanceError,
+} from '../../domain/wallet.errors';
+import { WALLET_REPOSITORY } from '../../wallet.di-tokens';
+import { WithdrawCommand } from './withdraw.command';
+
+@CommandHandler(WithdrawCommand)
+export class WithdrawService implements ICommandHandler<WithdrawCommand> {
+  constructor(
+    @Inject(WALLET_REPOSITORY)
+    private readonly walletRepo: WalletRepositoryPort,
+  ) {}
+
+  /**
+   * An operation with a reference is recorded once, repeating it
+   * (e.g. when a saga step is retried) changes nothing.
+   * @returns id of the created ledger entry
+   */
+  async execute(
+    command: WithdrawCommand,
+  ): Promise<
+    Result<
+      string,
+      | NotFoundException
+      | WalletClosedError
+      | WalletNotEnoughBalanceError
+      | WalletCurrencyMismatchError
+    >
+  > {
+    return this.walletRepo.transaction(async () => {
+      const found = await this.walletRepo.findOneByIdForUpdate(
+        command.walletId,
+      );
+      if (found.isNone()) return Err(new NotFoundException());
+
+      if (command.reference) {
+        const recorded = await this.walletRepo.findLedgerEntryId(
+          command.walletId,
+          WalletTransactionType.debit,
+          command.reference,
+        );
+        if (recorded.isSome()) return Ok(recorded.unwrap());
+      }
+
+      const wallet = found.unwrap();
+      const result = wallet.withdraw(
+        Money.create(command.amount, command.currency),
+        command.reference,
+      );
+      if (result.isErr()) return result;
+
+      await this.walletRepo.update(wallet);
+      return result;
+    });
+  }
+}
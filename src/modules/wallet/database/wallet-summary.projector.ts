@@ -0,0 +1,64 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseTransactionConnection, sql } from 'slonik';
+import { ProjectionHandler, Projector } from '@libs/db/projections';
+import { DEFAULT_WALLET_CURRENCY } from '../domain/wallet.entity';
+import { WalletCreatedDomainEvent } from '../domain/events/wallet-created.domain-event';
+import { WalletCreditedDomainEvent } from '../domain/events/wallet-credited.domain-event';
+import { WalletDebitedDomainEvent } from '../domain/events/wallet-debited.domain-event';
+
+export const WALLET_SUMMARY_PROJECTION_TABLE = 'wallet_summary_projection';
+
+/**
+ * Currency and balance of every wallet, the "wallet_summary" view
+ * aggregates them by currency
+ */
+@Injectable()
+export class WalletSummaryProjector extends Projector {
+  readonly name = 'wallet_summary';
+
+  protected readonly tables = [WALLET_SUMMARY_PROJECTION_TABLE];
+
+  private readonly table = sql.identifier([WALLET_SUMMARY_PROJECTION_TABLE]);
+
+  @ProjectionHandler(WalletCreatedDomainEvent.name)
+  async onWalletCreated(
+    event: WalletCreatedDomainEvent,
+    connection: DatabaseTransactionConnection,
+  ): Promise<void> {
+    // Wallets created before currencies were introduced have no currency
+    await connection.query(sql.unsafe`
+      INSERT INTO ${this.table} ("walletId", "currency")
+      VALUES (${event.aggregateId}, ${event.currency ?? DEFAULT_WALLET_CURRENCY})
+      ON CONFLICT ("walletId") DO NOTHING
+    `);
+  }
+
+  @ProjectionHandler(WalletCreditedDomainEvent.name)
+  async onWalletCredited(
+    event: WalletCreditedDomainEvent,
+    connection: DatabaseTransactionConnection,
+  ): Promise<void> {
+    await this.updateBalance(event, connection);
+  }
+
+  @ProjectionHandler(WalletDebitedDomainEvent.name)
+  async onWalletDebited(
+    event: WalletDebitedDomainEvent,
+    connection: DatabaseTransactionConnection,
+  ): Promise<void> {
+    await this.updateBalance(event, connection);
+  }
+
+  /** Events carry the balance after the operation, amounts are not summed up */
+  private async updateBalance(
+    event: WalletCreditedDomainEvent | WalletDebitedDomainEvent,
+    connection: DatabaseTransactionConnection,
+  ): Promise<void> {
+    // bigint values are serialized as strings in the outbox
+    await connection.query(sql.unsafe`
+      UPDATE ${this.table}
+      SET "balance" = ${String(event.balance)}, "currency" = ${event.currency}
+      WHERE "walletId" = ${event.aggregateId}
+    `);
+  }
+}
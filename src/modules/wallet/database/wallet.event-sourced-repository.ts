@@ -0,0 +1,158 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { None, Option, Some } from 'oxide.ts';
+import { DatabasePool, sql } from 'slonik';
+import { z } from 'zod';
+import { DATABASE_POOL_TOKEN } from '@libs/database';
+import {
+  EVENT_STORE_TABLE,
+  EventDeserializers,
+  EventSourcedRepositoryBase,
+} from '@libs/db/event-store';
+import { AggregateID } from '@libs/ddd';
+import { WalletEntity } from '../domain/wallet.entity';
+import { WalletCreatedDomainEvent } from '../domain/events/wallet-created.domain-event';
+import { WalletCreditedDomainEvent } from '../domain/events/wallet-credited.domain-event';
+import { WalletDebitedDomainEvent } from '../domain/events/wallet-debited.domain-event';
+import { WalletClosedDomainEvent } from '../domain/events/wallet-closed.domain-event';
+import { WalletReopenedDomainEvent } from '../domain/events/wallet-reopened.domain-event';
+import { WalletMapper } from '../wallet.mapper';
+import { walletSchema, WalletTransactionType } from './wallet.repository';
+import { WalletRepositoryPort } from './wallet.repository.port';
+
+/**
+ * Stores wallets as streams of their domain events, so every change
+ * of a balance can be audited. Snapshots use the persistence model
+ * of WalletRepository.
+ *
+ * Provided by WalletModule, it can be bound to WALLET_REPOSITORY
+ * instead of WalletRepository.
+ * The "wallets" and "wallet_transactions" tables are not written then,
+ * queries reading them need projections of the wallet events.
+ */
+@Injectable()
+export class WalletEventSourcedRepository
+  extends EventSourcedRepositoryBase<WalletEntity>
+  implements WalletRepositoryPort
+{
+  protected aggregateType = WalletEntity.name;
+
+  protected events: EventDeserializers = {
+    [WalletCreatedDomainEvent.name]: (payload) =>
+      new WalletCreatedDomainEvent({
+        id: payload.id,
+        aggregateId: payload.aggregateId,
+        metadata: payload.metadata,
+        userId: payload.userId,
+        currency: payload.currency,
+      }),
+    [WalletCreditedDomainEvent.name]: (payload) =>
+      new WalletCreditedDomainEvent({
+        id: payload.id,
+        aggregateId: payload.aggregateId,
+        metadata: payload.metadata,
+        transactionId: payload.transactionId,
+        amount: BigInt(payload.amount),
+        balance: BigInt(payload.balance),
+        currency: payload.currency,
+        reference: payload.reference,
+      }),
+    [WalletDebitedDomainEvent.name]: (payload) =>
+      new WalletDebitedDomainEvent({
+        id: payload.id,
+        aggregateId: payload.aggregateId,
+        metadata: payload.metadata,
+        transactionId: payload.transactionId,
+        amount: BigInt(payload.amount),
+        balance: BigInt(payload.balance),
+        currency: payload.currency,
+        reference: payload.reference,
+      }),
+    [WalletClosedDomainEvent.name]: (payload) =>
+      new WalletClosedDomainEvent({
+        id: payload.id,
+        aggregateId: payload.aggregateId,
+        metadata: payload.metadata,
+        userId: payload.userId,
+      }),
+    [WalletReopenedDomainEvent.name]: (payload) =>
+      new WalletReopenedDomainEvent({
+        id: payload.id,
+        aggregateId: payload.aggregateId,
+        metadata: payload.metadata,
+        userId: payload.userId,
+      }),
+  };
+
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    pool: DatabasePool,
+    private readonly mapper: WalletMapper,
+  ) {
+    super(pool, new Logger(WalletEventSourcedRepository.name));
+  }
+
+  async existsForUser(userId: string): Promise<boolean> {
+    return (await this.findIdByUserId(userId)) !== null;
+  }
+
+  async findByUserId(userId: string): Promise<WalletEntity | null> {
+    const id = await this.findIdByUserId(userId);
+    if (id === null) {
+      return null;
+    }
+    const wallet = await this.findOneById(id);
+    return wallet.isSome() ? wallet.unwrap() : null;
+  }
+
+  /** Must be called inside a transaction */
+  async findOneByIdForUpdate(id: string): Promise<Option<WalletEntity>> {
+    await this.lockStream(id);
+    return this.findOneById(id);
+  }
+
+  async findLedgerEntryId(
+    walletId: string,
+    type: WalletTransactionType,
+    reference: string,
+  ): Promise<Option<string>> {
+    const eventName =
+      type === WalletTransactionType.credit
+        ? WalletCreditedDomainEvent.name
+        : WalletDebitedDomainEvent.name;
+    const transactionId = await this.pool.maybeOneFirst(
+      sql.type(z.object({ transactionId: z.string() }))`
+        SELECT "payload"->>'transactionId' AS "transactionId"
+        FROM ${sql.identifier([EVENT_STORE_TABLE])}
+        WHERE "streamId" = ${walletId}
+          AND "eventName" = ${eventName}
+          AND "payload"->>'reference' = ${reference}
+        LIMIT 1
+      `,
+    );
+    return transactionId === null ? None : Some(transactionId);
+  }
+
+  protected createInitial(id: AggregateID, createdAt: Date): WalletEntity {
+    return WalletEntity.initial(id, createdAt);
+  }
+
+  protected toSnapshot(wallet: WalletEntity): Record<string, unknown> {
+    return this.mapper.toPersistence(wallet);
+  }
+
+  protected fromSnapshot(state: Record<string, unknown>): WalletEntity {
+    return this.mapper.toDomain(walletSchema.parse(state));
+  }
+
+  private async findIdByUserId(userId: string): Promise<AggregateID | null> {
+    return this.pool.maybeOneFirst(
+      sql.type(z.object({ streamId: z.string() }))`
+        SELECT "streamId" FROM ${sql.identifier([EVENT_STORE_TABLE])}
+        WHERE "aggregateType" = ${this.aggregateType}
+          AND "eventName" = ${WalletCreatedDomainEvent.name}
+          AND "payload"->>'userId' = ${userId}
+        LIMIT 1
+      `,
+    );
+  }
+}
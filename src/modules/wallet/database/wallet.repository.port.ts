@@ -1,4 +1,16 @@
+import { Option } from 'oxide.ts';
 import { RepositoryPort } from '@libs/ddd';
 import { WalletEntity } from '../domain/wallet.entity';
+import { WalletTransactionType } from './wallet.repository';
 
-export type WalletRepositoryPort = RepositoryPort<WalletEntity>;
+export interface WalletRepositoryPort extends RepositoryPort<WalletEntity> {
+  existsForUser(userId: string): Promise<boolean>;
+  findByUserId(userId: string): Promise<WalletEntity | null>;
+  findOneByIdForUpdate(id: string): Promise<Option<WalletEntity>>;
+  /** Id of the ledger entry of the wallet recorded with the reference */
+  findLedgerEntryId(
+    walletId: string,
+    type: WalletTransactionType,
+    reference: string,
+  ): Promise<Option<string>>;
+}
@@ -1,23 +1,54 @@
 import { Inject, Injectable, Logger } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { DatabasePool, sql } from 'slonik';
+import { DatabasePool, sql, SqlToken } from 'slonik';
 import { z } from 'zod';
 import { DATABASE_POOL_TOKEN } from '@libs/database';
+import { ConcurrencyConflictException } from '@libs/exceptions';
 import { SqlRepositoryBase } from '@src/libs/db/sql-repository.base';
 import { WalletRepositoryPort } from './wallet.repository.port';
 import { WalletEntity } from '../domain/wallet.entity';
 import { WalletMapper } from '../wallet.mapper';
+import { WalletCreditedDomainEvent } from '../domain/events/wallet-credited.domain-event';
+import { WalletDebitedDomainEvent } from '../domain/events/wallet-debited.domain-event';
+import { None, Option, Some } from 'oxide.ts';
 
 export const walletSchema = z.object({
   id: z.string().min(1).max(255),
   createdAt: z.preprocess((val: any) => new Date(val), z.date()),
   updatedAt: z.preprocess((val: any) => new Date(val), z.date()),
-  balance: z.number().min(0).max(9999999),
+  version: z.number().int().positive(),
+  /** Balance in minor units of the wallet currency */
+  balance: z.coerce.bigint().nonnegative(),
+  currency: z.string().length(3),
   userId: z.string().min(1).max(255),
+  closedAt: z.preprocess(
+    (val: any) => (val === null || val === undefined ? null : new Date(val)),
+    z.date().nullable(),
+  ),
 });
 
 export type WalletModel = z.TypeOf<typeof walletSchema>;
 
+export enum WalletTransactionType {
+  credit = 'credit',
+  debit = 'debit',
+}
+
+export const walletTransactionSchema = z.object({
+  id: z.string().min(1).max(255),
+  walletId: z.string().min(1).max(255),
+  type: z.nativeEnum(WalletTransactionType),
+  amount: z.coerce.bigint().positive(),
+  balanceAfter: z.coerce.bigint().nonnegative(),
+  currency: z.string().length(3),
+  reference: z.string().nullable(),
+  createdAt: z.preprocess((val: any) => new Date(val), z.date()),
+});
+
+export type WalletTransactionModel = z.TypeOf<typeof walletTransactionSchema>;
+
+type LedgerEvent = WalletCreditedDomainEvent | WalletDebitedDomainEvent;
+
 @Injectable()
 export class WalletRepository
   extends SqlRepositoryBase<WalletEntity, WalletModel>
@@ -36,6 +67,74 @@ export class WalletRepository
     super(pool, mapper, eventEmitter, new Logger(WalletRepository.name));
   }
 
+  /**
+   * Insert wallets together with their ledger entries
+   */
+  async insert(entity: WalletEntity | WalletEntity[]): Promise<void> {
+    const entities = Array.isArray(entity) ? entity : [entity];
+    const entries = entities.flatMap((wallet) => this.getLedgerEvents(wallet));
+
+    await this.transaction(async () => {
+      await super.insert(entities);
+      await this.appendLedgerEntries(entries);
+    });
+  }
+
+  /**
+   * Update a wallet and append its ledger entries in the same transaction,
+   * so the stored balance always equals the sum of the ledger
+   */
+  async update(entity: WalletEntity): Promise<void> {
+    const entries = this.getLedgerEvents(entity);
+
+    await this.transaction(async () => {
+      await super.update(entity);
+      await this.appendLedgerEntries(entries);
+    });
+  }
+
+  /**
+   * Find a wallet and lock its row until the end of the current transaction.
+   * Must be called inside a transaction.
+   */
+  async findOneByIdForUpdate(id: string): Promise<Option<WalletEntity>> {
+    const result = await this.executeQuery(
+      sql.type(walletSchema)`
+        SELECT * FROM "wallets"
+        WHERE id = ${id}
+        FOR UPDATE
+      `,
+      'findOneByIdForUpdate',
+    );
+
+    if (result.rows.length === 0) {
+      return None;
+    }
+
+    return Some(this.mapper.toDomain(this.schema.parse(result.rows[0])));
+  }
+
+  /**
+   * Uses unique index: UQ_wallet_transactions_reference
+   */
+  async findLedgerEntryId(
+    walletId: string,
+    type: WalletTransactionType,
+    reference: string,
+  ): Promise<Option<string>> {
+    const result = await this.executeQuery(
+      sql.type(z.object({ id: z.string() }))`
+        SELECT "id" FROM "wallet_transactions"
+        WHERE "walletId" = ${walletId}
+          AND "type" = ${type}
+          AND "reference" = ${reference}
+      `,
+      'findLedgerEntryId',
+    );
+
+    return result.rows.length === 0 ? None : Some(result.rows[0].id);
+  }
+
   /**
    * Find wallet by user ID with optimized query
    */
@@ -68,7 +167,7 @@ export class WalletRepository
    */
   async findUserWalletWithBalance(
     userId: string,
-    minBalance = 0,
+    minBalance: bigint = BigInt(0),
   ): Promise<WalletEntity | null> {
     try {
       // Uses composite index: IDX_wallets_user_balance
@@ -97,40 +196,36 @@ export class WalletRepository
   }
 
   /**
-   * Update wallet balance with optimistic locking
+   * Update wallet balance with optimistic locking.
+   * Throws ConcurrencyConflictException if `expectedVersion` is given
+   * and the wallet was modified in the meantime.
    */
   async updateBalance(
     walletId: string,
-    newBalance: number,
+    newBalance: bigint,
     expectedVersion?: number,
   ): Promise<boolean> {
-    try {
-      let query;
+    const versionCheck =
+      expectedVersion !== undefined
+        ? sql.fragment`AND version = ${expectedVersion}`
+        : sql.fragment``;
 
-      if (expectedVersion !== undefined) {
-        // Optimistic locking - include version check
-        query = sql.unsafe`
+    let updated: boolean;
+    try {
+      const result = await this.executeQuery(
+        sql.unsafe`
           UPDATE "wallets" 
           SET 
             balance = ${newBalance},
-            "updatedAt" = ${sql.timestamp(new Date())}
+            "updatedAt" = ${sql.timestamp(new Date())},
+            version = version + 1
           WHERE 
             id = ${walletId} 
-            AND version = ${expectedVersion}
-        `;
-      } else {
-        // Simple update without version check
-        query = sql.unsafe`
-          UPDATE "wallets" 
-          SET 
-            balance = ${newBalance},
-            "updatedAt" = ${sql.timestamp(new Date())}
-          WHERE id = ${walletId}
-        `;
-      }
-
-      const result = await this.executeQuery(query, 'updateBalance');
-      return result.rowCount > 0;
+            ${versionCheck}
+        `,
+        'updateBalance',
+      );
+      updated = result.rowCount > 0;
     } catch (error) {
       this.handleRepositoryError(error as Error, 'updateBalance', {
         walletId,
@@ -139,6 +234,15 @@ export class WalletRepository
       });
       return false;
     }
+
+    if (!updated && expectedVersion !== undefined) {
+      if (await this.exists(walletId)) {
+        throw new ConcurrencyConflictException(
+          `Wallet ${walletId} was modified by another process (expected version ${expectedVersion})`,
+        );
+      }
+    }
+    return updated;
   }
 
   /**
@@ -161,4 +265,44 @@ export class WalletRepository
       return false;
     }
   }
+
+  private getLedgerEvents(wallet: WalletEntity): LedgerEvent[] {
+    return wallet.domainEvents.filter(
+      (event): event is LedgerEvent =>
+        event instanceof WalletCreditedDomainEvent ||
+        event instanceof WalletDebitedDomainEvent,
+    );
+  }
+
+  private async appendLedgerEntries(entries: LedgerEvent[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const rows: SqlToken[] = entries.map(
+      (event) => sql.fragment`(
+        ${event.transactionId},
+        ${event.aggregateId},
+        ${
+          event instanceof WalletCreditedDomainEvent
+            ? WalletTransactionType.credit
+            : WalletTransactionType.debit
+        },
+        ${event.amount},
+        ${event.balance},
+        ${event.currency},
+        ${event.reference ?? null},
+        ${sql.timestamp(new Date(event.metadata.timestamp))}
+      )`,
+    );
+
+    await this.executeQuery(
+      sql.unsafe`
+        INSERT INTO "wallet_transactions"
+        ("id", "walletId", "type", "amount", "balanceAfter", "currency", "reference", "createdAt")
+        VALUES ${sql.join(rows, sql.fragment`, `)}
+      `,
+      'appendLedgerEntries',
+    );
+  }
 }
@@ -0,0 +1,10 @@
+import { DomainEvent, DomainEventProps } from '@libs/ddd';
+
+export class WalletClosedDomainEvent extends DomainEvent {
+  readonly userId: string;
+
+  constructor(props: DomainEventProps<WalletClosedDomainEvent>) {
+    super(props);
+    this.userId = props.userId;
+  }
+}
@@ -3,7 +3,12 @@ import { DomainEvent, DomainEventProps } from '@libs/ddd';
 export class WalletCreatedDomainEvent extends DomainEvent {
   readonly userId: string;
 
+  /** ISO-4217 currency code of the wallet */
+  readonly currency: string;
+
   constructor(props: DomainEventProps<WalletCreatedDomainEvent>) {
     super(props);
+    this.userId = props.userId;
+    this.currency = props.currency;
   }
 }
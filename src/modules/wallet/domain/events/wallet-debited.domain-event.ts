@@ -0,0 +1,27 @@
+import { DomainEvent, DomainEventProps } from '@libs/ddd';
+
+export class WalletDebitedDomainEvent extends DomainEvent {
+  /** Id of the ledger entry created for this operation */
+  readonly transactionId: string;
+
+  /** Amount in minor units of the wallet currency */
+  readonly amount: bigint;
+
+  /** Wallet balance after the operation, in minor units */
+  readonly balance: bigint;
+
+  /** ISO-4217 currency code of the wallet */
+  readonly currency: string;
+
+  /** Groups ledger entries of a single business operation (e.g. a transfer) */
+  readonly reference?: string;
+
+  constructor(props: DomainEventProps<WalletDebitedDomainEvent>) {
+    super(props);
+    this.transactionId = props.transactionId;
+    this.amount = props.amount;
+    this.balance = props.balance;
+    this.currency = props.currency;
+    this.reference = props.reference;
+  }
+}
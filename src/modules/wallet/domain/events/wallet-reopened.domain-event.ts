@@ -0,0 +1,10 @@
+import { DomainEvent, DomainEventProps } from '@libs/ddd';
+
+export class WalletReopenedDomainEvent extends DomainEvent {
+  readonly userId: string;
+
+  constructor(props: DomainEventProps<WalletReopenedDomainEvent>) {
+    super(props);
+    this.userId = props.userId;
+  }
+}
@@ -0,0 +1,10 @@
+import { Option } from 'oxide.ts';
+import { ExchangeRate } from '../value-objects/money.value-object';
+
+export interface ExchangeRatePort {
+  /**
+   * Rate to convert money from one currency to another.
+   * Returns None when the pair is not supported.
+   */
+  getRate(from: string, to: string): Promise<Option<ExchangeRate>>;
+}
@@ -0,0 +1,170 @@
+import { ValueObject } from '@libs/ddd';
+import { ArgumentInvalidException } from '@libs/exceptions';
+
+export interface MoneyProps {
+  /** Amount in minor units of the currency (e.g. cents for USD) */
+  amount: bigint;
+  /** ISO-4217 currency code */
+  currency: string;
+}
+
+/**
+ * Exchange rate expressed as a fraction to avoid floating point errors:
+ * 1 unit of `from` currency = numerator / denominator units of `to` currency
+ */
+export interface ExchangeRate {
+  from: string;
+  to: string;
+  numerator: bigint;
+  denominator: bigint;
+}
+
+const ZERO = BigInt(0);
+
+export class Money extends ValueObject<MoneyProps> {
+  static create(amount: bigint | number | string, currency: string): Money {
+    if (typeof amount === 'number' && !Number.isSafeInteger(amount)) {
+      throw new ArgumentInvalidException(
+        'Money amount must be an integer number of minor units',
+      );
+    }
+    return new Money({ amount: BigInt(amount), currency });
+  }
+
+  static zero(currency: string): Money {
+    return new Money({ amount: ZERO, currency });
+  }
+
+  /**
+   * Number of minor unit digits of a currency (2 for USD, 0 for JPY, 3 for BHD)
+   */
+  static minorUnitDigits(currency: string): number {
+    const { maximumFractionDigits } = new Intl.NumberFormat('en', {
+      style: 'currency',
+      currency,
+    }).resolvedOptions();
+    return maximumFractionDigits ?? 2;
+  }
+
+  get amount(): bigint {
+    return this.props.amount;
+  }
+
+  get currency(): string {
+    return this.props.currency;
+  }
+
+  isSameCurrency(other: Money): boolean {
+    return this.currency === other.currency;
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money({
+      amount: this.amount + other.amount,
+      currency: this.currency,
+    });
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money({
+      amount: this.amount - other.amount,
+      currency: this.currency,
+    });
+  }
+
+  isPositive(): boolean {
+    return this.amount > ZERO;
+  }
+
+  isNegative(): boolean {
+    return this.amount < ZERO;
+  }
+
+  isLessThan(other: Money): boolean {
+    this.assertSameCurrency(other);
+    return this.amount < other.amount;
+  }
+
+  /**
+   * Converts money to another currency using the given rate.
+   * Result is rounded half away from zero to the minor unit
+   * of the target currency.
+   */
+  convert(rate: ExchangeRate): Money {
+    if (rate.from !== this.currency) {
+      throw new ArgumentInvalidException(
+        `Exchange rate ${rate.from}/${rate.to} cannot convert ${this.currency}`,
+      );
+    }
+    if (rate.numerator <= ZERO || rate.denominator <= ZERO) {
+      throw new ArgumentInvalidException('Exchange rate must be positive');
+    }
+
+    const scaleFrom = BigInt(10) ** BigInt(Money.minorUnitDigits(rate.from));
+    const scaleTo = BigInt(10) ** BigInt(Money.minorUnitDigits(rate.to));
+
+    const numerator = this.amount * rate.numerator * scaleTo;
+    const denominator = rate.denominator * scaleFrom;
+
+    return new Money({
+      amount: Money.divideRounded(numerator, denominator),
+      currency: rate.to,
+    });
+  }
+
+  /**
+   * bigint is not serializable by JSON.stringify, amounts are
+   * represented as strings instead
+   */
+  toJSON(): { amount: string; currency: string } {
+    return { amount: this.amount.toString(), currency: this.currency };
+  }
+
+  toString(): string {
+    return `${this.amount.toString()} ${this.currency}`;
+  }
+
+  protected validate(props: MoneyProps): void {
+    if (typeof props.amount !== 'bigint') {
+      throw new ArgumentInvalidException('Money amount must be a bigint');
+    }
+    if (!Money.isCurrencyCode(props.currency)) {
+      throw new ArgumentInvalidException(
+        `${props.currency} is not a valid ISO-4217 currency code`,
+      );
+    }
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (!this.isSameCurrency(other)) {
+      throw new ArgumentInvalidException(
+        `Currency mismatch: ${this.currency} and ${other.currency}`,
+      );
+    }
+  }
+
+  private static isCurrencyCode(currency: string): boolean {
+    if (typeof currency !== 'string' || !/^[A-Z]{3}$/.test(currency)) {
+      return false;
+    }
+    const intl = Intl as typeof Intl & {
+      supportedValuesOf?: (key: 'currency') => string[];
+    };
+    return intl.supportedValuesOf
+      ? intl.supportedValuesOf('currency').includes(currency)
+      : true;
+  }
+
+  private static divideRounded(numerator: bigint, denominator: bigint): bigint {
+    const quotient = numerator / denominator;
+    const remainder = numerator % denominator;
+    const two = BigInt(2);
+    const absRemainder = remainder < ZERO ? -remainder : remainder;
+    if (absRemainder * two >= denominator) {
+      return numerator < ZERO ? quotient - BigInt(1) : quotient + BigInt(1);
+    }
+    return quotient;
+  }
+}
@@ -1,43 +1,198 @@
-import { AggregateID, AggregateRoot } from '@libs/ddd';
+import { AggregateID, DomainEvent, EventSourcedAggregateRoot } from '@libs/ddd';
 import { ArgumentOutOfRangeException } from '@libs/exceptions';
 import { Err, Ok, Result } from 'oxide.ts';
 import { WalletCreatedDomainEvent } from './events/wallet-created.domain-event';
-import { WalletNotEnoughBalanceError } from './wallet.errors';
+import { WalletCreditedDomainEvent } from './events/wallet-credited.domain-event';
+import { WalletDebitedDomainEvent } from './events/wallet-debited.domain-event';
+import { WalletClosedDomainEvent } from './events/wallet-closed.domain-event';
+import { WalletReopenedDomainEvent } from './events/wallet-reopened.domain-event';
+import {
+  WalletClosedError,
+  WalletCurrencyMismatchError,
+  WalletNotEnoughBalanceError,
+} from './wallet.errors';
+import { Money } from './value-objects/money.value-object';
 import { randomUUID } from 'crypto';
 
+export const DEFAULT_WALLET_CURRENCY = 'USD';
+
 export interface CreateWalletProps {
   userId: AggregateID;
+  /** ISO-4217 currency code, defaults to DEFAULT_WALLET_CURRENCY */
+  currency?: string;
 }
 
-export interface WalletProps extends CreateWalletProps {
-  balance: number;
+export interface WalletProps {
+  userId: AggregateID;
+  balance: Money;
+  /** Closed wallets keep their balance but accept no operations */
+  closedAt?: Date;
 }
 
-export class WalletEntity extends AggregateRoot<WalletProps> {
+/**
+ * State changes are made through domain events (see `when`),
+ * so a wallet can be stored as rows or rebuilt from its events.
+ */
+export class WalletEntity extends EventSourcedAggregateRoot<WalletProps> {
   protected readonly _id: AggregateID;
 
   static create(create: CreateWalletProps): WalletEntity {
     const id = randomUUID();
-    const props: WalletProps = { ...create, balance: 0 };
-    const wallet = new WalletEntity({ id, props });
+    const wallet = WalletEntity.initial(id);
 
-    wallet.addEvent(
-      new WalletCreatedDomainEvent({ aggregateId: id, userId: create.userId }),
+    wallet.apply(
+      new WalletCreatedDomainEvent({
+        aggregateId: id,
+        userId: create.userId,
+        currency: create.currency ?? DEFAULT_WALLET_CURRENCY,
+      }),
     );
 
     return wallet;
   }
 
-  deposit(amount: number): void {
-    this.props.balance += amount;
+  /**
+   * Wallet before WalletCreatedDomainEvent is applied,
+   * the starting point to rebuild a wallet from its events
+   */
+  static initial(id: AggregateID, createdAt?: Date): WalletEntity {
+    return new WalletEntity({
+      id,
+      createdAt,
+      props: { userId: '', balance: Money.zero(DEFAULT_WALLET_CURRENCY) },
+    });
+  }
+
+  get balance(): Money {
+    return this.props.balance;
+  }
+
+  get currency(): string {
+    return this.props.balance.currency;
+  }
+
+  get userId(): AggregateID {
+    return this.props.userId;
+  }
+
+  get isClosed(): boolean {
+    return this.props.closedAt !== undefined;
+  }
+
+  /**
+   * Closes the wallet, e.g. when its owner is deleted.
+   * Closing a closed wallet does nothing.
+   */
+  close(): void {
+    if (this.isClosed) {
+      return;
+    }
+    this.apply(
+      new WalletClosedDomainEvent({
+        aggregateId: this.id,
+        userId: this.userId,
+      }),
+    );
+  }
+
+  reopen(): void {
+    if (!this.isClosed) {
+      return;
+    }
+    this.apply(
+      new WalletReopenedDomainEvent({
+        aggregateId: this.id,
+        userId: this.userId,
+      }),
+    );
+  }
+
+  /**
+   * Adds funds to the wallet.
+   * @returns id of the ledger entry recorded for this operation
+   */
+  deposit(
+    amount: Money,
+    reference?: string,
+  ): Result<string, WalletClosedError | WalletCurrencyMismatchError> {
+    this.assertValidAmount(amount);
+    if (this.isClosed) {
+      return Err(new WalletClosedError());
+    }
+    if (!this.balance.isSameCurrency(amount)) {
+      return Err(new WalletCurrencyMismatchError());
+    }
+    const transactionId = randomUUID();
+    this.apply(
+      new WalletCreditedDomainEvent({
+        aggregateId: this.id,
+        transactionId,
+        amount: amount.amount,
+        balance: this.balance.add(amount).amount,
+        currency: this.currency,
+        reference,
+      }),
+    );
+    return Ok(transactionId);
   }
 
-  withdraw(amount: number): Result<null, WalletNotEnoughBalanceError> {
-    if (this.props.balance - amount < 0) {
+  /**
+   * Takes funds from the wallet.
+   * @returns id of the ledger entry recorded for this operation
+   */
+  withdraw(
+    amount: Money,
+    reference?: string,
+  ): Result<
+    string,
+    | WalletClosedError
+    | WalletNotEnoughBalanceError
+    | WalletCurrencyMismatchError
+  > {
+    this.assertValidAmount(amount);
+    if (this.isClosed) {
+      return Err(new WalletClosedError());
+    }
+    if (!this.balance.isSameCurrency(amount)) {
+      return Err(new WalletCurrencyMismatchError());
+    }
+    if (this.balance.isLessThan(amount)) {
       return Err(new WalletNotEnoughBalanceError());
     }
-    this.props.balance -= amount;
-    return Ok(null);
+    const transactionId = randomUUID();
+    this.apply(
+      new WalletDebitedDomainEvent({
+        aggregateId: this.id,
+        transactionId,
+        amount: amount.amount,
+        balance: this.balance.subtract(amount).amount,
+        currency: this.currency,
+        reference,
+      }),
+    );
+    return Ok(transactionId);
+  }
+
+  protected when(event: DomainEvent): void {
+    if (event instanceof WalletCreatedDomainEvent) {
+      this.props.userId = event.userId;
+      this.props.balance = Money.zero(event.currency);
+    } else if (
+      event instanceof WalletCreditedDomainEvent ||
+      event instanceof WalletDebitedDomainEvent
+    ) {
+      this.props.balance = Money.create(event.balance, event.currency);
+    } else if (event instanceof WalletClosedDomainEvent) {
+      this.props.closedAt = new Date(event.metadata.timestamp);
+    } else if (event instanceof WalletReopenedDomainEvent) {
+      this.props.closedAt = undefined;
+    }
+  }
+
+  private assertValidAmount(amount: Money): void {
+    if (!amount.isPositive()) {
+      throw new ArgumentOutOfRangeException('Amount must be positive');
+    }
   }
 
   /**
@@ -46,7 +201,7 @@ export class WalletEntity extends AggregateRoot<WalletProps> {
    * before saving entity in a database.
    */
   public validate(): void {
-    if (this.props.balance < 0) {
+    if (this.props.balance.isNegative()) {
       throw new ArgumentOutOfRangeException(
         'Wallet balance cannot be less than 0',
       );
@@ -9,3 +9,43 @@ export class WalletNotEnoughBalanceError extends ExceptionBase {
     super(WalletNotEnoughBalanceError.message, undefined, metadata);
   }
 }
+
+export class WalletTransferToSameWalletError extends ExceptionBase {
+  static readonly message = 'Cannot transfer funds to the same wallet';
+
+  public readonly code = 'WALLET.TRANSFER_TO_SAME_WALLET';
+
+  constructor(metadata?: unknown) {
+    super(WalletTransferToSameWalletError.message, undefined, metadata);
+  }
+}
+
+export class WalletCurrencyMismatchError extends ExceptionBase {
+  static readonly message = 'Amount currency does not match wallet currency';
+
+  public readonly code = 'WALLET.CURRENCY_MISMATCH';
+
+  constructor(metadata?: unknown) {
+    super(WalletCurrencyMismatchError.message, undefined, metadata);
+  }
+}
+
+export class WalletExchangeRateNotAvailableError extends ExceptionBase {
+  static readonly message = 'Exchange rate is not available';
+
+  public readonly code = 'WALLET.EXCHANGE_RATE_NOT_AVAILABLE';
+
+  constructor(metadata?: unknown) {
+    super(WalletExchangeRateNotAvailableError.message, undefined, metadata);
+  }
+}
+
+export class WalletClosedError extends ExceptionBase {
+  static readonly message = 'Wallet is closed';
+
+  public readonly code = 'WALLET.CLOSED';
+
+  constructor(metadata?: unknown) {
+    super(WalletClosedError.message, undefined, metadata);
+  }
+}
@@ -0,0 +1,29 @@
+import { allOf, anyOf, definePolicy } from '@libs/policy';
+import {
+  principalHasVerifiedEmail,
+  principalIsAdmin,
+  UserPolicy,
+} from '@modules/user/domain/policies/user.policies';
+import { WalletEntity } from './wallet.entity';
+
+const principalOwnsWallet: UserPolicy<WalletEntity> = definePolicy(
+  'PRINCIPAL_OWNS_WALLET',
+  'Wallet belongs to the principal',
+  ({ principal, resource }) => resource.userId === principal.id,
+);
+
+/**
+ * Policies of actions on a wallet, the resource being the wallet
+ */
+export const WalletPolicies = {
+  read: anyOf('CAN_READ_WALLET', 'Wallet owners and admins may read a wallet', [
+    principalOwnsWallet,
+    principalIsAdmin<WalletEntity>(),
+  ]),
+
+  withdraw: allOf(
+    'CAN_WITHDRAW',
+    'Wallet owners may withdraw once their email is verified',
+    [principalOwnsWallet, principalHasVerifiedEmail<WalletEntity>()],
+  ),
+};
@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PaginatedResponseDto } from '@src/libs/api/paginated.response.base';
+import { WalletTransactionResponseDto } from './wallet-transaction.response.dto';
+
+export class WalletTransactionPaginatedResponseDto extends PaginatedResponseDto<WalletTransactionResponseDto> {
+  @ApiProperty({ type: WalletTransactionResponseDto, isArray: true })
+  readonly data: readonly WalletTransactionResponseDto[];
+}
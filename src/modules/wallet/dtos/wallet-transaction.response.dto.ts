@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IdResponse } from '@libs/api/id.response.dto';
+import {
+  WalletTransactionModel,
+  WalletTransactionType,
+} from '../database/wallet.repository';
+
+export class WalletTransactionResponseDto extends IdResponse {
+  constructor(props: WalletTransactionModel) {
+    super(props.id);
+    this.walletId = props.walletId;
+    this.type = props.type;
+    this.amount = props.amount.toString();
+    this.balanceAfter = props.balanceAfter.toString();
+    this.currency = props.currency;
+    this.reference = props.reference;
+    this.createdAt = new Date(props.createdAt).toISOString();
+  }
+
+  @ApiProperty({ example: '2cdc8ab1-6d50-49cc-ba14-54e4ac7ec231' })
+  readonly walletId: string;
+
+  @ApiProperty({ enum: WalletTransactionType, example: 'credit' })
+  readonly type: WalletTransactionType;
+
+  @ApiProperty({
+    example: '1500',
+    description: 'Amount of the operation in minor units (e.g. cents)',
+  })
+  readonly amount: string;
+
+  @ApiProperty({
+    example: '4500',
+    description: 'Wallet balance after the operation in minor units',
+  })
+  readonly balanceAfter: string;
+
+  @ApiProperty({ example: 'USD', description: 'ISO-4217 currency code' })
+  readonly currency: string;
+
+  @ApiProperty({
+    example: '6f1c2b9e-2d3a-4f0e-9b7a-5c8d1e2f3a4b',
+    description:
+      'Groups entries of one operation, e.g. both sides of a transfer',
+    nullable: true,
+  })
+  readonly reference: string | null;
+
+  @ApiProperty({ example: '2020-11-24T17:43:15.970Z' })
+  readonly createdAt: string;
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IdResponse } from '@libs/api/id.response.dto';
+import {
+  WalletTransfer,
+  WalletTransferStatus,
+} from '../commands/transfer-between-wallets/transfer-between-wallets.service';
+
+export class WalletTransferResponseDto extends IdResponse {
+  constructor(transfer: WalletTransfer) {
+    super(transfer.transferId);
+    this.status = transfer.status;
+  }
+
+  @ApiProperty({
+    enum: WalletTransferStatus,
+    example: WalletTransferStatus.completed,
+    description:
+      'A pending transfer is retried in the background, until it completes or the source wallet is refunded',
+  })
+  readonly status: WalletTransferStatus;
+}
@@ -0,0 +1,52 @@
+import { None, Option, Some } from 'oxide.ts';
+import { ExchangeRatePort } from '../domain/ports/exchange-rate.port';
+import { ExchangeRate } from '../domain/value-objects/money.value-object';
+
+/**
+ * Units of each currency for 1 USD.
+ * Decimal strings are used to keep rates exact.
+ */
+export const STATIC_EXCHANGE_RATES: Record<string, string> = {
+  USD: '1',
+  EUR: '0.92',
+  GBP: '0.79',
+  BRL: '5.05',
+  JPY: '149.5',
+  CHF: '0.88',
+};
+
+/**
+ * Exchange rate adapter backed by a fixed rate table.
+ * Used for local development and tests, so that cross-currency
+ * operations work offline. Cross rates are derived through the
+ * table base currency.
+ */
+export class StaticExchangeRateAdapter implements ExchangeRatePort {
+  constructor(
+    private readonly rates: Record<string, string> = STATIC_EXCHANGE_RATES,
+  ) {}
+
+  async getRate(from: string, to: string): Promise<Option<ExchangeRate>> {
+    const fromRate = this.rates[from];
+    const toRate = this.rates[to];
+    if (!fromRate || !toRate) {
+      return None;
+    }
+
+    const [fromNumerator, fromDenominator] = this.toFraction(fromRate);
+    const [toNumerator, toDenominator] = this.toFraction(toRate);
+
+    // (to / base) / (from / base)
+    return Some({
+      from,
+      to,
+      numerator: toNumerator * fromDenominator,
+      denominator: toDenominator * fromNumerator,
+    });
+  }
+
+  private toFraction(decimal: string): [bigint, bigint] {
+    const [integer, fraction = ''] = decimal.split('.');
+    return [BigInt(integer + fraction), BigInt(10) ** BigInt(fraction.length)];
+  }
+}
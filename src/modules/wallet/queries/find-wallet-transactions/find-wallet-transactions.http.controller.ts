@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  HttpStatus,
+  NotFoundException as NotFoundHttpException,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { routesV1 } from '@config/app.routes';
+import { QueryBus } from '@nestjs/cqrs';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { match, Result } from 'oxide.ts';
+import { Paginated } from '@src/libs/ddd';
+import { NotFoundException } from '@libs/exceptions';
+import { PaginatedQueryRequestDto } from '@src/libs/api/paginated-query.request.dto';
+import { ApiErrorResponse } from '@src/libs/api/api-error.response';
+import { Auth } from '@modules/auth/infrastructure/decorators/auth.decorator';
+import { Policy } from '@modules/auth/infrastructure/decorators/policy.decorator';
+import { WalletTransactionModel } from '../../database/wallet.repository';
+import { WalletPolicies } from '../../domain/wallet.policies';
+import { WalletTransactionPaginatedResponseDto } from '../../dtos/wallet-transaction.paginated.response.dto';
+import { WalletTransactionResponseDto } from '../../dtos/wallet-transaction.response.dto';
+import { WALLET_REPOSITORY } from '../../wallet.di-tokens';
+import { FindWalletTransactionsQuery } from './find-wallet-transactions.query-handler';
+
+@Controller(routesV1.version)
+@ApiBearerAuth()
+export class FindWalletTransactionsHttpController {
+  constructor(private readonly queryBus: QueryBus) {}
+
+  @Get(routesV1.wallet.transactions)
+  @ApiOperation({ summary: 'Find wallet ledger entries' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: WalletTransactionPaginatedResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: NotFoundException.message,
+    type: ApiErrorResponse,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Only owners and admins may read the ledger of a wallet',
+    type: ApiErrorResponse,
+  })
+  @Auth({ permissions: ['wallet:read', 'wallet:read-own'] })
+  @Policy(WalletPolicies.read, {
+    action: 'wallet:read',
+    resource: { repository: WALLET_REPOSITORY, param: 'id' },
+  })
+  async findWalletTransactions(
+    @Param('id') walletId: string,
+    @Query() queryParams: PaginatedQueryRequestDto,
+  ): Promise<WalletTransactionPaginatedResponseDto> {
+    const query = new FindWalletTransactionsQuery({
+      walletId,
+      limit: queryParams?.limit,
+      page: queryParams?.page,
+    });
+    const result: Result<
+      Paginated<WalletTransactionModel>,
+      NotFoundException
+    > = await this.queryBus.execute(query);
+
+    return match(result, {
+      Ok: (paginated) =>
+        new WalletTransactionPaginatedResponseDto({
+          ...paginated,
+          data: paginated.data.map(
+            (entry) => new WalletTransactionResponseDto(entry),
+          ),
+        }),
+      Err: (error: Error) => {
+        if (error instanceof NotFoundException)
+          throw new NotFoundHttpException(error.message);
+        throw error;
+      },
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Err, Ok, Result } from 'oxide.ts';
+import { PaginatedParams, PaginatedQueryBase } from '@libs/ddd/query.base';
+import { Paginated } from '@src/libs/ddd';
+import { Inject } from '@nestjs/common';
+import { DATABASE_POOL_TOKEN } from '@libs/database';
+import { NotFoundException } from '@libs/exceptions';
+import { DatabasePool, sql } from 'slonik';
+import { z } from 'zod';
+import {
+  WalletTransactionModel,
+  walletTransactionSchema,
+} from '../../database/wallet.repository';
+
+export class FindWalletTransactionsQuery extends PaginatedQueryBase {
+  readonly walletId: string;
+
+  constructor(props: PaginatedParams<FindWalletTransactionsQuery>) {
+    super(props);
+    this.walletId = props.walletId;
+  }
+}
+
+@QueryHandler(FindWalletTransactionsQuery)
+export class FindWalletTransactionsQueryHandler implements IQueryHandler<FindWalletTransactionsQuery> {
+  constructor(
+    @Inject(DATABASE_POOL_TOKEN)
+    private readonly pool: DatabasePool,
+  ) {}
+
+  /**
+   * Reads the ledger directly, newest entries first
+   */
+  async execute(
+    query: FindWalletTransactionsQuery,
+  ): Promise<Result<Paginated<WalletTransactionModel>, NotFoundException>> {
+    const wallet = await this.pool.maybeOne(
+      sql.type(z.object({ id: z.string() }))`
+        SELECT id FROM "wallets" WHERE id = ${query.walletId}
+      `,
+    );
+    if (!wallet) return Err(new NotFoundException());
+
+    const [count, records] = await Promise.all([
+      this.pool.oneFirst(
+        sql.type(z.object({ count: z.coerce.number() }))`
+          SELECT COUNT(*) AS count
+          FROM "wallet_transactions"
+          WHERE "walletId" = ${query.walletId}
+        `,
+      ),
+      this.pool.query(
+        sql.type(walletTransactionSchema)`
+          SELECT *
+          FROM "wallet_transactions"
+          WHERE "walletId" = ${query.walletId}
+          ORDER BY "createdAt" DESC, id DESC
+          LIMIT ${query.limit}
+          OFFSET ${query.offset}
+        `,
+      ),
+    ]);
+
+    return Ok(
+      new Paginated({
+        data: records.rows,
+        count,
+        limit: query.limit,
+        page: query.page,
+      }),
+    );
+  }
+}
@@ -1 +1,2 @@
 export const WALLET_REPOSITORY = Symbol('WALLET_REPOSITORY');
+export const EXCHANGE_RATE_PORT = Symbol('EXCHANGE_RATE_PORT');
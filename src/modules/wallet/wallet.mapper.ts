@@ -1,6 +1,7 @@
 import { Mapper } from '@libs/ddd';
 import { Injectable } from '@nestjs/common';
 import { WalletEntity } from './domain/wallet.entity';
+import { Money } from './domain/value-objects/money.value-object';
 import { WalletModel, walletSchema } from './database/wallet.repository';
 
 @Injectable()
@@ -11,8 +12,11 @@ export class WalletMapper implements Mapper<WalletEntity, WalletModel> {
       id: copy.id,
       createdAt: copy.createdAt,
       updatedAt: copy.updatedAt,
+      version: copy.version,
       userId: copy.userId,
-      balance: copy.balance,
+      balance: copy.balance.amount,
+      currency: copy.balance.currency,
+      closedAt: copy.closedAt ?? null,
     };
     return walletSchema.parse(record);
   }
@@ -22,9 +26,11 @@ export class WalletMapper implements Mapper<WalletEntity, WalletModel> {
       id: record.id,
       createdAt: record.createdAt,
       updatedAt: record.updatedAt,
+      version: record.version,
       props: {
         userId: record.userId,
-        balance: record.balance,
+        balance: Money.create(record.balance, record.currency),
+        closedAt: record.closedAt ?? undefined,
       },
     });
     return entity;
@@ -1,22 +1,78 @@
 import { Logger, Module, Provider } from '@nestjs/common';
-import { CreateWalletWhenUserIsCreatedDomainEventHandler } from './application/event-handlers/create-wallet-when-user-is-created.domain-event-handler';
+import { CqrsModule } from '@nestjs/cqrs';
+import { CloseWalletWhenUserIsDeletedDomainEventHandler } from './application/event-handlers/close-wallet-when-user-is-deleted.domain-event-handler';
+import { ReopenWalletWhenUserIsRestoredDomainEventHandler } from './application/event-handlers/reopen-wallet-when-user-is-restored.domain-event-handler';
+import { WalletTransferSaga } from './application/sagas/wallet-transfer.saga';
+import { CreateWalletService } from './commands/create-wallet/create-wallet.service';
+import { DepositHttpController } from './commands/deposit/deposit.http.controller';
+import { DepositService } from './commands/deposit/deposit.service';
+import { TransferBetweenWalletsHttpController } from './commands/transfer-between-wallets/transfer-between-wallets.http.controller';
+import { TransferBetweenWalletsService } from './commands/transfer-between-wallets/transfer-between-wallets.service';
+import { WithdrawHttpController } from './commands/withdraw/withdraw.http.controller';
+import { WithdrawService } from './commands/withdraw/withdraw.service';
 import { WalletRepository } from './database/wallet.repository';
-import { WALLET_REPOSITORY } from './wallet.di-tokens';
+import { WalletEventSourcedRepository } from './database/wallet.event-sourced-repository';
+import { WalletSummaryProjector } from './database/wallet-summary.projector';
+import { FindWalletTransactionsHttpController } from './queries/find-wallet-transactions/find-wallet-transactions.http.controller';
+import { FindWalletTransactionsQueryHandler } from './queries/find-wallet-transactions/find-wallet-transactions.query-handler';
+import { EXCHANGE_RATE_PORT, WALLET_REPOSITORY } from './wallet.di-tokens';
+import { StaticExchangeRateAdapter } from './infrastructure/static-exchange-rate.adapter';
 import { WalletMapper } from './wallet.mapper';
 
+const httpControllers = [
+  DepositHttpController,
+  WithdrawHttpController,
+  TransferBetweenWalletsHttpController,
+  FindWalletTransactionsHttpController,
+];
+
+const commandHandlers: Provider[] = [
+  CreateWalletService,
+  DepositService,
+  WithdrawService,
+  TransferBetweenWalletsService,
+];
+
+const queryHandlers: Provider[] = [FindWalletTransactionsQueryHandler];
+
 const eventHandlers: Provider[] = [
-  CreateWalletWhenUserIsCreatedDomainEventHandler,
+  CloseWalletWhenUserIsDeletedDomainEventHandler,
+  ReopenWalletWhenUserIsRestoredDomainEventHandler,
 ];
 
+const sagas: Provider[] = [WalletTransferSaga];
+
+const projectors: Provider[] = [WalletSummaryProjector];
+
 const mappers: Provider[] = [WalletMapper];
 
+const adapters: Provider[] = [
+  {
+    provide: EXCHANGE_RATE_PORT,
+    useFactory: (): StaticExchangeRateAdapter =>
+      new StaticExchangeRateAdapter(),
+  },
+];
+
 const repositories: Provider[] = [
   { provide: WALLET_REPOSITORY, useClass: WalletRepository },
+  WalletEventSourcedRepository,
 ];
 
 @Module({
-  imports: [],
-  controllers: [],
-  providers: [Logger, ...eventHandlers, ...mappers, ...repositories],
+  imports: [CqrsModule],
+  controllers: [...httpControllers],
+  providers: [
+    Logger,
+    ...commandHandlers,
+    ...queryHandlers,
+    ...eventHandlers,
+    ...sagas,
+    ...projectors,
+    ...mappers,
+    ...adapters,
+    ...repositories,
+  ],
+  exports: [...repositories],
 })
 export class WalletModule {}
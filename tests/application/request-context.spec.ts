@@ -0,0 +1,154 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { firstValueFrom, Observable } from 'rxjs';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import {
+  ContextInterceptor,
+  MESSAGE_PRINCIPAL,
+} from '@libs/application/context/ContextInterceptor';
+import { Command, CommandProps } from '@libs/ddd';
+
+class TestCommand extends Command {
+  readonly name: string;
+
+  constructor(props: CommandProps<TestCommand>) {
+    super(props);
+    this.name = props.name;
+  }
+}
+
+describe('Request context', () => {
+  const interceptor = new ContextInterceptor();
+
+  const httpContext = (request: unknown): ExecutionContext =>
+    ({
+      getType: () => 'http',
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  const rpcContext = (data: unknown): ExecutionContext =>
+    ({
+      getType: () => 'rpc',
+      switchToRpc: () => ({ getData: () => data }),
+    }) as unknown as ExecutionContext;
+
+  // Creates the command asynchronously, like a handler would
+  const handler: CallHandler = {
+    handle: () =>
+      new Observable<TestCommand>((subscriber) => {
+        setImmediate(() => {
+          subscriber.next(new TestCommand({ name: 'test' }));
+          subscriber.complete();
+        });
+      }),
+  };
+
+  it('fills command metadata from the authenticated principal', async () => {
+    // Arrange
+    const request = {
+      headers: { 'x-request-id': 'request-1' },
+      user: { sub: 'user-1' },
+    };
+
+    // Act
+    const command = await firstValueFrom(
+      interceptor.intercept(httpContext(request), handler),
+    );
+
+    // Assert
+    expect(command.metadata).toMatchObject({
+      correlationId: 'request-1',
+      userId: 'user-1',
+    });
+  });
+
+  it('uses the correlation id of a microservice message', async () => {
+    // Act
+    const command = await firstValueFrom(
+      interceptor.intercept(rpcContext({ requestId: 'message-1' }), handler),
+    );
+
+    // Assert
+    expect(command.metadata.correlationId).toBe('message-1');
+    expect(command.metadata.userId).toBeUndefined();
+  });
+
+  it('takes the user of a message only from its verified principal', async () => {
+    // Arrange
+    const claimed = { requestId: 'message-1', user: { sub: 'admin-1' } };
+    const verified = { ...claimed, [MESSAGE_PRINCIPAL]: { sub: 'user-1' } };
+
+    // Act
+    const [unverifiedCommand, verifiedCommand] = await Promise.all(
+      [claimed, verified].map((message) =>
+        firstValueFrom(interceptor.intercept(rpcContext(message), handler)),
+      ),
+    );
+
+    // Assert
+    expect(unverifiedCommand.metadata.userId).toBeUndefined();
+    expect(verifiedCommand.metadata.userId).toBe('user-1');
+  });
+
+  it('keeps concurrent requests apart', async () => {
+    // Act
+    const commands = await Promise.all(
+      ['user-1', 'user-2'].map((sub) =>
+        firstValueFrom(
+          interceptor.intercept(httpContext({ user: { sub } }), handler),
+        ),
+      ),
+    );
+
+    // Assert
+    expect(commands.map((command) => command.metadata.userId)).toEqual([
+      'user-1',
+      'user-2',
+    ]);
+    expect(commands[0].metadata.correlationId).not.toBe(
+      commands[1].metadata.correlationId,
+    );
+  });
+
+  it('propagates the context across asynchronous boundaries', async () => {
+    // Act
+    const command = await RequestContextService.runInContext(
+      { requestId: 'cli-1', userId: 'user-1', causationId: 'event-1' },
+      async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return new TestCommand({ name: 'test' });
+      },
+    );
+
+    // Assert
+    expect(command.metadata).toMatchObject({
+      correlationId: 'cli-1',
+      causationId: 'event-1',
+      userId: 'user-1',
+    });
+  });
+
+  it('prefers metadata given explicitly', () => {
+    // Act
+    const command = RequestContextService.runInContext(
+      { userId: 'user-1' },
+      () =>
+        new TestCommand({
+          name: 'test',
+          metadata: { correlationId: 'c-1', userId: 'system', timestamp: 1 },
+        }),
+    );
+
+    // Assert
+    expect(command.metadata.userId).toBe('system');
+  });
+
+  it('creates commands outside of any context', () => {
+    // Act
+    const command = new TestCommand({ name: 'test' });
+
+    // Assert
+    expect(command.metadata.correlationId).toEqual(expect.any(String));
+    expect(command.metadata.userId).toBeUndefined();
+    expect(() => RequestContextService.setRequestId('lost')).toThrow();
+  });
+});
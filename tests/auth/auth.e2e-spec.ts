@@ -6,6 +6,7 @@ import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import * as request from 'supertest';
 import { DatabaseModule } from '@libs/database/database.module';
+import { IdempotencyModule } from '@libs/db/idempotency';
 import { AUTH_DI_TOKENS } from '@modules/auth/auth.di-tokens';
 import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
 import { LoginHttpController } from '@modules/auth/commands/login/login.http.controller';
@@ -41,6 +42,7 @@ describe('Authentication E2E Tests', () => {
           secret: 'test-jwt-secret',
           signOptions: { expiresIn: '15m' },
         }),
+        IdempotencyModule.forRoot(),
       ],
       controllers: [
         LoginHttpController,
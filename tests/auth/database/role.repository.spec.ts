@@ -0,0 +1,115 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabasePool } from 'slonik';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { RoleRepository } from '@modules/auth/database/role.repository';
+import { RoleEntity } from '@modules/auth/domain/entities/role.entity';
+import { RoleMapper } from '@modules/auth/role.mapper';
+
+describe('RoleRepository', () => {
+  let repository: RoleRepository;
+  let connection: { query: jest.Mock; transaction: jest.Mock };
+  let selectedRows: Record<string, unknown>[];
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  const statements = (): { sql: string; values: unknown[] }[] =>
+    connection.query.mock.calls.map(([query]) => ({
+      sql: query.sql.replace(/\s+/g, ' ').trim(),
+      values: query.values,
+    }));
+
+  beforeEach(() => {
+    selectedRows = [];
+    connection = {
+      query: jest.fn(async (query: { sql: string }) => {
+        if (query.sql.trim().startsWith('SELECT')) {
+          return { rowCount: selectedRows.length, rows: selectedRows };
+        }
+        return { rowCount: 1, rows: [] };
+      }),
+      transaction: jest.fn((handler) => handler(connection)),
+    };
+
+    repository = new RoleRepository(
+      connection as unknown as DatabasePool,
+      new RoleMapper(),
+      new EventEmitter2(),
+    );
+  });
+
+  it('stores permissions in the junction table, not in "roles"', async () => {
+    // Arrange
+    const role = inContext(() =>
+      RoleEntity.create({
+        name: 'editor',
+        permissions: ['perm-user-001', 'perm-user-002'],
+      }),
+    );
+
+    // Act
+    await inContext(() => repository.insert(role));
+
+    // Assert
+    const [insertRole, deletePermissions, insertPermissions] = statements();
+    expect(insertRole.sql).toMatch(/^INSERT INTO "roles"/);
+    expect(insertRole.sql).not.toContain('"permissions"');
+    expect(deletePermissions.sql).toBe(
+      'DELETE FROM "role_permissions" WHERE "roleId" = $slonik_1',
+    );
+    expect(insertPermissions.sql).toMatch(/^INSERT INTO "role_permissions"/);
+    expect(insertPermissions.values).toEqual([
+      role.id,
+      'perm-user-001',
+      role.id,
+      'perm-user-002',
+    ]);
+    expect(connection.transaction).toHaveBeenCalled();
+  });
+
+  it('removes all permissions when a role has none left', async () => {
+    // Arrange
+    const role = inContext(() =>
+      RoleEntity.create({ name: 'guest', permissions: ['perm-user-001'] }),
+    );
+    role.removePermission('perm-user-001');
+
+    // Act
+    await inContext(() => repository.update(role));
+
+    // Assert
+    const sqls = statements().map(({ sql }) => sql);
+    expect(sqls[0]).toMatch(/^UPDATE "roles"/);
+    expect(sqls[1]).toMatch(/^DELETE FROM "role_permissions"/);
+    expect(sqls).toHaveLength(2);
+  });
+
+  it('loads permission ids together with the role', async () => {
+    // Arrange
+    const now = new Date();
+    selectedRows = [
+      {
+        id: 'role-admin-001',
+        createdAt: now,
+        updatedAt: now,
+        name: 'admin',
+        description: null,
+        isActive: true,
+        permissions: ['perm-user-001', 'perm-admin-001'],
+      },
+    ];
+
+    // Act
+    const role = (
+      await inContext(() => repository.findByName('admin'))
+    ).unwrap();
+
+    // Assert
+    const [select] = statements();
+    expect(select.sql).toContain('FROM "role_permissions"');
+    expect(select.values).toEqual(['admin']);
+    expect(role.name).toBe('admin');
+    expect(role.description).toBeUndefined();
+    expect(role.permissions).toEqual(['perm-user-001', 'perm-admin-001']);
+  });
+});
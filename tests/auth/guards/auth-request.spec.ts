@@ -0,0 +1,139 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { MESSAGE_PRINCIPAL } from '@libs/application/context/ContextInterceptor';
+import { JwtPayload } from '@modules/auth/domain/auth.types';
+import { getAuthRequest } from '@modules/auth/infrastructure/auth-request';
+import {
+  Auth,
+  Public,
+} from '@modules/auth/infrastructure/decorators/auth.decorator';
+import { JwtAuthGuard } from '@modules/auth/infrastructure/guards/jwt-auth.guard';
+import { ResourceOwnerGuard } from '@modules/auth/infrastructure/guards/resource-owner.guard';
+import { RolesGuard } from '@modules/auth/infrastructure/guards/roles.guard';
+
+class UserResolver {
+  @Auth({ roles: ['admin'] })
+  changeUserRole(): void {
+    return;
+  }
+
+  @Public()
+  findPublicProfile(): void {
+    return;
+  }
+}
+
+describe('Guards outside of HTTP requests', () => {
+  const user: JwtPayload = {
+    sub: 'user-123',
+    email: 'test@example.com',
+    roles: ['user'],
+    permissions: ['user:read-own'],
+    tokenType: 'access',
+  };
+
+  const graphqlContext = (
+    args: Record<string, unknown>,
+    req: Record<string, unknown>,
+  ): ExecutionContextHost => {
+    const context = new ExecutionContextHost(
+      [{}, args, { req }, {}],
+      UserResolver,
+      UserResolver.prototype.changeUserRole,
+    );
+    context.setType('graphql');
+    return context;
+  };
+
+  const rpcContext = (
+    data: Record<string, unknown>,
+    handler: () => void = UserResolver.prototype.changeUserRole,
+  ): ExecutionContextHost => {
+    const context = new ExecutionContextHost([data, {}], UserResolver, handler);
+    context.setType('rpc');
+    return context;
+  };
+
+  describe('GraphQL', () => {
+    it('should read the user of the request in the GraphQL context', () => {
+      // Arrange
+      const context = graphqlContext({}, { user });
+
+      // Act & Assert
+      expect(getAuthRequest(context).user).toBe(user);
+      expect(() =>
+        new RolesGuard(new Reflector()).canActivate(context),
+      ).toThrow(ForbiddenException);
+    });
+
+    it('should read the resource id from the input of a resolver', () => {
+      // Arrange
+      const guard = new ResourceOwnerGuard();
+
+      // Act & Assert
+      expect(
+        guard.canActivate(
+          graphqlContext({ input: { userId: 'user-123' } }, { user }),
+        ),
+      ).toBe(true);
+      expect(() =>
+        guard.canActivate(
+          graphqlContext({ input: { userId: 'user-456' } }, { user }),
+        ),
+      ).toThrow(ForbiddenException);
+    });
+  });
+
+  describe('Messages', () => {
+    it('should authenticate the token of a message without passing it the message', () => {
+      // Arrange
+      const guard = new JwtAuthGuard(new Reflector());
+      const message = { userId: 'user-123', authorization: 'Bearer token' };
+      const context = rpcContext(message);
+
+      // Act
+      const request = guard.getRequest(context);
+      guard.handleRequest(null, user, null, context);
+
+      // Assert
+      expect(request).not.toBe(message);
+      expect(request.headers).toEqual({ authorization: 'Bearer token' });
+      expect(getAuthRequest(context)).toBe(message);
+      expect(getAuthRequest(context).user).toBe(user);
+      expect(getAuthRequest(context)[MESSAGE_PRINCIPAL]).toBe(user);
+    });
+
+    it('should replace the user a message claims to be', () => {
+      // Arrange
+      const guard = new JwtAuthGuard(new Reflector());
+      const forged = { ...user, roles: ['admin'] };
+      const message = { user: forged };
+      const publicMessage = { user: forged };
+
+      // Act
+      guard.handleRequest(null, user, null, rpcContext(message));
+      const allowed = guard.canActivate(
+        rpcContext(publicMessage, UserResolver.prototype.findPublicProfile),
+      );
+
+      // Assert
+      expect(message.user).toBe(user);
+      expect(allowed).toBe(true);
+      expect(publicMessage.user).toBeNull();
+    });
+
+    it('should read the resource id from the message', () => {
+      // Arrange
+      const guard = new ResourceOwnerGuard();
+
+      // Act & Assert
+      expect(guard.canActivate(rpcContext({ userId: 'user-123', user }))).toBe(
+        true,
+      );
+      expect(() =>
+        guard.canActivate(rpcContext({ userId: 'user-456', user })),
+      ).toThrow(ForbiddenException);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { None, Some } from 'oxide.ts';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { JwtPayload } from '@modules/auth/domain/auth.types';
+import { Policy } from '@modules/auth/infrastructure/decorators/policy.decorator';
+import { PolicyGuard } from '@modules/auth/infrastructure/guards/policy.guard';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import { Address } from '@modules/user/domain/value-objects/address.value-object';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+import { WalletEntity } from '@modules/wallet/domain/wallet.entity';
+import { WalletPolicies } from '@modules/wallet/domain/wallet.policies';
+import { WALLET_REPOSITORY } from '@modules/wallet/wallet.di-tokens';
+
+class WithdrawController {
+  @Policy(WalletPolicies.withdraw, {
+    action: 'wallet:withdraw',
+    resource: { repository: WALLET_REPOSITORY, param: 'id' },
+  })
+  withdraw(): void {
+    return;
+  }
+
+  unprotected(): void {
+    return;
+  }
+}
+
+describe('PolicyGuard', () => {
+  let guard: PolicyGuard;
+  let user: UserEntity;
+  let wallet: WalletEntity;
+  let userRepository: { findOneById: jest.Mock };
+  let walletRepository: { findOneById: jest.Mock };
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  const createUser = (isEmailVerified: boolean): UserEntity =>
+    inContext(() =>
+      UserEntity.createWithAuth({
+        email: 'test@example.com',
+        address: new Address({
+          country: 'England',
+          postalCode: '28566',
+          street: 'Grand Avenue',
+        }),
+        password: 'password-hash',
+        isEmailVerified,
+      }),
+    );
+
+  const httpContext = (
+    headers: Record<string, string> = {},
+    handler = WithdrawController.prototype.withdraw,
+  ): ExecutionContextHost => {
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: 'test@example.com',
+      roles: ['user'],
+      permissions: [],
+      tokenType: 'access',
+    };
+    const context = new ExecutionContextHost(
+      [{ user: payload, headers, params: { id: wallet.id } }, {}],
+      WithdrawController,
+      handler,
+    );
+    context.setType('http');
+    return context;
+  };
+
+  beforeEach(() => {
+    user = createUser(true);
+    wallet = inContext(() => WalletEntity.create({ userId: user.id }));
+    userRepository = { findOneById: jest.fn(async () => Some(user)) };
+    walletRepository = { findOneById: jest.fn(async () => Some(wallet)) };
+
+    const repositories = new Map<unknown, unknown>([
+      [USER_DI_TOKENS.UserRepository, userRepository],
+      [WALLET_REPOSITORY, walletRepository],
+    ]);
+    const moduleRef = {
+      get: jest.fn((token: unknown) => repositories.get(token)),
+    };
+    guard = new PolicyGuard(new Reflector(), moduleRef as unknown as ModuleRef);
+  });
+
+  it('should allow the owner of the wallet to withdraw', async () => {
+    // Act
+    const result = await guard.canActivate(httpContext());
+
+    // Assert
+    expect(result).toBe(true);
+    expect(walletRepository.findOneById).toHaveBeenCalledWith(wallet.id);
+  });
+
+  it('should deny another user', async () => {
+    // Arrange
+    wallet = inContext(() => WalletEntity.create({ userId: 'user-456' }));
+
+    // Act & Assert
+    await expect(guard.canActivate(httpContext())).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should return the decision when asked to explain a denial', async () => {
+    // Arrange
+    user = createUser(false);
+    wallet = inContext(() => WalletEntity.create({ userId: user.id }));
+
+    // Act
+    const error = await guard
+      .canActivate(httpContext({ 'policy-explain': 'true' }))
+      .catch((e: ForbiddenException) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(ForbiddenException);
+    expect((error as ForbiddenException).getResponse()).toMatchObject({
+      decision: {
+        policy: 'CAN_WITHDRAW',
+        allowed: false,
+        because: [
+          { policy: 'PRINCIPAL_OWNS_WALLET', allowed: true },
+          { policy: 'USER_EMAIL_VERIFIED', allowed: false },
+        ],
+      },
+    });
+  });
+
+  it('should not return the decision unless asked to', async () => {
+    // Arrange
+    user = createUser(false);
+    wallet = inContext(() => WalletEntity.create({ userId: user.id }));
+
+    // Act
+    const error = await guard
+      .canActivate(httpContext())
+      .catch((e: ForbiddenException) => e);
+
+    // Assert
+    expect((error as ForbiddenException).getResponse()).not.toHaveProperty(
+      'decision',
+    );
+  });
+
+  it('should reject a wallet that does not exist', async () => {
+    // Arrange
+    walletRepository.findOneById.mockResolvedValue(None);
+
+    // Act & Assert
+    await expect(guard.canActivate(httpContext())).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should allow endpoints without a policy', async () => {
+    // Act
+    const result = await guard.canActivate(
+      httpContext({}, WithdrawController.prototype.unprotected),
+    );
+
+    // Assert
+    expect(result).toBe(true);
+    expect(userRepository.findOneById).not.toHaveBeenCalled();
+  });
+});
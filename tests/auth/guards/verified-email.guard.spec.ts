@@ -0,0 +1,81 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { None, Some } from 'oxide.ts';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { VerifiedEmailGuard } from '@modules/auth/infrastructure/guards/verified-email.guard';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import { Address } from '@modules/user/domain/value-objects/address.value-object';
+
+describe('VerifiedEmailGuard', () => {
+  let guard: VerifiedEmailGuard;
+  let userRepository: { findOneById: jest.Mock };
+  let mockRequest: any;
+
+  const createUser = (isEmailVerified: boolean): UserEntity =>
+    RequestContextService.runInContext({ requestId: 'test' }, () =>
+      UserEntity.createWithAuth({
+        email: 'test@example.com',
+        address: new Address({
+          country: 'England',
+          postalCode: '28566',
+          street: 'Grand Avenue',
+        }),
+        password: 'password-hash',
+        isEmailVerified,
+      }),
+    );
+
+  const mockContext = (): ExecutionContext =>
+    ({
+      getType: () => 'http',
+      switchToHttp: () => ({ getRequest: () => mockRequest }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    userRepository = { findOneById: jest.fn() };
+    guard = new VerifiedEmailGuard(userRepository as any);
+    mockRequest = { user: { sub: 'user-123', tokenType: 'access' } };
+  });
+
+  it('should allow access when the email is verified', async () => {
+    // Arrange
+    userRepository.findOneById.mockResolvedValue(Some(createUser(true)));
+
+    // Act
+    const result = await guard.canActivate(mockContext());
+
+    // Assert
+    expect(result).toBe(true);
+    expect(userRepository.findOneById).toHaveBeenCalledWith('user-123');
+  });
+
+  it('should deny access when the email is not verified', async () => {
+    // Arrange
+    userRepository.findOneById.mockResolvedValue(Some(createUser(false)));
+
+    // Act & Assert
+    await expect(guard.canActivate(mockContext())).rejects.toThrow(
+      new ForbiddenException('Email address is not verified'),
+    );
+  });
+
+  it('should deny access when the user does not exist', async () => {
+    // Arrange
+    userRepository.findOneById.mockResolvedValue(None);
+
+    // Act & Assert
+    await expect(guard.canActivate(mockContext())).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should deny access when no user is authenticated', async () => {
+    // Arrange
+    mockRequest.user = undefined;
+
+    // Act & Assert
+    await expect(guard.canActivate(mockContext())).rejects.toThrow(
+      new ForbiddenException('User not authenticated'),
+    );
+    expect(userRepository.findOneById).not.toHaveBeenCalled();
+  });
+});
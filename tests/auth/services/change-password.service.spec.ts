@@ -0,0 +1,176 @@
+import { Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Some } from 'oxide.ts';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { AUTH_DI_TOKENS } from '@modules/auth/auth.di-tokens';
+import { ChangePasswordCommand } from '@modules/auth/commands/change-password/change-password.command';
+import { ChangePasswordService } from '@modules/auth/commands/change-password/change-password.service';
+import {
+  CurrentPasswordIncorrectError,
+  PasswordReusedError,
+  WeakPasswordError,
+} from '@modules/auth/domain/auth.errors';
+import { Password } from '@modules/auth/domain/value-objects/password.value-object';
+import { PasswordService } from '@modules/auth/infrastructure/services/password.service';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import { Address } from '@modules/user/domain/value-objects/address.value-object';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+
+describe('ChangePasswordService', () => {
+  let service: ChangePasswordService;
+  let user: UserEntity;
+  let userRepository: {
+    findOneById: jest.Mock;
+    update: jest.Mock;
+    transaction: jest.Mock;
+  };
+  let passwordHistoryRepository: {
+    findRecentHashes: jest.Mock;
+    add: jest.Mock;
+  };
+  let refreshTokenRepository: { revokeAllUserTokens: jest.Mock };
+  let auditLogRepository: { insert: jest.Mock };
+
+  const currentPassword = 'Tr0ub4dor&3x!';
+  const previousPassword = 'C0rrect$Horse9';
+  const newPassword = 'Bl4ck&Wh1te$ky';
+  let currentHash: string;
+  let previousHash: string;
+
+  const logger = { log: jest.fn(), error: jest.fn(), warn: jest.fn() };
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  const changePassword = (
+    props: Partial<ConstructorParameters<typeof ChangePasswordCommand>[0]>,
+  ) =>
+    inContext(() =>
+      service.execute(
+        new ChangePasswordCommand({
+          userId: user.id,
+          currentPassword,
+          newPassword,
+          confirmPassword: props.newPassword ?? newPassword,
+          ipAddress: '10.0.0.1',
+          ...props,
+        }),
+      ),
+    );
+
+  beforeAll(async () => {
+    currentHash = (await Password.create(currentPassword).hash()).value;
+    previousHash = (await Password.create(previousPassword).hash()).value;
+  });
+
+  beforeEach(async () => {
+    user = inContext(() =>
+      UserEntity.createWithAuth({
+        email: 'john@example.com',
+        address: new Address({
+          country: 'England',
+          postalCode: '28566',
+          street: 'Grand Avenue',
+        }),
+        password: currentHash,
+        isEmailVerified: true,
+      }),
+    );
+
+    userRepository = {
+      findOneById: jest.fn(async () => Some(user)),
+      update: jest.fn(),
+      transaction: jest.fn((handler: () => Promise<unknown>) => handler()),
+    };
+    passwordHistoryRepository = {
+      findRecentHashes: jest.fn(async () => [previousHash]),
+      add: jest.fn(),
+    };
+    refreshTokenRepository = { revokeAllUserTokens: jest.fn() };
+    auditLogRepository = { insert: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChangePasswordService,
+        { provide: USER_DI_TOKENS.UserRepository, useValue: userRepository },
+        {
+          provide: AUTH_DI_TOKENS.PasswordService,
+          useValue: new PasswordService(logger as any),
+        },
+        {
+          provide: AUTH_DI_TOKENS.PasswordHistoryRepository,
+          useValue: passwordHistoryRepository,
+        },
+        {
+          provide: AUTH_DI_TOKENS.RefreshTokenRepository,
+          useValue: refreshTokenRepository,
+        },
+        {
+          provide: AUTH_DI_TOKENS.AuthAuditLogRepository,
+          useValue: auditLogRepository,
+        },
+        { provide: Logger, useValue: logger },
+      ],
+    }).compile();
+
+    service = module.get(ChangePasswordService);
+  });
+
+  it('changes the password, records the old one and revokes other sessions', async () => {
+    // Act
+    const result = await changePassword({ refreshToken: 'current-session' });
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    expect(user.getProps().password).not.toBe(currentHash);
+    expect(userRepository.update).toHaveBeenCalledWith(user);
+    expect(passwordHistoryRepository.add).toHaveBeenCalledWith(
+      user.id,
+      currentHash,
+      5,
+    );
+    expect(refreshTokenRepository.revokeAllUserTokens).toHaveBeenCalledWith(
+      user.id,
+      '10.0.0.1',
+      'current-session',
+    );
+    expect(userRepository.transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects an incorrect current password', async () => {
+    // Act
+    const result = await changePassword({ currentPassword: 'Wr0ng&Guess!' });
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(CurrentPasswordIncorrectError);
+    expect(userRepository.update).not.toHaveBeenCalled();
+    expect(refreshTokenRepository.revokeAllUserTokens).not.toHaveBeenCalled();
+  });
+
+  it('rejects the current and recently used passwords', async () => {
+    // Act
+    const results = [
+      await changePassword({ newPassword: currentPassword }),
+      await changePassword({ newPassword: previousPassword }),
+    ];
+
+    // Assert
+    results.forEach((result) =>
+      expect(result.unwrapErr()).toBeInstanceOf(PasswordReusedError),
+    );
+    expect(passwordHistoryRepository.findRecentHashes).toHaveBeenCalledWith(
+      user.id,
+      5,
+    );
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects weak passwords', async () => {
+    // Act
+    const result = await changePassword({ newPassword: 'abcdefgh' });
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(WeakPasswordError);
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,286 @@
+import { Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { None, Some } from 'oxide.ts';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { InMemoryMailer, MAILER } from '@libs/mailer';
+import { SendEmailVerificationWhenUserEmailChangeIsRequestedDomainEventHandler } from '@modules/auth/application/event-handlers/send-email-verification-when-user-email-change-is-requested.domain-event-handler';
+import { AUTH_DI_TOKENS } from '@modules/auth/auth.di-tokens';
+import { ResendVerificationCommand } from '@modules/auth/commands/resend-verification/resend-verification.command';
+import { ResendVerificationService } from '@modules/auth/commands/resend-verification/resend-verification.service';
+import { SendEmailVerificationCommand } from '@modules/auth/commands/send-email-verification/send-email-verification.command';
+import { SendEmailVerificationService } from '@modules/auth/commands/send-email-verification/send-email-verification.service';
+import { VerifyEmailCommand } from '@modules/auth/commands/verify-email/verify-email.command';
+import { VerifyEmailService } from '@modules/auth/commands/verify-email/verify-email.service';
+import { InvalidTokenError } from '@modules/auth/domain/auth.errors';
+import { MailerAuthNotificationService } from '@modules/auth/infrastructure/services/mailer-auth-notification.service';
+import { PasswordService } from '@modules/auth/infrastructure/services/password.service';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import { Address } from '@modules/user/domain/value-objects/address.value-object';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+
+describe('Email verification', () => {
+  let sendEmailVerification: SendEmailVerificationService;
+  let verifyEmail: VerifyEmailService;
+  let resendVerification: ResendVerificationService;
+  let sendEmailChangeVerification: SendEmailVerificationWhenUserEmailChangeIsRequestedDomainEventHandler;
+  let mailer: InMemoryMailer;
+  let user: UserEntity;
+  let userRepository: {
+    findOneById: jest.Mock;
+    findByEmailForAuth: jest.Mock;
+    findOneByEmailVerificationToken: jest.Mock;
+    update: jest.Mock;
+  };
+  let auditLogRepository: { insert: jest.Mock };
+
+  const email = 'john@example.com';
+  const logger = { log: jest.fn(), error: jest.fn(), warn: jest.fn() };
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  const auditActions = (): string[] =>
+    auditLogRepository.insert.mock.calls.map(([log]) => log.action);
+
+  const sentTokens = (): string[] =>
+    mailer.sent.map(
+      (message) =>
+        /token to verify your email: (\w+)/.exec(message.text)?.[1] ?? '',
+    );
+
+  const sendVerification = () =>
+    inContext(() =>
+      sendEmailVerification.execute(
+        new SendEmailVerificationCommand({ userId: user.id }),
+      ),
+    );
+
+  const verify = (token: string) =>
+    inContext(() => verifyEmail.execute(new VerifyEmailCommand({ token })));
+
+  beforeEach(async () => {
+    user = inContext(() =>
+      UserEntity.createWithAuth({
+        email,
+        address: new Address({
+          country: 'England',
+          postalCode: '28566',
+          street: 'Grand Avenue',
+        }),
+        password: 'password-hash',
+      }),
+    );
+    mailer = new InMemoryMailer();
+
+    userRepository = {
+      findOneById: jest.fn(async (id: string) =>
+        id === user.id ? Some(user) : None,
+      ),
+      findByEmailForAuth: jest.fn(async (value: string) =>
+        value === email ? user : null,
+      ),
+      // Simulates the lookup by the stored hash
+      findOneByEmailVerificationToken: jest.fn(async (tokenHash: string) =>
+        user.getProps().emailVerificationToken === tokenHash
+          ? Some(user)
+          : None,
+      ),
+      update: jest.fn(),
+    };
+    auditLogRepository = { insert: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SendEmailVerificationService,
+        VerifyEmailService,
+        ResendVerificationService,
+        SendEmailVerificationWhenUserEmailChangeIsRequestedDomainEventHandler,
+        { provide: USER_DI_TOKENS.UserRepository, useValue: userRepository },
+        {
+          provide: AUTH_DI_TOKENS.PasswordService,
+          useValue: new PasswordService(logger as any),
+        },
+        {
+          provide: AUTH_DI_TOKENS.AuthNotificationService,
+          useClass: MailerAuthNotificationService,
+        },
+        {
+          provide: AUTH_DI_TOKENS.AuthAuditLogRepository,
+          useValue: auditLogRepository,
+        },
+        { provide: MAILER, useValue: mailer },
+        { provide: Logger, useValue: logger },
+      ],
+    }).compile();
+
+    sendEmailVerification = module.get(SendEmailVerificationService);
+    verifyEmail = module.get(VerifyEmailService);
+    resendVerification = module.get(ResendVerificationService);
+    sendEmailChangeVerification = module.get(
+      SendEmailVerificationWhenUserEmailChangeIsRequestedDomainEventHandler,
+    );
+  });
+
+  it('sends a token to a new user and stores only its hash', async () => {
+    // Act
+    await sendVerification();
+
+    // Assert
+    const [token] = sentTokens();
+    expect(token).not.toHaveLength(0);
+    const { emailVerificationToken, emailVerificationTokenExpiresAt } =
+      user.getProps();
+    expect(emailVerificationToken).toBeDefined();
+    expect(emailVerificationToken).not.toBe(token);
+    expect(emailVerificationTokenExpiresAt?.getTime()).toBeGreaterThan(
+      Date.now(),
+    );
+    expect(userRepository.update).toHaveBeenCalledWith(user);
+  });
+
+  it('does not issue a second token when the command is retried', async () => {
+    // Act
+    await sendVerification();
+    await sendVerification();
+
+    // Assert
+    expect(mailer.sent).toHaveLength(1);
+  });
+
+  it('sends a new token when the previous attempt could not be sent', async () => {
+    // Arrange
+    jest
+      .spyOn(mailer, 'send')
+      .mockRejectedValueOnce(new Error('SMTP unavailable'));
+    await expect(sendVerification()).rejects.toThrow('SMTP unavailable');
+
+    // Act
+    await sendVerification();
+
+    // Assert
+    expect(user.getProps().emailVerificationToken).toBeDefined();
+    expect(mailer.sent).toHaveLength(1);
+    const [token] = sentTokens();
+    expect((await verify(token)).isOk()).toBe(true);
+  });
+
+  it('verifies the email and accepts a token only once', async () => {
+    // Arrange
+    await sendVerification();
+    const [token] = sentTokens();
+
+    // Act
+    const result = await verify(token);
+    const secondResult = await verify(token);
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    expect(user.isEmailVerified).toBe(true);
+    expect(user.getProps().emailVerificationToken).toBeUndefined();
+    expect(secondResult.unwrapErr()).toBeInstanceOf(InvalidTokenError);
+    expect(auditActions()).toContain('EMAIL_VERIFICATION_SUCCESS');
+  });
+
+  it('rejects expired tokens', async () => {
+    // Arrange
+    await sendVerification();
+    const [token] = sentTokens();
+    user.updateAuthProps({
+      emailVerificationTokenExpiresAt: new Date(Date.now() - 1000),
+    });
+
+    // Act
+    const result = await verify(token);
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(InvalidTokenError);
+    expect(user.isEmailVerified).toBe(false);
+    expect(user.getProps().emailVerificationToken).toBeUndefined();
+  });
+
+  it('replaces the previous token when resending', async () => {
+    // Arrange
+    await sendVerification();
+
+    // Act
+    const result = await inContext(() =>
+      resendVerification.execute(new ResendVerificationCommand({ email })),
+    );
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    const [firstToken, secondToken] = sentTokens();
+    expect((await verify(firstToken)).isErr()).toBe(true);
+    expect((await verify(secondToken)).isOk()).toBe(true);
+  });
+
+  it('does not verify a pending email with a token sent to the current one', async () => {
+    // Arrange
+    inContext(() => user.requestEmailChange('victim@example.com'));
+
+    // Act
+    await inContext(() =>
+      resendVerification.execute(new ResendVerificationCommand({ email })),
+    );
+    const result = await verify(sentTokens()[0]);
+
+    // Assert
+    expect(mailer.sent.map((message) => message.to)).toEqual([email]);
+    expect(result.isOk()).toBe(true);
+    expect(user.isEmailVerified).toBe(true);
+    expect(user.email).toBe(email);
+    expect(user.pendingEmail).toBe('victim@example.com');
+  });
+
+  it('changes the email with a token sent to the new one, also when the first delivery failed', async () => {
+    // Arrange
+    const newEmail = 'john@example.org';
+    inContext(() => user.requestEmailChange(newEmail));
+    const requestEmailChange = () =>
+      inContext(() =>
+        sendEmailChangeVerification.handle({
+          aggregateId: user.id,
+          email: newEmail,
+        } as any),
+      );
+    jest
+      .spyOn(mailer, 'send')
+      .mockRejectedValueOnce(new Error('SMTP unavailable'));
+    await expect(requestEmailChange()).rejects.toThrow('SMTP unavailable');
+
+    // Act
+    await requestEmailChange();
+    await requestEmailChange();
+    const result = await verify(sentTokens()[0]);
+
+    // Assert
+    expect(mailer.sent.map((message) => message.to)).toEqual([newEmail]);
+    expect(result.isOk()).toBe(true);
+    expect(user.email).toBe(newEmail);
+    expect(user.pendingEmail).toBeUndefined();
+  });
+
+  it('does not reveal whether an email is registered or verified', async () => {
+    // Arrange
+    user.verifyEmail();
+
+    // Act
+    const results = await Promise.all(
+      [email, 'unknown@example.com'].map((value) =>
+        inContext(() =>
+          resendVerification.execute(
+            new ResendVerificationCommand({ email: value }),
+          ),
+        ),
+      ),
+    );
+
+    // Assert
+    expect(results.every((result) => result.isOk())).toBe(true);
+    expect(mailer.sent).toHaveLength(0);
+    expect(auditActions().sort()).toEqual([
+      'EMAIL_VERIFICATION_NOT_ALLOWED',
+      'EMAIL_VERIFICATION_UNKNOWN_EMAIL',
+    ]);
+  });
+});
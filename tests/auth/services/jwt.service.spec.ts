@@ -1,3 +1,4 @@
+import { Logger } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { JwtService as NestJwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
@@ -44,7 +45,7 @@ describe('JwtService', () => {
           },
         },
         {
-          provide: LoggerPort,
+          provide: Logger,
           useValue: {
             log: jest.fn(),
             error: jest.fn(),
@@ -58,7 +59,7 @@ describe('JwtService', () => {
     service = module.get<JwtService>(JwtService);
     nestJwtService = module.get(NestJwtService);
     configService = module.get(ConfigService);
-    logger = module.get(LoggerPort);
+    logger = module.get(Logger);
 
     // Setup default config mock responses
     configService.getOrThrow
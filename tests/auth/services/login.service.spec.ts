@@ -1,21 +1,27 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { LoggerPort } from '@libs/ports/logger.port';
 import { AUTH_DI_TOKENS } from '@modules/auth/auth.di-tokens';
 import { LoginCommand } from '@modules/auth/commands/login/login.command';
 import { LoginService } from '@modules/auth/commands/login/login.service';
 import { AuthAuditLogRepositoryPort } from '@modules/auth/database/auth-audit-log.repository.port';
+import { PermissionRepositoryPort } from '@modules/auth/database/permission.repository.port';
 import { RefreshTokenRepositoryPort } from '@modules/auth/database/refresh-token.repository.port';
+import { RoleRepositoryPort } from '@modules/auth/database/role.repository.port';
 import {
   AccountInactiveError,
   AccountLockedError,
   EmailNotVerifiedError,
   InvalidCredentialsError,
 } from '@modules/auth/domain/auth.errors';
+import { PermissionEntity } from '@modules/auth/domain/entities/permission.entity';
+import { RoleEntity } from '@modules/auth/domain/entities/role.entity';
 import { JwtServicePort } from '@modules/auth/domain/ports/jwt.service.port';
 import { PasswordServicePort } from '@modules/auth/domain/ports/password.service.port';
 import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { UserEntity } from '@modules/user/domain/user.entity';
 import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
 import { Test, TestingModule } from '@nestjs/testing';
-import { None, Some } from 'oxide.ts';
 
 describe('LoginService', () => {
   let service: LoginService;
@@ -24,10 +30,12 @@ describe('LoginService', () => {
   let passwordService: jest.Mocked<PasswordServicePort>;
   let refreshTokenRepository: jest.Mocked<RefreshTokenRepositoryPort>;
   let auditLogRepository: jest.Mocked<AuthAuditLogRepositoryPort>;
+  let roleRepository: jest.Mocked<RoleRepositoryPort>;
+  let permissionRepository: jest.Mocked<PermissionRepositoryPort>;
   let logger: jest.Mocked<LoggerPort>;
 
   const mockUser = {
-    id: 'user-123',
+    id: '9b4a1d4e-0c1a-4d6f-8f3e-1b2c3d4e5f60',
     getProps: jest.fn().mockReturnValue({
       email: 'test@example.com',
       password: 'hashed-password',
@@ -40,6 +48,12 @@ describe('LoginService', () => {
     updateAuthProps: jest.fn(),
   };
 
+  const givenUser = (user: typeof mockUser | null): void => {
+    userRepository.findByEmailForAuth.mockResolvedValue(
+      user as unknown as UserEntity,
+    );
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -47,7 +61,7 @@ describe('LoginService', () => {
         {
           provide: USER_DI_TOKENS.UserRepository,
           useValue: {
-            findByEmail: jest.fn(),
+            findByEmailForAuth: jest.fn(),
             update: jest.fn(),
           },
         },
@@ -67,6 +81,9 @@ describe('LoginService', () => {
           provide: AUTH_DI_TOKENS.RefreshTokenRepository,
           useValue: {
             insert: jest.fn(),
+            countActiveTokensForUser: jest.fn(async () => 1),
+            findActiveTokensByUserId: jest.fn(async () => []),
+            revokeFamily: jest.fn(),
           },
         },
         {
@@ -76,7 +93,25 @@ describe('LoginService', () => {
           },
         },
         {
-          provide: LoggerPort,
+          provide: AUTH_DI_TOKENS.RoleRepository,
+          useValue: {
+            findUserRoles: jest.fn(async () => []),
+          },
+        },
+        {
+          provide: AUTH_DI_TOKENS.PermissionRepository,
+          useValue: {
+            findUserPermissions: jest.fn(async () => []),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+          },
+        },
+        {
+          provide: Logger,
           useValue: {
             log: jest.fn(),
             error: jest.fn(),
@@ -93,7 +128,9 @@ describe('LoginService', () => {
     passwordService = module.get(AUTH_DI_TOKENS.PasswordService);
     refreshTokenRepository = module.get(AUTH_DI_TOKENS.RefreshTokenRepository);
     auditLogRepository = module.get(AUTH_DI_TOKENS.AuthAuditLogRepository);
-    logger = module.get(LoggerPort);
+    roleRepository = module.get(AUTH_DI_TOKENS.RoleRepository);
+    permissionRepository = module.get(AUTH_DI_TOKENS.PermissionRepository);
+    logger = module.get(Logger);
   });
 
   afterEach(() => {
@@ -110,7 +147,7 @@ describe('LoginService', () => {
 
     it('should successfully login with valid credentials', async () => {
       // Arrange
-      userRepository.findByEmail.mockResolvedValue(Some(mockUser));
+      givenUser(mockUser);
       passwordService.compare.mockResolvedValue(true);
       jwtService.generateTokenPair.mockResolvedValue({
         accessToken: 'access-token',
@@ -130,7 +167,7 @@ describe('LoginService', () => {
       expect(tokenPair.tokenType).toBe('Bearer');
       expect(tokenPair.expiresIn).toBe(900);
 
-      expect(userRepository.findByEmail).toHaveBeenCalledWith(
+      expect(userRepository.findByEmailForAuth).toHaveBeenCalledWith(
         'test@example.com',
       );
       expect(passwordService.compare).toHaveBeenCalledWith(
@@ -147,9 +184,44 @@ describe('LoginService', () => {
       expect(auditLogRepository.insert).toHaveBeenCalled();
     });
 
+    it('should build the token claims from the roles and permissions of the user', async () => {
+      // Arrange
+      givenUser(mockUser);
+      passwordService.compare.mockResolvedValue(true);
+      roleRepository.findUserRoles.mockResolvedValue([
+        { name: 'moderator', isActive: true },
+        { name: 'archived', isActive: false },
+      ] as unknown as RoleEntity[]);
+      permissionRepository.findUserPermissions.mockResolvedValue([
+        { name: 'user:list' },
+        { name: 'wallet:read' },
+      ] as unknown as PermissionEntity[]);
+      jwtService.generateTokenPair.mockResolvedValue({
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        tokenType: 'Bearer',
+        expiresIn: 900,
+      });
+
+      // Act
+      await service.execute(validCommand);
+
+      // Assert
+      expect(roleRepository.findUserRoles).toHaveBeenCalledWith(mockUser.id);
+      expect(permissionRepository.findUserPermissions).toHaveBeenCalledWith(
+        mockUser.id,
+      );
+      expect(jwtService.generateTokenPair).toHaveBeenCalledWith(
+        expect.objectContaining({
+          roles: ['moderator'],
+          permissions: ['user:list', 'wallet:read'],
+        }),
+      );
+    });
+
     it('should fail with invalid email', async () => {
       // Arrange
-      userRepository.findByEmail.mockResolvedValue(None);
+      givenUser(null);
 
       // Act
       const result = await service.execute(validCommand);
@@ -163,7 +235,15 @@ describe('LoginService', () => {
     });
 
     it('should fail with locked account', async () => {
-      // Arrange      const lockedUser = {        ...mockUser,        getProps: jest.fn().mockReturnValue({          ...mockUser.getProps(),          lockedUntil: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes from now        }),      };      userRepository.findByEmail.mockResolvedValue(Some(lockedUser));
+      // Arrange
+      const lockedUser = {
+        ...mockUser,
+        getProps: jest.fn().mockReturnValue({
+          ...mockUser.getProps(),
+          lockedUntil: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes from now
+        }),
+      };
+      givenUser(lockedUser);
 
       // Act
       const result = await service.execute(validCommand);
@@ -183,7 +263,7 @@ describe('LoginService', () => {
           isActive: false,
         }),
       };
-      userRepository.findByEmail.mockResolvedValue(Some(inactiveUser));
+      givenUser(inactiveUser);
 
       // Act
       const result = await service.execute(validCommand);
@@ -203,7 +283,7 @@ describe('LoginService', () => {
           isEmailVerified: false,
         }),
       };
-      userRepository.findByEmail.mockResolvedValue(Some(unverifiedUser));
+      givenUser(unverifiedUser);
 
       // Act
       const result = await service.execute(validCommand);
@@ -216,7 +296,7 @@ describe('LoginService', () => {
 
     it('should fail with incorrect password', async () => {
       // Arrange
-      userRepository.findByEmail.mockResolvedValue(Some(mockUser));
+      givenUser(mockUser);
       passwordService.compare.mockResolvedValue(false);
 
       // Act
@@ -240,9 +320,7 @@ describe('LoginService', () => {
           loginAttempts: 4, // One attempt away from lock
         }),
       };
-      userRepository.findByEmail.mockResolvedValue(
-        Some(userWithFailedAttempts),
-      );
+      givenUser(userWithFailedAttempts);
       passwordService.compare.mockResolvedValue(false);
 
       // Act
@@ -268,7 +346,7 @@ describe('LoginService', () => {
           password: undefined,
         }),
       };
-      userRepository.findByEmail.mockResolvedValue(Some(userWithoutPassword));
+      givenUser(userWithoutPassword);
 
       // Act
       const result = await service.execute(validCommand);
@@ -281,7 +359,9 @@ describe('LoginService', () => {
 
     it('should handle repository errors gracefully', async () => {
       // Arrange
-      userRepository.findByEmail.mockRejectedValue(new Error('Database error'));
+      userRepository.findByEmailForAuth.mockRejectedValue(
+        new Error('Database error'),
+      );
 
       // Act
       const result = await service.execute(validCommand);
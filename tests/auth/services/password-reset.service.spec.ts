@@ -0,0 +1,237 @@
+import { Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { None, Some } from 'oxide.ts';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { InMemoryMailer, MAILER } from '@libs/mailer';
+import { AUTH_DI_TOKENS } from '@modules/auth/auth.di-tokens';
+import { ForgotPasswordCommand } from '@modules/auth/commands/forgot-password/forgot-password.command';
+import { ForgotPasswordService } from '@modules/auth/commands/forgot-password/forgot-password.service';
+import { ResetPasswordCommand } from '@modules/auth/commands/reset-password/reset-password.command';
+import { ResetPasswordService } from '@modules/auth/commands/reset-password/reset-password.service';
+import { InvalidTokenError } from '@modules/auth/domain/auth.errors';
+import { PasswordService } from '@modules/auth/infrastructure/services/password.service';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import { Address } from '@modules/user/domain/value-objects/address.value-object';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+
+describe('Password reset', () => {
+  let forgotPassword: ForgotPasswordService;
+  let resetPassword: ResetPasswordService;
+  let mailer: InMemoryMailer;
+  let user: UserEntity;
+  let userRepository: {
+    findByEmailForAuth: jest.Mock;
+    findOneByPasswordResetToken: jest.Mock;
+    update: jest.Mock;
+    transaction: jest.Mock;
+  };
+  let refreshTokenRepository: { revokeAllUserTokens: jest.Mock };
+  let auditLogRepository: { insert: jest.Mock };
+
+  /** Writes made in a transaction, by the name of the method */
+  let transactionWrites: string[] = [];
+  let inTransaction = false;
+
+  const email = 'john@example.com';
+  const logger = { log: jest.fn(), error: jest.fn(), warn: jest.fn() };
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  const auditActions = (): string[] =>
+    auditLogRepository.insert.mock.calls.map(([log]) => log.action);
+
+  const requestToken = async (): Promise<string> => {
+    await inContext(() =>
+      forgotPassword.execute(new ForgotPasswordCommand({ email })),
+    );
+    const message = mailer.lastSentTo(email);
+    const [, token] = /token to set a new password: (\w+)/.exec(
+      message?.text ?? '',
+    ) ?? [undefined, ''];
+    return token;
+  };
+
+  const reset = (token: string, password = 'Tr0ub4dor&3x!') =>
+    inContext(() =>
+      resetPassword.execute(
+        new ResetPasswordCommand({
+          token,
+          newPassword: password,
+          confirmPassword: password,
+          ipAddress: '10.0.0.1',
+        }),
+      ),
+    );
+
+  beforeEach(async () => {
+    user = inContext(() =>
+      UserEntity.createWithAuth({
+        email,
+        address: new Address({
+          country: 'England',
+          postalCode: '28566',
+          street: 'Grand Avenue',
+        }),
+        password: 'old-password-hash',
+        isEmailVerified: true,
+      }),
+    );
+    mailer = new InMemoryMailer();
+
+    userRepository = {
+      findByEmailForAuth: jest.fn(async (value: string) =>
+        value === email ? user : null,
+      ),
+      // Simulates the lookup by the stored hash
+      findOneByPasswordResetToken: jest.fn(async (tokenHash: string) =>
+        user.getProps().passwordResetToken === tokenHash ? Some(user) : None,
+      ),
+      update: jest.fn(async () => {
+        if (inTransaction) transactionWrites.push('update');
+      }),
+      transaction: jest.fn(async (handler: () => Promise<unknown>) => {
+        inTransaction = true;
+        try {
+          return await handler();
+        } finally {
+          inTransaction = false;
+        }
+      }),
+    };
+    refreshTokenRepository = {
+      revokeAllUserTokens: jest.fn(async () => {
+        if (inTransaction) transactionWrites.push('revokeAllUserTokens');
+      }),
+    };
+    transactionWrites = [];
+    auditLogRepository = { insert: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ForgotPasswordService,
+        ResetPasswordService,
+        { provide: USER_DI_TOKENS.UserRepository, useValue: userRepository },
+        {
+          provide: AUTH_DI_TOKENS.PasswordService,
+          useValue: new PasswordService(logger as any),
+        },
+        {
+          provide: AUTH_DI_TOKENS.RefreshTokenRepository,
+          useValue: refreshTokenRepository,
+        },
+        {
+          provide: AUTH_DI_TOKENS.AuthAuditLogRepository,
+          useValue: auditLogRepository,
+        },
+        { provide: MAILER, useValue: mailer },
+        { provide: Logger, useValue: logger },
+      ],
+    }).compile();
+
+    forgotPassword = module.get(ForgotPasswordService);
+    resetPassword = module.get(ResetPasswordService);
+  });
+
+  it('emails a reset token and stores only its hash', async () => {
+    // Act
+    const token = await requestToken();
+
+    // Assert
+    expect(token).not.toHaveLength(0);
+    const { passwordResetToken, passwordResetTokenExpiresAt } = user.getProps();
+    expect(passwordResetToken).toBeDefined();
+    expect(passwordResetToken).not.toBe(token);
+    expect(passwordResetTokenExpiresAt?.getTime()).toBeGreaterThan(Date.now());
+    expect(userRepository.update).toHaveBeenCalledWith(user);
+    expect(auditActions()).toEqual(['PASSWORD_RESET_REQUESTED']);
+  });
+
+  it('does not reveal whether an email is registered', async () => {
+    // Act
+    const result = await inContext(() =>
+      forgotPassword.execute(
+        new ForgotPasswordCommand({ email: 'unknown@example.com' }),
+      ),
+    );
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    expect(mailer.sent).toHaveLength(0);
+    expect(auditActions()).toEqual(['PASSWORD_RESET_UNKNOWN_EMAIL']);
+  });
+
+  it('does not send a token to unverified accounts', async () => {
+    // Arrange
+    user.updateAuthProps({ isEmailVerified: false });
+
+    // Act
+    const token = await requestToken();
+
+    // Assert
+    expect(token).toBe('');
+    expect(user.getProps().passwordResetToken).toBeUndefined();
+    expect(auditActions()).toEqual(['PASSWORD_RESET_NOT_ALLOWED']);
+  });
+
+  it('resets the password and revokes all refresh tokens', async () => {
+    // Arrange
+    const token = await requestToken();
+
+    // Act
+    const result = await reset(token);
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    const { password, passwordResetToken } = user.getProps();
+    expect(password).not.toBe('old-password-hash');
+    expect(passwordResetToken).toBeUndefined();
+    expect(refreshTokenRepository.revokeAllUserTokens).toHaveBeenCalledWith(
+      user.id,
+      '10.0.0.1',
+    );
+    expect(auditActions()).toContain('PASSWORD_RESET_SUCCESS');
+  });
+
+  it('updates the password and revokes the sessions in one transaction', async () => {
+    // Arrange
+    const token = await requestToken();
+
+    // Act
+    await reset(token);
+
+    // Assert
+    expect(userRepository.transaction).toHaveBeenCalledTimes(1);
+    expect(transactionWrites).toEqual(['update', 'revokeAllUserTokens']);
+  });
+
+  it('accepts a token only once', async () => {
+    // Arrange
+    const token = await requestToken();
+    await reset(token);
+
+    // Act
+    const result = await reset(token, 'C0rrect$Horse9');
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(InvalidTokenError);
+    expect(refreshTokenRepository.revokeAllUserTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects expired tokens', async () => {
+    // Arrange
+    const token = await requestToken();
+    user.updateAuthProps({
+      passwordResetTokenExpiresAt: new Date(Date.now() - 1000),
+    });
+
+    // Act
+    const result = await reset(token);
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(InvalidTokenError);
+    expect(user.getProps().password).toBe('old-password-hash');
+    expect(user.getProps().passwordResetToken).toBeUndefined();
+    expect(refreshTokenRepository.revokeAllUserTokens).not.toHaveBeenCalled();
+  });
+});
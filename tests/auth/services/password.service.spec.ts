@@ -1,3 +1,4 @@
+import { Logger } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { PasswordService } from '@modules/auth/infrastructure/services/password.service';
 import { Password } from '@modules/auth/domain/value-objects/password.value-object';
@@ -33,7 +34,7 @@ describe('PasswordService', () => {
       providers: [
         PasswordService,
         {
-          provide: LoggerPort,
+          provide: Logger,
           useValue: {
             log: jest.fn(),
             error: jest.fn(),
@@ -45,7 +46,7 @@ describe('PasswordService', () => {
     }).compile();
 
     service = module.get<PasswordService>(PasswordService);
-    logger = module.get(LoggerPort);
+    logger = module.get(Logger);
 
     // Setup mock Password value object
     mockPassword = {
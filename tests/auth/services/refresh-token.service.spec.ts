@@ -0,0 +1,348 @@
+import { Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { None, Option, Some } from 'oxide.ts';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { SecurityLogger } from '@libs/security/security-logger.service';
+import { AUTH_DI_TOKENS } from '@modules/auth/auth.di-tokens';
+import { RefreshTokenCommand } from '@modules/auth/commands/refresh-token/refresh-token.command';
+import { RefreshTokenService } from '@modules/auth/commands/refresh-token/refresh-token.service';
+import { RefreshTokenNotFoundError } from '@modules/auth/domain/auth.errors';
+import { RefreshTokenEntity } from '@modules/auth/domain/entities/refresh-token.entity';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import { Address } from '@modules/user/domain/value-objects/address.value-object';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+
+/** Keeps refresh tokens in memory, with the semantics of RefreshTokenRepository */
+class InMemoryRefreshTokenRepository {
+  tokens: RefreshTokenEntity[] = [];
+
+  /** Calls made in a transaction, by the name of the method */
+  transactionCalls: string[] = [];
+  private inTransaction = false;
+
+  /** Rolls the tokens back when the handler throws */
+  async transaction<T>(handler: () => Promise<T>): Promise<T> {
+    const snapshot = this.tokens.map((entity) => this.copy(entity));
+    this.inTransaction = true;
+    try {
+      return await handler();
+    } catch (error) {
+      this.tokens = snapshot;
+      throw error;
+    } finally {
+      this.inTransaction = false;
+    }
+  }
+
+  async lockFamily(): Promise<void> {
+    this.record('lockFamily');
+  }
+
+  async insert(token: RefreshTokenEntity): Promise<void> {
+    this.record('insert');
+    this.tokens.push(token);
+  }
+
+  /** Returns a copy, like a row read before concurrent requests changed it */
+  async findByToken(token: string): Promise<Option<RefreshTokenEntity>> {
+    const found = this.tokens.find((entity) => entity.token === token);
+    return found ? Some(this.copy(found)) : None;
+  }
+
+  async revokeToken(
+    token: string,
+    revokedByIp?: string,
+    replacedByToken?: string,
+  ): Promise<boolean> {
+    this.record('revokeToken');
+    const found = this.tokens.find(
+      (entity) => entity.token === token && !entity.isRevoked,
+    );
+    found?.revoke(revokedByIp, replacedByToken);
+    return found !== undefined;
+  }
+
+  async revokeFamily(familyId: string, revokedByIp?: string): Promise<void> {
+    this.tokens
+      .filter((entity) => entity.familyId === familyId)
+      .forEach((entity) => entity.revoke(revokedByIp));
+  }
+
+  private record(method: string): void {
+    if (this.inTransaction) this.transactionCalls.push(method);
+  }
+
+  private copy(entity: RefreshTokenEntity): RefreshTokenEntity {
+    const { id, createdAt, updatedAt, version, ...props } = entity.getProps();
+    return new RefreshTokenEntity({ id, createdAt, updatedAt, version, props });
+  }
+}
+
+describe('Refresh token rotation', () => {
+  let module: TestingModule;
+  let user: UserEntity;
+  let refreshTokens: InMemoryRefreshTokenRepository;
+  let auditLogRepository: { insert: jest.Mock };
+  let securityLogger: { logSecurityEvent: jest.Mock };
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  let issued = 0;
+  const issueToken = (): string => `refresh-token-${++issued}`;
+
+  /** Stores the refresh token of a login, like LoginService */
+  const login = async (): Promise<{ refreshToken: string }> => {
+    const refreshToken = issueToken();
+    await refreshTokens.insert(
+      RefreshTokenEntity.create({
+        token: refreshToken,
+        userId: user.id,
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        createdByIp: '192.168.1.1',
+        userAgent: 'laptop',
+      }),
+    );
+    return { refreshToken };
+  };
+
+  const refresh = (refreshToken: string, ipAddress: string) =>
+    inContext(() =>
+      module
+        .get(RefreshTokenService)
+        .execute(new RefreshTokenCommand({ refreshToken, ipAddress })),
+    );
+
+  beforeEach(async () => {
+    user = inContext(() =>
+      UserEntity.createWithAuth({
+        email: 'john@example.com',
+        address: new Address({
+          country: 'England',
+          postalCode: '28566',
+          street: 'Grand Avenue',
+        }),
+        password: 'password-hash',
+        isEmailVerified: true,
+      }),
+    );
+    refreshTokens = new InMemoryRefreshTokenRepository();
+    auditLogRepository = { insert: jest.fn() };
+    securityLogger = { logSecurityEvent: jest.fn() };
+
+    module = await Test.createTestingModule({
+      providers: [
+        RefreshTokenService,
+        {
+          provide: USER_DI_TOKENS.UserRepository,
+          useValue: {
+            findOneById: jest.fn(async () => Some(user)),
+          },
+        },
+        {
+          provide: AUTH_DI_TOKENS.JwtService,
+          useValue: {
+            generateTokenPair: jest.fn(async () => ({
+              accessToken: 'access-token',
+              refreshToken: issueToken(),
+              tokenType: 'Bearer',
+              expiresIn: 900,
+            })),
+            verifyRefreshToken: jest.fn(async () => ({ sub: user.id })),
+          },
+        },
+        {
+          provide: AUTH_DI_TOKENS.RefreshTokenRepository,
+          useValue: refreshTokens,
+        },
+        {
+          provide: AUTH_DI_TOKENS.AuthAuditLogRepository,
+          useValue: auditLogRepository,
+        },
+        {
+          provide: AUTH_DI_TOKENS.RoleRepository,
+          useValue: {
+            findUserRoles: jest.fn(async () => [
+              { name: 'user', isActive: true },
+            ]),
+          },
+        },
+        {
+          provide: AUTH_DI_TOKENS.PermissionRepository,
+          useValue: {
+            findUserPermissions: jest.fn(async () => [
+              { name: 'user:read-own' },
+            ]),
+          },
+        },
+        { provide: SecurityLogger, useValue: securityLogger },
+        {
+          provide: Logger,
+          useValue: { log: jest.fn(), error: jest.fn(), warn: jest.fn() },
+        },
+      ],
+    }).compile();
+  });
+
+  it('keeps the tokens rotated from a login in one family', async () => {
+    // Arrange
+    const { refreshToken } = await login();
+
+    // Act
+    const rotated = (await refresh(refreshToken, '192.168.1.1')).unwrap();
+
+    // Assert
+    const [first, second] = refreshTokens.tokens;
+    expect(rotated.refreshToken).toBe(second.token);
+    expect(second.familyId).toBe(first.familyId);
+    expect(first.isRotated).toBe(true);
+    expect(second.isActive).toBe(true);
+    expect(securityLogger.logSecurityEvent).not.toHaveBeenCalled();
+  });
+
+  it('revokes the token and stores the new one in a transaction holding the family', async () => {
+    // Arrange
+    const { refreshToken } = await login();
+
+    // Act
+    await refresh(refreshToken, '192.168.1.1');
+
+    // Assert
+    expect(refreshTokens.transactionCalls).toEqual([
+      'lockFamily',
+      'revokeToken',
+      'insert',
+    ]);
+  });
+
+  it('keeps the session when the new token cannot be stored', async () => {
+    // Arrange
+    const { refreshToken } = await login();
+    jest
+      .spyOn(refreshTokens, 'insert')
+      .mockRejectedValueOnce(new Error('Connection lost'));
+
+    // Act
+    const failed = await refresh(refreshToken, '192.168.1.1');
+    const retried = await refresh(refreshToken, '192.168.1.1');
+
+    // Assert
+    expect(failed.isErr()).toBe(true);
+    expect(retried.isOk()).toBe(true);
+    expect(securityLogger.logSecurityEvent).not.toHaveBeenCalled();
+  });
+
+  it('issues the roles and permissions the user holds at the time of the refresh', async () => {
+    // Arrange
+    const { refreshToken } = await login();
+    module
+      .get(AUTH_DI_TOKENS.PermissionRepository)
+      .findUserPermissions.mockResolvedValue([
+        { name: 'user:read-own' },
+        { name: 'wallet:read-own' },
+      ]);
+
+    // Act
+    await refresh(refreshToken, '192.168.1.1');
+
+    // Assert
+    expect(
+      module.get(AUTH_DI_TOKENS.JwtService).generateTokenPair,
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sub: user.id,
+        roles: ['user'],
+        permissions: ['user:read-own', 'wallet:read-own'],
+      }),
+    );
+  });
+
+  it('starts a new family with every login', async () => {
+    // Act
+    await login();
+    await login();
+
+    // Assert
+    const [first, second] = refreshTokens.tokens;
+    expect(second.familyId).not.toBe(first.familyId);
+  });
+
+  it('revokes the family when a stolen token is reused after the owner rotated it', async () => {
+    // Arrange
+    const { refreshToken: stolen } = await login();
+    const owner = (await refresh(stolen, '192.168.1.1')).unwrap();
+    const otherSession = await login();
+
+    // Act
+    const attacker = await refresh(stolen, '203.0.113.7');
+
+    // Assert
+    expect(attacker.unwrapErr()).toBeInstanceOf(RefreshTokenNotFoundError);
+    const ownerRetry = await refresh(owner.refreshToken, '192.168.1.1');
+    expect(ownerRetry.unwrapErr()).toBeInstanceOf(RefreshTokenNotFoundError);
+    const [, ownerToken, otherSessionToken] = refreshTokens.tokens;
+    expect(ownerToken.isRevoked).toBe(true);
+    expect(ownerToken.revokedByIp).toBe('203.0.113.7');
+    expect(otherSessionToken.token).toBe(otherSession.refreshToken);
+    expect(otherSessionToken.isActive).toBe(true);
+
+    expect(securityLogger.logSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'SUSPICIOUS_ACTIVITY',
+        severity: 'HIGH',
+        details: expect.objectContaining({
+          familyId: ownerToken.familyId,
+          userId: user.id,
+          ip: '203.0.113.7',
+        }),
+      }),
+    );
+    const audits = auditLogRepository.insert.mock.calls.map(([entry]) =>
+      entry.getProps(),
+    );
+    expect(audits).toContainEqual(
+      expect.objectContaining({
+        userId: user.id,
+        action: 'REFRESH_TOKEN_REUSE_DETECTED',
+        ipAddress: '203.0.113.7',
+        success: false,
+      }),
+    );
+  });
+
+  it('revokes the family when the owner reuses a token the attacker rotated first', async () => {
+    // Arrange
+    const { refreshToken: stolen } = await login();
+    const attacker = (await refresh(stolen, '203.0.113.7')).unwrap();
+
+    // Act
+    const owner = await refresh(stolen, '192.168.1.1');
+
+    // Assert
+    expect(owner.unwrapErr()).toBeInstanceOf(RefreshTokenNotFoundError);
+    const attackerRetry = await refresh(attacker.refreshToken, '203.0.113.7');
+    expect(attackerRetry.isErr()).toBe(true);
+    expect(refreshTokens.tokens.every((token) => token.isRevoked)).toBe(true);
+    expect(securityLogger.logSecurityEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets only one of concurrent refreshes with the same token rotate it', async () => {
+    // Arrange
+    const { refreshToken } = await login();
+
+    // Act
+    const results = await Promise.all([
+      refresh(refreshToken, '192.168.1.1'),
+      refresh(refreshToken, '203.0.113.7'),
+    ]);
+
+    // Assert
+    expect(results.filter((result) => result.isOk())).toHaveLength(1);
+    expect(
+      results.find((result) => result.isErr())?.unwrapErr(),
+    ).toBeInstanceOf(RefreshTokenNotFoundError);
+    expect(refreshTokens.tokens).toHaveLength(2);
+    expect(refreshTokens.tokens.every((token) => token.isRevoked)).toBe(true);
+    expect(securityLogger.logSecurityEvent).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { randomUUID } from 'crypto';
+import { None, Some } from 'oxide.ts';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { AUTH_DI_TOKENS } from '@modules/auth/auth.di-tokens';
+import { AssignRoleCommand } from '@modules/auth/commands/assign-role/assign-role.command';
+import { AssignRoleService } from '@modules/auth/commands/assign-role/assign-role.service';
+import { CreateRoleCommand } from '@modules/auth/commands/create-role/create-role.command';
+import { CreateRoleService } from '@modules/auth/commands/create-role/create-role.service';
+import { GrantPermissionCommand } from '@modules/auth/commands/grant-permission/grant-permission.command';
+import { GrantPermissionService } from '@modules/auth/commands/grant-permission/grant-permission.service';
+import {
+  PermissionNotFoundError,
+  RoleInactiveError,
+} from '@modules/auth/domain/auth.errors';
+import { PermissionEntity } from '@modules/auth/domain/entities/permission.entity';
+import { RoleEntity } from '@modules/auth/domain/entities/role.entity';
+import { PermissionGrantedDomainEvent } from '@modules/auth/domain/events/permission-granted.domain-event';
+import { RoleAssignedDomainEvent } from '@modules/auth/domain/events/role-assigned.domain-event';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+
+describe('Role administration', () => {
+  let module: TestingModule;
+  let role: RoleEntity;
+  let permission: PermissionEntity;
+  let roleRepository: {
+    findOneById: jest.Mock;
+    findByName: jest.Mock;
+    getUserRoleIds: jest.Mock;
+    assignRoleToUser: jest.Mock;
+    insert: jest.Mock;
+    update: jest.Mock;
+    transaction: jest.Mock;
+  };
+  let permissionRepository: { findOneById: jest.Mock; findByIds: jest.Mock };
+  let auditLogRepository: { insert: jest.Mock };
+
+  const adminId = randomUUID();
+  const userId = randomUUID();
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  beforeEach(async () => {
+    role = inContext(() => RoleEntity.create({ name: 'support' }));
+    permission = inContext(() =>
+      PermissionEntity.create({
+        name: 'invoice:read',
+        resource: 'invoice',
+        action: 'read',
+      }),
+    );
+
+    roleRepository = {
+      findOneById: jest.fn(async () => Some(role)),
+      findByName: jest.fn(async () => None),
+      getUserRoleIds: jest.fn(async () => []),
+      assignRoleToUser: jest.fn(),
+      insert: jest.fn(),
+      update: jest.fn(),
+      transaction: jest.fn((handler) => handler()),
+    };
+    permissionRepository = {
+      findOneById: jest.fn(async () => Some(permission)),
+      findByIds: jest.fn(async () => [permission]),
+    };
+    auditLogRepository = { insert: jest.fn() };
+
+    module = await Test.createTestingModule({
+      providers: [
+        AssignRoleService,
+        CreateRoleService,
+        GrantPermissionService,
+        {
+          provide: USER_DI_TOKENS.UserRepository,
+          useValue: { findOneById: jest.fn(async () => Some({ id: userId })) },
+        },
+        { provide: AUTH_DI_TOKENS.RoleRepository, useValue: roleRepository },
+        {
+          provide: AUTH_DI_TOKENS.PermissionRepository,
+          useValue: permissionRepository,
+        },
+        {
+          provide: AUTH_DI_TOKENS.AuthAuditLogRepository,
+          useValue: auditLogRepository,
+        },
+      ],
+    }).compile();
+  });
+
+  describe('AssignRoleService', () => {
+    const assignRole = () =>
+      inContext(() =>
+        module.get(AssignRoleService).execute(
+          new AssignRoleCommand({
+            userId,
+            roleId: role.id,
+            performedBy: adminId,
+          }),
+        ),
+      );
+
+    it('assigns a role and publishes the assignment with an audit entry', async () => {
+      // Act
+      const result = await assignRole();
+
+      // Assert
+      expect(result.isOk()).toBe(true);
+      expect(roleRepository.assignRoleToUser).toHaveBeenCalledWith(
+        userId,
+        role.id,
+        adminId,
+      );
+      expect(roleRepository.update).toHaveBeenCalledWith(role);
+      const [event] = role.domainEvents;
+      expect(event).toBeInstanceOf(RoleAssignedDomainEvent);
+      expect(event).toMatchObject({
+        userId,
+        roleName: 'support',
+        assignedBy: adminId,
+      });
+      const [auditLog] = auditLogRepository.insert.mock.calls[0];
+      expect(auditLog.getProps()).toMatchObject({
+        userId: adminId,
+        action: 'ROLE_ASSIGNED',
+        details: { roleId: role.id, targetUserId: userId },
+        success: true,
+      });
+    });
+
+    it('does nothing when the user already has the role', async () => {
+      // Arrange
+      roleRepository.getUserRoleIds.mockResolvedValue([role.id]);
+
+      // Act
+      const result = await assignRole();
+
+      // Assert
+      expect(result.isOk()).toBe(true);
+      expect(roleRepository.assignRoleToUser).not.toHaveBeenCalled();
+      expect(auditLogRepository.insert).not.toHaveBeenCalled();
+      expect(role.domainEvents).toHaveLength(0);
+    });
+
+    it('rejects an inactive role', async () => {
+      // Arrange
+      role.deactivate();
+
+      // Act
+      const result = await assignRole();
+
+      // Assert
+      expect(result.unwrapErr()).toBeInstanceOf(RoleInactiveError);
+      expect(roleRepository.assignRoleToUser).not.toHaveBeenCalled();
+    });
+  });
+
+  it('grants a permission to a role', async () => {
+    // Act
+    const result = await inContext(() =>
+      module.get(GrantPermissionService).execute(
+        new GrantPermissionCommand({
+          roleId: role.id,
+          permissionId: permission.id,
+          performedBy: adminId,
+        }),
+      ),
+    );
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    expect(role.permissions).toEqual([permission.id]);
+    expect(role.domainEvents[0]).toBeInstanceOf(PermissionGrantedDomainEvent);
+    expect(roleRepository.update).toHaveBeenCalledWith(role);
+    expect(auditLogRepository.insert.mock.calls[0][0].action).toBe(
+      'PERMISSION_GRANTED',
+    );
+  });
+
+  it('does not create a role with unknown permissions', async () => {
+    // Act
+    const result = await inContext(() =>
+      module.get(CreateRoleService).execute(
+        new CreateRoleCommand({
+          name: 'auditor',
+          permissionIds: [permission.id, 'perm-unknown'],
+          performedBy: adminId,
+        }),
+      ),
+    );
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(PermissionNotFoundError);
+    expect(roleRepository.insert).not.toHaveBeenCalled();
+  });
+});
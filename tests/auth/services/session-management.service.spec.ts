@@ -0,0 +1,345 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { LoggerPort } from '@libs/ports/logger.port';
+import { AUTH_DI_TOKENS } from '@modules/auth/auth.di-tokens';
+import { LoginCommand } from '@modules/auth/commands/login/login.command';
+import { LoginService } from '@modules/auth/commands/login/login.service';
+import { RevokeSessionCommand } from '@modules/auth/commands/revoke-session/revoke-session.command';
+import { RevokeSessionService } from '@modules/auth/commands/revoke-session/revoke-session.service';
+import { AuthAuditLogRepositoryPort } from '@modules/auth/database/auth-audit-log.repository.port';
+import { RefreshTokenRepositoryPort } from '@modules/auth/database/refresh-token.repository.port';
+import { SessionNotFoundError } from '@modules/auth/domain/auth.errors';
+import { AUTH_CONSTANTS } from '@modules/auth/domain/auth.types';
+import { RefreshTokenEntity } from '@modules/auth/domain/entities/refresh-token.entity';
+import {
+  DeviceType,
+  UserAgent,
+} from '@modules/auth/domain/value-objects/user-agent.value-object';
+import { SessionResponseDto } from '@modules/auth/dtos/session.response.dto';
+import {
+  FindSessionsQuery,
+  FindSessionsQueryHandler,
+} from '@modules/auth/queries/find-sessions/find-sessions.query-handler';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import { Address } from '@modules/user/domain/value-objects/address.value-object';
+import { USER_DI_TOKENS } from '@modules/user/user.di-tokens';
+
+const CHROME_ON_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const SAFARI_ON_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1';
+
+/** Keeps refresh tokens in memory, with the semantics of RefreshTokenRepository */
+class InMemoryRefreshTokenRepository {
+  tokens: RefreshTokenEntity[] = [];
+
+  async insert(token: RefreshTokenEntity): Promise<void> {
+    this.tokens.push(token);
+  }
+
+  async transaction<T>(handler: () => Promise<T>): Promise<T> {
+    return handler();
+  }
+
+  async findActiveTokensByUserId(
+    userId: string,
+  ): Promise<RefreshTokenEntity[]> {
+    return this.tokens
+      .filter((token) => token.userId === userId && token.isActive)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async countActiveTokensForUser(userId: string): Promise<number> {
+    return (await this.findActiveTokensByUserId(userId)).length;
+  }
+
+  async revokeFamily(familyId: string, revokedByIp?: string): Promise<void> {
+    this.tokens
+      .filter((token) => token.familyId === familyId && !token.isRevoked)
+      .forEach((token) => token.revoke(revokedByIp));
+  }
+}
+
+describe('Session management', () => {
+  let module: TestingModule;
+  let user: UserEntity;
+  let refreshTokens: InMemoryRefreshTokenRepository;
+  let auditLogRepository: { insert: jest.Mock };
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  let issued = 0;
+  // Tokens are listed by creation time, so each login happens later
+  const tick = (): void => {
+    jest.setSystemTime(Date.now() + 60 * 1000);
+  };
+
+  const login = async (
+    userAgent: string,
+    ipAddress = '192.168.1.1',
+    service = module.get(LoginService),
+  ) => {
+    tick();
+    return inContext(() =>
+      service.execute(
+        new LoginCommand({
+          email: 'john@example.com',
+          password: 'Password123!',
+          ipAddress,
+          userAgent,
+        }),
+      ),
+    );
+  };
+
+  const findSessions = async (userId = user.id) =>
+    (
+      await module
+        .get(FindSessionsQueryHandler)
+        .execute(new FindSessionsQuery({ userId }))
+    ).unwrap();
+
+  const revokeSession = (sessionId: string, userId = user.id) =>
+    inContext(() =>
+      module.get(RevokeSessionService).execute(
+        new RevokeSessionCommand({
+          sessionId,
+          userId,
+          ipAddress: '10.0.0.1',
+        }),
+      ),
+    );
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-18T12:00:00Z') });
+    user = inContext(() =>
+      UserEntity.createWithAuth({
+        email: 'john@example.com',
+        address: new Address({
+          country: 'England',
+          postalCode: '28566',
+          street: 'Grand Avenue',
+        }),
+        password: 'password-hash',
+        isEmailVerified: true,
+      }),
+    );
+    refreshTokens = new InMemoryRefreshTokenRepository();
+    auditLogRepository = { insert: jest.fn() };
+
+    module = await Test.createTestingModule({
+      providers: [
+        LoginService,
+        RevokeSessionService,
+        FindSessionsQueryHandler,
+        {
+          provide: USER_DI_TOKENS.UserRepository,
+          useValue: {
+            findByEmailForAuth: jest.fn(async () => user),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: AUTH_DI_TOKENS.JwtService,
+          useValue: {
+            generateTokenPair: jest.fn(async () => ({
+              accessToken: 'access-token',
+              refreshToken: `refresh-token-${++issued}`,
+              tokenType: 'Bearer',
+              expiresIn: 900,
+            })),
+          },
+        },
+        {
+          provide: AUTH_DI_TOKENS.PasswordService,
+          useValue: { compare: jest.fn(async () => true) },
+        },
+        {
+          provide: AUTH_DI_TOKENS.RefreshTokenRepository,
+          useValue: refreshTokens,
+        },
+        {
+          provide: AUTH_DI_TOKENS.AuthAuditLogRepository,
+          useValue: auditLogRepository,
+        },
+        {
+          provide: AUTH_DI_TOKENS.RoleRepository,
+          useValue: { findUserRoles: jest.fn(async () => []) },
+        },
+        {
+          provide: AUTH_DI_TOKENS.PermissionRepository,
+          useValue: { findUserPermissions: jest.fn(async () => []) },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => '2') },
+        },
+        {
+          provide: Logger,
+          useValue: { log: jest.fn(), error: jest.fn(), warn: jest.fn() },
+        },
+      ],
+    }).compile();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('lists the devices of the user, most recently used first', async () => {
+    // Arrange
+    await login(CHROME_ON_WINDOWS, '192.168.1.1');
+    await login(SAFARI_ON_IPHONE, '203.0.113.7');
+
+    // Act
+    const sessions = (await findSessions()).map(
+      (token) => new SessionResponseDto(token),
+    );
+
+    // Assert
+    expect(sessions).toMatchObject([
+      {
+        device: { browser: 'Safari 17', os: 'iOS', type: DeviceType.mobile },
+        ipAddress: '203.0.113.7',
+        lastUsedAt: refreshTokens.tokens[1].createdAt.toISOString(),
+      },
+      {
+        device: { browser: 'Chrome 120', os: 'Windows', type: 'desktop' },
+        ipAddress: '192.168.1.1',
+      },
+    ]);
+    expect(sessions[0].id).toBe(refreshTokens.tokens[1].familyId);
+  });
+
+  it('revokes one session of the user', async () => {
+    // Arrange
+    await login(CHROME_ON_WINDOWS);
+    await login(SAFARI_ON_IPHONE);
+    const [phone, laptop] = await findSessions();
+
+    // Act
+    const result = await revokeSession(phone.familyId);
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    expect(await findSessions()).toEqual([laptop]);
+    expect(phone.revokedByIp).toBe('10.0.0.1');
+    const audits = auditLogRepository.insert.mock.calls.map(([entry]) =>
+      entry.getProps(),
+    );
+    expect(audits).toContainEqual(
+      expect.objectContaining({
+        userId: user.id,
+        action: 'SESSION_REVOKED',
+        details: expect.objectContaining({ sessionId: phone.familyId }),
+      }),
+    );
+  });
+
+  it('does not revoke sessions of other users', async () => {
+    // Arrange
+    await login(CHROME_ON_WINDOWS);
+    const [session] = await findSessions();
+
+    // Act
+    const result = await revokeSession(session.familyId, 'user-456');
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(SessionNotFoundError);
+    expect(session.isActive).toBe(true);
+  });
+
+  it('ends the least recently used session when a login exceeds the cap', async () => {
+    // Arrange
+    await login(CHROME_ON_WINDOWS);
+    await login(SAFARI_ON_IPHONE);
+    const [, oldest] = await findSessions();
+
+    // Act
+    const result = await login(CHROME_ON_WINDOWS, '203.0.113.7');
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    const sessions = await findSessions();
+    expect(sessions).toHaveLength(2);
+    expect(sessions.map((token) => token.familyId)).not.toContain(
+      oldest.familyId,
+    );
+    expect(oldest.isRevoked).toBe(true);
+    const audits = auditLogRepository.insert.mock.calls.map(([entry]) =>
+      entry.getProps(),
+    );
+    expect(audits).toContainEqual(
+      expect.objectContaining({
+        action: 'SESSIONS_EVICTED',
+        details: { sessionIds: [oldest.familyId], maxSessions: 2 },
+      }),
+    );
+  });
+
+  it.each(['0', '-1', '1.5', 'unlimited'])(
+    'keeps the default cap when the configured one is %s',
+    async (maxSessions) => {
+      // Arrange
+      const logger = { log: jest.fn(), error: jest.fn(), warn: jest.fn() };
+      const service = new LoginService(
+        module.get(USER_DI_TOKENS.UserRepository),
+        module.get(AUTH_DI_TOKENS.JwtService),
+        module.get(AUTH_DI_TOKENS.PasswordService),
+        refreshTokens as unknown as RefreshTokenRepositoryPort,
+        auditLogRepository as unknown as AuthAuditLogRepositoryPort,
+        module.get(AUTH_DI_TOKENS.RoleRepository),
+        module.get(AUTH_DI_TOKENS.PermissionRepository),
+        logger as unknown as LoggerPort,
+        { get: () => maxSessions } as unknown as ConfigService,
+      );
+
+      // Act
+      for (let i = 0; i < AUTH_CONSTANTS.MAX_SESSIONS_PER_USER + 1; i++) {
+        await login(CHROME_ON_WINDOWS, '192.168.1.1', service);
+      }
+
+      // Assert
+      expect(await findSessions()).toHaveLength(
+        AUTH_CONSTANTS.MAX_SESSIONS_PER_USER,
+      );
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('AUTH_MAX_SESSIONS_PER_USER'),
+      );
+    },
+  );
+
+  describe('UserAgent', () => {
+    it.each([
+      [
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.91',
+        { browser: 'Edge 120', os: 'macOS', device: DeviceType.desktop },
+      ],
+      [
+        'Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0',
+        { browser: 'Firefox 121', os: 'Linux', device: DeviceType.desktop },
+      ],
+      [
+        'Mozilla/5.0 (Linux; Android 13; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        { browser: 'Chrome 120', os: 'Android', device: DeviceType.tablet },
+      ],
+      [
+        'curl/8.4.0',
+        { browser: 'curl 8', os: 'Unknown', device: DeviceType.unknown },
+      ],
+      [
+        undefined,
+        { browser: 'Unknown', os: 'Unknown', device: DeviceType.unknown },
+      ],
+    ])('parses %s', (header, expected) => {
+      // Act
+      const userAgent = UserAgent.parse(header);
+
+      // Assert
+      expect(userAgent.unpack()).toEqual(expected);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { CommandBus } from '@nestjs/cqrs';
+import { DatabasePool } from 'slonik';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import {
+  buildCausationTree,
+  CommandJournal,
+  JournalEntry,
+  JournalEntryKind,
+} from '@libs/db/journal';
+import {
+  Command,
+  CommandProps,
+  DomainEvent,
+  DomainEventProps,
+} from '@libs/ddd';
+
+class CreateThingCommand extends Command {
+  readonly name: string;
+
+  constructor(props: CommandProps<CreateThingCommand>) {
+    super(props);
+    this.name = props.name;
+  }
+}
+
+class ThingCreatedDomainEvent extends DomainEvent {
+  constructor(props: DomainEventProps<ThingCreatedDomainEvent>) {
+    super(props);
+  }
+}
+
+describe('Event journal', () => {
+  const entry = (
+    id: string,
+    causationId: string | null,
+    kind = JournalEntryKind.event,
+  ): JournalEntry => ({
+    id,
+    kind,
+    name: id,
+    correlationId: 'request-1',
+    causationId,
+    aggregateId: null,
+    userId: null,
+    occurredAt: new Date(),
+    createdAt: new Date(),
+  });
+
+  describe('buildCausationTree', () => {
+    it('nests entries under the command or event that caused them', () => {
+      // Act
+      const [root, ...others] = buildCausationTree([
+        entry('create-user', 'request-1', JournalEntryKind.command),
+        entry('user-created', 'create-user'),
+        entry('wallet-created', 'user-created'),
+        entry('verification-sent', 'user-created'),
+      ]);
+
+      // Assert
+      expect(others).toHaveLength(0);
+      expect(root.id).toBe('create-user');
+      const [userCreated] = root.children;
+      expect(userCreated.id).toBe('user-created');
+      expect(userCreated.children.map((node) => node.id)).toEqual([
+        'wallet-created',
+        'verification-sent',
+      ]);
+    });
+
+    it('returns entries with an unknown cause as roots', () => {
+      // Act
+      const roots = buildCausationTree([
+        entry('first', null),
+        entry('second', 'not-recorded'),
+      ]);
+
+      // Assert
+      expect(roots.map((node) => node.id)).toEqual(['first', 'second']);
+    });
+  });
+
+  describe('CommandJournal', () => {
+    let pool: { query: jest.Mock };
+    let handler: jest.Mock;
+    let commandBus: CommandBus;
+
+    beforeEach(() => {
+      pool = { query: jest.fn().mockResolvedValue({ rowCount: 1 }) };
+      handler = jest.fn(async (command: CreateThingCommand) => [
+        command,
+        new ThingCreatedDomainEvent({ aggregateId: 'thing-1' }),
+      ]);
+      commandBus = { execute: handler } as unknown as CommandBus;
+
+      new CommandJournal(
+        commandBus,
+        pool as unknown as DatabasePool,
+      ).onModuleInit();
+    });
+
+    it('makes the command the cause of events raised by its handler', async () => {
+      // Act
+      const [command, event] = await RequestContextService.runInContext(
+        { requestId: 'request-1', causationId: 'event-0', userId: 'user-1' },
+        () => commandBus.execute(new CreateThingCommand({ name: 'thing' })),
+      );
+
+      // Assert
+      expect(command.metadata).toMatchObject({
+        correlationId: 'request-1',
+        causationId: 'event-0',
+        userId: 'user-1',
+      });
+      expect(event.metadata).toMatchObject({
+        correlationId: 'request-1',
+        causationId: command.id,
+        userId: 'user-1',
+      });
+    });
+
+    it('records the command before executing it', async () => {
+      // Act
+      const [command] = await RequestContextService.runInContext(
+        { requestId: 'request-1' },
+        () => commandBus.execute(new CreateThingCommand({ name: 'thing' })),
+      );
+
+      // Assert
+      const [[query]] = pool.query.mock.calls;
+      expect(query.sql).toMatch(/INSERT INTO "event_journal"/);
+      expect(query.values).toEqual(
+        expect.arrayContaining([
+          command.id,
+          JournalEntryKind.command,
+          'CreateThingCommand',
+        ]),
+      );
+    });
+
+    it('executes the command when the journal is not available', async () => {
+      // Arrange
+      pool.query.mockRejectedValue(new Error('connection refused'));
+
+      // Act
+      const result = await RequestContextService.runInContext({}, () =>
+        commandBus.execute(new CreateThingCommand({ name: 'thing' })),
+      );
+
+      // Assert
+      expect(result).toHaveLength(2);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { CallHandler } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { lastValueFrom, Observable, of, throwError } from 'rxjs';
+import { None, Option, Some } from 'oxide.ts';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import {
+  DEFAULT_IDEMPOTENCY_OPTIONS,
+  IdempotencyInterceptor,
+  IdempotencyKeyRecord,
+  IdempotencyKeyReservation,
+  IdempotencyKeyStatus,
+  IdempotencyKeyStore,
+  Idempotent,
+} from '@libs/db/idempotency';
+import {
+  IdempotencyKeyInUseException,
+  IdempotencyKeyReusedException,
+} from '@libs/exceptions';
+
+/** Keeps idempotency keys in memory, with the semantics of IdempotencyKeyStore */
+class InMemoryIdempotencyKeyStore {
+  records = new Map<string, IdempotencyKeyRecord>();
+
+  async reserve(reservation: IdempotencyKeyReservation): Promise<boolean> {
+    const id = `${reservation.scope}:${reservation.key}`;
+    const existing = this.records.get(id);
+    if (existing && existing.expiresAt.getTime() > Date.now()) {
+      return false;
+    }
+    this.records.set(id, {
+      ...reservation,
+      status: IdempotencyKeyStatus.processing,
+      response: null,
+      createdAt: new Date(),
+      completedAt: null,
+    });
+    return true;
+  }
+
+  async find(
+    scope: string,
+    key: string,
+  ): Promise<Option<IdempotencyKeyRecord>> {
+    const found = this.records.get(`${scope}:${key}`);
+    return found ? Some(found) : None;
+  }
+
+  async complete(
+    scope: string,
+    key: string,
+    response: unknown,
+    expiresAt: Date,
+  ): Promise<void> {
+    const record = this.records.get(`${scope}:${key}`) as IdempotencyKeyRecord;
+    Object.assign(record, {
+      status: IdempotencyKeyStatus.completed,
+      response: JSON.parse(JSON.stringify(response)),
+      completedAt: new Date(),
+      expiresAt,
+    });
+  }
+
+  async release(scope: string, key: string): Promise<void> {
+    this.records.delete(`${scope}:${key}`);
+  }
+}
+
+class UserController {
+  @Idempotent('user.create')
+  create(): void {
+    return;
+  }
+}
+
+describe('IdempotencyInterceptor', () => {
+  let store: InMemoryIdempotencyKeyStore;
+  let interceptor: IdempotencyInterceptor;
+  let handle: jest.Mock<Observable<unknown>, []>;
+  let response: { setHeader: jest.Mock };
+
+  const httpContext = (
+    body: Record<string, unknown>,
+    headers: Record<string, string> = {},
+  ): ExecutionContextHost => {
+    const context = new ExecutionContextHost(
+      [{ body, headers }, response],
+      UserController,
+      UserController.prototype.create,
+    );
+    context.setType('http');
+    return context;
+  };
+
+  const rpcContext = (data: Record<string, unknown>): ExecutionContextHost => {
+    const context = new ExecutionContextHost(
+      [data],
+      UserController,
+      UserController.prototype.create,
+    );
+    context.setType('rpc');
+    return context;
+  };
+
+  const intercept = (
+    context: ExecutionContextHost,
+    userId = 'user-1',
+  ): Promise<unknown> =>
+    RequestContextService.runInContext({ userId }, async () =>
+      lastValueFrom(
+        await interceptor.intercept(context, { handle } as CallHandler),
+      ),
+    );
+
+  const body = { email: 'john@example.com', country: 'England' };
+
+  beforeEach(() => {
+    store = new InMemoryIdempotencyKeyStore();
+    response = { setHeader: jest.fn() };
+    handle = jest.fn(() => of({ id: 'user-1' }));
+    interceptor = new IdempotencyInterceptor(
+      store as unknown as IdempotencyKeyStore,
+      new Reflector(),
+      DEFAULT_IDEMPOTENCY_OPTIONS,
+    );
+  });
+
+  it('replays the response of a request sent again with the same key', async () => {
+    // Arrange
+    const first = await intercept(
+      httpContext(body, { 'idempotency-key': 'k1' }),
+    );
+
+    // Act
+    const reordered = { country: body.country, email: body.email };
+    const second = await intercept(
+      httpContext(reordered, { 'idempotency-key': 'k1' }),
+    );
+
+    // Assert
+    expect(handle).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+    expect(response.setHeader).toHaveBeenCalledWith(
+      'Idempotent-Replayed',
+      'true',
+    );
+    expect(store.records.get('user.create:k1')).toMatchObject({
+      status: IdempotencyKeyStatus.completed,
+      response: { id: 'user-1' },
+    });
+  });
+
+  it('rejects a key reused with a different payload', async () => {
+    // Arrange
+    await intercept(httpContext(body, { 'idempotency-key': 'k1' }));
+
+    // Act
+    const reused = intercept(
+      httpContext({ ...body, country: 'France' }, { 'idempotency-key': 'k1' }),
+    );
+
+    // Assert
+    await expect(reused).rejects.toBeInstanceOf(IdempotencyKeyReusedException);
+    expect(handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a key reused by another user', async () => {
+    // Arrange
+    await intercept(httpContext(body, { 'idempotency-key': 'k1' }));
+
+    // Act
+    const reused = intercept(
+      httpContext(body, { 'idempotency-key': 'k1' }),
+      'user-2',
+    );
+
+    // Assert
+    await expect(reused).rejects.toBeInstanceOf(IdempotencyKeyReusedException);
+  });
+
+  it('rejects a request sent again while the first one is processed', async () => {
+    // Arrange
+    let complete: (value: unknown) => void = () => undefined;
+    handle.mockReturnValueOnce(
+      new Observable((subscriber) => {
+        complete = (value) => {
+          subscriber.next(value);
+          subscriber.complete();
+        };
+      }),
+    );
+    const first = intercept(httpContext(body, { 'idempotency-key': 'k1' }));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // Act
+    const second = intercept(httpContext(body, { 'idempotency-key': 'k1' }));
+
+    // Assert
+    await expect(second).rejects.toBeInstanceOf(IdempotencyKeyInUseException);
+    complete({ id: 'user-1' });
+    await expect(first).resolves.toEqual({ id: 'user-1' });
+  });
+
+  it('frees the key of a failed request so it can be retried', async () => {
+    // Arrange
+    handle.mockReturnValueOnce(throwError(() => new Error('Database is down')));
+    const failed = intercept(httpContext(body, { 'idempotency-key': 'k1' }));
+    await expect(failed).rejects.toThrow('Database is down');
+
+    // Act
+    const retried = await intercept(
+      httpContext(body, { 'idempotency-key': 'k1' }),
+    );
+
+    // Assert
+    expect(retried).toEqual({ id: 'user-1' });
+    expect(handle).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses the idempotency key of messages', async () => {
+    // Arrange
+    await intercept(
+      rpcContext({ ...body, idempotencyKey: 'k1', requestId: 'request-1' }),
+    );
+
+    // Act
+    const redelivered = await intercept(
+      rpcContext({ ...body, idempotencyKey: 'k1', requestId: 'request-2' }),
+    );
+
+    // Assert
+    expect(redelivered).toEqual({ id: 'user-1' });
+    expect(handle).toHaveBeenCalledTimes(1);
+    expect(store.records.has('user.create:k1')).toBe(true);
+  });
+
+  it('executes every request sent without a key', async () => {
+    // Act
+    await intercept(httpContext(body));
+    await intercept(httpContext(body));
+
+    // Assert
+    expect(handle).toHaveBeenCalledTimes(2);
+    expect(store.records.size).toBe(0);
+  });
+});
@@ -0,0 +1,98 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabasePool, NotFoundError } from 'slonik';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { ConcurrencyConflictException } from '@libs/exceptions';
+import { WalletRepository } from '@modules/wallet/database/wallet.repository';
+import { Money } from '@modules/wallet/domain/value-objects/money.value-object';
+import { WalletEntity } from '@modules/wallet/domain/wallet.entity';
+import { WalletMapper } from '@modules/wallet/wallet.mapper';
+
+describe('Optimistic concurrency control', () => {
+  let repository: WalletRepository;
+  let connection: { query: jest.Mock; transaction: jest.Mock };
+  let updatedRows: number;
+  let walletExists: boolean;
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  const loadWallet = (version: number): WalletEntity =>
+    new WalletEntity({
+      id: 'wallet-1',
+      version,
+      props: { userId: 'user-1', balance: Money.create(100, 'USD') },
+    });
+
+  const updateStatement = (): { sql: string; values: unknown[] } =>
+    connection.query.mock.calls
+      .map(([query]) => query)
+      .find((query) => query.sql.trim().startsWith('UPDATE'));
+
+  beforeEach(() => {
+    updatedRows = 1;
+    walletExists = true;
+    connection = {
+      query: jest.fn(async (query: { sql: string }) => {
+        const statement = query.sql.trim();
+        if (statement.startsWith('UPDATE')) {
+          return { rowCount: updatedRows, rows: [] };
+        }
+        if (statement.startsWith('SELECT 1')) {
+          return { rowCount: 0, rows: walletExists ? [{ '?column?': 1 }] : [] };
+        }
+        return { rowCount: 0, rows: [] };
+      }),
+      transaction: jest.fn((handler) => handler(connection)),
+    };
+
+    repository = new WalletRepository(
+      connection as unknown as DatabasePool,
+      new WalletMapper(),
+      new EventEmitter2(),
+    );
+  });
+
+  it('updates only the loaded version and increments it', async () => {
+    // Arrange
+    const wallet = loadWallet(3);
+
+    // Act
+    await inContext(() => repository.update(wallet));
+
+    // Assert
+    const { sql, values } = updateStatement();
+    expect(sql).toMatch(/"version" = "version" \+ 1/);
+    expect(sql).toMatch(/AND "version" = \$slonik_\d+/);
+    expect(values).toContain(3);
+    expect(values).not.toContain(4);
+    expect(wallet.version).toBe(4);
+  });
+
+  it('throws ConcurrencyConflictException when the version has changed', async () => {
+    // Arrange
+    const wallet = loadWallet(3);
+    updatedRows = 0;
+
+    // Act
+    const update = inContext(() => repository.update(wallet));
+
+    // Assert
+    await expect(update).rejects.toBeInstanceOf(ConcurrencyConflictException);
+    await expect(update).rejects.toMatchObject({
+      code: 'GENERIC.CONCURRENCY_CONFLICT',
+    });
+    expect(wallet.version).toBe(3);
+  });
+
+  it('throws NotFoundError when the entity does not exist anymore', async () => {
+    // Arrange
+    updatedRows = 0;
+    walletExists = false;
+
+    // Act
+    const update = inContext(() => repository.update(loadWallet(1)));
+
+    // Assert
+    await expect(update).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,152 @@
+import { EventEmitter2, EventEmitterModule } from '@nestjs/event-emitter';
+import { Test } from '@nestjs/testing';
+import { DatabasePool } from 'slonik';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { OutboxRelay } from '@libs/db/outbox/outbox.relay';
+import { OutboxMessage, OutboxStatus } from '@libs/db/outbox/outbox.types';
+import { UserDeletedDomainEvent } from '@modules/user/domain/events/user-deleted.domain-event';
+import { CloseWalletWhenUserIsDeletedDomainEventHandler } from '@modules/wallet/application/event-handlers/close-wallet-when-user-is-deleted.domain-event-handler';
+import { WALLET_REPOSITORY } from '@modules/wallet/wallet.di-tokens';
+
+describe('OutboxRelay', () => {
+  let relay: OutboxRelay;
+  let eventEmitter: { emitAsync: jest.Mock };
+  let connection: { query: jest.Mock; transaction: jest.Mock };
+  let savepoint: { query: jest.Mock };
+
+  const message: OutboxMessage = {
+    id: 'message-1',
+    eventName: 'UserCreatedDomainEvent',
+    aggregateId: 'user-1',
+    aggregateType: 'UserEntity',
+    payload: { aggregateId: 'user-1', email: 'john@example.com' },
+    correlationId: 'correlation-1',
+    status: OutboxStatus.pending,
+    attempts: 0,
+    lastError: null,
+    availableAt: new Date(),
+    deliveredAt: null,
+    createdAt: new Date(),
+  };
+
+  const updateStatements = (mock: jest.Mock): any[] =>
+    mock.mock.calls
+      .map(([query]) => query)
+      .filter((query) => query.sql.trim().startsWith('UPDATE'));
+
+  beforeEach(() => {
+    savepoint = { query: jest.fn().mockResolvedValue({ rowCount: 1 }) };
+    connection = {
+      query: jest.fn(),
+      transaction: jest.fn((handler) => handler(savepoint)),
+    };
+    connection.query.mockResolvedValueOnce({ rows: [message] });
+    connection.query.mockResolvedValue({ rowCount: 1 });
+
+    const pool = {
+      transaction: jest.fn((handler) => handler(connection)),
+    } as unknown as DatabasePool;
+
+    eventEmitter = { emitAsync: jest.fn().mockResolvedValue([]) };
+
+    relay = new OutboxRelay(pool, eventEmitter as unknown as EventEmitter2, {
+      maxAttempts: 3,
+      baseBackoffMs: 1000,
+    });
+  });
+
+  it('dispatches pending messages and marks them as delivered', async () => {
+    // Arrange
+    let contextRequestId: string | undefined;
+    eventEmitter.emitAsync.mockImplementation(async () => {
+      contextRequestId = RequestContextService.getRequestId();
+      return [];
+    });
+
+    // Act
+    const delivered = await relay.relayPending();
+
+    // Assert
+    expect(delivered).toBe(1);
+    expect(eventEmitter.emitAsync).toHaveBeenCalledWith(
+      message.eventName,
+      message.payload,
+    );
+    expect(contextRequestId).toBe(message.correlationId);
+    const [markDelivered] = updateStatements(savepoint.query);
+    expect(markDelivered.values).toEqual([OutboxStatus.delivered, message.id]);
+  });
+
+  it('reschedules a message with backoff when a handler fails', async () => {
+    // Arrange
+    eventEmitter.emitAsync.mockRejectedValue(new Error('handler failed'));
+
+    // Act
+    const delivered = await relay.relayPending();
+
+    // Assert
+    expect(delivered).toBe(0);
+    expect(updateStatements(savepoint.query)).toHaveLength(0);
+    const [markFailed] = updateStatements(connection.query);
+    const [status, attempts, lastError] = markFailed.values;
+    expect(status).toBe(OutboxStatus.pending);
+    expect(attempts).toBe(1);
+    expect(lastError).toBe('handler failed');
+    expect(markFailed.sql).toContain('"availableAt"');
+  });
+
+  it('marks a message as failed once max attempts are exhausted', async () => {
+    // Arrange
+    connection.query.mockReset();
+    connection.query.mockResolvedValueOnce({
+      rows: [{ ...message, attempts: 2 }],
+    });
+    connection.query.mockResolvedValue({ rowCount: 1 });
+    eventEmitter.emitAsync.mockRejectedValue(new Error('handler failed'));
+
+    // Act
+    await relay.relayPending();
+
+    // Assert
+    const [markFailed] = updateStatements(connection.query);
+    expect(markFailed.values[0]).toBe(OutboxStatus.failed);
+    expect(markFailed.values[1]).toBe(3);
+  });
+
+  it('sees the errors of handlers registered with @OnEvent', async () => {
+    // Arrange
+    const module = await Test.createTestingModule({
+      imports: [EventEmitterModule.forRoot()],
+      providers: [
+        CloseWalletWhenUserIsDeletedDomainEventHandler,
+        {
+          provide: WALLET_REPOSITORY,
+          useValue: {
+            findByUserId: jest.fn().mockRejectedValue(new Error('timeout')),
+          },
+        },
+      ],
+    }).compile();
+    await module.init();
+    connection.query.mockReset();
+    connection.query.mockResolvedValueOnce({
+      rows: [{ ...message, eventName: UserDeletedDomainEvent.name }],
+    });
+    connection.query.mockResolvedValue({ rowCount: 1 });
+    relay = new OutboxRelay(
+      { transaction: jest.fn((handler) => handler(connection)) } as any,
+      module.get(EventEmitter2),
+      { maxAttempts: 3 },
+    );
+
+    // Act
+    const delivered = await relay.relayPending();
+
+    // Assert
+    expect(delivered).toBe(0);
+    const [markFailed] = updateStatements(connection.query);
+    expect(markFailed.values[0]).toBe(OutboxStatus.pending);
+    expect(markFailed.values[2]).toBe('timeout');
+    await module.close();
+  });
+});
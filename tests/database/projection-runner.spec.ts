@@ -0,0 +1,170 @@
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DatabasePool, DatabaseTransactionConnection } from 'slonik';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import {
+  ProjectionHandler,
+  ProjectionRunner,
+  Projector,
+} from '@libs/db/projections';
+import { OutboxStatus } from '@libs/db/outbox/outbox.types';
+import { ArgumentInvalidException } from '@libs/exceptions';
+
+class CountryProjector extends Projector {
+  readonly name = 'countries';
+
+  protected readonly tables = ['countries_projection'];
+
+  projected: string[] = [];
+
+  @ProjectionHandler('UserCreatedDomainEvent')
+  async onUserCreated(
+    event: { aggregateId: string },
+    connection: DatabaseTransactionConnection,
+  ): Promise<void> {
+    await connection.query({
+      sql: 'INSERT INTO "countries_projection"',
+    } as any);
+    this.projected.push(event.aggregateId);
+  }
+}
+
+describe('ProjectionRunner', () => {
+  let runner: ProjectionRunner;
+  let projector: CountryProjector;
+  let eventEmitter: EventEmitter2;
+  let connection: { query: jest.Mock };
+  let pool: { transaction: jest.Mock; query: jest.Mock };
+
+  const statements = (): string[] =>
+    connection.query.mock.calls.map(([query]) =>
+      query.sql.trim().split(/\s+/).slice(0, 3).join(' '),
+    );
+
+  const message = (id: string, createdAt: Date): Record<string, unknown> => ({
+    id,
+    eventName: 'UserCreatedDomainEvent',
+    aggregateId: id,
+    aggregateType: 'UserEntity',
+    payload: { id, aggregateId: id },
+    correlationId: null,
+    status: OutboxStatus.delivered,
+    attempts: 1,
+    lastError: null,
+    availableAt: createdAt,
+    deliveredAt: createdAt,
+    createdAt,
+  });
+
+  beforeEach(() => {
+    connection = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+    pool = {
+      transaction: jest.fn((handler) => handler(connection)),
+      query: jest.fn(),
+    };
+    projector = new CountryProjector();
+    eventEmitter = new EventEmitter2();
+
+    const discovery = {
+      getProviders: () => [{ instance: projector }, { instance: {} }],
+    } as unknown as DiscoveryService;
+
+    runner = new ProjectionRunner(
+      pool as unknown as DatabasePool,
+      eventEmitter,
+      discovery,
+      new MetadataScanner(),
+      new Reflector(),
+    );
+    runner.onModuleInit();
+  });
+
+  it('projects delivered events with the transaction of the relay', async () => {
+    // Act
+    await RequestContextService.runInContext(
+      {
+        transactionConnection:
+          connection as unknown as DatabaseTransactionConnection,
+      },
+      () =>
+        eventEmitter.emitAsync('UserCreatedDomainEvent', {
+          id: 'event-1',
+          aggregateId: 'user-1',
+        }),
+    );
+
+    // Assert
+    expect(runner.projectionNames).toEqual(['countries']);
+    expect(projector.projected).toEqual(['user-1']);
+    expect(pool.transaction).not.toHaveBeenCalled();
+    expect(statements()).toEqual([
+      'INSERT INTO "projection_checkpoints"',
+      'INSERT INTO "countries_projection"',
+      'UPDATE "projection_checkpoints" SET',
+    ]);
+    const [advance] = connection.query.mock.calls[2];
+    expect(advance.values).toEqual([
+      'event-1',
+      'UserCreatedDomainEvent',
+      'countries',
+    ]);
+  });
+
+  it('projects events in a transaction of its own outside of the relay', async () => {
+    // Act
+    await eventEmitter.emitAsync('UserCreatedDomainEvent', {
+      id: 'event-1',
+      aggregateId: 'user-1',
+    });
+
+    // Assert
+    expect(pool.transaction).toHaveBeenCalledTimes(1);
+    expect(projector.projected).toEqual(['user-1']);
+  });
+
+  it('rebuilds a projection from the delivered events', async () => {
+    // Arrange
+    const createdAt = new Date('2026-10-18T10:00:00Z');
+    connection.query.mockImplementation(async (query) =>
+      query.sql.includes('FROM "outbox"')
+        ? {
+            rows: [message('user-1', createdAt), message('user-2', createdAt)],
+          }
+        : { rows: [] },
+    );
+
+    // Act
+    const processed = await runner.rebuild('countries');
+
+    // Assert
+    expect(processed).toBe(2);
+    expect(projector.projected).toEqual(['user-1', 'user-2']);
+    expect(statements().slice(0, 3)).toEqual([
+      'INSERT INTO "projection_checkpoints"',
+      'TRUNCATE "countries_projection"',
+      'SELECT * FROM',
+    ]);
+    const [select] = connection.query.mock.calls[2];
+    expect(select.values).toEqual([
+      OutboxStatus.delivered,
+      ['UserCreatedDomainEvent'],
+      500,
+    ]);
+    const [checkpoint] = connection.query.mock.calls.slice(-1)[0];
+    expect(checkpoint.values).toEqual([
+      'user-2',
+      'UserCreatedDomainEvent',
+      2,
+      'countries',
+    ]);
+  });
+
+  it('rejects unknown projections', async () => {
+    // Act
+    const rebuild = runner.rebuild('unknown');
+
+    // Assert
+    await expect(rebuild).rejects.toBeInstanceOf(ArgumentInvalidException);
+    expect(pool.transaction).not.toHaveBeenCalled();
+  });
+});
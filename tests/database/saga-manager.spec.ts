@@ -0,0 +1,259 @@
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { CommandBus } from '@nestjs/cqrs';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Err, Ok } from 'oxide.ts';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import {
+  Saga,
+  SagaManager,
+  SagaManagerOptions,
+  SagaStart,
+  SagaStartOptions,
+  SagaStatus,
+  SagaStep,
+} from '@libs/db/sagas';
+import { InMemorySagaStore } from '../test-utils/mocks/in-memory-saga-store.mock';
+
+class ReserveCommand {
+  constructor(readonly orderId: string) {}
+}
+
+class CancelReservationCommand {
+  constructor(readonly reservationId: string) {}
+}
+
+class ChargeCommand {
+  constructor(readonly reservationId: string) {}
+}
+
+interface OrderState {
+  orderId: string;
+  reservationId?: string;
+}
+
+class OrderSaga extends Saga<OrderState> {
+  readonly name = 'order';
+
+  readonly steps: SagaStep<OrderState>[] = [
+    {
+      name: 'reserve',
+      invoke: (state) => new ReserveCommand(state.orderId),
+      onCompleted: (state, reservationId: string) => ({
+        ...state,
+        reservationId,
+      }),
+      compensate: (state) =>
+        new CancelReservationCommand(state.reservationId as string),
+    },
+    {
+      name: 'charge',
+      invoke: (state) => new ChargeCommand(state.reservationId as string),
+    },
+  ];
+
+  @SagaStart('OrderPlacedDomainEvent')
+  start(event: { aggregateId: string }): SagaStartOptions<OrderState> {
+    return { key: event.aggregateId, state: { orderId: event.aggregateId } };
+  }
+}
+
+describe('SagaManager', () => {
+  let store: InMemorySagaStore;
+  let saga: OrderSaga;
+  let eventEmitter: EventEmitter2;
+  let handlers: Record<string, jest.Mock>;
+  let commandBus: { execute: jest.Mock };
+  let manager: SagaManager;
+
+  const createManager = (options: Partial<SagaManagerOptions> = {}): void => {
+    const discovery = {
+      getProviders: () => [{ instance: saga }, { instance: {} }],
+    } as unknown as DiscoveryService;
+
+    manager = new SagaManager(
+      store.asStore(),
+      commandBus as unknown as CommandBus,
+      eventEmitter,
+      discovery,
+      new MetadataScanner(),
+      new Reflector(),
+      { baseRetryDelayMs: 10, ...options },
+    );
+    manager.onModuleInit();
+  };
+
+  const executed = (): string[] =>
+    commandBus.execute.mock.calls.map(([command]) => command.constructor.name);
+
+  const start = () =>
+    RequestContextService.runInContext({ requestId: 'request-1' }, () =>
+      manager.start(saga, { key: 'order-1', state: { orderId: 'order-1' } }),
+    );
+
+  /** Makes the stored saga due now, as if its retry delay had passed */
+  const makeDue = (changes: { deadlineAt?: Date } = {}): void => {
+    for (const instance of store.instances.values()) {
+      Object.assign(instance, { nextAttemptAt: new Date(0), ...changes });
+    }
+  };
+
+  beforeEach(() => {
+    store = new InMemorySagaStore();
+    saga = new OrderSaga();
+    eventEmitter = new EventEmitter2();
+    handlers = {
+      ReserveCommand: jest.fn(async () => Ok('reservation-1')),
+      CancelReservationCommand: jest.fn(async () => Ok(undefined)),
+      ChargeCommand: jest.fn(async () => Ok('charge-1')),
+    };
+    commandBus = {
+      execute: jest.fn((command) =>
+        handlers[command.constructor.name](command),
+      ),
+    };
+    createManager();
+  });
+
+  it('starts a saga from an event and runs its steps', async () => {
+    // Act
+    await RequestContextService.runInContext({ requestId: 'request-1' }, () =>
+      eventEmitter.emitAsync('OrderPlacedDomainEvent', {
+        aggregateId: 'order-1',
+      }),
+    );
+
+    // Assert
+    expect(executed()).toEqual(['ReserveCommand', 'ChargeCommand']);
+    expect(handlers.ChargeCommand).toHaveBeenCalledWith(
+      new ChargeCommand('reservation-1'),
+    );
+    const [instance] = store.instances.values();
+    expect(instance).toMatchObject({
+      type: 'order',
+      key: 'order-1',
+      status: SagaStatus.completed,
+      step: 2,
+      correlationId: 'request-1',
+      state: { orderId: 'order-1', reservationId: 'reservation-1' },
+      nextAttemptAt: null,
+    });
+  });
+
+  it('starts a saga only once per key', async () => {
+    // Arrange
+    const first = await start();
+
+    // Act
+    const second = await start();
+
+    // Assert
+    expect(second.instance.id).toBe(first.instance.id);
+    expect(store.instances.size).toBe(1);
+    expect(executed()).toEqual(['ReserveCommand', 'ChargeCommand']);
+  });
+
+  it('compensates completed steps when a step returns an error', async () => {
+    // Arrange
+    const declined = new Error('Card declined');
+    handlers.ChargeCommand.mockResolvedValue(Err(declined));
+
+    // Act
+    const { instance, error } = await start();
+
+    // Assert
+    expect(error).toBe(declined);
+    expect(executed()).toEqual([
+      'ReserveCommand',
+      'ChargeCommand',
+      'CancelReservationCommand',
+    ]);
+    expect(handlers.CancelReservationCommand).toHaveBeenCalledWith(
+      new CancelReservationCommand('reservation-1'),
+    );
+    expect(instance).toMatchObject({
+      status: SagaStatus.compensated,
+      step: -1,
+      lastError: 'Step charge failed: Card declined',
+    });
+  });
+
+  it('retries a step that throws once the saga is resumed', async () => {
+    // Arrange
+    handlers.ChargeCommand.mockRejectedValueOnce(new Error('Connection lost'));
+    const { instance } = await start();
+
+    // Act
+    const resumedBeforeDelay = await manager.resumeDue();
+    makeDue();
+    const resumed = await manager.resumeDue();
+
+    // Assert
+    expect(instance).toMatchObject({
+      status: SagaStatus.running,
+      step: 1,
+      attempts: 1,
+      lastError: 'Step charge failed: Connection lost',
+    });
+    expect(instance.nextAttemptAt?.getTime()).toBeGreaterThan(Date.now());
+    expect(resumedBeforeDelay).toBe(0);
+    expect(resumed).toBe(1);
+    expect(store.instances.get(instance.id)).toMatchObject({
+      status: SagaStatus.completed,
+      attempts: 0,
+    });
+    expect(executed()).toEqual([
+      'ReserveCommand',
+      'ChargeCommand',
+      'ChargeCommand',
+    ]);
+  });
+
+  it('compensates when a step does not complete before its deadline', async () => {
+    // Arrange
+    handlers.ChargeCommand.mockRejectedValue(new Error('Connection lost'));
+    const { instance } = await start();
+    makeDue({ deadlineAt: new Date(Date.now() - 1) });
+
+    // Act
+    await manager.resumeDue();
+
+    // Assert
+    expect(store.instances.get(instance.id)).toMatchObject({
+      status: SagaStatus.compensated,
+      lastError: 'Step charge timed out after 1 attempts',
+    });
+    expect(executed()).toEqual([
+      'ReserveCommand',
+      'ChargeCommand',
+      'CancelReservationCommand',
+    ]);
+  });
+
+  it('marks a saga as failed when its compensation keeps failing', async () => {
+    // Arrange
+    createManager({ maxCompensationAttempts: 2 });
+    handlers.ChargeCommand.mockResolvedValue(Err(new Error('Card declined')));
+    handlers.CancelReservationCommand.mockRejectedValue(
+      new Error('Connection lost'),
+    );
+    const { instance } = await start();
+
+    // Act
+    makeDue();
+    await manager.resumeDue();
+
+    // Assert
+    expect(instance).toMatchObject({
+      status: SagaStatus.compensating,
+      attempts: 1,
+    });
+    expect(store.instances.get(instance.id)).toMatchObject({
+      status: SagaStatus.failed,
+      step: 0,
+      attempts: 2,
+      nextAttemptAt: null,
+      lastError: 'Compensation of step reserve failed: Connection lost',
+    });
+    expect(await manager.resumeDue()).toBe(0);
+  });
+});
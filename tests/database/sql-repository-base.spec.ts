@@ -1,9 +1,10 @@
+import { randomUUID } from 'crypto';
 import { Test, TestingModule } from '@nestjs/testing';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { DatabasePool, sql, createPool } from 'slonik';
 import { z } from 'zod';
 import { SqlRepositoryBase } from '@src/libs/db/sql-repository.base';
-import { AggregateRoot } from '@libs/ddd';
+import { AggregateRoot, DomainEvent, DomainEventProps } from '@libs/ddd';
 import { Mapper } from '@libs/ddd';
 import { Logger } from '@nestjs/common';
 // import { RequestContextService } from '@libs/application/context/AppRequestContext';
@@ -42,6 +43,15 @@ class TestAggregate extends AggregateRoot<{ name: string; email: string }> {
   }
 }
 
+class TestEntityCreatedDomainEvent extends DomainEvent {
+  readonly name: string;
+
+  constructor(props: DomainEventProps<TestEntityCreatedDomainEvent>) {
+    super(props);
+    this.name = props.name;
+  }
+}
+
 // Test model schema
 const testSchema = z.object({
   id: z.string().uuid(),
@@ -442,27 +452,58 @@ describe('SqlRepositoryBase', () => {
   });
 
   describe('Event Publishing', () => {
-    it('should publish domain events after successful operations', async () => {
-      const eventSpy = jest.spyOn(eventEmitter, 'emit');
-
-      const entity = TestAggregate.create({
-        name: 'Event Test',
-        email: 'event@example.com',
+    it('should record domain events in the outbox within the write transaction', async () => {
+      const entity = TestAggregate.create(
+        {
+          name: 'Event Test',
+          email: 'event@example.com',
+        },
+        randomUUID(),
+      );
+      const event = new TestEntityCreatedDomainEvent({
+        aggregateId: entity.id,
+        name: entity.getProps().name,
+        metadata: { correlationId: 'test-correlation', timestamp: Date.now() },
       });
+      (entity as any).addEvent(event);
+
+      await repository.insert(entity);
 
-      // Add a domain event to test - using addEvent instead of addDomainEvent
-      (entity as any).addEvent({
+      const outboxRow = await pool.maybeOne(
+        sql.unsafe`SELECT * FROM "outbox" WHERE "id" = ${event.id}`,
+      );
+      expect(outboxRow).toMatchObject({
+        eventName: TestEntityCreatedDomainEvent.name,
         aggregateId: entity.id,
-        eventType: 'TestEntityCreated',
-        payload: { name: entity.getProps().name },
-      } as any);
+        aggregateType: TestAggregate.name,
+        correlationId: 'test-correlation',
+        status: 'pending',
+      });
+      expect(entity.domainEvents).toHaveLength(0);
+    });
 
-      await repository.insert(entity);
+    it('should not record domain events when the write fails', async () => {
+      const id = randomUUID();
+      await repository.insert(
+        TestAggregate.create({ name: 'First', email: 'first@example.com' }, id),
+      );
+      const duplicate = TestAggregate.create(
+        { name: 'Duplicate', email: 'duplicate@example.com' },
+        id,
+      );
+      const event = new TestEntityCreatedDomainEvent({
+        aggregateId: id,
+        name: 'Duplicate',
+        metadata: { correlationId: 'test-correlation', timestamp: Date.now() },
+      });
+      (duplicate as any).addEvent(event);
 
-      // Should have published the domain event
-      expect(eventSpy).toHaveBeenCalled();
+      await expect(repository.insert(duplicate)).rejects.toThrow();
 
-      eventSpy.mockRestore();
+      const outboxRow = await pool.maybeOne(
+        sql.unsafe`SELECT * FROM "outbox" WHERE "id" = ${event.id}`,
+      );
+      expect(outboxRow).toBeNull();
     });
   });
 });
@@ -0,0 +1,185 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { createPool, DatabasePool, sql } from 'slonik';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { ArgumentInvalidException } from '@libs/exceptions';
+import { UserRepository } from '@modules/user/database/user.repository';
+import {
+  EligibleForRoleUpgradeSpecification,
+  UserAccountCanBeDeletedSpecification,
+  UserCanChangeRoleSpecification,
+  UserCanModerateSpecification,
+  UserCanResetPasswordSpecification,
+  UserEmailVerificationValidSpecification,
+  UserHasRoleSpecification,
+  UserHasSecurePasswordSpecification,
+  UserIsActiveSpecification,
+  UserIsEmailVerifiedSpecification,
+  UserIsNotLockedSpecification,
+  UserLastLoginRecentSpecification,
+  UserLoginAttemptsWithinLimitSpecification,
+  UserSpecification,
+  ValidUserForLoginSpecification,
+} from '@modules/user/domain/specifications/user.specifications';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import { UserProps, UserRoles } from '@modules/user/domain/user.types';
+import { Address } from '@modules/user/domain/value-objects/address.value-object';
+import { UserMapper } from '@modules/user/user.mapper';
+import { buildTestConnectionUri } from '../utils/database-test.utils';
+
+/**
+ * Every specification is evaluated twice on the same users: in memory
+ * with isSatisfiedBy() and by Postgres through findBySpecification().
+ * Requires a migrated test database (npm run migration:up:tests).
+ */
+describe('User specifications in SQL', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const hours = (count: number): Date =>
+    new Date(Date.now() + count * 60 * 60 * 1000);
+
+  let pool: DatabasePool;
+  let repository: UserRepository;
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  const user = (props: Partial<UserProps>): UserEntity =>
+    new UserEntity({
+      id: randomUUID(),
+      props: {
+        role: UserRoles.guest,
+        email: `${randomUUID()}@specification.test`,
+        address: new Address({
+          country: 'England',
+          postalCode: '28566',
+          street: 'Grand Avenue',
+        }),
+        password: 'password-hash',
+        isActive: true,
+        isEmailVerified: false,
+        loginAttempts: 0,
+        ...props,
+      },
+    });
+
+  const admin = user({ role: UserRoles.admin, isEmailVerified: true });
+  const moderator = user({
+    role: UserRoles.moderator,
+    isEmailVerified: true,
+    lastLoginAt: new Date(Date.now() - 10 * DAY),
+  });
+  const users: UserEntity[] = [
+    admin,
+    moderator,
+    user({}),
+    user({ isActive: false, isEmailVerified: true }),
+    user({ isEmailVerified: true, lastLoginAt: new Date(Date.now() - DAY) }),
+    user({ lastLoginAt: new Date(Date.now() - 60 * DAY) }),
+    user({ lockedUntil: hours(1), loginAttempts: 5 }),
+    user({ lockedUntil: hours(-1), loginAttempts: 3 }),
+    user({
+      isEmailVerified: true,
+      passwordResetToken: 'reset-hash',
+      passwordResetTokenExpiresAt: hours(-2),
+    }),
+    user({
+      isEmailVerified: true,
+      passwordResetToken: 'reset-hash',
+      passwordResetTokenExpiresAt: hours(2),
+    }),
+    user({ emailVerificationToken: 'verification-hash' }),
+    user({
+      isEmailVerified: true,
+      emailVerificationToken: 'verification-hash',
+    }),
+  ];
+  const ids = users.map((candidate) => candidate.id);
+
+  const specifications: [string, UserSpecification][] = [
+    ['active', new UserIsActiveSpecification()],
+    ['email verified', new UserIsEmailVerifiedSpecification()],
+    ['not locked', new UserIsNotLockedSpecification()],
+    ['login attempts', new UserLoginAttemptsWithinLimitSpecification(4)],
+    ['recent login', new UserLastLoginRecentSpecification(30)],
+    ['role', new UserHasRoleSpecification(UserRoles.moderator)],
+    ['can moderate', new UserCanModerateSpecification()],
+    [
+      'moderator changing roles',
+      new UserCanChangeRoleSpecification(UserRoles.moderator, moderator),
+    ],
+    ['admin deleting', new UserAccountCanBeDeletedSpecification(admin)],
+    ['guest deleting', new UserAccountCanBeDeletedSpecification(users[2])],
+    ['can reset password', new UserCanResetPasswordSpecification()],
+    [
+      'verification token',
+      new UserEmailVerificationValidSpecification('verification-hash'),
+    ],
+    ['valid for login', new ValidUserForLoginSpecification()],
+    [
+      'composed',
+      new UserIsActiveSpecification()
+        .and(new UserIsEmailVerifiedSpecification().not())
+        .or(new UserHasRoleSpecification(UserRoles.admin)),
+    ],
+    ['negated recent login', new UserLastLoginRecentSpecification(30).not()],
+  ];
+
+  beforeAll(async () => {
+    pool = await createPool(buildTestConnectionUri());
+    repository = new UserRepository(
+      pool,
+      new UserMapper(),
+      new EventEmitter2(),
+    );
+    await inContext(() => repository.insert(users));
+  });
+
+  afterAll(async () => {
+    await pool.query(
+      sql.unsafe`DELETE FROM "users" WHERE id = ANY(${sql.array(ids, 'uuid')})`,
+    );
+    await pool.end();
+  });
+
+  it.each(specifications)(
+    'agrees with the in-memory evaluation: %s',
+    async (_, specification) => {
+      // Arrange
+      const expected = users
+        .filter((candidate) => specification.isSatisfiedBy(candidate))
+        .map((candidate) => candidate.id)
+        .sort();
+
+      // Act
+      const page = await inContext(() =>
+        repository.findBySpecification(specification, {
+          limit: 1000,
+          page: 0,
+          offset: 0,
+          orderBy: { field: 'createdAt', param: 'desc' },
+        }),
+      );
+
+      // Assert
+      const actual = page.data
+        .map((candidate) => candidate.id)
+        .filter((id) => ids.includes(id))
+        .sort();
+      expect(actual).toEqual(expected);
+    },
+  );
+
+  it('rejects specifications that can only be evaluated in memory', () => {
+    // Act
+    const compile = (specification: UserSpecification) => () =>
+      inContext(() => specification.toSql());
+
+    // Assert
+    expect(compile(new UserHasSecurePasswordSpecification())).toThrow(
+      ArgumentInvalidException,
+    );
+    expect(compile(new EligibleForRoleUpgradeSpecification())).toThrow(
+      ArgumentInvalidException,
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { None, Option, Some } from 'oxide.ts';
+import { SagaInstance, SagaStatus, SagaStore } from '@libs/db/sagas';
+
+/** Keeps saga instances in memory, with the semantics of SagaStore */
+export class InMemorySagaStore {
+  readonly instances = new Map<string, SagaInstance<any>>();
+
+  async create<State extends object>(
+    instance: SagaInstance<State>,
+  ): Promise<Option<SagaInstance<State>>> {
+    const exists = [...this.instances.values()].some(
+      (i) => i.type === instance.type && i.key === instance.key,
+    );
+    if (exists) return None;
+    this.instances.set(instance.id, { ...instance });
+    return Some({ ...instance });
+  }
+
+  async findByKey<State extends object>(
+    type: string,
+    key: string,
+  ): Promise<Option<SagaInstance<State>>> {
+    const found = [...this.instances.values()].find(
+      (i) => i.type === type && i.key === key,
+    );
+    return found ? Some({ ...found }) : None;
+  }
+
+  async save<State extends object>(
+    instance: SagaInstance<State>,
+  ): Promise<SagaInstance<State>> {
+    const saved = { ...instance, updatedAt: new Date() };
+    this.instances.set(instance.id, saved);
+    return { ...saved };
+  }
+
+  async claimDue(limit: number, leaseMs: number): Promise<SagaInstance[]> {
+    const now = Date.now();
+    const due = [...this.instances.values()]
+      .filter(
+        (i) =>
+          (i.status === SagaStatus.running ||
+            i.status === SagaStatus.compensating) &&
+          i.nextAttemptAt !== null &&
+          i.nextAttemptAt.getTime() <= now,
+      )
+      .slice(0, limit);
+    for (const instance of due) {
+      instance.nextAttemptAt = new Date(now + leaseMs);
+    }
+    return due.map((i) => ({ ...i }));
+  }
+
+  asStore(): SagaStore {
+    return this as unknown as SagaStore;
+  }
+}
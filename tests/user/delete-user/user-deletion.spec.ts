@@ -0,0 +1,275 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { CommandBus } from '@nestjs/cqrs';
+import { None, Some } from 'oxide.ts';
+import { DatabasePool } from 'slonik';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { AnonymizeUserCommand } from '@modules/user/commands/anonymize-user/anonymize-user.command';
+import { AnonymizeUserService } from '@modules/user/commands/anonymize-user/anonymize-user.service';
+import { UserAnonymizationScheduler } from '@modules/user/commands/anonymize-user/user-anonymization.scheduler';
+import {
+  DeleteUserCommand,
+  DeleteUserService,
+} from '@modules/user/commands/delete-user/delete-user.service';
+import { RestoreUserCommand } from '@modules/user/commands/restore-user/restore-user.command';
+import { RestoreUserService } from '@modules/user/commands/restore-user/restore-user.service';
+import { UserRepository } from '@modules/user/database/user.repository';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { UserDeletedDomainEvent } from '@modules/user/domain/events/user-deleted.domain-event';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import {
+  UserAlreadyAnonymizedError,
+  UserNotDeletedError,
+} from '@modules/user/domain/user.errors';
+import { Address } from '@modules/user/domain/value-objects/address.value-object';
+import { UserMapper } from '@modules/user/user.mapper';
+
+describe('User deletion', () => {
+  let user: UserEntity;
+  let userRepo: {
+    findOneById: jest.Mock;
+    findIdsToAnonymize: jest.Mock;
+    update: jest.Mock;
+    redactEvents: jest.Mock;
+    transaction: jest.Mock;
+  };
+  let transactionWrites: string[];
+  let inTransaction = false;
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  const repository = (): UserRepositoryPort =>
+    userRepo as unknown as UserRepositoryPort;
+
+  const deleteUser = () =>
+    inContext(() =>
+      new DeleteUserService(repository()).execute(
+        new DeleteUserCommand({ userId: user.id }),
+      ),
+    );
+
+  const restoreUser = () =>
+    inContext(() =>
+      new RestoreUserService(repository()).execute(
+        new RestoreUserCommand({ userId: user.id }),
+      ),
+    );
+
+  const anonymizeUser = () =>
+    inContext(() =>
+      new AnonymizeUserService(repository()).execute(
+        new AnonymizeUserCommand({ userId: user.id }),
+      ),
+    );
+
+  beforeEach(() => {
+    user = inContext(() =>
+      UserEntity.createWithAuth({
+        email: 'john@example.com',
+        address: new Address({
+          country: 'England',
+          postalCode: '28566',
+          street: 'Grand Avenue',
+        }),
+        password: 'password-hash',
+      }),
+    );
+    user.clearEvents();
+
+    // Like SqlRepositoryBase, deleted users are found only on request
+    userRepo = {
+      findOneById: jest.fn(
+        async (id: string, options?: { withDeleted?: boolean }) =>
+          id === user.id && (!user.isDeleted || options?.withDeleted)
+            ? Some(user)
+            : None,
+      ),
+      findIdsToAnonymize: jest.fn(async () => [user.id]),
+      update: jest.fn(async () => {
+        if (inTransaction) transactionWrites.push('update');
+      }),
+      redactEvents: jest.fn(async () => {
+        if (inTransaction) transactionWrites.push('redactEvents');
+      }),
+      transaction: jest.fn(async (handler) => {
+        inTransaction = true;
+        try {
+          return await handler();
+        } finally {
+          inTransaction = false;
+        }
+      }),
+    };
+    transactionWrites = [];
+  });
+
+  it('soft deletes a user and records who was deleted', async () => {
+    // Act
+    const result = await deleteUser();
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    expect(user.deletedAt).toBeInstanceOf(Date);
+    expect(userRepo.update).toHaveBeenCalledWith(user);
+    const [event] = user.domainEvents;
+    expect(event).toBeInstanceOf(UserDeletedDomainEvent);
+    expect(event).toMatchObject({ aggregateId: user.id });
+    expect(event).not.toHaveProperty('email');
+  });
+
+  it('does not find a user that is already deleted', async () => {
+    // Arrange
+    await deleteUser();
+
+    // Act
+    const result = await deleteUser();
+
+    // Assert
+    expect(result.isErr()).toBe(true);
+    expect(userRepo.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('restores a deleted user', async () => {
+    // Arrange
+    await deleteUser();
+
+    // Act
+    const result = await restoreUser();
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    expect(user.isDeleted).toBe(false);
+    expect(userRepo.update).toHaveBeenCalledTimes(2);
+  });
+
+  it('restores only deleted users', async () => {
+    // Act
+    const result = await restoreUser();
+
+    // Assert
+    expect(result.isErr()).toBe(true);
+  });
+
+  it('anonymizes personal data of a deleted user', async () => {
+    // Arrange
+    await deleteUser();
+
+    // Act
+    const result = await anonymizeUser();
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    const props = user.getProps();
+    expect(props.email).toBe(`${user.id}@anonymized.invalid`);
+    expect(props.address.unpack()).toEqual({
+      country: 'anonymized',
+      postalCode: 'anonymized',
+      street: 'anonymized',
+    });
+    expect(props.password).toBeUndefined();
+    expect(props.isActive).toBe(false);
+    expect(props.anonymizedAt).toBeInstanceOf(Date);
+    expect(() => user.validate()).not.toThrow();
+  });
+
+  it('redacts the events of the user in the anonymization transaction', async () => {
+    // Arrange
+    await deleteUser();
+    transactionWrites = [];
+
+    // Act
+    await anonymizeUser();
+
+    // Assert
+    expect(userRepo.redactEvents).toHaveBeenCalledWith(user);
+    expect(transactionWrites).toEqual(['update', 'redactEvents']);
+  });
+
+  it('anonymizes only deleted users and cannot restore them afterwards', async () => {
+    // Act
+    const notDeleted = await anonymizeUser();
+    await deleteUser();
+    await anonymizeUser();
+    const restored = await restoreUser();
+
+    // Assert
+    expect(notDeleted.unwrapErr()).toBeInstanceOf(UserNotDeletedError);
+    expect(restored.unwrapErr()).toBeInstanceOf(UserAlreadyAnonymizedError);
+  });
+
+  it('anonymizes users whose retention period is over', async () => {
+    // Arrange
+    const commandBus = {
+      execute: jest.fn((command: AnonymizeUserCommand) =>
+        new AnonymizeUserService(repository()).execute(command),
+      ),
+    };
+    const scheduler = new UserAnonymizationScheduler(
+      repository(),
+      commandBus as unknown as CommandBus,
+    );
+    await deleteUser();
+    const now = new Date('2026-10-18T00:00:00Z');
+
+    // Act
+    const anonymized = await scheduler.anonymizeExpired(now);
+
+    // Assert
+    expect(anonymized).toBe(1);
+    expect(user.isAnonymized).toBe(true);
+    const [deletedBefore] = userRepo.findIdsToAnonymize.mock.calls[0];
+    expect(deletedBefore).toEqual(new Date('2026-09-18T00:00:00Z'));
+  });
+
+  describe('UserRepository', () => {
+    const queries: string[] = [];
+    const values: unknown[][] = [];
+    const pool = {
+      query: jest.fn(async (query: { sql: string; values: unknown[] }) => {
+        queries.push(query.sql);
+        values.push(query.values);
+        return { rowCount: 0, rows: [] };
+      }),
+    };
+    const userRepository = new UserRepository(
+      pool as unknown as DatabasePool,
+      new UserMapper(),
+      new EventEmitter2(),
+    );
+
+    beforeEach(() => {
+      queries.length = 0;
+      values.length = 0;
+    });
+
+    it('skips deleted users unless they are requested', async () => {
+      // Act
+      await inContext(() => userRepository.findOneById(user.id));
+      await inContext(() =>
+        userRepository.findOneById(user.id, { withDeleted: true }),
+      );
+      await inContext(() => userRepository.count());
+
+      // Assert
+      expect(queries[0]).toMatch(/"deletedAt" IS NULL/);
+      expect(queries[1]).not.toMatch(/deletedAt/);
+      expect(queries[2]).toMatch(/WHERE "deletedAt" IS NULL/);
+    });
+
+    it('replaces personal data in the outbox payloads of the user', async () => {
+      // Act
+      await inContext(() => userRepository.redactEvents(user));
+
+      // Assert
+      expect(queries[0]).toMatch(/UPDATE "outbox"/);
+      expect(queries[0]).toMatch(/"aggregateId" = \$slonik_\d+/);
+      expect(values[0]).toEqual(
+        expect.arrayContaining([
+          ['email', 'previousEmail', 'country', 'postalCode', 'street'],
+          'anonymized',
+          user.id,
+        ]),
+      );
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { PERMISSIONS_METADATA_KEY } from '@modules/auth/infrastructure/decorators/auth.metadata';
+import { JwtAuthGuard } from '@modules/auth/infrastructure/guards/jwt-auth.guard';
+import { PermissionsGuard } from '@modules/auth/infrastructure/guards/permissions.guard';
+import { ResourceOwnerGuard } from '@modules/auth/infrastructure/guards/resource-owner.guard';
+import { RolesGuard } from '@modules/auth/infrastructure/guards/roles.guard';
+import { FindUserByIdGraphqlResolver } from '@modules/user/queries/find-user-by-id/find-user-by-id.graphql-resolver';
+import { FindUserByIdHttpController } from '@modules/user/queries/find-user-by-id/find-user-by-id.http.controller';
+
+describe('Find user by id routes', () => {
+  const reflector = new Reflector();
+
+  it.each([
+    ['http', FindUserByIdHttpController.prototype.findById],
+    ['graphql', FindUserByIdGraphqlResolver.prototype.user],
+  ])(
+    'should check permissions and ownership of the %s route after authentication',
+    (_route, handler) => {
+      // Act
+      const guards = reflector.get(GUARDS_METADATA, handler);
+      const permissions = reflector.get(PERMISSIONS_METADATA_KEY, handler);
+
+      // Assert
+      expect(guards).toEqual([
+        JwtAuthGuard,
+        RolesGuard,
+        PermissionsGuard,
+        ResourceOwnerGuard,
+      ]);
+      expect(permissions.permissions).toEqual(['user:read', 'user:read-own']);
+    },
+  );
+});
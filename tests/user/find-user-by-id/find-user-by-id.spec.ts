@@ -0,0 +1,101 @@
+import { DatabasePool } from 'slonik';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { NotFoundException } from '@libs/exceptions';
+import { RoleRepositoryPort } from '@modules/auth/database/role.repository.port';
+import { UserRoles } from '@modules/user/domain/user.types';
+import {
+  FindUserByIdQuery,
+  FindUserByIdQueryHandler,
+} from '@modules/user/queries/find-user-by-id/find-user-by-id.query-handler';
+import { WalletRepositoryPort } from '@modules/wallet/database/wallet.repository.port';
+import { Money } from '@modules/wallet/domain/value-objects/money.value-object';
+import { WalletEntity } from '@modules/wallet/domain/wallet.entity';
+
+describe('FindUserByIdQueryHandler', () => {
+  const userId = '9b4a1d4e-0c1a-4d6f-8f3e-1b2c3d4e5f60';
+  const record = {
+    id: userId,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-02T00:00:00Z'),
+    email: 'john@example.com',
+    country: 'England',
+    postalCode: '28566',
+    street: 'Grand Avenue',
+    role: UserRoles.guest,
+    isActive: true,
+    isEmailVerified: true,
+    lastLoginAt: null,
+  };
+
+  let pool: { maybeOne: jest.Mock };
+  let roleRepo: { findUserRoles: jest.Mock };
+  let walletRepo: { findByUserId: jest.Mock };
+  let handler: FindUserByIdQueryHandler;
+
+  const findUser = () =>
+    RequestContextService.runInContext({ requestId: 'test' }, () =>
+      handler.execute(new FindUserByIdQuery({ userId })),
+    );
+
+  beforeEach(() => {
+    pool = { maybeOne: jest.fn(async () => record) };
+    roleRepo = {
+      findUserRoles: jest.fn(async () => [{ name: 'user' }]),
+    };
+    walletRepo = {
+      findByUserId: jest.fn(
+        async () =>
+          new WalletEntity({
+            id: 'wallet-1',
+            props: { userId, balance: Money.create(4500, 'USD') },
+          }),
+      ),
+    };
+    handler = new FindUserByIdQueryHandler(
+      pool as unknown as DatabasePool,
+      roleRepo as unknown as RoleRepositoryPort,
+      walletRepo as unknown as WalletRepositoryPort,
+    );
+  });
+
+  it('returns the user with roles and a wallet summary', async () => {
+    // Act
+    const result = await findUser();
+
+    // Assert
+    expect(result.unwrap()).toEqual({
+      ...record,
+      roles: ['user'],
+      wallet: {
+        id: 'wallet-1',
+        balance: BigInt(4500),
+        currency: 'USD',
+        isClosed: false,
+      },
+    });
+    expect(roleRepo.findUserRoles).toHaveBeenCalledWith(userId);
+  });
+
+  it('never selects secret columns', async () => {
+    // Act
+    await findUser();
+
+    // Assert
+    const [{ sql }] = pool.maybeOne.mock.calls[0];
+    expect(sql).not.toMatch(/\*/);
+    expect(sql).not.toMatch(/password|Token|lockedUntil/);
+    expect(sql).toMatch(/"deletedAt" IS NULL/);
+  });
+
+  it('returns NotFoundException for unknown or deleted users', async () => {
+    // Arrange
+    pool.maybeOne.mockResolvedValue(null);
+
+    // Act
+    const result = await findUser();
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(NotFoundException);
+    expect(walletRepo.findByUserId).not.toHaveBeenCalled();
+  });
+});
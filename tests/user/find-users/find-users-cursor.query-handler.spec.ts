@@ -0,0 +1,135 @@
+import { DatabasePool } from 'slonik';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { ArgumentInvalidException } from '@libs/exceptions';
+import { encodeCursor } from '@src/libs/db/keyset-pagination';
+import {
+  FindUsersCursorQuery,
+  FindUsersCursorQueryHandler,
+} from '@modules/user/queries/find-users-cursor/find-users-cursor.query-handler';
+
+interface Row {
+  id: string;
+  createdAt: Date;
+}
+
+describe('FindUsersCursorQueryHandler', () => {
+  let handler: FindUsersCursorQueryHandler;
+  let pool: { query: jest.Mock };
+  let table: Row[];
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  /**
+   * Evaluates the keyset condition and order on an in-memory table,
+   * newest first, like the "createdAt" DESC, "id" DESC index
+   */
+  const runQuery = (values: unknown[], sql: string): Row[] => {
+    const key = (row: Row): [number, string] => [
+      row.createdAt.getTime(),
+      row.id,
+    ];
+    const compare = (a: [number, string], b: [number, string]): number =>
+      a[0] - b[0] || a[1].localeCompare(b[1]);
+
+    const limit = values[values.length - 1] as number;
+    // sql.timestamp binds the epoch in seconds, read with to_timestamp()
+    const cursor = values.slice(0, -1) as [string, string] | [];
+    let rows = [...table];
+    if (cursor.length === 2) {
+      const bound: [number, string] = [
+        Math.round(Number(cursor[0]) * 1000),
+        cursor[1],
+      ];
+      const newer = sql.includes(') > (');
+      rows = rows.filter((row) =>
+        newer ? compare(key(row), bound) > 0 : compare(key(row), bound) < 0,
+      );
+    }
+    const ascending = sql.includes('ASC');
+    rows.sort((a, b) => compare(key(a), key(b)) * (ascending ? 1 : -1));
+    return rows.slice(0, limit);
+  };
+
+  const findPage = (props: { after?: string; before?: string }) =>
+    inContext(() =>
+      handler.execute(new FindUsersCursorQuery({ limit: 2, ...props })),
+    );
+
+  const ids = (rows: readonly { id: string }[]): string[] =>
+    rows.map((row) => row.id);
+
+  beforeEach(() => {
+    // Users c and d are created at the same time
+    const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 0, minute));
+    table = [
+      { id: 'a', createdAt: at(1) },
+      { id: 'b', createdAt: at(2) },
+      { id: 'c', createdAt: at(3) },
+      { id: 'd', createdAt: at(3) },
+      { id: 'e', createdAt: at(4) },
+    ];
+    pool = {
+      query: jest.fn(async (query: { sql: string; values: unknown[] }) => {
+        const rows = runQuery(query.values, query.sql);
+        return { rowCount: rows.length, rows };
+      }),
+    };
+    handler = new FindUsersCursorQueryHandler(pool as unknown as DatabasePool);
+  });
+
+  it('returns the newest users first', async () => {
+    // Act
+    const page = (await findPage({})).unwrap();
+
+    // Assert
+    expect(ids(page.data)).toEqual(['e', 'd']);
+    expect(page.prevCursor).toBeNull();
+    expect(page.nextCursor).toBe(encodeCursor(table[3]));
+  });
+
+  it('walks forward and back without skipping users created at the same time', async () => {
+    // Act
+    const first = (await findPage({})).unwrap();
+    const second = (
+      await findPage({ after: first.nextCursor ?? undefined })
+    ).unwrap();
+    const last = (
+      await findPage({ after: second.nextCursor ?? undefined })
+    ).unwrap();
+    const back = (
+      await findPage({ before: last.prevCursor ?? undefined })
+    ).unwrap();
+
+    // Assert
+    expect(ids(second.data)).toEqual(['c', 'b']);
+    expect(ids(last.data)).toEqual(['a']);
+    expect(last.nextCursor).toBeNull();
+    expect(ids(back.data)).toEqual(['c', 'b']);
+    expect(back.nextCursor).toBe(second.nextCursor);
+    expect(back.prevCursor).toBe(second.prevCursor);
+  });
+
+  it('keeps pages stable when users are inserted concurrently', async () => {
+    // Arrange
+    const first = (await findPage({})).unwrap();
+    table.push({ id: 'f', createdAt: new Date(Date.UTC(2026, 0, 1, 1)) });
+
+    // Act
+    const second = (
+      await findPage({ after: first.nextCursor ?? undefined })
+    ).unwrap();
+
+    // Assert
+    expect(ids(second.data)).toEqual(['c', 'b']);
+  });
+
+  it('rejects malformed cursors', async () => {
+    // Act
+    const result = await findPage({ after: 'not-a-cursor' });
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(ArgumentInvalidException);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,35 @@
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { PERMISSIONS_METADATA_KEY } from '@modules/auth/infrastructure/decorators/auth.metadata';
+import { JwtAuthGuard } from '@modules/auth/infrastructure/guards/jwt-auth.guard';
+import { PermissionsGuard } from '@modules/auth/infrastructure/guards/permissions.guard';
+import { RolesGuard } from '@modules/auth/infrastructure/guards/roles.guard';
+import { FindUsersCursorGraphqlResolver } from '@modules/user/queries/find-users-cursor/find-users-cursor.graphql-resolver';
+import { FindUsersCursorHttpController } from '@modules/user/queries/find-users-cursor/find-users-cursor.http.controller';
+import { FindUsersGraphqlResolver } from '@modules/user/queries/find-users/find-users.graphql-resolver';
+import { FindUsersHttpController } from '@modules/user/queries/find-users/find-users.http.controller';
+
+describe('Find users routes', () => {
+  const reflector = new Reflector();
+
+  it.each([
+    ['http', FindUsersHttpController.prototype.findUsers],
+    ['graphql', FindUsersGraphqlResolver.prototype.findUsers],
+    ['cursor http', FindUsersCursorHttpController.prototype.findUsers],
+    [
+      'cursor graphql',
+      FindUsersCursorGraphqlResolver.prototype.usersConnection,
+    ],
+  ])(
+    'should require the user:list permission on the %s route',
+    (_route, handler) => {
+      // Act
+      const guards = reflector.get(GUARDS_METADATA, handler);
+      const permissions = reflector.get(PERMISSIONS_METADATA_KEY, handler);
+
+      // Assert
+      expect(guards).toEqual([JwtAuthGuard, RolesGuard, PermissionsGuard]);
+      expect(permissions.permissions).toEqual(['user:list']);
+    },
+  );
+});
@@ -0,0 +1,107 @@
+import { DatabasePool } from 'slonik';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { ArgumentInvalidException } from '@libs/exceptions';
+import {
+  FindUsersQuery,
+  FindUsersQueryHandler,
+} from '@modules/user/queries/find-users/find-users.query-handler';
+
+describe('FindUsersQueryHandler', () => {
+  let handler: FindUsersQueryHandler;
+  let pool: { query: jest.Mock; oneFirst: jest.Mock };
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  const findUsers = (props: ConstructorParameters<typeof FindUsersQuery>[0]) =>
+    inContext(() => handler.execute(new FindUsersQuery(props)));
+
+  const selectStatement = (): { sql: string; values: unknown[] } => {
+    const [query] = pool.query.mock.calls[0];
+    return { sql: query.sql.replace(/\s+/g, ' '), values: query.values };
+  };
+
+  beforeEach(() => {
+    pool = {
+      query: jest.fn(async () => ({ rowCount: 2, rows: [{}, {}] })),
+      oneFirst: jest.fn(async () => 42),
+    };
+    handler = new FindUsersQueryHandler(pool as unknown as DatabasePool);
+  });
+
+  it('returns the total number of users, not the page size', async () => {
+    // Act
+    const result = await findUsers({ limit: 2 });
+
+    // Assert
+    const paginated = result.unwrap();
+    expect(paginated.count).toBe(42);
+    expect(paginated.data).toHaveLength(2);
+  });
+
+  it('compiles filters to parameterized conditions', async () => {
+    // Act
+    await findUsers({
+      filter: {
+        email: { contains: '50%_off' },
+        createdAt: { gte: '2024-01-01T00:00:00.000Z' },
+        role: { in: 'admin,moderator' },
+        isActive: 'true',
+      },
+    });
+
+    // Assert
+    const { sql, values } = selectStatement();
+    expect(sql).toContain(
+      'WHERE ("email" ILIKE $slonik_1' +
+        ' AND "createdAt" >= to_timestamp($slonik_2)' +
+        ' AND "role" = ANY($slonik_3::"text"[])' +
+        ' AND "isActive" = $slonik_4)',
+    );
+    // sql.timestamp binds the epoch in seconds
+    expect(values.slice(0, 4)).toEqual([
+      '%50\\%\\_off%',
+      String(Date.parse('2024-01-01T00:00:00.000Z') / 1000),
+      ['admin', 'moderator'],
+      true,
+    ]);
+  });
+
+  it('sorts by the requested fields with id as a tie breaker', async () => {
+    // Act
+    await findUsers({ sort: '-createdAt,email' });
+
+    // Assert
+    expect(selectStatement().sql).toContain(
+      'ORDER BY "createdAt" DESC, "email" ASC, "id" ASC',
+    );
+  });
+
+  it('uses orderBy of the paginated query when no sort is given', async () => {
+    // Act
+    await findUsers({ orderBy: { field: 'country', param: 'desc' } });
+
+    // Assert
+    expect(selectStatement().sql).toContain(
+      'ORDER BY "country" DESC, "id" DESC',
+    );
+  });
+
+  it.each([
+    ['an unknown field', { filter: { password: 'secret' } }],
+    [
+      'an operator not allowed on a field',
+      { filter: { isActive: { gt: 'true' } } },
+    ],
+    ['an invalid value', { filter: { createdAt: { lt: 'yesterday' } } }],
+    ['a field that is not sortable', { sort: 'street' }],
+    ['an enum value that does not exist', { filter: { role: 'root' } }],
+  ])('rejects %s', async (_, props) => {
+    // Act
+    const result = await findUsers(props);
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(ArgumentInvalidException);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,67 @@
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import {
+  PERMISSIONS_METADATA_KEY,
+  ROLES_METADATA_KEY,
+} from '@modules/auth/infrastructure/decorators/auth.metadata';
+import { JwtAuthGuard } from '@modules/auth/infrastructure/guards/jwt-auth.guard';
+import { PermissionsGuard } from '@modules/auth/infrastructure/guards/permissions.guard';
+import { ResourceOwnerGuard } from '@modules/auth/infrastructure/guards/resource-owner.guard';
+import { RolesGuard } from '@modules/auth/infrastructure/guards/roles.guard';
+import { ChangeUserEmailGraphqlResolver } from '@modules/user/commands/change-user-email/change-user-email.graphql-resolver';
+import { ChangeUserEmailHttpController } from '@modules/user/commands/change-user-email/change-user-email.http.controller';
+import { ChangeUserRoleGraphqlResolver } from '@modules/user/commands/change-user-role/change-user-role.graphql-resolver';
+import { ChangeUserRoleHttpController } from '@modules/user/commands/change-user-role/change-user-role.http.controller';
+import { UpdateUserAddressGraphqlResolver } from '@modules/user/commands/update-user-address/update-user-address.graphql-resolver';
+import { UpdateUserAddressHttpController } from '@modules/user/commands/update-user-address/update-user-address.http.controller';
+
+describe('Update user routes', () => {
+  const reflector = new Reflector();
+
+  it.each([
+    ['address http', UpdateUserAddressHttpController.prototype.updateAddress],
+    [
+      'address graphql',
+      UpdateUserAddressGraphqlResolver.prototype.updateUserAddress,
+    ],
+    ['email http', ChangeUserEmailHttpController.prototype.changeEmail],
+    ['email graphql', ChangeUserEmailGraphqlResolver.prototype.changeUserEmail],
+  ])(
+    'should check permissions and ownership of the %s route after authentication',
+    (_route, handler) => {
+      // Act
+      const guards = reflector.get(GUARDS_METADATA, handler);
+      const permissions = reflector.get(PERMISSIONS_METADATA_KEY, handler);
+
+      // Assert
+      expect(guards).toEqual([
+        JwtAuthGuard,
+        RolesGuard,
+        PermissionsGuard,
+        ResourceOwnerGuard,
+      ]);
+      expect(permissions.permissions).toEqual([
+        'user:update',
+        'user:update-own',
+      ]);
+    },
+  );
+
+  it.each([
+    ['http', ChangeUserRoleHttpController.prototype.changeRole],
+    ['graphql', ChangeUserRoleGraphqlResolver.prototype.changeUserRole],
+  ])(
+    'should check roles and the role:assign permission of the %s role route',
+    (_route, handler) => {
+      // Act
+      const guards = reflector.get(GUARDS_METADATA, handler);
+      const roles = reflector.get(ROLES_METADATA_KEY, handler);
+      const permissions = reflector.get(PERMISSIONS_METADATA_KEY, handler);
+
+      // Assert
+      expect(guards).toEqual([JwtAuthGuard, RolesGuard, PermissionsGuard]);
+      expect(roles.roles).toEqual(['admin', 'moderator']);
+      expect(permissions.permissions).toEqual(['role:assign']);
+    },
+  );
+});
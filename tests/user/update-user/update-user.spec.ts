@@ -0,0 +1,191 @@
+import { None, Some } from 'oxide.ts';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { ArgumentOutOfRangeException } from '@libs/exceptions';
+import { ChangeUserEmailCommand } from '@modules/user/commands/change-user-email/change-user-email.command';
+import { ChangeUserEmailService } from '@modules/user/commands/change-user-email/change-user-email.service';
+import { ChangeUserRoleCommand } from '@modules/user/commands/change-user-role/change-user-role.command';
+import { ChangeUserRoleService } from '@modules/user/commands/change-user-role/change-user-role.service';
+import { UpdateUserAddressCommand } from '@modules/user/commands/update-user-address/update-user-address.command';
+import { UpdateUserAddressService } from '@modules/user/commands/update-user-address/update-user-address.service';
+import { UserRepositoryPort } from '@modules/user/database/user.repository.port';
+import { UserAddressUpdatedDomainEvent } from '@modules/user/domain/events/user-address-updated.domain-event';
+import { UserEmailChangeRequestedDomainEvent } from '@modules/user/domain/events/user-email-change-requested.domain-event';
+import { UserEmailChangedDomainEvent } from '@modules/user/domain/events/user-email-changed.domain-event';
+import { UserRoleChangedDomainEvent } from '@modules/user/domain/events/user-role-changed.domain-event';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import {
+  UserAlreadyExistsError,
+  UserRoleChangeNotAllowedError,
+} from '@modules/user/domain/user.errors';
+import { UserRoles } from '@modules/user/domain/user.types';
+import { Address } from '@modules/user/domain/value-objects/address.value-object';
+
+describe('Update user', () => {
+  let user: UserEntity;
+  let performer: UserEntity;
+  let userRepo: {
+    findOneById: jest.Mock;
+    existsByEmail: jest.Mock;
+    update: jest.Mock;
+    transaction: jest.Mock;
+  };
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  const repository = (): UserRepositoryPort =>
+    userRepo as unknown as UserRepositoryPort;
+
+  const createUser = (email: string): UserEntity =>
+    inContext(() =>
+      UserEntity.createWithAuth({
+        email,
+        address: new Address({
+          country: 'England',
+          postalCode: '28566',
+          street: 'Grand Avenue',
+        }),
+        password: 'password-hash',
+        isEmailVerified: true,
+      }),
+    );
+
+  const changeRole = (role: UserRoles) =>
+    inContext(() =>
+      new ChangeUserRoleService(repository()).execute(
+        new ChangeUserRoleCommand({
+          userId: user.id,
+          role,
+          performedBy: performer.id,
+        }),
+      ),
+    );
+
+  const changeEmail = (email: string) =>
+    inContext(() =>
+      new ChangeUserEmailService(repository()).execute(
+        new ChangeUserEmailCommand({ userId: user.id, email }),
+      ),
+    );
+
+  beforeEach(() => {
+    user = createUser('john@example.com');
+    performer = createUser('jane@example.com');
+    user.clearEvents();
+
+    const users = [user, performer];
+    userRepo = {
+      findOneById: jest.fn(async (id: string) => {
+        const found = users.find((candidate) => candidate.id === id);
+        return found ? Some(found) : None;
+      }),
+      existsByEmail: jest.fn(async (email: string) =>
+        users.some((candidate) => candidate.email === email),
+      ),
+      update: jest.fn(),
+      transaction: jest.fn((handler) => handler()),
+    };
+  });
+
+  it('updates only the given address fields', async () => {
+    // Act
+    const result = await inContext(() =>
+      new UpdateUserAddressService(repository()).execute(
+        new UpdateUserAddressCommand({ userId: user.id, street: 'Grande Rue' }),
+      ),
+    );
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    expect(user.getProps().address.unpack()).toEqual({
+      country: 'England',
+      postalCode: '28566',
+      street: 'Grande Rue',
+    });
+    expect(userRepo.update).toHaveBeenCalledWith(user);
+    expect(user.domainEvents[0]).toBeInstanceOf(UserAddressUpdatedDomainEvent);
+  });
+
+  it('rejects an invalid address', async () => {
+    // Act
+    const result = await inContext(() =>
+      new UpdateUserAddressService(repository()).execute(
+        new UpdateUserAddressCommand({ userId: user.id, street: 'x' }),
+      ),
+    );
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(ArgumentOutOfRangeException);
+    expect(userRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('lets an admin change the role of a user', async () => {
+    // Arrange
+    inContext(() => {
+      performer.makeAdmin();
+      user.makeModerator();
+    });
+    user.clearEvents();
+
+    // Act
+    const result = await changeRole(UserRoles.guest);
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    expect(user.role).toBe(UserRoles.guest);
+    expect(userRepo.update).toHaveBeenCalledWith(user);
+    const [event] = user.domainEvents;
+    expect(event).toBeInstanceOf(UserRoleChangedDomainEvent);
+    expect(event).toMatchObject({
+      oldRole: UserRoles.moderator,
+      newRole: UserRoles.guest,
+    });
+  });
+
+  it('does not let a moderator grant admin privileges', async () => {
+    // Arrange
+    inContext(() => performer.makeModerator());
+
+    // Act
+    const result = await changeRole(UserRoles.admin);
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(UserRoleChangeNotAllowedError);
+    expect(user.role).toBe(UserRoles.guest);
+    expect(userRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('changes the email only once the new one is verified', async () => {
+    // Act
+    const result = await changeEmail('john@example.org');
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    expect(user.email).toBe('john@example.com');
+    expect(user.pendingEmail).toBe('john@example.org');
+    expect(user.domainEvents[0]).toBeInstanceOf(
+      UserEmailChangeRequestedDomainEvent,
+    );
+
+    inContext(() => {
+      user.generateEmailVerificationToken(
+        'token-hash',
+        new Date(Date.now() + 60 * 1000),
+        'john@example.org',
+      );
+      user.verifyEmail();
+    });
+    expect(user.email).toBe('john@example.org');
+    expect(user.pendingEmail).toBeUndefined();
+    expect(user.domainEvents[1]).toBeInstanceOf(UserEmailChangedDomainEvent);
+  });
+
+  it('does not change the email to one that is already used', async () => {
+    // Act
+    const result = await changeEmail('jane@example.com');
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(UserAlreadyExistsError);
+    expect(user.pendingEmail).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { PolicyRequest } from '@libs/policy';
+import {
+  UserPolicies,
+  UserPrincipal,
+} from '@modules/user/domain/policies/user.policies';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import { Address } from '@modules/user/domain/value-objects/address.value-object';
+
+describe('UserPolicies', () => {
+  const createUser = (
+    country: string,
+    promote?: (user: UserEntity) => void,
+  ): UserEntity =>
+    RequestContextService.runInContext({ requestId: 'test' }, () => {
+      const user = UserEntity.createWithAuth({
+        email: `${country.toLowerCase()}@example.com`,
+        address: new Address({
+          country,
+          postalCode: '28566',
+          street: 'Grand Avenue',
+        }),
+        password: 'password-hash',
+      });
+      promote?.(user);
+      return user;
+    });
+
+  const request = (
+    user: UserEntity,
+    resource: UserEntity,
+  ): PolicyRequest<UserEntity, UserPrincipal> => ({
+    principal: { id: user.id, roles: [], permissions: [], user },
+    action: 'user:deactivate',
+    resource,
+    environment: { now: new Date(), channel: 'http' },
+  });
+
+  describe('deactivate', () => {
+    it('should allow moderators to deactivate guests of their own country', () => {
+      // Arrange
+      const moderator = createUser('England', (user) => user.makeModerator());
+      const guest = createUser('England');
+
+      // Act
+      const decision = UserPolicies.deactivate.evaluate(
+        request(moderator, guest),
+      );
+
+      // Assert
+      expect(decision.allowed).toBe(true);
+    });
+
+    it('should explain why a moderator may not deactivate a guest of another country', () => {
+      // Arrange
+      const moderator = createUser('England', (user) => user.makeModerator());
+      const guest = createUser('France');
+
+      // Act
+      const decision = UserPolicies.deactivate.evaluate(
+        request(moderator, guest),
+      );
+
+      // Assert
+      expect(decision).toMatchObject({
+        policy: 'CAN_DEACTIVATE_USER',
+        allowed: false,
+        because: [
+          { policy: 'USER_CAN_ADMIN', allowed: false },
+          {
+            policy: 'MODERATOR_OF_GUEST_IN_SAME_COUNTRY',
+            allowed: false,
+            because: [
+              { policy: 'PRINCIPAL_IS_MODERATOR', allowed: true },
+              { policy: 'USER_HAS_ROLE', allowed: true },
+              { policy: 'SAME_COUNTRY', allowed: false },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should not allow moderators to deactivate other moderators', () => {
+      // Arrange
+      const moderator = createUser('England', (user) => user.makeModerator());
+      const otherModerator = createUser('England', (user) =>
+        user.makeModerator(),
+      );
+
+      // Act
+      const decision = UserPolicies.deactivate.evaluate(
+        request(moderator, otherModerator),
+      );
+
+      // Assert
+      expect(decision.allowed).toBe(false);
+    });
+
+    it('should allow admins to deactivate any user', () => {
+      // Arrange
+      const admin = createUser('England', (user) => user.makeAdmin());
+      const moderator = createUser('France', (user) => user.makeModerator());
+
+      // Act
+      const decision = UserPolicies.deactivate.evaluate(
+        request(admin, moderator),
+      );
+
+      // Assert
+      expect(decision.allowed).toBe(true);
+    });
+  });
+});
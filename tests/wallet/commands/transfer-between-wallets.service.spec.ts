@@ -0,0 +1,378 @@
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { CommandBus } from '@nestjs/cqrs';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Test, TestingModule } from '@nestjs/testing';
+import { None, Some } from 'oxide.ts';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { SagaManager, SagaStatus } from '@libs/db/sagas';
+import { NotFoundException } from '@libs/exceptions';
+import { WalletTransferSaga } from '@modules/wallet/application/sagas/wallet-transfer.saga';
+import { DepositCommand } from '@modules/wallet/commands/deposit/deposit.command';
+import { DepositService } from '@modules/wallet/commands/deposit/deposit.service';
+import { TransferBetweenWalletsCommand } from '@modules/wallet/commands/transfer-between-wallets/transfer-between-wallets.command';
+import {
+  TransferBetweenWalletsService,
+  WalletTransferStatus,
+} from '@modules/wallet/commands/transfer-between-wallets/transfer-between-wallets.service';
+import { WalletTransactionType } from '@modules/wallet/database/wallet.repository';
+import { WalletCreditedDomainEvent } from '@modules/wallet/domain/events/wallet-credited.domain-event';
+import { WalletDebitedDomainEvent } from '@modules/wallet/domain/events/wallet-debited.domain-event';
+import { Money } from '@modules/wallet/domain/value-objects/money.value-object';
+import { WalletEntity } from '@modules/wallet/domain/wallet.entity';
+import {
+  WalletClosedError,
+  WalletCurrencyMismatchError,
+  WalletExchangeRateNotAvailableError,
+  WalletNotEnoughBalanceError,
+  WalletTransferToSameWalletError,
+} from '@modules/wallet/domain/wallet.errors';
+import { StaticExchangeRateAdapter } from '@modules/wallet/infrastructure/static-exchange-rate.adapter';
+import { WithdrawService } from '@modules/wallet/commands/withdraw/withdraw.service';
+import {
+  EXCHANGE_RATE_PORT,
+  WALLET_REPOSITORY,
+} from '@modules/wallet/wallet.di-tokens';
+import { InMemorySagaStore } from '../../test-utils/mocks/in-memory-saga-store.mock';
+
+describe('TransferBetweenWalletsService', () => {
+  let service: TransferBetweenWalletsService;
+  let sagaStore: InMemorySagaStore;
+  let sagaManager: SagaManager;
+  let walletRepo: {
+    findOneById: jest.Mock;
+    findOneByIdForUpdate: jest.Mock;
+    findLedgerEntryId: jest.Mock;
+    update: jest.Mock;
+    transaction: jest.Mock;
+  };
+  let source: WalletEntity;
+  let target: WalletEntity;
+  let foreign: WalletEntity;
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  const createWallet = (
+    id: string,
+    balance: number,
+    currency = 'USD',
+  ): WalletEntity =>
+    new WalletEntity({
+      id,
+      props: { userId: `user-${id}`, balance: Money.create(balance, currency) },
+    });
+
+  beforeEach(async () => {
+    source = createWallet('wallet-a', 100);
+    target = createWallet('wallet-b', 20);
+    foreign = createWallet('wallet-c', 0, 'EUR');
+
+    const findWallet = jest.fn(async (id: string) => {
+      if (id === source.id) return Some(source);
+      if (id === target.id) return Some(target);
+      if (id === foreign.id) return Some(foreign);
+      return None;
+    });
+    // Ledger entries are the credited and debited events of the wallets
+    const findLedgerEntryId = jest.fn(
+      async (id: string, type: WalletTransactionType, reference: string) => {
+        const wallet = [source, target, foreign].find((w) => w.id === id);
+        const eventType =
+          type === WalletTransactionType.credit
+            ? WalletCreditedDomainEvent
+            : WalletDebitedDomainEvent;
+        const event = wallet?.domainEvents.find(
+          (e) => e instanceof eventType && e.reference === reference,
+        ) as WalletCreditedDomainEvent | WalletDebitedDomainEvent | undefined;
+        return event ? Some(event.transactionId) : None;
+      },
+    );
+    walletRepo = {
+      findOneById: findWallet,
+      findOneByIdForUpdate: findWallet,
+      findLedgerEntryId,
+      update: jest.fn(),
+      transaction: jest.fn((handler) => handler()),
+    };
+
+    // Steps of the transfer saga are run by the actual command handlers
+    const deposit = new DepositService(walletRepo as any);
+    const withdraw = new WithdrawService(walletRepo as any);
+    const commandBus = {
+      execute: (command: unknown) =>
+        command instanceof DepositCommand
+          ? deposit.execute(command)
+          : withdraw.execute(command as any),
+    };
+    const transferSaga = new WalletTransferSaga();
+    sagaStore = new InMemorySagaStore();
+    sagaManager = new SagaManager(
+      sagaStore.asStore(),
+      commandBus as unknown as CommandBus,
+      new EventEmitter2(),
+      {
+        getProviders: () => [{ instance: transferSaga }],
+      } as unknown as DiscoveryService,
+      new MetadataScanner(),
+      new Reflector(),
+      {},
+    );
+    sagaManager.onModuleInit();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransferBetweenWalletsService,
+        { provide: WalletTransferSaga, useValue: transferSaga },
+        { provide: SagaManager, useValue: sagaManager },
+        { provide: WALLET_REPOSITORY, useValue: walletRepo },
+        {
+          provide: EXCHANGE_RATE_PORT,
+          useValue: new StaticExchangeRateAdapter({ USD: '1', EUR: '0.92' }),
+        },
+      ],
+    }).compile();
+
+    service = module.get(TransferBetweenWalletsService);
+  });
+
+  it('moves funds and records matching ledger events on both wallets', async () => {
+    // Arrange
+    const command = inContext(
+      () =>
+        new TransferBetweenWalletsCommand({
+          sourceWalletId: source.id,
+          targetWalletId: target.id,
+          amount: BigInt(30),
+          currency: 'USD',
+        }),
+    );
+
+    // Act
+    const result = await inContext(() => service.execute(command));
+
+    // Assert
+    const { transferId, status } = result.unwrap();
+    expect(status).toBe(WalletTransferStatus.completed);
+    expect(source.balance.amount).toBe(BigInt(70));
+    expect(target.balance.amount).toBe(BigInt(50));
+    expect(walletRepo.transaction).toHaveBeenCalledTimes(2);
+    expect(walletRepo.update).toHaveBeenCalledWith(source);
+    expect(walletRepo.update).toHaveBeenCalledWith(target);
+
+    const [debited] = source.domainEvents;
+    const [credited] = target.domainEvents;
+    expect(debited).toBeInstanceOf(WalletDebitedDomainEvent);
+    expect(credited).toBeInstanceOf(WalletCreditedDomainEvent);
+    expect(debited).toMatchObject({
+      amount: BigInt(30),
+      balance: BigInt(70),
+      reference: transferId,
+    });
+    expect(credited).toMatchObject({
+      amount: BigInt(30),
+      balance: BigInt(50),
+      reference: transferId,
+    });
+  });
+
+  it('reports a transfer as pending and completes it once when a step is retried', async () => {
+    // Arrange
+    // The target is credited but the outcome is lost, e.g. the connection dropped
+    walletRepo.transaction
+      .mockImplementationOnce((handler) => handler())
+      .mockImplementationOnce(async (handler) => {
+        await handler();
+        throw new Error('Connection lost');
+      });
+    const command = inContext(
+      () =>
+        new TransferBetweenWalletsCommand({
+          sourceWalletId: source.id,
+          targetWalletId: target.id,
+          amount: BigInt(30),
+          currency: 'USD',
+        }),
+    );
+
+    // Act
+    const result = await inContext(() => service.execute(command));
+    const [saga] = sagaStore.instances.values();
+    saga.nextAttemptAt = new Date(Date.now() - 1);
+    await sagaManager.resumeDue();
+
+    // Assert
+    expect(result.unwrap()).toEqual({
+      transferId: saga.key,
+      status: WalletTransferStatus.pending,
+    });
+    expect(sagaStore.instances.get(saga.id)?.status).toBe(SagaStatus.completed);
+    expect(source.balance.amount).toBe(BigInt(70));
+    expect(target.balance.amount).toBe(BigInt(50));
+    expect(target.domainEvents).toHaveLength(1);
+  });
+
+  it('does not change any wallet when the source has not enough balance', async () => {
+    // Arrange
+    const command = inContext(
+      () =>
+        new TransferBetweenWalletsCommand({
+          sourceWalletId: source.id,
+          targetWalletId: target.id,
+          amount: BigInt(500),
+          currency: 'USD',
+        }),
+    );
+
+    // Act
+    const result = await inContext(() => service.execute(command));
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(WalletNotEnoughBalanceError);
+    expect(source.balance.amount).toBe(BigInt(100));
+    expect(target.balance.amount).toBe(BigInt(20));
+    expect(walletRepo.update).not.toHaveBeenCalled();
+    const [saga] = sagaStore.instances.values();
+    expect(saga.status).toBe(SagaStatus.compensated);
+  });
+
+  it('refunds the source wallet when the target cannot be credited', async () => {
+    // Arrange
+    inContext(() => target.close());
+    const command = inContext(
+      () =>
+        new TransferBetweenWalletsCommand({
+          sourceWalletId: source.id,
+          targetWalletId: target.id,
+          amount: BigInt(30),
+          currency: 'USD',
+        }),
+    );
+
+    // Act
+    const result = await inContext(() => service.execute(command));
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(WalletClosedError);
+    expect(source.balance.amount).toBe(BigInt(100));
+    expect(target.balance.amount).toBe(BigInt(20));
+    const [debited, refunded] = source.domainEvents;
+    expect(debited).toBeInstanceOf(WalletDebitedDomainEvent);
+    expect(refunded).toBeInstanceOf(WalletCreditedDomainEvent);
+    expect(refunded).toMatchObject({
+      amount: BigInt(30),
+      reference: (debited as WalletDebitedDomainEvent).reference,
+    });
+    const [saga] = sagaStore.instances.values();
+    expect(saga).toMatchObject({
+      status: SagaStatus.compensated,
+      lastError: expect.stringContaining('Step deposit failed'),
+    });
+  });
+
+  it('returns an error when a wallet does not exist', async () => {
+    // Arrange
+    const command = inContext(
+      () =>
+        new TransferBetweenWalletsCommand({
+          sourceWalletId: source.id,
+          targetWalletId: 'missing',
+          amount: BigInt(10),
+          currency: 'USD',
+        }),
+    );
+
+    // Act
+    const result = await inContext(() => service.execute(command));
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(NotFoundException);
+    expect(walletRepo.update).not.toHaveBeenCalled();
+    expect(sagaStore.instances.size).toBe(0);
+  });
+
+  it('rejects transfers to the same wallet', async () => {
+    // Arrange
+    const command = inContext(
+      () =>
+        new TransferBetweenWalletsCommand({
+          sourceWalletId: source.id,
+          targetWalletId: source.id,
+          amount: BigInt(10),
+          currency: 'USD',
+        }),
+    );
+
+    // Act
+    const result = await inContext(() => service.execute(command));
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(WalletTransferToSameWalletError);
+    expect(walletRepo.findOneById).not.toHaveBeenCalled();
+    expect(sagaStore.instances.size).toBe(0);
+  });
+
+  it('converts the credited amount when wallets use different currencies', async () => {
+    // Arrange
+    const command = inContext(
+      () =>
+        new TransferBetweenWalletsCommand({
+          sourceWalletId: source.id,
+          targetWalletId: foreign.id,
+          amount: BigInt(50),
+          currency: 'USD',
+        }),
+    );
+
+    // Act
+    const result = await inContext(() => service.execute(command));
+
+    // Assert
+    expect(result.isOk()).toBe(true);
+    expect(source.balance.amount).toBe(BigInt(50));
+    expect(foreign.balance.amount).toBe(BigInt(46));
+    expect(foreign.balance.currency).toBe('EUR');
+  });
+
+  it('rejects amounts in a currency different from the source wallet', async () => {
+    // Arrange
+    const command = inContext(
+      () =>
+        new TransferBetweenWalletsCommand({
+          sourceWalletId: source.id,
+          targetWalletId: target.id,
+          amount: BigInt(10),
+          currency: 'EUR',
+        }),
+    );
+
+    // Act
+    const result = await inContext(() => service.execute(command));
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(WalletCurrencyMismatchError);
+    expect(walletRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('returns an error when the exchange rate is not available', async () => {
+    // Arrange
+    foreign = createWallet('wallet-c', 0, 'JPY');
+    const command = inContext(
+      () =>
+        new TransferBetweenWalletsCommand({
+          sourceWalletId: source.id,
+          targetWalletId: foreign.id,
+          amount: BigInt(10),
+          currency: 'USD',
+        }),
+    );
+
+    // Act
+    const result = await inContext(() => service.execute(command));
+
+    // Assert
+    expect(result.unwrapErr()).toBeInstanceOf(
+      WalletExchangeRateNotAvailableError,
+    );
+    expect(source.balance.amount).toBe(BigInt(100));
+  });
+});
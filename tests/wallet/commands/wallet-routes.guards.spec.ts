@@ -0,0 +1,89 @@
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import {
+  PERMISSIONS_METADATA_KEY,
+  POLICY_METADATA_KEY,
+  ROLES_METADATA_KEY,
+} from '@modules/auth/infrastructure/decorators/auth.metadata';
+import { JwtAuthGuard } from '@modules/auth/infrastructure/guards/jwt-auth.guard';
+import { PermissionsGuard } from '@modules/auth/infrastructure/guards/permissions.guard';
+import { PolicyGuard } from '@modules/auth/infrastructure/guards/policy.guard';
+import { RolesGuard } from '@modules/auth/infrastructure/guards/roles.guard';
+import { DepositHttpController } from '@modules/wallet/commands/deposit/deposit.http.controller';
+import { TransferBetweenWalletsHttpController } from '@modules/wallet/commands/transfer-between-wallets/transfer-between-wallets.http.controller';
+import { WithdrawHttpController } from '@modules/wallet/commands/withdraw/withdraw.http.controller';
+import { FindWalletTransactionsHttpController } from '@modules/wallet/queries/find-wallet-transactions/find-wallet-transactions.http.controller';
+
+describe('Wallet routes', () => {
+  const reflector = new Reflector();
+
+  const routes: [string, (...args: any[]) => unknown, string[]][] = [
+    ['deposit', DepositHttpController.prototype.deposit, ['wallet:update']],
+    [
+      'transactions',
+      FindWalletTransactionsHttpController.prototype.findWalletTransactions,
+      ['wallet:read', 'wallet:read-own'],
+    ],
+  ];
+
+  it.each(routes)(
+    'should authenticate the caller and check permissions of %s',
+    (_route, handler, expected) => {
+      // Act
+      const guards = reflector.get(GUARDS_METADATA, handler);
+      const permissions = reflector.get(PERMISSIONS_METADATA_KEY, handler);
+
+      // Assert
+      expect(guards).toEqual(
+        expect.arrayContaining([JwtAuthGuard, PermissionsGuard]),
+      );
+      expect(permissions.permissions).toEqual(expected);
+    },
+  );
+
+  it('should let only admins deposit', () => {
+    // Arrange
+    const handler = DepositHttpController.prototype.deposit;
+
+    // Act
+    const guards = reflector.get(GUARDS_METADATA, handler);
+    const roles = reflector.get(ROLES_METADATA_KEY, handler);
+
+    // Assert
+    expect(guards).toContain(RolesGuard);
+    expect(roles.roles).toEqual(['admin']);
+  });
+
+  it.each([
+    ['withdraw', WithdrawHttpController.prototype.withdraw],
+    ['transfer', TransferBetweenWalletsHttpController.prototype.transfer],
+  ])('should let the policy alone decide on %s', (_route, handler) => {
+    // Act
+    const guards = reflector.get(GUARDS_METADATA, handler);
+
+    // Assert
+    expect(guards).toEqual([JwtAuthGuard, PolicyGuard]);
+  });
+
+  it.each([
+    ['withdraw', WithdrawHttpController.prototype.withdraw, 'CAN_WITHDRAW'],
+    [
+      'transfer',
+      TransferBetweenWalletsHttpController.prototype.transfer,
+      'CAN_WITHDRAW',
+    ],
+    [
+      'transactions',
+      FindWalletTransactionsHttpController.prototype.findWalletTransactions,
+      'CAN_READ_WALLET',
+    ],
+  ])('should check the policy of %s', (_route, handler, policy) => {
+    // Act
+    const guards = reflector.get(GUARDS_METADATA, handler);
+    const metadata = reflector.get(POLICY_METADATA_KEY, handler);
+
+    // Assert
+    expect(guards).toContain(PolicyGuard);
+    expect(metadata.policy.name).toBe(policy);
+  });
+});
@@ -0,0 +1,196 @@
+import { DatabasePool, UniqueIntegrityConstraintViolationError } from 'slonik';
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { ConcurrencyConflictException } from '@libs/exceptions';
+import { WalletEventSourcedRepository } from '@modules/wallet/database/wallet.event-sourced-repository';
+import { Money } from '@modules/wallet/domain/value-objects/money.value-object';
+import { WalletEntity } from '@modules/wallet/domain/wallet.entity';
+import { WalletMapper } from '@modules/wallet/wallet.mapper';
+
+type Query = { sql: string; values: any[] };
+
+/**
+ * Keeps event store rows in memory, enough to run
+ * the queries of EventSourcedRepositoryBase
+ */
+class InMemoryEventStore {
+  events: any[] = [];
+  snapshots = new Map<string, any>();
+  queries: Query[] = [];
+
+  transaction = jest.fn((handler: (connection: this) => Promise<unknown>) =>
+    handler(this),
+  );
+
+  query = jest.fn(async (query: Query) => {
+    this.queries.push(query);
+    if (query.sql.includes('INSERT INTO "event_store"')) {
+      this.append(query.values);
+    } else if (query.sql.includes('INSERT INTO "event_store_snapshots"')) {
+      const [streamId, aggregateType, version, state] = query.values;
+      this.snapshots.set(streamId, {
+        streamId,
+        aggregateType,
+        version,
+        state,
+        createdAt: new Date(),
+      });
+    } else if (query.sql.includes('FROM "event_store"')) {
+      const [streamId, , fromVersion] = query.values;
+      return {
+        rows: this.events
+          .filter((e) => e.streamId === streamId && e.version > fromVersion)
+          .sort((a, b) => a.version - b.version),
+      };
+    }
+    return { rows: [], rowCount: 1 };
+  });
+
+  maybeOne = jest.fn(
+    async (query: Query) => this.snapshots.get(query.values[0]) ?? null,
+  );
+
+  private append(values: any[]): void {
+    for (let i = 0; i < values.length; i += 7) {
+      const [streamId, version, aggregateType, eventId, eventName, payload] =
+        values.slice(i, i + 7);
+      if (
+        this.events.some(
+          (e) => e.streamId === streamId && e.version === version,
+        )
+      ) {
+        throw new UniqueIntegrityConstraintViolationError(
+          Object.assign(new Error('duplicate key'), {
+            constraint: 'PK_event_store_stream_version',
+          }),
+        );
+      }
+      this.events.push({
+        streamId,
+        version,
+        aggregateType,
+        eventId,
+        eventName,
+        payload,
+        // sql.timestamp binds the epoch in seconds
+        occurredAt: new Date(Number(values[i + 6]) * 1000),
+        createdAt: new Date(),
+      });
+    }
+  }
+}
+
+describe('WalletEventSourcedRepository', () => {
+  let store: InMemoryEventStore;
+  let repository: WalletEventSourcedRepository;
+
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  const usd = (amount: number): Money => Money.create(amount, 'USD');
+
+  const load = async (id: string): Promise<WalletEntity> =>
+    (await inContext(() => repository.findOneById(id))).unwrap();
+
+  beforeEach(() => {
+    store = new InMemoryEventStore();
+    repository = new WalletEventSourcedRepository(
+      store as unknown as DatabasePool,
+      new WalletMapper(),
+    );
+  });
+
+  it('appends the events of a new wallet and rebuilds it from them', async () => {
+    // Arrange
+    const wallet = inContext(() => WalletEntity.create({ userId: 'user-1' }));
+    inContext(() => wallet.deposit(usd(4500)));
+    inContext(() => wallet.withdraw(usd(500)));
+
+    // Act
+    await inContext(() => repository.insert(wallet));
+    const loaded = await load(wallet.id);
+
+    // Assert
+    expect(store.events.map((e) => [e.version, e.eventName])).toEqual([
+      [1, 'WalletCreatedDomainEvent'],
+      [2, 'WalletCreditedDomainEvent'],
+      [3, 'WalletDebitedDomainEvent'],
+    ]);
+    expect(wallet.domainEvents).toHaveLength(0);
+    expect(loaded.userId).toBe('user-1');
+    expect(loaded.balance.amount).toBe(BigInt(4000));
+    expect(loaded.streamVersion).toBe(3);
+  });
+
+  it('records the events in the outbox within the same transaction', async () => {
+    // Arrange
+    const wallet = inContext(() => WalletEntity.create({ userId: 'user-1' }));
+
+    // Act
+    await inContext(() => repository.insert(wallet));
+
+    // Assert
+    expect(store.transaction).toHaveBeenCalledTimes(1);
+    const inserts = store.queries
+      .map((query) => /INSERT INTO "(\w+)"/.exec(query.sql)?.[1])
+      .filter(Boolean);
+    expect(inserts).toEqual(['event_store', 'outbox', 'event_journal']);
+  });
+
+  it('appends only the new events of a loaded wallet', async () => {
+    // Arrange
+    const wallet = inContext(() => WalletEntity.create({ userId: 'user-1' }));
+    await inContext(() => repository.insert(wallet));
+    const loaded = await load(wallet.id);
+
+    // Act
+    inContext(() => loaded.deposit(usd(100)));
+    inContext(() => loaded.close());
+    await inContext(() => repository.update(loaded));
+    const reloaded = await load(wallet.id);
+
+    // Assert
+    expect(store.events.map((e) => e.version)).toEqual([1, 2, 3]);
+    expect(reloaded.balance.amount).toBe(BigInt(100));
+    expect(reloaded.isClosed).toBe(true);
+  });
+
+  it('rejects changes made to an outdated wallet', async () => {
+    // Arrange
+    const wallet = inContext(() => WalletEntity.create({ userId: 'user-1' }));
+    await inContext(() => repository.insert(wallet));
+    const first = await load(wallet.id);
+    const second = await load(wallet.id);
+    inContext(() => first.deposit(usd(100)));
+    inContext(() => second.deposit(usd(200)));
+    await inContext(() => repository.update(first));
+
+    // Act
+    const update = inContext(() => repository.update(second));
+
+    // Assert
+    await expect(update).rejects.toBeInstanceOf(ConcurrencyConflictException);
+    expect((await load(wallet.id)).balance.amount).toBe(BigInt(100));
+  });
+
+  it('takes snapshots and replays only the events after them', async () => {
+    // Arrange
+    const wallet = inContext(() => WalletEntity.create({ userId: 'user-1' }));
+    for (let i = 0; i < 50; i++) {
+      inContext(() => wallet.deposit(usd(10)));
+    }
+    await inContext(() => repository.insert(wallet));
+    const loaded = await load(wallet.id);
+    inContext(() => loaded.withdraw(usd(5)));
+    await inContext(() => repository.update(loaded));
+
+    // Act
+    const reloaded = await load(wallet.id);
+
+    // Assert
+    expect(store.snapshots.get(wallet.id)).toMatchObject({ version: 51 });
+    const [, , fromVersion] = store.queries[store.queries.length - 1].values;
+    expect(fromVersion).toBe(51);
+    expect(reloaded.balance.amount).toBe(BigInt(495));
+    expect(reloaded.streamVersion).toBe(52);
+  });
+});
@@ -0,0 +1,89 @@
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { ArgumentInvalidException } from '@libs/exceptions';
+import { Money } from '@modules/wallet/domain/value-objects/money.value-object';
+import { StaticExchangeRateAdapter } from '@modules/wallet/infrastructure/static-exchange-rate.adapter';
+
+describe('Money', () => {
+  // Exceptions read the correlation id from the request context
+  const inContext = (callback: () => unknown) => (): unknown =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  it('stores amounts as bigint minor units', () => {
+    const money = Money.create(1050, 'USD');
+
+    expect(money.amount).toBe(BigInt(1050));
+    expect(money.currency).toBe('USD');
+    expect(money.toJSON()).toEqual({ amount: '1050', currency: 'USD' });
+  });
+
+  it('adds and subtracts money of the same currency', () => {
+    const a = Money.create(1000, 'EUR');
+    const b = Money.create(250, 'EUR');
+
+    expect(a.add(b).amount).toBe(BigInt(1250));
+    expect(a.subtract(b).amount).toBe(BigInt(750));
+    expect(b.subtract(a).isNegative()).toBe(true);
+  });
+
+  it('rejects arithmetic between different currencies', () => {
+    const usd = Money.create(1000, 'USD');
+    const eur = Money.create(1000, 'EUR');
+
+    expect(inContext(() => usd.add(eur))).toThrow(ArgumentInvalidException);
+    expect(inContext(() => usd.subtract(eur))).toThrow(
+      ArgumentInvalidException,
+    );
+    expect(inContext(() => usd.isLessThan(eur))).toThrow(
+      ArgumentInvalidException,
+    );
+  });
+
+  it('rejects invalid currency codes and fractional amounts', () => {
+    expect(inContext(() => Money.create(100, 'usd'))).toThrow(
+      ArgumentInvalidException,
+    );
+    expect(inContext(() => Money.create(100, 'ABC'))).toThrow(
+      ArgumentInvalidException,
+    );
+    expect(inContext(() => Money.create(10.5, 'USD'))).toThrow(
+      ArgumentInvalidException,
+    );
+  });
+
+  it('compares money by value', () => {
+    expect(Money.create(100, 'USD').equals(Money.create(100, 'USD'))).toBe(
+      true,
+    );
+    expect(Money.create(100, 'USD').equals(Money.create(100, 'EUR'))).toBe(
+      false,
+    );
+  });
+
+  describe('convert', () => {
+    const rates = new StaticExchangeRateAdapter({
+      USD: '1',
+      EUR: '0.92',
+      JPY: '149.5',
+    });
+
+    it('converts using the minor units of both currencies', async () => {
+      const rate = (await rates.getRate('USD', 'JPY')).unwrap();
+
+      // 10.00 USD -> 1495 JPY (JPY has no minor units)
+      expect(Money.create(1000, 'USD').convert(rate)).toEqual(
+        Money.create(1495, 'JPY'),
+      );
+    });
+
+    it('derives cross rates through the base currency', async () => {
+      const rate = (await rates.getRate('EUR', 'JPY')).unwrap();
+
+      // 1.00 EUR = 149.5 / 0.92 JPY = 162.5 JPY, rounded half away from zero
+      expect(Money.create(100, 'EUR').convert(rate).amount).toBe(BigInt(163));
+    });
+
+    it('returns None for unsupported currencies', async () => {
+      expect((await rates.getRate('USD', 'GBP')).isNone()).toBe(true);
+    });
+  });
+});
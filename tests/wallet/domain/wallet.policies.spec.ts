@@ -0,0 +1,86 @@
+import { RequestContextService } from '@libs/application/context/AppRequestContext';
+import { PolicyRequest } from '@libs/policy';
+import { UserPrincipal } from '@modules/user/domain/policies/user.policies';
+import { UserEntity } from '@modules/user/domain/user.entity';
+import { Address } from '@modules/user/domain/value-objects/address.value-object';
+import { WalletEntity } from '@modules/wallet/domain/wallet.entity';
+import { WalletPolicies } from '@modules/wallet/domain/wallet.policies';
+
+describe('WalletPolicies', () => {
+  const inContext = <T>(callback: () => T): T =>
+    RequestContextService.runInContext({ requestId: 'test' }, callback);
+
+  const createUser = (promote?: (user: UserEntity) => void): UserEntity =>
+    inContext(() => {
+      const user = UserEntity.createWithAuth({
+        email: 'test@example.com',
+        address: new Address({
+          country: 'England',
+          postalCode: '28566',
+          street: 'Grand Avenue',
+        }),
+        password: 'password-hash',
+      });
+      promote?.(user);
+      return user;
+    });
+
+  const request = (
+    user: UserEntity,
+    resource: WalletEntity,
+  ): PolicyRequest<WalletEntity, UserPrincipal> => ({
+    principal: { id: user.id, roles: [], permissions: [], user },
+    action: 'wallet:read',
+    resource,
+    environment: { now: new Date(), channel: 'http' },
+  });
+
+  describe('read', () => {
+    it('should allow the owner to read their wallet', () => {
+      // Arrange
+      const owner = createUser();
+      const wallet = inContext(() => WalletEntity.create({ userId: owner.id }));
+
+      // Act
+      const decision = WalletPolicies.read.evaluate(request(owner, wallet));
+
+      // Assert
+      expect(decision.allowed).toBe(true);
+    });
+
+    it('should allow admins to read any wallet', () => {
+      // Arrange
+      const admin = createUser((user) => user.makeAdmin());
+      const wallet = inContext(() =>
+        WalletEntity.create({ userId: 'user-456' }),
+      );
+
+      // Act
+      const decision = WalletPolicies.read.evaluate(request(admin, wallet));
+
+      // Assert
+      expect(decision.allowed).toBe(true);
+    });
+
+    it('should deny moderators the wallets of other users', () => {
+      // Arrange
+      const moderator = createUser((user) => user.makeModerator());
+      const wallet = inContext(() =>
+        WalletEntity.create({ userId: 'user-456' }),
+      );
+
+      // Act
+      const decision = WalletPolicies.read.evaluate(request(moderator, wallet));
+
+      // Assert
+      expect(decision).toMatchObject({
+        policy: 'CAN_READ_WALLET',
+        allowed: false,
+        because: [
+          { policy: 'PRINCIPAL_OWNS_WALLET', allowed: false },
+          { policy: 'USER_CAN_ADMIN', allowed: false },
+        ],
+      });
+    });
+  });
+});